@@ -0,0 +1,24 @@
+/**
+ * Alert channel interface for delivering monitoring alerts
+ */
+
+import { Alert } from '../core/ServiceMonitor';
+
+export interface AlertNotification {
+  event: 'alert:firing' | 'alert:resolved';
+  project: string;
+  alert: Alert;
+  summary: string;
+}
+
+export interface AlertChannel {
+  /**
+   * Channel name shown in logs
+   */
+  readonly name: string;
+
+  /**
+   * Deliver a notification; rejects when delivery ultimately failed
+   */
+  send(notification: AlertNotification): Promise<void>;
+}
@@ -0,0 +1,47 @@
+/**
+ * E-mail alert channel
+ * Sends a plain-text message through the SMTP server in monitoring.alerts.smtp
+ */
+
+import { AlertChannel, AlertNotification } from './AlertChannel';
+import { SmtpClient, SmtpOptions } from './SmtpClient';
+
+export interface EmailAlertOptions {
+  to: string;
+  from: string;
+  smtp: SmtpOptions;
+}
+
+export class EmailAlertChannel implements AlertChannel {
+  readonly name = 'email';
+  private options: EmailAlertOptions;
+
+  constructor(options: EmailAlertOptions) {
+    this.options = options;
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    const { alert } = notification;
+
+    const details = [
+      notification.summary,
+      '',
+      `Project:   ${notification.project}`,
+      `Service:   ${alert.service}`,
+      `Metric:    ${alert.metric}`,
+      `Value:     ${alert.value.toFixed(1)}%`,
+      `Threshold: ${alert.threshold}%`,
+      `Since:     ${alert.since.toISOString()}`,
+      `Fired at:  ${alert.firedAt.toISOString()}`,
+      ...(alert.resolvedAt ? [`Resolved:  ${alert.resolvedAt.toISOString()}`] : [])
+    ];
+
+    // A fresh client per message: alerts are rare and connections are not worth keeping open
+    await new SmtpClient(this.options.smtp).send({
+      from: this.options.from,
+      to: [this.options.to],
+      subject: `[docker-pilot] ${notification.summary}`,
+      text: details.join('\n')
+    });
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Minimal SMTP client for alert e-mails
+ * Supports implicit TLS, STARTTLS when the server offers it and AUTH PLAIN/LOGIN
+ */
+
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+  timeout?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpClient {
+  private options: SmtpOptions;
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private replies: SmtpReply[] = [];
+  private pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(options: SmtpOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Deliver a message in a single SMTP session
+   */
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.connect();
+      await this.expect(await this.readReply(), [220], 'greeting');
+
+      let capabilities = await this.hello();
+
+      if (!this.options.secure && capabilities.includes('STARTTLS')) {
+        await this.command('STARTTLS', [220]);
+        await this.upgrade();
+        capabilities = await this.hello();
+      }
+
+      if (this.options.username) {
+        await this.authenticate(capabilities);
+      }
+
+      await this.command(`MAIL FROM:<${message.from}>`, [250]);
+      for (const recipient of message.to) {
+        await this.command(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+
+      await this.command('DATA', [354]);
+      await this.command(`${this.formatMessage(message)}\r\n.`, [250]);
+      await this.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      this.close();
+    }
+  }
+
+  /**
+   * Open the connection, with TLS from the start when secure is set
+   */
+  private connect(): Promise<void> {
+    const { host, port, secure } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve())
+        : net.connect({ host, port }, () => resolve());
+
+      socket.once('error', reject);
+      this.attach(socket);
+    });
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS
+   */
+  private upgrade(): Promise<void> {
+    const plain = this.socket!;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.removeAllListeners('timeout');
+
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: this.options.host }, () => resolve());
+      secure.once('error', reject);
+      this.attach(secure);
+    });
+  }
+
+  /**
+   * Wire socket events into the reply queue
+   */
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    this.buffer = '';
+
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.options.timeout ?? 30000);
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.parseReplies();
+    });
+    socket.on('timeout', () => socket.destroy(new Error(`SMTP server ${this.options.host} timed out`)));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed unexpectedly')));
+  }
+
+  /**
+   * Split buffered data into complete (possibly multi-line) replies
+   */
+  private parseReplies(): void {
+    let lines: string[] = [];
+    let consumed = 0;
+    let index: number;
+
+    while ((index = this.buffer.indexOf('\r\n', consumed)) !== -1) {
+      const line = this.buffer.slice(consumed, index);
+      consumed = index + 2;
+      lines.push(line);
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        this.deliver({ code: parseInt(line.slice(0, 3), 10), lines: lines.map(entry => entry.slice(4)) });
+        this.buffer = this.buffer.slice(consumed);
+        consumed = 0;
+        lines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.pending) {
+      const { resolve } = this.pending;
+      this.pending = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+
+    if (this.pending) {
+      const { reject } = this.pending;
+      this.pending = null;
+      reject(this.failure);
+    }
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) {
+      return Promise.resolve(queued);
+    }
+
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+  }
+
+  /**
+   * Send a command and check the reply code
+   */
+  private async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket!.write(`${line}\r\n`);
+    return this.expect(await this.readReply(), expected, line.split(/[\s:]/)[0]!);
+  }
+
+  private expect(reply: SmtpReply, expected: number[], step: string): SmtpReply {
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Send EHLO and return the advertised capabilities
+   */
+  private async hello(): Promise<string[]> {
+    const reply = await this.command(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+    return reply.lines.slice(1).map(line => line.toUpperCase());
+  }
+
+  private async authenticate(capabilities: string[]): Promise<void> {
+    const username = this.options.username!;
+    const password = this.options.password || '';
+    const mechanisms = capabilities.find(line => line.startsWith('AUTH'))?.split(/[\s=]+/).slice(1) || [];
+
+    if (mechanisms.includes('LOGIN') && !mechanisms.includes('PLAIN')) {
+      await this.command('AUTH LOGIN', [334]);
+      await this.command(Buffer.from(username).toString('base64'), [334]);
+      await this.command(Buffer.from(password).toString('base64'), [235]);
+      return;
+    }
+
+    const token = Buffer.from(`\0${username}\0${password}`).toString('base64');
+    await this.command(`AUTH PLAIN ${token}`, [235]);
+  }
+
+  /**
+   * Build the message headers and dot-stuffed body
+   */
+  private formatMessage(message: MailMessage): string {
+    const encodedSubject = /^[\x20-\x7e]*$/.test(message.subject)
+      ? message.subject
+      : `=?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`;
+
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to.join(', ')}`,
+      `Subject: ${encodedSubject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit'
+    ];
+
+    const body = message.text
+      .replace(/\r?\n/g, '\r\n')
+      .split('\r\n')
+      .map(line => (line.startsWith('.') ? `.${line}` : line))
+      .join('\r\n');
+
+    return `${headers.join('\r\n')}\r\n\r\n${body}`;
+  }
+
+  private close(): void {
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.on('error', () => undefined);
+      this.socket.destroy();
+      this.socket = null;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookAlertChannel, WebhookAlertOptions } from './WebhookAlertChannel';
+import { AlertNotification } from './AlertChannel';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const NOTIFICATION: AlertNotification = {
+  event: 'alert:firing',
+  project: 'demo',
+  summary: 'web cpu at 95.0% (threshold 80%)',
+  alert: {
+    id: 'web:cpu',
+    service: 'web',
+    metric: 'cpu',
+    status: 'firing',
+    value: 95,
+    threshold: 80,
+    since: new Date('2024-05-10T10:00:00Z'),
+    firedAt: new Date('2024-05-10T10:01:00Z')
+  }
+};
+
+describe('WebhookAlertChannel', () => {
+  let server: http.Server;
+  let url: string;
+  let requests: ReceivedRequest[];
+  let statuses: number[];
+
+  function createChannel(options: Partial<WebhookAlertOptions> = {}): WebhookAlertChannel {
+    return new WebhookAlertChannel({ url, retries: 3, retryDelay: 1, ...options });
+  }
+
+  beforeEach(async () => {
+    requests = [];
+    statuses = [];
+
+    // Answers with the queued statuses in turn, then 200
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        requests.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+        const status = statuses.shift() ?? 200;
+        res.writeHead(status).end(status === 200 ? '' : `status ${status}`);
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/alerts`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('posts the notification as JSON', async () => {
+    await createChannel().send(NOTIFICATION);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]!.headers).toMatchObject({
+      'content-type': 'application/json',
+      'x-docker-pilot-event': 'alert:firing'
+    });
+    expect(JSON.parse(requests[0]!.body)).toMatchObject({
+      event: 'alert:firing',
+      project: 'demo',
+      summary: NOTIFICATION.summary,
+      alert: { id: 'web:cpu', since: '2024-05-10T10:00:00.000Z' }
+    });
+  });
+
+  it('signs the exact body with HMAC-SHA256 when a secret is set', async () => {
+    await createChannel({ secret: 'shared secret' }).send(NOTIFICATION);
+
+    const { headers, body } = requests[0]!;
+    const expected = crypto.createHmac('sha256', 'shared secret').update(body).digest('hex');
+    expect(headers['x-docker-pilot-signature']).toBe(`sha256=${expected}`);
+  });
+
+  it('sends no signature without a secret', async () => {
+    await createChannel().send(NOTIFICATION);
+
+    expect(requests[0]!.headers['x-docker-pilot-signature']).toBeUndefined();
+  });
+
+  it('retries server errors until one succeeds', async () => {
+    statuses.push(500, 503);
+
+    await createChannel().send(NOTIFICATION);
+
+    expect(requests).toHaveLength(3);
+  });
+
+  it('gives up after the configured retries with the last error', async () => {
+    statuses.push(500, 502, 503);
+
+    await expect(createChannel({ retries: 2 }).send(NOTIFICATION)).rejects.toThrow('Webhook responded with 503: status 503');
+    expect(requests).toHaveLength(3);
+  });
+
+  it('does not retry client errors', async () => {
+    statuses.push(400);
+
+    await expect(createChannel().send(NOTIFICATION)).rejects.toThrow('Webhook responded with 400');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('retries when rate limited', async () => {
+    statuses.push(429);
+
+    await createChannel().send(NOTIFICATION);
+
+    expect(requests).toHaveLength(2);
+  });
+
+  it('retries connection failures', async () => {
+    await new Promise(resolve => server.close(resolve));
+
+    await expect(createChannel({ retries: 1 }).send(NOTIFICATION)).rejects.toThrow(/ECONNREFUSED/);
+
+    // Reopened for afterEach
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+});
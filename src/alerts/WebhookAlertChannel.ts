@@ -0,0 +1,109 @@
+/**
+ * Webhook alert channel
+ * POSTs a JSON payload, retrying transient failures with exponential backoff.
+ * With a secret configured the body is signed with HMAC-SHA256.
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { AlertChannel, AlertNotification } from './AlertChannel';
+
+export interface WebhookAlertOptions {
+  url: string;
+  secret?: string;
+  retries: number;
+  timeout?: number;
+  retryDelay?: number;
+}
+
+interface WebhookResponse {
+  status: number;
+  body: string;
+}
+
+export class WebhookAlertChannel implements AlertChannel {
+  readonly name = 'webhook';
+  private options: WebhookAlertOptions & { timeout: number; retryDelay: number };
+
+  constructor(options: WebhookAlertOptions) {
+    this.options = {
+      timeout: 10000,
+      retryDelay: 1000,
+      ...options
+    };
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    const body = JSON.stringify({
+      event: notification.event,
+      project: notification.project,
+      summary: notification.summary,
+      alert: notification.alert,
+      sentAt: new Date().toISOString()
+    });
+
+    const headers: Record<string, string> = {
+      'content-type': 'application/json',
+      'content-length': String(Buffer.byteLength(body)),
+      'user-agent': 'docker-pilot',
+      'x-docker-pilot-event': notification.event
+    };
+
+    if (this.options.secret) {
+      const signature = crypto.createHmac('sha256', this.options.secret).update(body).digest('hex');
+      headers['x-docker-pilot-signature'] = `sha256=${signature}`;
+    }
+
+    let lastError: Error = new Error('Webhook delivery failed');
+
+    for (let attempt = 0; attempt <= this.options.retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.options.retryDelay * 2 ** (attempt - 1)));
+      }
+
+      try {
+        const response = await this.post(body, headers);
+
+        if (response.status >= 200 && response.status < 300) {
+          return;
+        }
+
+        lastError = new Error(`Webhook responded with ${response.status}${response.body ? `: ${response.body.slice(0, 200)}` : ''}`);
+
+        // Client errors other than rate limiting will not succeed on retry
+        if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+          break;
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Send one POST request
+   */
+  private post(body: string, headers: Record<string, string>): Promise<WebhookResponse> {
+    const url = new URL(this.options.url);
+    const transport = url.protocol === 'http:' ? http : https;
+
+    return new Promise((resolve, reject) => {
+      const req = transport.request(url, { method: 'POST', headers, timeout: this.options.timeout }, response => {
+        const chunks: Buffer[] = [];
+        response.on('data', chunk => chunks.push(chunk as Buffer));
+        response.on('end', () => resolve({
+          status: response.statusCode || 0,
+          body: Buffer.concat(chunks).toString('utf8')
+        }));
+        response.on('error', reject);
+      });
+
+      req.on('timeout', () => req.destroy(new Error(`Webhook timed out after ${this.options.timeout}ms`)));
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Alert delivery channels
+ */
+
+import { AlertsConfig } from '../types';
+import { AlertChannel } from './AlertChannel';
+import { WebhookAlertChannel } from './WebhookAlertChannel';
+import { EmailAlertChannel } from './EmailAlertChannel';
+
+export { AlertChannel, AlertNotification } from './AlertChannel';
+export { WebhookAlertChannel, WebhookAlertOptions } from './WebhookAlertChannel';
+export { EmailAlertChannel, EmailAlertOptions } from './EmailAlertChannel';
+export { SmtpClient, SmtpOptions, MailMessage } from './SmtpClient';
+
+/**
+ * Create the channels configured in monitoring.alerts.
+ * Secrets are read from the environment variables named by webhookSecretEnv and smtp.passwordEnv.
+ */
+export function createAlertChannels(alerts: AlertsConfig): AlertChannel[] {
+  const channels: AlertChannel[] = [];
+
+  if (alerts.webhook) {
+    const secret = process.env[alerts.webhookSecretEnv];
+
+    channels.push(new WebhookAlertChannel({
+      url: alerts.webhook,
+      retries: alerts.webhookRetries,
+      ...(secret && { secret })
+    }));
+  }
+
+  if (alerts.email) {
+    const smtp = alerts.smtp;
+    const username = smtp?.username;
+    const password = process.env[smtp?.passwordEnv || 'DOCKER_PILOT_SMTP_PASSWORD'];
+
+    channels.push(new EmailAlertChannel({
+      to: alerts.email,
+      from: smtp?.from || 'docker-pilot@localhost',
+      smtp: {
+        host: smtp?.host || 'localhost',
+        port: smtp?.port || 25,
+        secure: smtp?.secure || false,
+        ...(username && { username }),
+        ...(password && { password })
+      }
+    }));
+  }
+
+  return channels;
+}
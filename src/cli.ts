@@ -6,7 +6,7 @@
  */
 
 import { DockerPilot } from './core/DockerPilot';
-import { DockerPilotConfig } from './types';
+import { CommandResult, DockerPilotConfig, DevelopmentConfig, DevelopmentConfigSchema, EXIT_CODES } from './types';
 import {
   UpCommand,
   DownCommand,
@@ -20,17 +20,35 @@ import {
   RestartCommand,
   CleanCommand,
   PullCommand,
-  ComposeCommand
+  ComposeCommand,
+  BackupCommand,
+  RestoreCommand,
+  DaemonCommand,
+  VolumeCommand,
+  StatsCommand,
+  DevCommand,
+  MigrateCommand,
+  SeedCommand,
+  PluginCommand,
+  PluginsCommand,
+  CompletionCommand,
+  COMMAND_DEFINITIONS,
+  getCommandFlags
 } from './commands';
 import { Logger } from './utils/Logger';
 import { InteractiveMenu } from './interactive/InteractiveMenu';
 import { I18n } from './utils/i18n';
+import { OutputFormatter, OUTPUT_FORMATS } from './utils/OutputFormatter';
+
+const ENVIRONMENTS = DevelopmentConfigSchema.shape.environment.removeDefault().options;
 
 interface CLIOptions {
   configPath?: string;
   workingDirectory?: string;
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
   silent?: boolean;
+  environment?: string;
+  output?: string;
   help?: boolean;
   version?: boolean;
 }
@@ -40,6 +58,7 @@ class DockerPilotCLI {
   private logger: Logger;
   private commands: Map<string, any> = new Map();
   private i18n: I18n;
+  private formatter: OutputFormatter | null = null;
     constructor() {
     this.logger = new Logger();
     this.i18n = new I18n();
@@ -97,6 +116,7 @@ class DockerPilotCLI {
         configVersion: '1.0',
         services: {},
         plugins: [],
+        pluginConfig: {},
         cli: {
           version: '1.0.0',
           welcomeMessage: 'Welcome to Docker Pilot! 🐳',
@@ -110,6 +130,7 @@ class DockerPilotCLI {
           enabled: false,
           directory: './backups',
           retention: 7,
+          encryptionKeyEnv: 'DOCKER_PILOT_BACKUP_KEY',
           services: {},
           cloud: undefined
         },
@@ -118,8 +139,15 @@ class DockerPilotCLI {
           refreshInterval: 30,
           services: [],
           urls: {},
+          history: {
+            enabled: true,
+            retention: 7
+          },
           alerts: {
             enabled: false,
+            webhookSecretEnv: 'DOCKER_PILOT_WEBHOOK_SECRET',
+            webhookRetries: 3,
+            duration: 60,
             thresholds: {
               cpu: 80,
               memory: 80,
@@ -146,28 +174,45 @@ class DockerPilotCLI {
       logger: this.logger,
       workingDirectory: this.dockerPilot.getWorkingDirectory()
     };    // Register core commands
-    this.commands.set('up', new UpCommand(context));
-    this.commands.set('down', new DownCommand(context));
+    this.commands.set('up', new UpCommand(context, this.dockerPilot.getPluginManager()));
+    this.commands.set('down', new DownCommand(context, this.dockerPilot.getPluginManager()));
     this.commands.set('status', new StatusCommand(context));
     this.commands.set('build', new BuildCommand(context));
     this.commands.set('logs', new LogsCommand(context));
     this.commands.set('exec', new ExecCommand(context));
     this.commands.set('shell', new ShellCommand(context));
     this.commands.set('scale', new ScaleCommand(context));
-    this.commands.set('config', new ConfigCommand(context));
-    this.commands.set('restart', new RestartCommand(context));
+    this.commands.set('config', new ConfigCommand(context, this.dockerPilot.getPluginManager()));
+    this.commands.set('restart', new RestartCommand(context, this.dockerPilot.getPluginManager()));
     this.commands.set('clean', new CleanCommand(context));
     this.commands.set('pull', new PullCommand(context));
     this.commands.set('compose', new ComposeCommand(context));
+    this.commands.set('backup', new BackupCommand(context));
+    this.commands.set('restore', new RestoreCommand(context));
+    this.commands.set('daemon', new DaemonCommand(context, this.dockerPilot));
+    this.commands.set('volume', new VolumeCommand(context));
+    this.commands.set('stats', new StatsCommand(context));
+    this.commands.set('dev', new DevCommand(context));
+    this.commands.set('migrate', new MigrateCommand(context));
+    this.commands.set('seed', new SeedCommand(context));
+    this.commands.set('plugin', new PluginsCommand(context, this.dockerPilot));
+    this.commands.set('completion', new CompletionCommand(context, this.dockerPilot));
 
     // Add aliases
-    this.commands.set('start', this.commands.get('up'));
-    this.commands.set('stop', this.commands.get('down'));
-    this.commands.set('ps', this.commands.get('status'));
-    this.commands.set('sh', this.commands.get('shell'));
-    this.commands.set('bash', this.commands.get('shell'));
-    this.commands.set('log', this.commands.get('logs'));
-    this.commands.set('cleanup', this.commands.get('clean'));
+    for (const definition of COMMAND_DEFINITIONS) {
+      definition.aliases?.forEach(alias => this.commands.set(alias, this.commands.get(definition.name)));
+    }
+
+    // Register plugin commands; built-in commands and aliases always win
+    const pluginManager = this.dockerPilot.getPluginManager();
+    for (const command of pluginManager?.getCommands() || []) {
+      if (this.commands.has(command.name)) {
+        this.logger.warn(this.i18n.t('plugin.command_conflict', { command: command.name, name: command.plugin }));
+        continue;
+      }
+
+      this.commands.set(command.name, new PluginCommand(context, command, pluginManager!));
+    }
 
     this.logger.debug(this.i18n.t('cli.commands_registered', { count: this.commands.size.toString() }));
   }
@@ -183,7 +228,15 @@ class DockerPilotCLI {
 
       if (!arg) continue;
 
-      if (arg === '--help' || arg === '-h') {
+      if (command && arg === '--') {
+        commandArgs.push(...args.slice(i));
+        break;
+      }
+
+      if (command && this.isCommandFlag(command, arg)) {
+        // Flags the command declares are its own, e.g. -v of down or --env of exec
+        commandArgs.push(arg);
+      } else if (arg === '--help' || arg === '-h') {
         options.help = true;
       } else if (arg === '--version' || arg === '-v') {
         options.version = true;      } else if (arg === '--config' && args[i + 1]) {
@@ -192,6 +245,12 @@ class DockerPilotCLI {
       } else if (arg === '--cwd' && args[i + 1]) {
         const nextArg = args[++i];
         if (nextArg) options.workingDirectory = nextArg;
+      } else if (arg === '--env' || arg.startsWith('--env=') || (arg === '-e' && !command)) {
+        const nextArg = arg.startsWith('--env=') ? arg.slice('--env='.length) : args[++i];
+        if (nextArg) options.environment = nextArg;
+      } else if (arg === '--output' || arg.startsWith('--output=')) {
+        const nextArg = arg.startsWith('--output=') ? arg.slice('--output='.length) : args[++i];
+        options.output = nextArg || '';
       } else if (arg === '--log-level' && args[i + 1]) {
         options.logLevel = args[++i] as any;      } else if (arg === '--silent') {
         options.silent = true;
@@ -206,6 +265,20 @@ class DockerPilotCLI {
 
     return { command, commandArgs, options };
   }
+
+  /**
+   * Whether a command declares a flag, by long name or short alias
+   */
+  private isCommandFlag(command: string, arg: string): boolean {
+    const flags = getCommandFlags(command) || [];
+
+    if (arg.startsWith('--')) {
+      const name = arg.substring(2).split('=')[0];
+      return flags.some(flag => flag.name === name);
+    }
+
+    return arg.length === 2 && arg.startsWith('-') && flags.some(flag => flag.alias === arg[1]);
+  }
   /**
    * Show CLI help
    */
@@ -234,6 +307,16 @@ ${this.i18n.t('cli.help.cmd_restart')}
 ${this.i18n.t('cli.help.cmd_pull')}
 ${this.i18n.t('cli.help.cmd_clean')}
 ${this.i18n.t('cli.help.cmd_config')}
+${this.i18n.t('cli.help.cmd_backup')}
+${this.i18n.t('cli.help.cmd_restore')}
+${this.i18n.t('cli.help.cmd_daemon')}
+${this.i18n.t('cli.help.cmd_volume')}
+${this.i18n.t('cli.help.cmd_stats')}
+${this.i18n.t('cli.help.cmd_dev')}
+${this.i18n.t('cli.help.cmd_migrate')}
+${this.i18n.t('cli.help.cmd_seed')}
+${this.i18n.t('cli.help.cmd_plugin')}
+${this.i18n.t('cli.help.cmd_completion')}${this.getPluginCommandsHelp()}
 
 ${this.i18n.t('cli.help.options')}
 ${this.i18n.t('cli.help.opt_help')}
@@ -243,6 +326,8 @@ ${this.i18n.t('cli.help.opt_config')}
 ${this.i18n.t('cli.help.opt_cwd')}
 ${this.i18n.t('cli.help.opt_log_level')}
 ${this.i18n.t('cli.help.opt_silent')}
+${this.i18n.t('cli.help.opt_env')}
+${this.i18n.t('cli.help.opt_output')}
 
 ${this.i18n.t('cli.help.examples')}
 ${this.i18n.t('cli.help.example_interactive')}
@@ -260,11 +345,53 @@ ${this.i18n.t('cli.help.example_restart')}
 ${this.i18n.t('cli.help.example_pull')}
 ${this.i18n.t('cli.help.example_clean')}
 ${this.i18n.t('cli.help.example_config')}
+${this.i18n.t('cli.help.example_backup')}
+${this.i18n.t('cli.help.example_restore')}
+${this.i18n.t('cli.help.example_daemon')}
+${this.i18n.t('cli.help.example_volume')}
+${this.i18n.t('cli.help.example_stats')}
+${this.i18n.t('cli.help.example_dev')}
+${this.i18n.t('cli.help.example_migrate')}
+${this.i18n.t('cli.help.example_plugin')}
+${this.i18n.t('cli.help.example_completion')}
+${this.i18n.t('cli.help.example_output')}
+
+${this.i18n.t('cli.help.exit_codes')}
+${this.i18n.t('cli.help.exit_success')}
+${this.i18n.t('cli.help.exit_failure')}
+${this.i18n.t('cli.help.exit_usage')}
+${this.i18n.t('cli.help.exit_docker')}
+${this.i18n.t('cli.help.exit_cancelled')}
 
 ${this.i18n.t('cli.help.more_info')}
 ${this.i18n.t('cli.help.more_info_cmd')}
 `);
   }
+  /**
+   * Help lines for the commands contributed by plugins
+   */
+  private getPluginCommandsHelp(): string {
+    const pluginCommands = Array.from(this.commands.entries())
+      .filter(([name, command]) => command instanceof PluginCommand && command.name === name);
+
+    if (pluginCommands.length === 0) {
+      return '';
+    }
+
+    const lines = pluginCommands.map(([name, command]) => `  ${name.padEnd(14)} ${command.description}`);
+    return `\n\n${this.i18n.t('cli.help.plugin_commands')}\n${lines.join('\n')}`;
+  }
+
+  /**
+   * Check whether the working directory has a Docker Pilot config
+   */
+  private hasProjectConfig(): boolean {
+    const fs = require('fs');
+    const path = require('path');
+
+    return fs.existsSync(path.join(this.dockerPilot.getWorkingDirectory(), 'docker-pilot.config.json'));
+  }
+
   /**
    * Show version information
    */
@@ -279,11 +406,33 @@ ${this.i18n.t('cli.help.more_info_cmd')}
    * Execute CLI command
    */
   async execute(args: string[] = process.argv.slice(2)): Promise<void> {
+    let command = '';
+
     try {
-      const { command, commandArgs, options } = this.parseArgs(args);
+      const parsed = this.parseArgs(args);
+      const { commandArgs, options } = parsed;
+      command = parsed.command;
+
+      if (options.output !== undefined) {
+        if (!OutputFormatter.isFormat(options.output)) {
+          this.logger.error(this.i18n.t('cli.invalid_output', {
+            format: options.output,
+            formats: OUTPUT_FORMATS.join(', ')
+          }));
+          process.exit(EXIT_CODES.USAGE);
+        }
+
+        // Logs and command output go to stderr, the document alone to stdout
+        this.formatter = new OutputFormatter(options.output);
+        this.formatter.captureStdout();
+      }
 
       // Handle global options that don't require initialization
       if (options.help && !command) {
+        // Plugin commands are only known once an existing project config is loaded
+        if (this.hasProjectConfig()) {
+          await this.initialize(options);
+        }
         this.showHelp();
         return;
       }
@@ -291,20 +440,56 @@ ${this.i18n.t('cli.help.more_info_cmd')}
       if (options.version) {
         this.showVersion();
         return;
+      }
+
+      if (options.environment !== undefined) {
+        if (!(ENVIRONMENTS as readonly string[]).includes(options.environment)) {
+          const error = this.i18n.t('cli.invalid_environment', {
+            environment: options.environment,
+            environments: ENVIRONMENTS.join(', ')
+          });
+          this.logger.error(error);
+          await this.finish(command, { success: false, error, exitCode: EXIT_CODES.USAGE });
+          return;
+        }
+
+        // Nothing is loaded yet, so the profile can still be chosen
+        this.dockerPilot = new DockerPilot({
+          autoLoadConfig: false,
+          environment: options.environment as DevelopmentConfig['environment']
+        });
       }      // Handle no command case - start interactive menu
       if (!command || command === 'interactive') {
+        if (this.formatter) {
+          const error = this.i18n.t('cli.output_requires_command');
+          this.logger.error(error);
+          await this.finish('interactive', { success: false, error, exitCode: EXIT_CODES.USAGE });
+          return;
+        }
+
         await this.smartInitialize(options);
         await this.startInteractiveMenu();
         return;
       }
 
       // Initialize only when we have a command to execute
-      await this.smartInitialize(options);      // Get command instance
+      let completionStdout: typeof process.stdout.write | null = null;
+      if (command === 'completion' && !options.help) {
+        // Runs on every <Tab>: a missing config is not created, and everything
+        // printed goes to stderr; stdout carries only the completions
+        completionStdout = process.stdout.write;
+        process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+        await (this.hasProjectConfig() ? this.initialize(options) : this.registerCommands());
+      } else {
+        await this.smartInitialize(options);
+      }      // Get command instance
       const commandInstance = this.commands.get(command);
       if (!commandInstance) {
-        this.logger.error(this.i18n.t('cli.unknown_command', { command }));
+        const error = this.i18n.t('cli.unknown_command', { command });
+        this.logger.error(error);
         this.logger.info(this.i18n.t('cli.use_help'));
-        process.exit(1);
+        await this.finish(command, { success: false, error, exitCode: EXIT_CODES.USAGE });
+        return;
       }
 
       // Show command help if requested
@@ -313,19 +498,54 @@ ${this.i18n.t('cli.help.more_info_cmd')}
         return;
       }
 
-      // Execute command
-      const result = await commandInstance.execute(commandArgs, options);      if (!result.success) {
-        this.logger.error(this.i18n.t('cli.command_failed', { error: result.error || 'Unknown error' }));
-        process.exit(result.exitCode || 1);
+      // Flags are checked against the command definition before hooks and the command run
+      const usageError = commandInstance.validateOptions(commandArgs);
+      if (usageError) {
+        this.logger.error(usageError);
+        this.logger.info(this.i18n.t('cli.use_command_help', { command }));
+        await this.finish(commandInstance.name, { success: false, error: usageError, exitCode: EXIT_CODES.USAGE });
+        return;
       }
 
-      if (result.executionTime) {
+      // Execute command; hooks see the canonical name, so `stop` is reported as `down`
+      const result = await this.dockerPilot.runWithCommandHooks(commandInstance.name, commandArgs,
+        () => commandInstance.execute(commandArgs, options)
+      );
+
+      if (completionStdout) {
+        process.stdout.write = completionStdout;
+        if (result.success && result.output && !this.formatter) {
+          await new Promise<void>(resolve => process.stdout.write(result.output!, () => resolve()));
+        }
+      }      if (!result.success) {
+        this.logger.error(this.i18n.t('cli.command_failed', { error: result.error || 'Unknown error' }));
+      } else if (result.executionTime) {
         this.logger.debug(this.i18n.t('cli.command_completed', { time: result.executionTime.toString() }));
       }
 
+      await this.finish(commandInstance.name, result);
+
     } catch (error) {
       this.logger.error(this.i18n.t('cli.execution_failed'), error);
-      process.exit(1);
+      await this.finish(command, {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        exitCode: EXIT_CODES.FAILURE
+      });
+    }
+  }
+
+  /**
+   * Print the structured document when --output is set, and exit with the
+   * exit code of a failed result
+   */
+  private async finish(command: string, result: CommandResult): Promise<void> {
+    if (this.formatter) {
+      await this.formatter.write(command, result);
+    }
+
+    if (!result.success) {
+      process.exit(result.exitCode || EXIT_CODES.FAILURE);
     }
   }
 
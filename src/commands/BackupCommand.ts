@@ -0,0 +1,215 @@
+/**
+ * Backup Command - Back up services using the backup configuration
+ */
+
+import * as path from 'path';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
+import { BaseCommand } from './BaseCommand';
+import { BackupManager, BackupRunResult, BackupArchive } from '../core/BackupManager';
+import { FileUtils } from '../utils/FileUtils';
+
+export class BackupCommand extends BaseCommand {
+  private fileUtils: FileUtils;
+
+  constructor(context: CommandContext) {
+    super(
+      'backup',
+      'Back up services defined in backup.services',
+      'docker-pilot backup [run|prune|verify] [service-name...] [options]',
+      context
+    );
+    this.fileUtils = new FileUtils(this.logger);
+  }
+
+  async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
+    const { args: parsedArgs, options: parsedOptions } = this.parseOptions(args);
+    const subcommands = ['run', 'prune', 'verify'];
+    const action = parsedArgs[0] && subcommands.includes(parsedArgs[0]) ? parsedArgs.shift()! : 'run';
+
+    try {
+      const backupManager = this.createBackupManager();
+
+      switch (action) {
+        case 'prune':
+          return await this.pruneBackups(backupManager, parsedArgs[0]);
+
+        case 'verify':
+          return await this.verifyBackups(backupManager, parsedArgs[0], parsedOptions['at']);
+
+        case 'run':
+        default:
+          return await this.runBackups(backupManager, parsedArgs);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(errorMessage);
+      return this.createErrorResult(errorMessage);
+    }
+  }
+
+  /**
+   * Run backups for the given services (all when empty)
+   */
+  private async runBackups(backupManager: BackupManager, serviceNames: string[]): Promise<CommandResult> {
+    for (const serviceName of serviceNames) {
+      if (!backupManager.getBackupServices().includes(serviceName)) {
+        return this.createErrorResult(this.i18n.t('cmd.backup.unknown_service', { service: serviceName }));
+      }
+    }
+
+    if (!(await this.checkDockerAvailable())) {
+      return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
+    }
+
+    const { result: results, executionTime } = await this.measureExecutionTime(async () => {
+      return await backupManager.backupAll(serviceNames);
+    });
+
+    this.showBackupSummary(results);
+
+    const failed = results.filter(result => !result.success);
+    if (failed.length > 0) {
+      return this.createErrorResult(
+        failed.map(result => `${result.service}: ${result.error}`).join('\n'),
+        1,
+        executionTime
+      );
+    }
+
+    return this.createSuccessResult(
+      this.i18n.t('cmd.backup.summary', { succeeded: results.length, failed: 0 }),
+      executionTime,
+      results
+    );
+  }
+
+  /**
+   * Apply the retention policy without taking a new backup
+   */
+  private async pruneBackups(backupManager: BackupManager, serviceName?: string): Promise<CommandResult> {
+    const removed = await backupManager.pruneBackups(serviceName);
+
+    if (removed.length === 0) {
+      this.logger.info(this.i18n.t('cmd.backup.prune_none'));
+    } else {
+      removed.forEach(file => {
+        const display = path.isAbsolute(file) ? path.relative(this.context.workingDirectory, file) : file;
+        this.logger.info(`  🗑️  ${display}`);
+      });
+    }
+
+    return this.createSuccessResult(this.i18n.t('backup.pruned', { count: removed.length }), undefined, { removed });
+  }
+
+  /**
+   * Verify checksums and authenticity of archives without restoring them
+   */
+  private async verifyBackups(backupManager: BackupManager, serviceName?: string, at?: string): Promise<CommandResult> {
+    if (serviceName && !backupManager.getBackupServices().includes(serviceName)) {
+      return this.createErrorResult(this.i18n.t('cmd.backup.unknown_service', { service: serviceName }));
+    }
+
+    let archives: BackupArchive[];
+    if (serviceName && typeof at === 'string') {
+      archives = [await backupManager.resolveArchive(serviceName, at)];
+    } else {
+      archives = await backupManager.listArchives(serviceName);
+    }
+
+    if (archives.length === 0) {
+      this.logger.info(this.i18n.t('cmd.backup.verify_none'));
+      return this.createSuccessResult('', undefined, []);
+    }
+
+    this.logger.loading(this.i18n.t('cmd.backup.verifying', { count: archives.length }));
+
+    const { result: verifications, executionTime } = await this.measureExecutionTime(async () => {
+      const results = [];
+      for (const archive of archives) {
+        results.push(await backupManager.verifyArchive(archive));
+      }
+      return results;
+    });
+
+    verifications.forEach(verification => {
+      const file = path.relative(this.context.workingDirectory, verification.archive.file);
+      const encrypted = verification.encrypted ? ` ${this.i18n.t('cmd.backup.encrypted')}` : '';
+
+      if (verification.valid) {
+        this.logger.info(`  ✅ ${file}${encrypted}`);
+      } else {
+        this.logger.info(`  ❌ ${file}${encrypted}: ${verification.error}`);
+      }
+    });
+
+    const invalid = verifications.filter(verification => !verification.valid);
+    const summary = this.i18n.t('cmd.backup.verify_summary', {
+      valid: verifications.length - invalid.length,
+      invalid: invalid.length
+    });
+    this.logger.info(`\n${summary}`);
+
+    if (invalid.length > 0) {
+      return this.createErrorResult(summary, 1, executionTime);
+    }
+
+    return this.createSuccessResult(summary, executionTime, verifications);
+  }
+
+  /**
+   * Create backup manager from command context
+   */
+  private createBackupManager(): BackupManager {
+    return new BackupManager(this.context.config, {
+      workingDirectory: this.context.workingDirectory,
+      ...(this.context.composeFile && { composeFile: this.context.composeFile })
+    });
+  }
+
+  /**
+   * Show backup summary
+   */
+  private showBackupSummary(results: BackupRunResult[]): void {
+    if (results.length === 0) {
+      return;
+    }
+
+    this.logger.newLine();
+    this.logger.info(this.i18n.t('cmd.backup.title'));
+    this.logger.separator('-', 40);
+
+    results.forEach(result => {
+      if (result.success && result.file) {
+        const file = path.relative(this.context.workingDirectory, result.file);
+        this.logger.info(`  ✅ ${result.service}: ${file} (${this.fileUtils.formatFileSize(result.size || 0)})`);
+      } else {
+        this.logger.info(`  ❌ ${result.service}: ${result.error}`);
+      }
+    });
+
+    const failed = results.filter(result => !result.success).length;
+    this.logger.info(`\n${this.i18n.t('cmd.backup.summary', { succeeded: results.length - failed, failed })}`);
+  }
+
+  protected override showExamples(): void {
+    this.logger.info(`
+Examples:
+  docker-pilot backup                  # Back up every service in backup.services
+  docker-pilot backup postgres redis   # Back up specific services
+  docker-pilot backup prune            # Remove archives past backup.retention days
+  docker-pilot backup verify           # Check checksums and authenticity of every archive
+  docker-pilot backup verify postgres --at 2024-01-31T02-00-00Z
+
+Filename placeholders (backup.services.<name>.filename):
+  {service}     Service name
+  {project}     Project name
+  {date}        Backup date (YYYY-MM-DD)
+  {timestamp}   Backup timestamp, added before the extension when omitted
+
+Encryption (backup.services.<name>.encryption = true):
+  Archives are encrypted with AES-256-GCM and get a .enc suffix. The key is read
+  from backup.encryptionKeyFile when set, otherwise from the environment variable
+  named by backup.encryptionKeyEnv (default DOCKER_PILOT_BACKUP_KEY).
+`);
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { BaseCommand } from './BaseCommand';
+import { LogsCommand } from './LogsCommand';
+import { Logger } from '../utils/Logger';
+import { CommandResult, DockerPilotConfigSchema, UsageError } from '../types';
+
+function createContext() {
+  return {
+    config: DockerPilotConfigSchema.parse({ projectName: 'demo' }),
+    logger: new Logger(),
+    workingDirectory: process.cwd()
+  };
+}
+
+/**
+ * Parses with the flags the command registry declares for the given command name
+ */
+class FlagProbe extends BaseCommand {
+  constructor(name: string) {
+    super(name, 'Flag parsing probe', `docker-pilot ${name}`, createContext());
+  }
+
+  async execute(): Promise<CommandResult> {
+    return this.createSuccessResult();
+  }
+
+  parse(args: string[]) {
+    return this.parseOptions(args);
+  }
+}
+
+function parse(command: string, args: string[]) {
+  return new FlagProbe(command).parse(args);
+}
+
+describe('BaseCommand.parseOptions', () => {
+  it('maps short aliases to the long flag name', () => {
+    expect(parse('exec', ['-u', 'root', 'web', 'id'])).toEqual({ args: ['web', 'id'], options: { user: 'root' } });
+    expect(parse('clean', ['-n'])).toMatchObject({ options: { networks: true } });
+  });
+
+  it('accepts --flag=value and --flag value', () => {
+    expect(parse('logs', ['--tail=50', 'web']).options).toMatchObject({ tail: '50' });
+    expect(parse('logs', ['--tail', '50', 'web'])).toMatchObject({ args: ['web'], options: { tail: '50' } });
+    expect(parse('logs', ['--since=2024-01-01T10:00:00', 'web']).options).toMatchObject({ since: '2024-01-01T10:00:00' });
+  });
+
+  it('accepts a short flag value attached or separate', () => {
+    expect(parse('down', ['-t10']).options).toEqual({ timeout: 10 });
+    expect(parse('down', ['-t', '10']).options).toEqual({ timeout: 10 });
+  });
+
+  it('combines short boolean flags, ending the group at a flag that takes a value', () => {
+    expect(parse('logs', ['-ft', 'web'])).toEqual({ args: ['web'], options: { follow: true, timestamps: true } });
+    expect(parse('exec', ['-itu', 'root', 'web', 'sh']).options).toEqual({ interactive: true, tty: true, user: 'root' });
+  });
+
+  it('does not take the positional after a boolean flag as its value', () => {
+    expect(parse('logs', ['-f', 'web'])).toEqual({ args: ['web'], options: { follow: true } });
+    expect(parse('logs', ['--follow', 'web'])).toEqual({ args: ['web'], options: { follow: true } });
+  });
+
+  it('accepts explicit boolean values', () => {
+    expect(parse('logs', ['--follow=false']).options).toEqual({ follow: false });
+    expect(() => parse('logs', ['--follow=maybe'])).toThrow('Invalid value for --follow: maybe (expected true or false)');
+  });
+
+  it('checks number values', () => {
+    expect(() => parse('down', ['--timeout', 'soon'])).toThrow('Invalid value for --timeout: soon is not a number');
+    expect(() => parse('down', ['--timeout='])).toThrow(UsageError);
+  });
+
+  it('collects flags declared as multiple', () => {
+    expect(parse('exec', ['-e', 'A=1', '--env', 'B=2', '--env=C=3', 'web', 'env']).options).toEqual({ env: ['A=1', 'B=2', 'C=3'] });
+  });
+
+  it('rejects a flag missing its value', () => {
+    expect(() => parse('logs', ['web', '--tail'])).toThrow('Option --tail requires a value');
+    expect(() => parse('exec', ['-u'])).toThrow('Option --user requires a value');
+  });
+
+  it('rejects unknown flags, long and short', () => {
+    expect(() => parse('logs', ['--bogus', 'web'])).toThrow('Unknown option --bogus for logs');
+    expect(() => parse('logs', ['-x', 'web'])).toThrow('Unknown option -x for logs');
+    expect(() => parse('logs', ['-fx', 'web'])).toThrow('Unknown option -x for logs');
+  });
+
+  it('passes negative numbers through as arguments', () => {
+    expect(parse('logs', ['web', '-5']).args).toEqual(['web', '-5']);
+  });
+
+  it('keeps everything after -- as arguments', () => {
+    expect(parse('logs', ['--', '--follow', 'web'])).toEqual({ args: ['--follow', 'web'], options: {} });
+  });
+
+  it('keeps the flags of the container command for commands with raw arguments', () => {
+    expect(parse('exec', ['-u', 'root', 'web', 'ls', '-la', '--color=auto'])).toEqual({
+      args: ['web', 'ls', '-la', '--color=auto'],
+      options: { user: 'root' }
+    });
+  });
+});
+
+describe('BaseCommand.validateOptions', () => {
+  it('returns null for valid arguments and the usage error otherwise', () => {
+    const probe = new FlagProbe('logs');
+
+    expect(probe.validateOptions(['-f', 'web'])).toBeNull();
+    expect(probe.validateOptions(['--bogus'])).toBe('Unknown option --bogus for logs');
+  });
+
+  it('runs the checks a command adds on top of the declared flags', () => {
+    const logs = new LogsCommand(createContext());
+
+    expect(logs.validateOptions(['--tail', 'all', 'web'])).toBeNull();
+    expect(logs.validateOptions(['--tail=100', 'web'])).toBeNull();
+    expect(logs.validateOptions(['--tail', '-1', 'web'])).toMatch(/Invalid value for --tail: -1/);
+    expect(logs.validateOptions(['--tail', 'ten', 'web'])).toMatch(/Invalid value for --tail: ten/);
+  });
+});
@@ -3,9 +3,13 @@
  * Provides common functionality for all commands
  */
 
-import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { CommandResult, CommandOptions, CommandContext, FlagDefinition, UsageError } from '../types';
 import { Logger } from '../utils/Logger';
 import { I18n } from '../utils/i18n';
+import { Confirmation, ConfirmOptions } from '../utils/Confirmation';
+import { ServiceManager } from '../core/ServiceManager';
+import { PluginManager } from '../plugins/PluginManager';
+import { getCommandDefinition, getCommandFlags } from './CommandRegistry';
 
 export abstract class BaseCommand {
   protected logger: Logger;
@@ -54,13 +58,63 @@ export abstract class BaseCommand {
   }
 
   /**
-   * Show help for the command
+   * Show help for the command; subcommands and options come from the command registry
    */
   showHelp(): void {
     this.showUsage();
+    this.showSubcommands();
+    this.showOptions();
     this.showExamples();
   }
 
+  /**
+   * Show the subcommands declared for the command
+   */
+  protected showSubcommands(): void {
+    const subcommands = getCommandDefinition(this.name)?.subcommands || [];
+    if (subcommands.length === 0) {
+      return;
+    }
+
+    const rows = subcommands.map(subcommand => ({
+      label: [subcommand.name, ...(subcommand.aliases || [])].join(', '),
+      description: subcommand.description
+    }));
+    const width = Math.max(...rows.map(row => row.label.length)) + 2;
+
+    this.logger.info(`\n${this.i18n.t('base.subcommands')}:`);
+    rows.forEach(row => this.logger.info(`  ${row.label.padEnd(width)}${row.description}`));
+  }
+
+  /**
+   * Show the options declared for the command
+   */
+  protected showOptions(): void {
+    const flags = getCommandFlags(this.name) || [];
+    if (flags.length === 0) {
+      return;
+    }
+
+    const rows = flags.map(flag => {
+      const value = flag.type === 'boolean'
+        ? ''
+        : ` <${Array.isArray(flag.values) ? flag.values.join('|') : flag.type === 'number' ? 'number' : 'value'}>`;
+      const notes = [
+        ...(flag.default !== undefined ? [this.i18n.t('base.option_default', { value: String(flag.default) })] : []),
+        ...(flag.multiple ? [this.i18n.t('base.option_repeatable')] : [])
+      ];
+
+      return {
+        label: `${flag.alias ? `-${flag.alias}, ` : '    '}--${flag.name}${value}`,
+        description: notes.length > 0 ? `${flag.description} (${notes.join(', ')})` : flag.description
+      };
+    });
+    const width = Math.max(...rows.map(row => row.label.length)) + 2;
+
+    this.logger.info(`\n${this.i18n.t('base.options')}:`);
+    rows.forEach(row => this.logger.info(`  ${row.label.padEnd(width)}${row.description}`));
+  }
+
   /**
    * Show command examples
    * Override this method in subclasses
@@ -92,11 +146,12 @@ export abstract class BaseCommand {
   /**
    * Create successful command result
    */
-  protected createSuccessResult(output?: string, executionTime?: number): CommandResult {
+  protected createSuccessResult(output?: string, executionTime?: number, data?: unknown): CommandResult {
     return {
       success: true,
       ...(output && { output }),
       ...(executionTime && { executionTime }),
+      ...(data !== undefined && { data }),
       exitCode: 0
     };
   }
@@ -121,16 +176,151 @@ export abstract class BaseCommand {
     const result = await operation();
     const executionTime = Date.now() - startTime;
     return { result, executionTime };
+  }
+
+  /**
+   * Resolve with the signal name when the process is asked to stop,
+   * for long-running commands that run until Ctrl+C
+   */
+  protected waitForShutdown(): Promise<string> {
+    return new Promise(resolve => {
+      const onSignal = (signal: NodeJS.Signals) => {
+        process.removeListener('SIGINT', onSignal);
+        process.removeListener('SIGTERM', onSignal);
+        resolve(signal);
+      };
+
+      process.on('SIGINT', onSignal);
+      process.on('SIGTERM', onSignal);
+    });
   }  /**
-   * Parse command options from arguments
-   * Supports both long (--option) and short (-o) option formats
+   * Parse command options from arguments, against the flags the command declares
+   * in the command registry. Options are keyed by their long name, values have
+   * the declared type and defaults are filled in. Unknown flags and invalid
+   * values throw a UsageError.
    * Examples:
    *   --follow
    *   --tail=50
    *   --since 1h
-   *   -f
+   *   -f, -ft (boolean flags combined)
+   *   -- (everything after it is an argument)
    */
   protected parseOptions(args: string[]): { args: string[]; options: Record<string, any> } {
+    const flags = getCommandFlags(this.name);
+    if (!flags) {
+      return this.parseUndeclaredOptions(args);
+    }
+
+    const rawArgsAfter = getCommandDefinition(this.name)?.rawArgsAfter;
+    const options: Record<string, any> = {};
+    const filteredArgs: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i]!;
+
+      if (arg === '--' || (rawArgsAfter !== undefined && filteredArgs.length >= rawArgsAfter)) {
+        filteredArgs.push(...args.slice(arg === '--' ? i + 1 : i));
+        break;
+      }
+
+      if (arg.startsWith('--')) {
+        const separator = arg.indexOf('=');
+        const name = separator === -1 ? arg.substring(2) : arg.substring(2, separator);
+        const inlineValue = separator === -1 ? undefined : arg.substring(separator + 1);
+        const flag = flags.find(candidate => candidate.name === name);
+
+        if (!flag) {
+          throw new UsageError(this.i18n.t('base.unknown_option', { option: `--${name}`, command: this.name }));
+        }
+
+        if (flag.type === 'boolean') {
+          this.setOption(options, flag, inlineValue ?? 'true');
+        } else {
+          this.setOption(options, flag, inlineValue ?? this.requireValue(args[++i], flag));
+        }
+      } else if (arg.startsWith('-') && arg.length > 1 && !/^-\d/.test(arg)) {
+        // One or more short flags; a flag that takes a value ends the group (-t10 or -t 10)
+        for (let j = 1; j < arg.length; j++) {
+          const flag = flags.find(candidate => candidate.alias === arg[j]);
+
+          if (!flag) {
+            throw new UsageError(this.i18n.t('base.unknown_option', { option: `-${arg[j]}`, command: this.name }));
+          }
+
+          if (flag.type === 'boolean') {
+            this.setOption(options, flag, 'true');
+          } else {
+            this.setOption(options, flag, arg.substring(j + 1) || this.requireValue(args[++i], flag));
+            break;
+          }
+        }
+      } else {
+        filteredArgs.push(arg);
+      }
+    }
+
+    flags
+      .filter(flag => flag.default !== undefined && options[flag.name] === undefined)
+      .forEach(flag => {
+        options[flag.name] = flag.default;
+      });
+
+    return { args: filteredArgs, options };
+  }
+
+  /**
+   * Check arguments against the declared flags before the command runs;
+   * returns the usage error, or null when they are valid
+   */
+  validateOptions(args: string[]): string | null {
+    try {
+      this.parseOptions(args);
+      return null;
+    } catch (error) {
+      if (error instanceof UsageError) {
+        return error.message;
+      }
+      throw error;
+    }
+  }
+
+  private requireValue(value: string | undefined, flag: FlagDefinition): string {
+    if (value === undefined) {
+      throw new UsageError(this.i18n.t('base.option_requires_value', { option: `--${flag.name}` }));
+    }
+    return value;
+  }
+
+  /**
+   * Store a flag value with its declared type
+   */
+  private setOption(options: Record<string, any>, flag: FlagDefinition, value: string): void {
+    let parsed: string | number | boolean = value;
+
+    if (flag.type === 'boolean') {
+      if (value !== 'true' && value !== 'false') {
+        throw new UsageError(this.i18n.t('base.invalid_boolean', { option: `--${flag.name}`, value }));
+      }
+      parsed = value === 'true';
+    } else if (flag.type === 'number') {
+      parsed = Number(value);
+      if (value.trim() === '' || Number.isNaN(parsed)) {
+        throw new UsageError(this.i18n.t('base.invalid_number', { option: `--${flag.name}`, value }));
+      }
+    }
+
+    if (flag.multiple) {
+      options[flag.name] = [...(options[flag.name] || []), parsed];
+    } else {
+      options[flag.name] = parsed;
+    }
+  }
+
+  /**
+   * Parse options of commands without a definition in the command registry:
+   * any flag is accepted and a flag followed by an argument takes it as value
+   */
+  private parseUndeclaredOptions(args: string[]): { args: string[]; options: Record<string, any> } {
     const options: Record<string, any> = {};
     const filteredArgs: string[] = [];
 
@@ -168,20 +358,27 @@ export abstract class BaseCommand {
     return { args: filteredArgs, options };
   }
   /**
-   * Confirm destructive action
+   * Confirm a destructive action on the terminal; outside a terminal it is
+   * refused unless assumeYes (--yes) is set. Pass typeToConfirm (the project
+   * name) to require typing it instead of answering y/N.
    */
-  protected async confirmAction(message: string): Promise<boolean> {
-    if (!this.context.config.cli.confirmDestructiveActions) {
-      return true;
-    }    // Show warning message
-    this.logger.warn(message);
-    this.logger.warn(this.i18n.t('base.destructive_warning'));
+  protected async confirmAction(message: string, options: ConfirmOptions = {}): Promise<boolean> {
+    const confirmation = new Confirmation(this.logger, this.i18n, this.context.config.cli.confirmDestructiveActions);
+    return confirmation.confirm(message, options);
+  }
 
-    // In a real CLI environment, this would use readline or inquirer
-    // For now, we'll assume confirmation is given
-    // TODO: Implement proper confirmation input for CLI usage
-    return true;
+  /**
+   * Create a ServiceManager for the project. Given the plugin manager, its
+   * service hooks (beforeServiceStart, ...) run around starts and stops.
+   */
+  protected createServiceManager(pluginManager: PluginManager | null = null): ServiceManager {
+    return new ServiceManager(this.context.config, {
+      workingDirectory: this.context.workingDirectory,
+      ...(this.context.composeFile && { composeFile: this.context.composeFile }),
+      ...(pluginManager && { pluginManager })
+    });
   }
+
   /**
    * Validate service name exists in configuration
    */
@@ -1,5 +1,5 @@
 import { BaseCommand } from './BaseCommand';
-import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
@@ -18,7 +18,7 @@ export class BuildCommand extends BaseCommand {
     const { args: parsedArgs, options: parsedOptions } = this.parseOptions(args);
     const serviceName = parsedArgs[0];    try {
       if (!(await this.checkDockerAvailable())) {
-        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'));
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
       }
 
       // Check if services are configured
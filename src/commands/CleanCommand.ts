@@ -1,5 +1,5 @@
 import { BaseCommand } from './BaseCommand';
-import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
@@ -33,12 +33,12 @@ export class CleanCommand extends BaseCommand {
 
     try {
       if (!(await this.checkDockerAvailable())) {
-        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'));
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
       }
 
-      const isDryRun = parsedOptions['dry-run'] || parsedOptions['n'];
+      const isDryRun = parsedOptions['dry-run'];
       const isDeepClean = parsedOptions['deep'] || parsedOptions['all'];
-      const skipConfirmation = parsedOptions['force'] || parsedOptions['f'];
+      const skipConfirmation = Boolean(parsedOptions['force'] || parsedOptions['yes']);
 
       // Determine what to clean
       const operations = this.getCleanupOperations(parsedOptions);
@@ -48,14 +48,20 @@ export class CleanCommand extends BaseCommand {
         return this.createSuccessResult();
       }
 
-      // Confirm destructive operation (unless --force or dry-run)
-      if (!isDryRun && !skipConfirmation) {
+      // Confirm destructive operation (unless --force or dry-run); removing volumes
+      // requires typing the project name
+      if (!isDryRun) {
         const message = isDeepClean
           ? this.i18n.t('cmd.clean.confirm_deep')
           : this.i18n.t('cmd.clean.confirm');
 
-        if (!(await this.confirmAction(message))) {
-          return this.createSuccessResult(this.i18n.t('cmd.clean.cancelled'));
+        const confirmed = await this.confirmAction(message, {
+          assumeYes: skipConfirmation,
+          ...(operations.has('volumes') && { typeToConfirm: this.context.config.projectName })
+        });
+
+        if (!confirmed) {
+          return this.createErrorResult(this.i18n.t('cmd.clean.cancelled'), EXIT_CODES.CANCELLED);
         }
       }
 
@@ -63,7 +69,7 @@ export class CleanCommand extends BaseCommand {
         this.logger.info(this.i18n.t('cmd.clean.dry_run_mode'));
       }
 
-      this.logger.loading(this.i18n.t('cmd.clean.loading'));      const { executionTime } = await this.measureExecutionTime(async () => {
+      this.logger.loading(this.i18n.t('cmd.clean.loading'));      const { result: results, executionTime } = await this.measureExecutionTime(async () => {
         return await this.executeCleanOperations(operations, isDeepClean, isDryRun);
       });
 
@@ -71,7 +77,8 @@ export class CleanCommand extends BaseCommand {
 
       return this.createSuccessResult(
         this.i18n.t('cmd.cleanup_success'),
-        executionTime
+        executionTime,
+        { dryRun: Boolean(isDryRun), operations: Array.from(operations), results }
       );
 
     } catch (error) {
@@ -87,12 +94,12 @@ export class CleanCommand extends BaseCommand {
   private getCleanupOperations(options: Record<string, any>): Set<string> {
     const operations = new Set<string>();
 
-    if (options['containers'] || options['c']) operations.add('containers');
-    if (options['images'] || options['i']) operations.add('images');
-    if (options['volumes'] || options['v']) operations.add('volumes');
-    if (options['networks'] || options['n']) operations.add('networks');
+    if (options['containers']) operations.add('containers');
+    if (options['images']) operations.add('images');
+    if (options['volumes']) operations.add('volumes');
+    if (options['networks']) operations.add('networks');
     if (options['cache']) operations.add('cache');
-    if (options['all'] || options['a']) {
+    if (options['all']) {
       operations.add('containers');
       operations.add('images');
       operations.add('volumes');
@@ -444,18 +451,8 @@ Examples:
   docker-pilot clean --networks        # Remove unused networks only
   docker-pilot clean --cache           # Clean build cache only
   docker-pilot clean --dry-run         # Show what would be cleaned
-  docker-pilot clean --force           # Skip confirmation prompts
-
-Cleanup Options:
-  -c, --containers    Remove stopped containers
-  -i, --images        Remove unused images
-  -v, --volumes       Remove unused volumes (⚠️  Data loss risk)
-  -n, --networks      Remove unused networks
-      --cache         Clean build cache
-  -a, --all           Clean everything
-      --deep          Deep cleanup (includes tagged images)
-      --dry-run       Show what would be cleaned without doing it
-  -f, --force         Skip confirmation prompts
+  docker-pilot clean --force           # Skip confirmation prompts (also --yes)
+  docker-pilot clean -cn               # Stopped containers and unused networks
 `);
   }
 }
@@ -0,0 +1,326 @@
+/**
+ * Command Registry - Definitions of the built-in commands
+ * Names, aliases, subcommands and flags of every command, and what their
+ * arguments complete to; the CLI aliases, option parsing, command help and
+ * shell completion come from here
+ */
+
+import { CommandDefinition, DevelopmentConfigSchema, FlagDefinition } from '../types';
+
+const YES_FLAG: FlagDefinition = { name: 'yes', alias: 'y', type: 'boolean', description: 'Skip the confirmation prompt' };
+
+export const GLOBAL_FLAGS: FlagDefinition[] = [
+  { name: 'help', alias: 'h', type: 'boolean', description: 'Show help' },
+  { name: 'version', alias: 'v', type: 'boolean', description: 'Show version' },
+  { name: 'interactive', alias: 'i', type: 'boolean', description: 'Start the interactive menu' },
+  { name: 'config', type: 'string', description: 'Configuration file', values: 'file' },
+  { name: 'cwd', type: 'string', description: 'Working directory', values: 'directory' },
+  { name: 'log-level', type: 'string', description: 'Log level', values: ['debug', 'info', 'warn', 'error'] },
+  { name: 'silent', type: 'boolean', description: 'Suppress output' },
+  {
+    name: 'env',
+    type: 'string',
+    description: 'Environment profile',
+    values: DevelopmentConfigSchema.shape.environment.removeDefault().options
+  },
+  { name: 'output', type: 'string', description: 'Print the result as a json or yaml document', values: ['json', 'yaml'] }
+];
+
+export const COMMAND_DEFINITIONS: CommandDefinition[] = [
+  {
+    name: 'up',
+    aliases: ['start'],
+    description: 'Start all services or a specific service',
+    args: 'service',
+    flags: [
+      { name: 'build', alias: 'b', type: 'boolean', description: 'Build images before starting' },
+      { name: 'detach', type: 'boolean', description: 'Run in the background (--detach=false for the foreground)', default: true },
+      { name: 'force-recreate', type: 'boolean', description: 'Recreate containers even if unchanged' },
+      { name: 'no-deps', type: 'boolean', description: 'Do not start linked services' },
+      { name: 'remove-orphans', type: 'boolean', description: 'Remove containers of services not in the compose file' },
+      { name: 'scale', type: 'string', description: 'Number of containers of a service (service=replicas)' }
+    ]
+  },
+  {
+    name: 'down',
+    aliases: ['stop'],
+    description: 'Stop all services or a specific service',
+    args: 'service',
+    flags: [
+      { name: 'volumes', alias: 'v', type: 'boolean', description: 'Remove volumes (data loss)' },
+      { name: 'remove-orphans', type: 'boolean', description: 'Remove containers of services not in the compose file' },
+      { name: 'rmi', type: 'string', description: 'Remove images used by services', values: ['all', 'local'] },
+      { name: 'timeout', alias: 't', type: 'number', description: 'Shutdown timeout in seconds' },
+      YES_FLAG
+    ]
+  },
+  {
+    name: 'status',
+    aliases: ['ps'],
+    description: 'Show status of all services or a specific service',
+    args: 'service',
+    flags: [
+      { name: 'detailed', type: 'boolean', description: 'Show detailed information (ports, uptime, image)' },
+      { name: 'json', type: 'boolean', description: 'Output status in JSON format' }
+    ]
+  },
+  {
+    name: 'build',
+    description: 'Build or rebuild services',
+    args: 'service',
+    flags: [
+      { name: 'no-cache', type: 'boolean', description: 'Build without using cache' },
+      { name: 'pull', type: 'boolean', description: 'Pull latest images before building' },
+      { name: 'parallel', type: 'boolean', description: 'Build services in parallel' },
+      { name: 'quiet', type: 'boolean', description: 'Suppress build output' },
+      { name: 'memory', type: 'string', description: 'Memory limit for the build (e.g. 2g)' },
+      { name: 'force', type: 'boolean', description: 'Force remove intermediate containers' }
+    ]
+  },
+  {
+    name: 'logs',
+    aliases: ['log'],
+    description: 'View output from containers',
+    args: 'service',
+    flags: [
+      { name: 'follow', alias: 'f', type: 'boolean', description: 'Follow log output' },
+      { name: 'tail', type: 'string', description: 'Number of lines to show, or all', values: ['all'] },
+      { name: 'since', type: 'string', description: 'Show logs since a timestamp or duration (e.g. 2h)' },
+      { name: 'until', type: 'string', description: 'Show logs until a timestamp or duration' },
+      { name: 'timestamps', alias: 't', type: 'boolean', description: 'Show timestamps' }
+    ]
+  },
+  {
+    name: 'exec',
+    description: 'Execute a command in a running container',
+    args: 'service',
+    flags: [
+      { name: 'user', alias: 'u', type: 'string', description: 'User to run the command as' },
+      { name: 'workdir', alias: 'w', type: 'string', description: 'Working directory inside the container' },
+      { name: 'env', alias: 'e', type: 'string', description: 'Environment variable (KEY=value)', multiple: true },
+      { name: 'detach', type: 'boolean', description: 'Run the command in the background' },
+      { name: 'interactive', alias: 'i', type: 'boolean', description: 'Keep stdin open (default for shells)' },
+      { name: 'tty', alias: 't', type: 'boolean', description: 'Allocate a terminal (default for shells)' }
+    ],
+    rawArgsAfter: 1
+  },
+  {
+    name: 'shell',
+    aliases: ['sh', 'bash'],
+    description: 'Open an interactive shell in a container',
+    args: 'service',
+    flags: [
+      { name: 'shell', type: 'string', description: 'Shell to use (default: /bin/bash)', values: ['bash', 'sh', 'zsh', 'ash'] },
+      { name: 'user', alias: 'u', type: 'string', description: 'User to run the shell as' },
+      { name: 'workdir', alias: 'w', type: 'string', description: 'Working directory' },
+      { name: 'env', alias: 'e', type: 'string', description: 'Environment variable (KEY=value)', multiple: true }
+    ]
+  },
+  {
+    name: 'scale',
+    description: 'Set number of containers to run for a service',
+    args: 'service',
+    flags: [
+      { name: 'recreate', type: 'boolean', description: 'Recreate the containers' },
+      { name: 'timeout', type: 'number', description: 'Timeout in seconds' }
+    ]
+  },
+  {
+    name: 'restart',
+    description: 'Restart services',
+    args: 'service',
+    flags: [
+      { name: 'timeout', alias: 't', type: 'number', description: 'Shutdown timeout in seconds' },
+      { name: 'no-deps', type: 'boolean', description: 'Do not restart linked services' }
+    ]
+  },
+  {
+    name: 'pull',
+    description: 'Pull service images from registry',
+    args: 'service',
+    flags: [
+      { name: 'quiet', alias: 'q', type: 'boolean', description: 'Suppress output' },
+      { name: 'parallel', type: 'boolean', description: 'Pull images in parallel' },
+      { name: 'ignore-pull-failures', type: 'boolean', description: 'Continue if some images fail to pull' },
+      { name: 'include-deps', type: 'boolean', description: 'Also pull images of dependencies' }
+    ]
+  },
+  {
+    name: 'clean',
+    aliases: ['cleanup'],
+    description: 'Clean Docker resources (containers, images, volumes, networks)',
+    flags: [
+      { name: 'containers', alias: 'c', type: 'boolean', description: 'Remove stopped containers' },
+      { name: 'images', alias: 'i', type: 'boolean', description: 'Remove unused images' },
+      { name: 'volumes', alias: 'v', type: 'boolean', description: 'Remove unused volumes (data loss)' },
+      { name: 'networks', alias: 'n', type: 'boolean', description: 'Remove unused networks' },
+      { name: 'cache', type: 'boolean', description: 'Clean build cache' },
+      { name: 'all', alias: 'a', type: 'boolean', description: 'Clean everything' },
+      { name: 'deep', type: 'boolean', description: 'Deep cleanup (includes tagged images)' },
+      { name: 'dry-run', type: 'boolean', description: 'Show what would be cleaned without doing it' },
+      { name: 'force', alias: 'f', type: 'boolean', description: 'Skip confirmation prompts' },
+      YES_FLAG
+    ]
+  },
+  {
+    name: 'config',
+    description: 'View and manage Docker Pilot configuration',
+    subcommands: [
+      {
+        name: 'show',
+        aliases: ['view'],
+        description: 'Display the configuration',
+        flags: [{ name: 'json', type: 'boolean', description: 'Display the configuration as JSON' }]
+      },
+      { name: 'validate', aliases: ['check'], description: 'Validate the configuration' },
+      {
+        name: 'init',
+        aliases: ['create'],
+        description: 'Create a configuration file',
+        flags: [
+          { name: 'name', type: 'string', description: 'Project name' },
+          { name: 'force', alias: 'f', type: 'boolean', description: 'Overwrite the existing configuration' },
+          { name: 'quiet', type: 'boolean', description: 'Do not show the created configuration' }
+        ]
+      },
+      { name: 'path', description: 'Show the configuration file path' },
+      { name: 'edit', description: 'Show how to edit the configuration' }
+    ],
+    flags: []
+  },
+  {
+    name: 'compose',
+    description: 'Enhanced Docker Compose file management',
+    subcommands: [
+      {
+        name: 'list',
+        aliases: ['ls'],
+        description: 'List compose files with details',
+        args: 'directory',
+        flags: [
+          { name: 'variants', alias: 'v', type: 'boolean', description: 'Include environment variants' },
+          { name: 'depth', type: 'number', description: 'Maximum search depth', default: 6 }
+        ]
+      },
+      { name: 'find', aliases: ['search'], description: 'Find compose files', args: 'directory' },
+      { name: 'analyze', aliases: ['info'], description: 'Analyze a compose file', args: 'file' },
+      { name: 'validate', description: 'Validate a compose file', args: 'file' },
+      { name: 'services', description: 'List the services of a compose file', args: 'file' }
+    ],
+    flags: []
+  },
+  {
+    name: 'backup',
+    description: 'Back up services defined in backup.services',
+    args: 'service',
+    subcommands: [
+      { name: 'run', description: 'Back up services', args: 'service' },
+      { name: 'prune', description: 'Remove archives past backup.retention', args: 'service' },
+      { name: 'verify', description: 'Check the integrity of archives', args: 'service' }
+    ],
+    flags: [
+      { name: 'at', type: 'string', description: 'Archive timestamp (verify)' }
+    ]
+  },
+  {
+    name: 'restore',
+    description: 'Restore a service from a backup archive',
+    args: 'service',
+    subcommands: [
+      { name: 'list', description: 'Show the backup catalog' }
+    ],
+    flags: [
+      { name: 'at', type: 'string', description: 'Newest archive at or before a timestamp' },
+      YES_FLAG
+    ]
+  },
+  {
+    name: 'daemon',
+    description: 'Run scheduled tasks (backups, alerting) in the foreground',
+    flags: [
+      { name: 'metrics-port', type: 'number', description: 'Serve Prometheus metrics on this port' },
+      { name: 'metrics-host', type: 'string', description: 'Address the metrics server listens on', default: '127.0.0.1' }
+    ]
+  },
+  {
+    name: 'volume',
+    description: 'Snapshot, restore and clone Docker volumes',
+    subcommands: [
+      { name: 'list', description: 'Volumes from config and the compose project' },
+      { name: 'snapshot', description: 'Snapshot a volume' },
+      { name: 'snapshots', description: 'List the snapshots of a volume' },
+      { name: 'restore', description: 'Restore a volume from a snapshot' },
+      { name: 'clone', description: 'Copy a volume into another' }
+    ],
+    flags: [
+      { name: 'at', type: 'string', description: 'Newest snapshot at or before a timestamp' },
+      YES_FLAG
+    ]
+  },
+  {
+    name: 'stats',
+    description: 'Show resource usage of services, live or from the recorded history',
+    args: 'service',
+    flags: [
+      { name: 'history', type: 'string', description: 'Show the recorded history for a duration', values: ['1h', '6h', '24h', '7d'] }
+    ]
+  },
+  {
+    name: 'dev',
+    description: 'Watch files and rebuild or restart the services they belong to',
+    flags: [
+      { name: 'debounce', type: 'number', description: 'Milliseconds of quiet before acting' }
+    ]
+  },
+  {
+    name: 'migrate',
+    description: 'Run database migrations of services',
+    args: 'service',
+    flags: []
+  },
+  {
+    name: 'seed',
+    description: 'Seed databases of services with development data',
+    args: 'service',
+    flags: []
+  },
+  {
+    name: 'plugin',
+    description: 'List, inspect, enable, disable and reload plugins',
+    subcommands: [
+      { name: 'list', aliases: ['ls'], description: 'Loaded plugins and the ones that failed to load' },
+      { name: 'info', description: 'Show a plugin' },
+      { name: 'enable', description: 'Load a plugin and add it to the config' },
+      { name: 'disable', description: 'Unload a plugin and remove it from the config' },
+      { name: 'reload', description: 'Reload a plugin from disk' }
+    ],
+    flags: []
+  },
+  {
+    name: 'completion',
+    description: 'Generate shell completion scripts',
+    args: ['bash', 'zsh', 'fish'],
+    flags: []
+  }
+];
+
+/**
+ * Find a command definition by name or alias
+ */
+export function getCommandDefinition(name: string): CommandDefinition | undefined {
+  return COMMAND_DEFINITIONS.find(definition => definition.name === name || definition.aliases?.includes(name));
+}
+
+/**
+ * Flags a command accepts, its own and those of its subcommands; undefined for
+ * commands without a definition (plugin commands)
+ */
+export function getCommandFlags(name: string): FlagDefinition[] | undefined {
+  const definition = getCommandDefinition(name);
+  if (!definition) {
+    return undefined;
+  }
+
+  const flags = [...definition.flags, ...(definition.subcommands || []).flatMap(subcommand => subcommand.flags || [])];
+  return flags.filter((flag, index) => flags.findIndex(other => other.name === flag.name) === index);
+}
@@ -0,0 +1,137 @@
+/**
+ * Completion Command - Generate shell completion scripts
+ * The script, or the service names, is the output of the result; the CLI
+ * prints it on stdout and sends everything else to stderr
+ */
+
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { CommandResult, CommandOptions, CommandContext, CommandDefinition, DockerPilotConfig, EXIT_CODES } from '../types';
+import { BaseCommand } from './BaseCommand';
+import { COMMAND_DEFINITIONS, GLOBAL_FLAGS } from './CommandRegistry';
+import { DockerPilot } from '../core/DockerPilot';
+import { CompletionScripts, COMPLETION_SHELLS } from '../utils/CompletionScripts';
+import { FileUtils } from '../utils/FileUtils';
+
+export class CompletionCommand extends BaseCommand {
+  private dockerPilot: DockerPilot;
+
+  constructor(context: CommandContext, dockerPilot: DockerPilot) {
+    super(
+      'completion',
+      'Generate shell completion scripts',
+      'docker-pilot completion <bash|zsh|fish>',
+      context
+    );
+    this.dockerPilot = dockerPilot;
+  }
+
+  async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
+    const { args: parsedArgs } = this.parseOptions(args);
+    const target = parsedArgs[0];
+
+    // Called by the scripts on every <Tab>
+    if (target === 'services') {
+      const services = await this.getServiceNames();
+      return this.createSuccessResult(services.map(service => `${service}\n`).join(''), undefined, services);
+    }
+
+    if (!target || !CompletionScripts.isShell(target)) {
+      return this.createErrorResult(
+        this.i18n.t('cmd.completion.invalid_shell', { shell: target || '', shells: COMPLETION_SHELLS.join(', ') }),
+        EXIT_CODES.USAGE
+      );
+    }
+
+    return this.createSuccessResult(new CompletionScripts(this.getDefinitions(), GLOBAL_FLAGS).generate(target));
+  }
+
+  /**
+   * Built-in commands and the commands of loaded plugins
+   */
+  private getDefinitions(): CommandDefinition[] {
+    const pluginCommands = (this.dockerPilot.getPluginManager()?.getCommands() || [])
+      .filter(command => !COMMAND_DEFINITIONS.some(definition =>
+        definition.name === command.name || definition.aliases?.includes(command.name)
+      ))
+      .map(command => ({ name: command.name, description: command.description, flags: [] }));
+
+    return [...COMMAND_DEFINITIONS, ...pluginCommands];
+  }
+
+  /**
+   * Services of the config and of the compose file; completion never fails, so
+   * unreadable files are skipped
+   */
+  private async getServiceNames(): Promise<string[]> {
+    const services = new Set<string>();
+    const config = await this.getProjectConfig();
+
+    Object.keys(config?.services || {}).forEach(service => services.add(service));
+
+    const composeFile = await this.findComposeFile(config);
+    if (composeFile) {
+      try {
+        const compose = await new FileUtils().readYaml(composeFile);
+        Object.keys(compose?.services || {}).forEach(service => services.add(service));
+      } catch {
+        // Ignore invalid compose files
+      }
+    }
+
+    return Array.from(services).sort();
+  }
+
+  /**
+   * The project configuration, read from disk when Docker Pilot did not load it.
+   * A missing config is not created, loading it would do so.
+   */
+  private async getProjectConfig(): Promise<DockerPilotConfig | null> {
+    const config = this.dockerPilot.getConfig();
+    if (config) {
+      return config;
+    }
+
+    const configManager = this.dockerPilot.getConfigManager();
+    if (!(await fs.pathExists(configManager.getConfigPath()))) {
+      return null;
+    }
+
+    try {
+      return await configManager.loadConfig();
+    } catch {
+      return null;
+    }
+  }
+
+  private async findComposeFile(config: DockerPilotConfig | null): Promise<string | null> {
+    const composeFile = this.dockerPilot.getComposeFile() || config?.primaryComposeFile;
+    if (composeFile) {
+      return path.resolve(this.context.workingDirectory, composeFile);
+    }
+
+    for (const file of ['docker-compose.yml', 'docker-compose.yaml', 'compose.yml', 'compose.yaml']) {
+      const filePath = path.join(this.context.workingDirectory, file);
+      if (await fs.pathExists(filePath)) {
+        return filePath;
+      }
+    }
+
+    return null;
+  }
+
+  protected override showExamples(): void {
+    this.logger.info(`
+Examples:
+  source <(docker-pilot completion bash)                  # Enable completion in the current bash
+  docker-pilot completion bash > /etc/bash_completion.d/docker-pilot
+  source <(docker-pilot completion zsh)                   # zsh, after compinit
+  docker-pilot completion zsh > "\${fpath[1]}/_docker-pilot"
+  docker-pilot completion fish > ~/.config/fish/completions/docker-pilot.fish
+
+Commands, subcommands and flags are completed, and so are service names, read
+from docker-pilot.config.json and the compose file of the current directory.
+Commands of loaded plugins are included in the generated script.
+`);
+  }
+}
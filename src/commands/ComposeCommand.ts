@@ -29,27 +29,28 @@ export class ComposeCommand extends BaseCommand {
   }
 
   override async execute(args: string[]): Promise<CommandResult> {
-    const subcommand = args[0] || 'list';
+    const { args: parsedArgs, options: parsedOptions } = this.parseOptions(args);
+    const subcommand = parsedArgs[0] || 'list';
 
     try {
       switch (subcommand) {
         case 'list':
         case 'ls':
-          return await this.listComposeFiles(args.slice(1));
+          return await this.listComposeFiles(parsedArgs.slice(1), parsedOptions);
 
         case 'find':
         case 'search':
-          return await this.findComposeFiles(args.slice(1));
+          return await this.findComposeFiles(parsedArgs.slice(1));
 
         case 'analyze':
         case 'info':
-          return await this.analyzeComposeFile(args.slice(1));
+          return await this.analyzeComposeFile(parsedArgs.slice(1));
 
         case 'validate':
-          return await this.validateComposeFile(args.slice(1));
+          return await this.validateComposeFile(parsedArgs.slice(1));
 
         case 'services':
-          return await this.listServices(args.slice(1));
+          return await this.listServices(parsedArgs.slice(1));
           case 'help':
           this.showHelp();
           return {
@@ -77,11 +78,11 @@ export class ComposeCommand extends BaseCommand {
     }
   }
 
-  private async listComposeFiles(args: string[]): Promise<CommandResult> {
+  private async listComposeFiles(args: string[], options: Record<string, any>): Promise<CommandResult> {
     const startTime = Date.now();
     const searchDir = args[0] || process.cwd();
-    const includeVariants = args.includes('--variants') || args.includes('-v');
-    const maxDepth = this.extractDepthOption(args) || 6;
+    const includeVariants = Boolean(options['variants']);
+    const maxDepth: number = options['depth'];
 
     try {
       const foundFiles = await this.fileUtils.findDockerComposeFilesWithInfo(searchDir, {
@@ -115,7 +116,8 @@ export class ComposeCommand extends BaseCommand {
         success: true,
         output: output.trim(),
         error: '',
-        executionTime: Date.now() - startTime
+        executionTime: Date.now() - startTime,
+        data: foundFiles
       };
     } catch (error) {
       return {
@@ -154,7 +156,8 @@ export class ComposeCommand extends BaseCommand {
         success: true,
         output: `${this.i18n.t('compose.found_files_summary', { count: composeFiles.length })}\n\n${output}`,
         error: '',
-        executionTime: Date.now() - startTime
+        executionTime: Date.now() - startTime,
+        data: composeFiles.map(file => path.relative(searchDir, file))
       };
     } catch (error) {
       return {
@@ -246,7 +249,16 @@ export class ComposeCommand extends BaseCommand {
         success: true,
         output: output.trim(),
         error: '',
-        executionTime: Date.now() - startTime
+        executionTime: Date.now() - startTime,
+        data: {
+          file: filePath,
+          size: stats.size,
+          modified: stats.mtime,
+          version: composeData.version ?? null,
+          services: composeData.services || {},
+          networks: Object.keys(composeData.networks || {}),
+          volumes: Object.keys(composeData.volumes || {})
+        }
       };
     } catch (error) {
       return {
@@ -305,7 +317,13 @@ export class ComposeCommand extends BaseCommand {
         success: true,
         output: output.trim(),
         error: '',
-        executionTime: Date.now() - startTime
+        executionTime: Date.now() - startTime,
+        data: {
+          file: filePath,
+          valid: true,
+          services: Object.keys(composeData.services || {}),
+          version: composeData.version ?? null
+        }
       };
     } catch (error) {
       return {
@@ -349,7 +367,8 @@ export class ComposeCommand extends BaseCommand {
         success: true,
         output,
         error: '',
-        executionTime: Date.now() - startTime
+        executionTime: Date.now() - startTime,
+        data: services
       };
     } catch (error) {
       return {
@@ -388,18 +407,6 @@ ${this.i18n.t('cmd.compose.examples')}:  docker-pilot compose list
 
     console.log(output);
   }
-  private extractDepthOption(args: string[]): number | null {
-    const depthIndex = args.findIndex(arg => arg === '--depth');
-    if (depthIndex !== -1 && depthIndex + 1 < args.length) {
-      const depthValue = args[depthIndex + 1];
-      if (depthValue) {
-        const depth = parseInt(depthValue);
-        return isNaN(depth) ? null : depth;
-      }
-    }
-    return null;
-  }
-
   private async findDefaultComposeFile(): Promise<string> {
     const possibleFiles = [
       'docker-compose.yml',
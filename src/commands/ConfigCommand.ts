@@ -1,5 +1,6 @@
 import { BaseCommand } from './BaseCommand';
-import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
+import { PluginManager } from '../plugins/PluginManager';
 import * as path from 'path';
 import * as fs from 'fs';
 import { promisify } from 'util';
@@ -8,13 +9,16 @@ const writeFileAsync = promisify(fs.writeFile);
 const existsAsync = promisify(fs.exists);
 
 export class ConfigCommand extends BaseCommand {
-  constructor(context: CommandContext) {
+  private pluginManager: PluginManager | null;
+
+  constructor(context: CommandContext, pluginManager: PluginManager | null = null) {
     super(
       'config',
       'View and manage Docker Pilot configuration',
       'docker-pilot config <action> [options]',
       context
     );
+    this.pluginManager = pluginManager;
   }
   async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
     const { args: parsedArgs, options: parsedOptions } = this.parseOptions(args);
@@ -44,7 +48,8 @@ export class ConfigCommand extends BaseCommand {
           return this.createErrorResult(
             this.i18n.t('error.generic', {
               message: `Unknown action: ${action}. Available actions: show, validate, init, path, edit`
-            })
+            }),
+            EXIT_CODES.USAGE
           );
       }
 
@@ -66,7 +71,7 @@ export class ConfigCommand extends BaseCommand {
       this.displayConfigSummary(config);
     }
 
-    return this.createSuccessResult('Configuration displayed');
+    return this.createSuccessResult('Configuration displayed', undefined, config);
   }
 
   private async validateConfig(_options: Record<string, any>): Promise<CommandResult> {
@@ -96,6 +101,13 @@ export class ConfigCommand extends BaseCommand {
       }
     }
 
+    // Validate plugin sections against the schemas of the loaded plugins
+    if (this.pluginManager) {
+      const pluginResult = this.pluginManager.validatePluginConfigs(config);
+      pluginResult.errors.forEach(error => errors.push(`${error.field}: ${error.message}`));
+      pluginResult.warnings.forEach(warning => warnings.push(`${warning.field}: ${warning.message}`));
+    }
+
     // Display results
     if (errors.length > 0) {
       this.logger.error('❌ Configuration validation failed:');
@@ -115,16 +127,18 @@ export class ConfigCommand extends BaseCommand {
       }
     }
 
+    const data = { valid: errors.length === 0, errors, warnings };
+
     return errors.length > 0
-      ? this.createErrorResult(`Configuration validation failed with ${errors.length} error(s)`)
-      : this.createSuccessResult('Configuration is valid');
+      ? { ...this.createErrorResult(`Configuration validation failed with ${errors.length} error(s)`), data }
+      : this.createSuccessResult('Configuration is valid', undefined, data);
   }
   private async initConfig(options: Record<string, any>): Promise<CommandResult> {
     const configPath = path.join(this.context.workingDirectory, 'docker-pilot.config.json');
 
     // Check if config already exists
     if (await existsAsync(configPath)) {
-      const forceCreate = options['force'] || options['f'];
+      const forceCreate = options['force'];
       if (!forceCreate) {
         return this.createErrorResult(
           `Configuration file already exists at ${configPath}. Use --force to overwrite.`
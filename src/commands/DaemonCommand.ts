@@ -0,0 +1,320 @@
+/**
+ * Daemon Command - Run Docker Pilot as a long-running scheduler
+ */
+
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { CommandResult, CommandOptions, CommandContext, DockerPilotEvent, EXIT_CODES } from '../types';
+import { BaseCommand } from './BaseCommand';
+import { DockerPilot } from '../core/DockerPilot';
+import { BackupRunEvent } from '../core/BackupScheduler';
+import { Alert } from '../core/ServiceMonitor';
+
+export class DaemonCommand extends BaseCommand {
+  /** How often the daemon looks for a plugin reload request */
+  private static readonly RELOAD_POLL_INTERVAL = 1000;
+  /** How long "plugin reload" waits for the daemon to take its request */
+  private static readonly RELOAD_ACK_TIMEOUT = 5000;
+
+  private dockerPilot: DockerPilot;
+
+  constructor(context: CommandContext, dockerPilot: DockerPilot) {
+    super(
+      'daemon',
+      'Run scheduled tasks (backups, alerting) in the foreground',
+      'docker-pilot daemon [--metrics-port <port>] [--metrics-host <host>]',
+      context
+    );
+    this.dockerPilot = dockerPilot;
+  }
+
+  async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
+    const { options: parsedOptions } = this.parseOptions(args);
+    const { backup, monitoring } = this.context.config;
+
+    let metricsPort: number | null = null;
+    if (parsedOptions['metrics-port'] !== undefined) {
+      metricsPort = Number(parsedOptions['metrics-port']);
+      if (!Number.isInteger(metricsPort) || metricsPort < 1 || metricsPort > 65535) {
+        return this.createErrorResult(
+          this.i18n.t('cmd.daemon.invalid_metrics_port', { port: String(parsedOptions['metrics-port']) }),
+          EXIT_CODES.USAGE
+        );
+      }
+    }
+
+    const metricsHost: string = parsedOptions['metrics-host'];
+    const runBackups = backup.enabled && Boolean(backup.schedule);
+    const runMonitor = monitoring.enabled &&
+      (monitoring.alerts.enabled || monitoring.history.enabled || metricsPort !== null);
+
+    if (!runBackups && !runMonitor && metricsPort === null) {
+      return this.createErrorResult(this.i18n.t('cmd.daemon.nothing_to_schedule'));
+    }
+
+    let stopReloading: (() => Promise<void>) | null = null;
+
+    try {
+      this.subscribeToEvents();
+      stopReloading = await this.listenForPluginReloads();
+
+      if (runBackups) {
+        this.logger.info(this.i18n.t('cmd.daemon.starting', { schedule: backup.schedule! }));
+        await this.dockerPilot.startBackupScheduler();
+      }
+
+      if (runMonitor) {
+        this.logger.info(this.i18n.t('cmd.daemon.monitor_starting', { interval: monitoring.refreshInterval }));
+        await this.dockerPilot.startMonitor();
+
+        if (monitoring.history.enabled) {
+          this.logger.info(this.i18n.t('cmd.daemon.history_enabled', { retention: monitoring.history.retention }));
+        }
+
+        if (monitoring.alerts.enabled) {
+          this.logger.info(this.i18n.t('cmd.daemon.alerts_enabled', {
+            cpu: monitoring.alerts.thresholds.cpu,
+            memory: monitoring.alerts.thresholds.memory,
+            duration: monitoring.alerts.duration
+          }));
+
+          if (!monitoring.alerts.webhook && !monitoring.alerts.email) {
+            this.logger.warn(this.i18n.t('cmd.daemon.no_alert_channels'));
+          }
+        }
+      }
+
+      if (metricsPort !== null) {
+        await this.dockerPilot.startMetricsExporter(metricsPort, metricsHost);
+        this.logger.info(this.i18n.t('cmd.daemon.metrics_serving', { url: `http://${metricsHost}:${metricsPort}/metrics` }));
+      }
+
+      this.logger.success(this.i18n.t('cmd.daemon.started'));
+      this.showNextRun();
+
+      const signal = await this.waitForShutdown();
+
+      this.logger.info(this.i18n.t('cmd.daemon.stopping', { signal }));
+      await this.dockerPilot.stopMetricsExporter();
+      await this.dockerPilot.stopMonitor();
+      await this.dockerPilot.stopBackupScheduler();
+      await stopReloading();
+
+      return this.createSuccessResult(this.i18n.t('cmd.daemon.stopped'), undefined, {
+        signal,
+        backupSchedule: runBackups ? backup.schedule : null,
+        monitor: runMonitor,
+        metricsUrl: metricsPort !== null ? `http://${metricsHost}:${metricsPort}/metrics` : null
+      });
+    } catch (error) {
+      await stopReloading?.();
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(this.i18n.t('cmd.daemon.failed', { error: errorMessage }));
+      return this.createErrorResult(errorMessage);
+    }
+  }
+
+  /**
+   * Log backup events emitted by the scheduler
+   */
+  private subscribeToEvents(): void {
+    this.dockerPilot.on('backup:start', (event: DockerPilotEvent) => {
+      const data = event.data as BackupRunEvent;
+      this.logger.info(this.i18n.t('cmd.daemon.backup_started', { trigger: data.trigger }));
+    });
+
+    this.dockerPilot.on('backup:success', (event: DockerPilotEvent) => {
+      const data = event.data as BackupRunEvent;
+      this.logger.success(this.i18n.t('cmd.daemon.backup_succeeded', { count: data.results?.length || 0 }));
+      this.showNextRun();
+    });
+
+    this.dockerPilot.on('backup:failure', (event: DockerPilotEvent) => {
+      const data = event.data as BackupRunEvent;
+      this.logger.error(this.i18n.t('cmd.daemon.backup_failed', { error: data.error || '' }));
+      this.showNextRun();
+    });
+
+    this.dockerPilot.on('alert:firing', (event: DockerPilotEvent) => {
+      const alert = event.data as Alert;
+      this.logger.warn(this.i18n.t('cmd.daemon.alert_firing', {
+        service: alert.service,
+        metric: alert.metric,
+        value: alert.value.toFixed(1),
+        threshold: alert.threshold
+      }));
+    });
+
+    this.dockerPilot.on('alert:resolved', (event: DockerPilotEvent) => {
+      const alert = event.data as Alert;
+      this.logger.success(this.i18n.t('cmd.daemon.alert_resolved', {
+        service: alert.service,
+        metric: alert.metric,
+        value: alert.value.toFixed(1)
+      }));
+    });
+  }
+
+  /**
+   * Reload plugins when "docker-pilot plugin reload" leaves a reload request,
+   * or on a SIGHUP sent by hand to the pid in the pid file.
+   * Returns a function that stops listening.
+   */
+  private async listenForPluginReloads(): Promise<() => Promise<void>> {
+    const pidFile = DaemonCommand.pidFile(this.context.workingDirectory);
+    const requestFile = DaemonCommand.reloadRequestFile(this.context.workingDirectory);
+    const onReload = () => {
+      this.reloadPlugins().catch(error => {
+        this.logger.error(this.i18n.t('cmd.daemon.plugin_reload_failed', {
+          name: '*',
+          error: error instanceof Error ? error.message : String(error)
+        }));
+      });
+    };
+
+    // A request is only taken when it appears, the one left by a daemon that crashed is stale
+    const onRequest = (current: fs.Stats) => {
+      if (current.nlink > 0) {
+        onReload();
+      }
+    };
+
+    await fs.remove(requestFile);
+    await fs.outputFile(pidFile, String(process.pid));
+    process.on('SIGHUP', onReload);
+    fs.watchFile(requestFile, { interval: DaemonCommand.RELOAD_POLL_INTERVAL }, onRequest);
+
+    return async () => {
+      fs.unwatchFile(requestFile, onRequest);
+      process.removeListener('SIGHUP', onReload);
+      await fs.remove(pidFile);
+    };
+  }
+
+  /**
+   * Reload the plugins named in the pending reload request, or every configured
+   * plugin when there is none (a plain kill -HUP)
+   */
+  private async reloadPlugins(): Promise<void> {
+    const pluginManager = this.dockerPilot.getPluginManager();
+    if (!pluginManager) {
+      return;
+    }
+
+    const requestFile = DaemonCommand.reloadRequestFile(this.context.workingDirectory);
+    let pluginNames: string[];
+
+    if (await fs.pathExists(requestFile)) {
+      pluginNames = await fs.readJson(requestFile);
+      await fs.remove(requestFile);
+    } else {
+      pluginNames = [
+        ...pluginManager.getPluginInfos().map(info => info.name),
+        ...pluginManager.getLoadFailures().map(failure => failure.entry)
+      ];
+    }
+
+    for (const name of pluginNames) {
+      try {
+        const plugin = await pluginManager.reloadPlugin(name);
+        this.logger.success(this.i18n.t('cmd.plugin.reloaded', { name, version: plugin.metadata.version }));
+      } catch (error) {
+        this.logger.error(this.i18n.t('cmd.daemon.plugin_reload_failed', {
+          name,
+          error: error instanceof Error ? error.message : String(error)
+        }));
+      }
+    }
+  }
+
+  static pidFile(workingDirectory: string): string {
+    return path.join(workingDirectory, '.docker-pilot', 'daemon.pid');
+  }
+
+  static reloadRequestFile(workingDirectory: string): string {
+    return path.join(workingDirectory, '.docker-pilot', 'plugin-reload.json');
+  }
+
+  /**
+   * Ask the daemon running for a project to reload plugins. Resolves with the
+   * daemon pid, or null when no daemon is running.
+   *
+   * No signal is sent: after a crash the pid file may name an unrelated process
+   * that reused the pid, which SIGHUP would kill. The request is left in a file
+   * the daemon watches instead, and the daemon counts as running once it takes it.
+   */
+  static async requestPluginReload(workingDirectory: string, pluginNames: string[]): Promise<number | null> {
+    const pidFile = DaemonCommand.pidFile(workingDirectory);
+    if (!(await fs.pathExists(pidFile))) {
+      return null;
+    }
+
+    const pid = Number((await fs.readFile(pidFile, 'utf8')).trim());
+    const requestFile = DaemonCommand.reloadRequestFile(workingDirectory);
+    const pending: string[] = (await fs.pathExists(requestFile)) ? await fs.readJson(requestFile).catch(() => []) : [];
+
+    // Written aside and renamed, so the daemon never reads a partial request
+    const temporaryFile = `${requestFile}.${process.pid}.tmp`;
+    await fs.outputJson(temporaryFile, [...new Set([...pending, ...pluginNames])]);
+    await fs.move(temporaryFile, requestFile, { overwrite: true });
+
+    const deadline = Date.now() + DaemonCommand.RELOAD_ACK_TIMEOUT;
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      if (!(await fs.pathExists(requestFile))) {
+        return pid;
+      }
+    }
+
+    // Stale pid file left by a daemon that did not stop cleanly
+    await fs.remove(requestFile);
+    return null;
+  }
+
+  /**
+   * Show when the next scheduled run fires
+   */
+  private showNextRun(): void {
+    const nextRun = this.dockerPilot.getBackupScheduler()?.getNextRun();
+    if (nextRun) {
+      this.logger.info(this.i18n.t('cmd.daemon.next_run', { time: nextRun.toLocaleString() }));
+    }
+  }
+
+  protected override showExamples(): void {
+    this.logger.info(`
+Examples:
+  docker-pilot daemon                  # Run backups, metrics recording and alerting until stopped
+  docker-pilot daemon --metrics-port 9464                          # Also serve Prometheus /metrics
+  docker-pilot daemon --metrics-port 9464 --metrics-host 0.0.0.0   # Reachable from a containerized Prometheus
+
+Schedule (backup.schedule) uses 5-field cron syntax, evaluated in local time:
+  "0 2 * * *"       Every day at 02:00
+  "*/30 * * * *"    Every 30 minutes
+  "0 3 * * mon-fri" Weekdays at 03:00
+  "@daily"          Every day at midnight (also @hourly, @weekly, @monthly, @yearly)
+
+Runs missed while the daemon was down are caught up once on start.
+Scheduler state is kept in .docker-pilot/backup-scheduler.json.
+
+With monitoring enabled, CPU, memory, network and block IO of running services
+are sampled every monitoring.refreshInterval seconds and recorded in
+.docker-pilot/metrics (monitoring.history), see "docker-pilot stats --history 1h".
+With monitoring.alerts.enabled, an alert fires once a threshold has been
+exceeded for monitoring.alerts.duration seconds, and resolves when usage drops back.
+Alerts are POSTed to monitoring.alerts.webhook (signed with HMAC-SHA256 when the
+variable named by webhookSecretEnv is set) and e-mailed to monitoring.alerts.email
+through monitoring.alerts.smtp, e.g. MailHog: { "host": "localhost", "port": 1025 }.
+
+--metrics-port serves /metrics in the Prometheus text format: service state,
+health, CPU, memory, restart counts, probe results, firing alerts and counters
+of the commands run by the daemon. It listens on 127.0.0.1 unless --metrics-host
+is given.
+
+Plugins are reloaded from disk with "docker-pilot plugin reload" or on SIGHUP,
+without stopping the daemon; its pid is kept in .docker-pilot/daemon.pid.
+"plugin reload" leaves its request in .docker-pilot/plugin-reload.json, which
+the daemon checks every second, and sends no signal.
+`);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Dev Command - Watch source files and rebuild or restart the affected services
+ */
+
+import * as path from 'path';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
+import { BaseCommand } from './BaseCommand';
+import { DevChange, DevTrigger, DevWatcher } from '../core/DevWatcher';
+
+export class DevCommand extends BaseCommand {
+  constructor(context: CommandContext) {
+    super(
+      'dev',
+      'Watch files and rebuild or restart the services they belong to',
+      'docker-pilot dev [--debounce <ms>]',
+      context
+    );
+  }
+
+  async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
+    const { options: parsedOptions } = this.parseOptions(args);
+
+    let debounce: number | undefined;
+    if (parsedOptions['debounce'] !== undefined) {
+      debounce = Number(parsedOptions['debounce']);
+      if (!Number.isInteger(debounce) || debounce < 0) {
+        return this.createErrorResult(this.i18n.t('cmd.dev.invalid_debounce', { value: String(parsedOptions['debounce']) }), EXIT_CODES.USAGE);
+      }
+    }
+
+    if (!(await this.checkDockerAvailable())) {
+      return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
+    }
+
+    const watcher = new DevWatcher(this.context.config, {
+      workingDirectory: this.context.workingDirectory,
+      ...(this.context.composeFile && { composeFile: this.context.composeFile }),
+      ...(debounce !== undefined && { debounce })
+    });
+
+    try {
+      const watched = watcher.start();
+
+      watched.forEach(target => this.logger.info(this.i18n.t('cmd.dev.watching', { path: this.relative(target) })));
+      if (this.context.config.development.watchFiles.length === 0) {
+        this.logger.info(this.i18n.t('cmd.dev.watching_build_contexts'));
+      }
+      this.logger.success(this.i18n.t('cmd.dev.started'));
+
+      watcher.on('change', (file, triggers) => this.logChange(file, triggers));
+      watcher.on('action:start', change => this.logActionStart(change));
+      watcher.on('action:end', (change, result) => {
+        if (result.success) {
+          this.logger.success(this.i18n.t(`cmd.dev.${change.action}_done`, { service: change.service }));
+        } else {
+          this.logger.error(this.i18n.t(`cmd.dev.${change.action}_failed`, {
+            service: change.service,
+            error: result.error || ''
+          }));
+        }
+      });
+
+      const signal = await this.waitForShutdown();
+
+      this.logger.info(this.i18n.t('cmd.dev.stopping', { signal }));
+      await watcher.stop();
+
+      return this.createSuccessResult(this.i18n.t('cmd.dev.stopped'));
+    } catch (error) {
+      await watcher.stop();
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(errorMessage);
+      return this.createErrorResult(errorMessage);
+    }
+  }
+
+  /**
+   * Show which services a changed file affects
+   */
+  private logChange(file: string, triggers: DevTrigger[]): void {
+    const relativeFile = this.relative(file);
+
+    if (triggers.length === 0) {
+      this.logger.debug(this.i18n.t('cmd.dev.change_ignored', { file: relativeFile }));
+      return;
+    }
+
+    const targets = triggers.map(trigger => `${trigger.service} (${trigger.action})`).join(', ');
+    this.logger.info(this.i18n.t('cmd.dev.change', { file: relativeFile, targets }));
+  }
+
+  private logActionStart(change: DevChange): void {
+    const files = change.files.map(file => this.relative(file));
+    const shown = files.slice(0, 3).join(', ') + (files.length > 3 ? ` +${files.length - 3}` : '');
+
+    this.logger.loading(this.i18n.t(`cmd.dev.${change.action}_start`, { service: change.service, files: shown }));
+  }
+
+  private relative(target: string): string {
+    return path.relative(this.context.workingDirectory, target) || '.';
+  }
+
+  protected override showExamples(): void {
+    this.logger.info(`
+Examples:
+  docker-pilot dev                     # Watch development.watchFiles until Ctrl+C
+  docker-pilot dev --debounce 1000     # Wait for 1s of quiet before acting
+
+Files matching development.watchFiles (globs relative to the project, e.g.
+"api/src/**/*.ts" or "web/{src,public}/**") are mapped to services:
+  - inside a service's build.context (or its Dockerfile): rebuild and recreate it
+  - inside a bind-mounted directory of a service ("./src:/app/src"): restart it
+Files that belong to no service are ignored. Without watchFiles, every build
+context is watched. Requires development.hotReload; node_modules, .git and
+.docker-pilot are never watched.
+`);
+  }
+}
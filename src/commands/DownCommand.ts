@@ -2,48 +2,64 @@
  * Down Command - Stop all services or specific service
  */
 
-import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
 import { BaseCommand } from './BaseCommand';
+import { PluginManager } from '../plugins/PluginManager';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
 
 export class DownCommand extends BaseCommand {
-  constructor(context: CommandContext) {
+  private pluginManager: PluginManager | null;
+
+  constructor(context: CommandContext, pluginManager: PluginManager | null = null) {
     super(
       'down',
       'Stop all services or a specific service',
-      'docker-pilot down [service-name] [options]',
+      'docker-pilot down [service-name] [--volumes] [--remove-orphans] [--yes]',
       context
     );
+    this.pluginManager = pluginManager;
   }
   async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
     const { args: parsedArgs, options: parsedOptions } = this.parseOptions(args);
     const serviceName = parsedArgs[0];    try {
       if (!(await this.checkDockerAvailable())) {
-        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'));
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
       }
 
-      // Confirm action if it's destructive
-      if (parsedOptions['volumes'] || parsedOptions['remove-orphans']) {
-        const volumeAction = parsedOptions['volumes'] ? this.i18n.t('cmd.confirm_volumes') : '';
+      // Confirm action if it's destructive; losing volume data requires typing the project name
+      const removeVolumes = Boolean(parsedOptions['volumes']);
+      if (removeVolumes || parsedOptions['remove-orphans']) {
+        const volumeAction = removeVolumes ? this.i18n.t('cmd.confirm_volumes') : '';
         const target = serviceName || this.i18n.t('cmd.all_services');
         const action = volumeAction + this.i18n.t('cmd.confirm_stop', { target });
 
         const confirmed = await this.confirmAction(
-          this.i18n.t('cmd.confirm_action', { action })
+          this.i18n.t('cmd.confirm_action', { action }),
+          {
+            assumeYes: Boolean(parsedOptions['yes']),
+            ...(removeVolumes && { typeToConfirm: this.context.config.projectName })
+          }
         );
 
         if (!confirmed) {
-          return this.createErrorResult(this.i18n.t('cmd.operation_cancelled'));
+          return this.createErrorResult(this.i18n.t('cmd.operation_cancelled'), EXIT_CODES.CANCELLED);
         }
       }      const target = serviceName || this.i18n.t('cmd.all_services');
       this.logger.loading(this.i18n.t('cmd.stopping', { target }));
 
+      // Plugin service hooks run around the compose call; a failing before hook vetoes the stop
+      const serviceManager = this.createServiceManager(this.pluginManager);
+      const targets = serviceName ? [serviceName] : Object.keys(this.context.config.services);
+
       // Execute the real Docker command
       const { result: stopOutput, executionTime } = await this.measureExecutionTime(async () => {
-        return await this.stopServices(serviceName, parsedOptions);
+        await serviceManager.runServiceHooks('beforeServiceStop', targets);
+        const output = await this.stopServices(serviceName, parsedOptions);
+        await serviceManager.runServiceHooks('afterServiceStop', targets);
+        return output;
       });      // Display stop results
       this.showStopResults(stopOutput);
 
@@ -55,7 +71,8 @@ export class DownCommand extends BaseCommand {
 
       return this.createSuccessResult(
         `Successfully stopped ${resultMessage}`,
-        executionTime
+        executionTime,
+        { services: targets, volumesRemoved: removeVolumes, output: stopOutput }
       );
 
     } catch (error) {
@@ -71,6 +88,7 @@ export class DownCommand extends BaseCommand {
     this.logger.info('  docker-pilot down backend           # Stop only backend service');
     this.logger.info('  docker-pilot down --volumes         # Stop and remove volumes');
     this.logger.info('  docker-pilot down --remove-orphans  # Stop and remove orphan containers');
+    this.logger.info('  docker-pilot down --volumes --yes   # No confirmation prompt (scripts, CI)');
   }
   private async stopServices(serviceName?: string, options?: Record<string, any>): Promise<string> {
     try {      // Build Docker command
@@ -87,7 +105,7 @@ export class DownCommand extends BaseCommand {
       downArgs.push('down');
 
       // Add options
-      if (options?.['volumes'] || options?.['v']) {
+      if (options?.['volumes']) {
         downArgs.push('--volumes');
       }
 
@@ -99,8 +117,8 @@ export class DownCommand extends BaseCommand {
         downArgs.push('--rmi', options['rmi'] as string);
       }
 
-      if (options?.['timeout'] || options?.['t']) {
-        downArgs.push('--timeout', (options['timeout'] || options['t']) as string);
+      if (options?.['timeout'] !== undefined) {
+        downArgs.push('--timeout', String(options['timeout']));
       }
 
       // Add specific service if provided
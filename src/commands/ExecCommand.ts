@@ -1,5 +1,5 @@
 import { BaseCommand } from './BaseCommand';
-import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
@@ -20,15 +20,15 @@ export class ExecCommand extends BaseCommand {
 
     try {
       if (!serviceName) {
-        return this.createErrorResult('Service name is required');
+        return this.createErrorResult(this.i18n.t('cmd.service_required'), EXIT_CODES.USAGE);
       }
 
       if (!command) {
-        return this.createErrorResult('Command is required');
+        return this.createErrorResult('Command is required', EXIT_CODES.USAGE);
       }
 
       if (!(await this.checkDockerAvailable())) {
-        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'));
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
       }
 
       this.logger.loading(`🔧 Executing command in ${serviceName}: ${command}`);
@@ -72,24 +72,19 @@ export class ExecCommand extends BaseCommand {
     if (options.user) {
       execArgs.push('--user', options.user);
     }
-    if (options.workdir || options.w) {
-      execArgs.push('--workdir', options.workdir || options.w);
-    }
-    if (options.env || options.e) {
-      const envVars = Array.isArray(options.env || options.e)
-        ? options.env || options.e
-        : [options.env || options.e];
-      envVars.forEach((env: string) => {
-        execArgs.push('--env', env);
-      });
+    if (options.workdir) {
+      execArgs.push('--workdir', options.workdir);
     }
+    (options.env || []).forEach((env: string) => {
+      execArgs.push('--env', env);
+    });
 
-    // Interactive flags (default for shells)
+    // Interactive flags (default for shells, --interactive=false / --tty=false turn them off)
     const isShell = ['bash', 'sh', 'zsh', 'fish'].some(shell => command.includes(shell));
-    if (options.i !== false && (isShell || options.i)) {
+    if (options.interactive !== false && (isShell || options.interactive)) {
       execArgs.push('-i');
     }
-    if (options.t !== false && (isShell || options.t)) {
+    if (options.tty !== false && (isShell || options.tty)) {
       execArgs.push('-t');
     }
 
@@ -149,6 +144,7 @@ Examples:
   docker-pilot exec -it web bash        # Interactive terminal
   docker-pilot exec --env DEBUG=1 web node app.js  # Set environment variable
   docker-pilot exec --workdir /tmp web pwd  # Set working directory
+  docker-pilot exec web -- npm --version    # Arguments after -- are passed as they are
 `);
   }
 }
@@ -1,5 +1,5 @@
 import { BaseCommand } from './BaseCommand';
-import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
 import { exec, spawn } from 'child_process';
 import { promisify } from 'util';
 
@@ -19,9 +19,14 @@ export class LogsCommand extends BaseCommand {
     const { args: parsedArgs, options: parsedOptions } = this.parseOptions(args);
     const serviceName = parsedArgs[0];
 
+    const tailError = this.validateTail(parsedOptions['tail']);
+    if (tailError) {
+      return this.createErrorResult(tailError, EXIT_CODES.USAGE);
+    }
+
     try {
       if (!(await this.checkDockerAvailable())) {
-        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'));
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
       }
 
       // Show loading message
@@ -51,7 +56,24 @@ export class LogsCommand extends BaseCommand {
       this.logger.error(this.i18n.t('cmd.logs.failed', { error: errorMessage }));
       return this.createErrorResult(errorMessage);
     }
-  }  /**
+  }
+
+  override validateOptions(args: string[]): string | null {
+    return super.validateOptions(args) ?? this.validateTail(this.parseOptions(args).options['tail']);
+  }
+
+  /**
+   * --tail takes a line count or "all", like docker compose logs
+   */
+  private validateTail(tail: string | undefined): string | null {
+    if (tail === undefined || /^(\d+|all)$/.test(tail)) {
+      return null;
+    }
+
+    return this.i18n.t('cmd.logs.invalid_tail', { value: tail });
+  }
+
+  /**
    * Get real container logs using docker compose logs
    */
   private async getContainerLogs(serviceName?: string, options?: Record<string, any>): Promise<string> {
@@ -68,14 +90,14 @@ export class LogsCommand extends BaseCommand {
       logsArgs.push('logs');
 
       // Add options
-      const isFollowMode = options?.['follow'] || options?.['f'];
+      const isFollowMode = options?.['follow'];
 
       if (isFollowMode) {
         logsArgs.push('--follow');
       }
 
-      if (options?.['tail']) {
-        logsArgs.push('--tail', options['tail'] as string);
+      if (options?.['tail'] !== undefined) {
+        logsArgs.push('--tail', String(options['tail']));
       } else if (!isFollowMode) {
         // Default to last 50 lines if not following and no tail specified
         logsArgs.push('--tail', '50');
@@ -89,7 +111,7 @@ export class LogsCommand extends BaseCommand {
         logsArgs.push('--until', options['until'] as string);
       }
 
-      if (options?.['timestamps'] || options?.['t']) {
+      if (options?.['timestamps']) {
         logsArgs.push('--timestamps');
       }
 
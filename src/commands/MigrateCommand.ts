@@ -0,0 +1,68 @@
+/**
+ * Migrate Command - Run the migrate command defined for services
+ */
+
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
+import { BaseCommand } from './BaseCommand';
+import { ServiceManager } from '../core/ServiceManager';
+
+export class MigrateCommand extends BaseCommand {
+  constructor(context: CommandContext) {
+    super(
+      'migrate',
+      'Run database migrations of services',
+      'docker-pilot migrate [service-name]',
+      context
+    );
+  }
+
+  async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
+    const { args: parsedArgs } = this.parseOptions(args);
+    const serviceName = parsedArgs[0];
+
+    try {
+      if (!(await this.checkDockerAvailable())) {
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
+      }
+
+      const serviceManager = new ServiceManager(this.context.config, {
+        workingDirectory: this.context.workingDirectory,
+        ...(this.context.composeFile && { composeFile: this.context.composeFile })
+      });
+
+      const { result: results, executionTime } = await this.measureExecutionTime(() =>
+        serviceManager.runMigrations(serviceName)
+      );
+
+      if (results.length === 0) {
+        this.logger.info(this.i18n.t('task.none_defined', { task: 'migrate' }));
+        return this.createSuccessResult('', executionTime, results);
+      }
+
+      const failed = results.filter(result => !result.success);
+      if (failed.length > 0) {
+        return this.createErrorResult(failed.map(result => result.error || '').join('\n'), 1, executionTime);
+      }
+
+      return this.createSuccessResult(this.i18n.t('task.completed', { task: 'migrate', count: results.length }), executionTime, results);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(errorMessage);
+      return this.createErrorResult(errorMessage);
+    }
+  }
+
+  protected override showExamples(): void {
+    this.logger.info(`
+Examples:
+  docker-pilot migrate                 # Run the migrate command of every service that defines one
+  docker-pilot migrate api             # Run the migrations of one service
+
+The command is set per service and runs inside its container with sh -c:
+  "services": { "api": { "migrate": "npx prisma migrate deploy" } }
+
+With development.autoMigrate, migrations also run after "up" once each
+service is healthy (or running, when it has no healthcheck).
+`);
+  }
+}
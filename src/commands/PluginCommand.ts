@@ -0,0 +1,43 @@
+/**
+ * Plugin Command - Run a command contributed by a plugin
+ */
+
+import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { BaseCommand } from './BaseCommand';
+import { PluginManager, RegisteredPluginCommand } from '../plugins/PluginManager';
+
+export class PluginCommand extends BaseCommand {
+  private command: RegisteredPluginCommand;
+  private pluginManager: PluginManager;
+
+  constructor(context: CommandContext, command: RegisteredPluginCommand, pluginManager: PluginManager) {
+    super(
+      command.name,
+      command.description,
+      command.usage || `docker-pilot ${command.name} [args]`,
+      context
+    );
+    this.command = command;
+    this.pluginManager = pluginManager;
+  }
+
+  async execute(args: string[], options: CommandOptions): Promise<CommandResult> {
+    const result = await this.pluginManager.executeCommand(this.name, args, options);
+
+    // Plugin handlers return their output instead of printing it
+    if (result.success && result.output) {
+      console.log(result.output);
+    }
+
+    return result;
+  }
+
+  protected override showExamples(): void {
+    const examples = this.command.examples || [];
+    if (examples.length === 0) {
+      return;
+    }
+
+    this.logger.info(`\n${this.i18n.t('base.examples')}:\n${examples.map(example => `  ${example}`).join('\n')}`);
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Plugins Command - List, inspect, enable and disable plugins
+ */
+
+import { CommandResult, CommandOptions, CommandContext, DockerPilotConfig, EXIT_CODES } from '../types';
+import { BaseCommand } from './BaseCommand';
+import { DockerPilot } from '../core/DockerPilot';
+import { PluginManager } from '../plugins/PluginManager';
+import { DaemonCommand } from './DaemonCommand';
+
+export class PluginsCommand extends BaseCommand {
+  private dockerPilot: DockerPilot;
+  private standaloneManager: PluginManager | null = null;
+  private projectConfig: DockerPilotConfig | null = null;
+
+  constructor(context: CommandContext, dockerPilot: DockerPilot) {
+    super(
+      'plugin',
+      'List, inspect, enable, disable and reload plugins',
+      'docker-pilot plugin <list|info|enable|disable|reload> [name]',
+      context
+    );
+    this.dockerPilot = dockerPilot;
+  }
+
+  async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
+    const { args: parsedArgs } = this.parseOptions(args);
+    const action = parsedArgs[0] || 'list';
+    const pluginName = parsedArgs[1];
+
+    try {
+      switch (action) {
+        case 'list':
+        case 'ls':
+          return await this.listPlugins();
+
+        case 'info':
+          if (!pluginName) {
+            return this.createErrorResult(this.i18n.t('cmd.plugin.name_required'), EXIT_CODES.USAGE);
+          }
+          return await this.showPluginInfo(pluginName);
+
+        case 'enable':
+          if (!pluginName) {
+            return this.createErrorResult(this.i18n.t('cmd.plugin.name_required'), EXIT_CODES.USAGE);
+          }
+          return await this.enablePlugin(pluginName);
+
+        case 'disable':
+          if (!pluginName) {
+            return this.createErrorResult(this.i18n.t('cmd.plugin.name_required'), EXIT_CODES.USAGE);
+          }
+          return await this.disablePlugin(pluginName);
+
+        case 'reload':
+          if (!pluginName) {
+            return this.createErrorResult(this.i18n.t('cmd.plugin.name_required'), EXIT_CODES.USAGE);
+          }
+          return await this.reloadPlugin(pluginName);
+
+        default:
+          return this.createErrorResult(this.i18n.t('cmd.plugin.unknown_action', { action }), EXIT_CODES.USAGE);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(errorMessage);
+      return this.createErrorResult(errorMessage);
+    }
+  }
+
+  /**
+   * List loaded plugins and the configured ones that failed to load
+   */
+  private async listPlugins(): Promise<CommandResult> {
+    const pluginManager = await this.getPluginManager();
+    const plugins = pluginManager.getPluginInfos();
+    const failures = pluginManager.getLoadFailures();
+
+    if (plugins.length === 0 && failures.length === 0) {
+      this.logger.info(this.i18n.t('cmd.plugin.none'));
+      return this.createSuccessResult('');
+    }
+
+    this.logger.newLine();
+    this.logger.info(this.i18n.t('cmd.plugin.title'));
+    this.logger.separator('-', 70);
+
+    plugins.forEach(({ name, metadata }) => {
+      this.logger.info(`  ✅ ${name.padEnd(24)} ${metadata.version.padEnd(10)} ${metadata.description}`);
+    });
+
+    failures.forEach(({ entry, error }) => {
+      this.logger.info(`  ❌ ${entry.padEnd(24)} ${this.i18n.t('cmd.plugin.failed', { error })}`);
+    });
+
+    return this.createSuccessResult(plugins.map(plugin => plugin.name).join('\n'), undefined, { plugins, failures });
+  }
+
+  /**
+   * Show the metadata of a plugin and what it contributes
+   */
+  private async showPluginInfo(pluginName: string): Promise<CommandResult> {
+    const pluginManager = await this.getPluginManager();
+    const info = pluginManager.getPluginInfo(pluginName);
+
+    if (!info) {
+      const failure = pluginManager.getLoadFailures().find(({ entry }) => entry === pluginName);
+      return this.createErrorResult(failure
+        ? this.i18n.t('cmd.plugin.failed', { error: failure.error })
+        : this.i18n.t('plugin.not_found', { name: pluginName }));
+    }
+
+    const { metadata } = info;
+    const none = this.i18n.t('cmd.plugin.none_value');
+    const rows: Array<[string, string]> = [
+      [this.i18n.t('cmd.plugin.version'), metadata.version],
+      [this.i18n.t('cmd.plugin.description'), metadata.description],
+      [this.i18n.t('cmd.plugin.author'), metadata.author || none],
+      [this.i18n.t('cmd.plugin.supports'), metadata.dockerPilot || none],
+      [this.i18n.t('cmd.plugin.source'), info.source],
+      [this.i18n.t('cmd.plugin.commands'), info.commands.join(', ') || none],
+      [this.i18n.t('cmd.plugin.hooks'), info.hooks.join(', ') || none]
+    ];
+
+    if (metadata.homepage) {
+      rows.push([this.i18n.t('cmd.plugin.homepage'), metadata.homepage]);
+    }
+
+    this.logger.newLine();
+    this.logger.info(`🧩 ${info.name}`);
+    this.logger.separator('-', 70);
+    rows.forEach(([label, value]) => this.logger.info(`  ${label.padEnd(14)} ${value}`));
+
+    return this.createSuccessResult(info.name, undefined, info);
+  }
+
+  /**
+   * Load a plugin and add it to config.plugins
+   */
+  private async enablePlugin(entry: string): Promise<CommandResult> {
+    const pluginManager = await this.getPluginManager();
+    const plugin = await pluginManager.enablePlugin(entry);
+    const { plugins } = await this.getProjectConfig();
+
+    if (!plugins.includes(entry)) {
+      await this.savePlugins([...plugins, entry]);
+    }
+
+    this.logger.success(this.i18n.t('cmd.plugin.enabled', { name: entry, version: plugin.metadata.version }));
+    return this.createSuccessResult(entry);
+  }
+
+  /**
+   * Unload a plugin and remove it from config.plugins
+   */
+  private async disablePlugin(pluginName: string): Promise<CommandResult> {
+    const pluginManager = await this.getPluginManager();
+    const name = pluginManager.getPluginInfo(pluginName)?.name || PluginManager.getPluginName(pluginName);
+    const { plugins } = await this.getProjectConfig();
+    const remaining = plugins.filter(entry => entry !== pluginName && PluginManager.getPluginName(entry) !== name);
+
+    if (remaining.length === plugins.length && !pluginManager.hasPlugin(name)) {
+      return this.createErrorResult(this.i18n.t('plugin.not_found', { name: pluginName }));
+    }
+
+    await pluginManager.disablePlugin(pluginName);
+    if (remaining.length !== plugins.length) {
+      await this.savePlugins(remaining);
+    }
+
+    this.logger.success(this.i18n.t('cmd.plugin.disabled', { name }));
+    return this.createSuccessResult(name);
+  }
+
+  /**
+   * Reload a plugin from disk, here and in the daemon running for the project
+   */
+  private async reloadPlugin(pluginName: string): Promise<CommandResult> {
+    const pluginManager = await this.getPluginManager();
+    const plugin = await pluginManager.reloadPlugin(pluginName);
+    const name = pluginManager.getPluginInfo(pluginName)?.name || pluginName;
+
+    this.logger.success(this.i18n.t('cmd.plugin.reloaded', { name, version: plugin.metadata.version }));
+
+    try {
+      const pid = await DaemonCommand.requestPluginReload(this.context.workingDirectory, [name]);
+      if (pid !== null) {
+        this.logger.info(this.i18n.t('cmd.plugin.daemon_notified', { pid }));
+      }
+    } catch (error) {
+      this.logger.warn(this.i18n.t('cmd.plugin.daemon_unreachable', {
+        error: error instanceof Error ? error.message : String(error)
+      }));
+    }
+
+    return this.createSuccessResult(name);
+  }
+
+  /**
+   * The plugin manager of Docker Pilot, or one of our own when Docker Pilot
+   * could not initialize (e.g. Docker is not running)
+   */
+  private async getPluginManager(): Promise<PluginManager> {
+    const pluginManager = this.dockerPilot.getPluginManager();
+    if (pluginManager) {
+      return pluginManager;
+    }
+
+    if (!this.standaloneManager) {
+      const config = await this.getProjectConfig();
+      this.standaloneManager = new PluginManager({
+        autoLoad: false,
+        plugins: config.plugins,
+        workingDirectory: this.context.workingDirectory
+      });
+      this.standaloneManager.updateLanguage(config.language);
+      await this.standaloneManager.initialize({ ...this.context, config });
+    }
+
+    return this.standaloneManager;
+  }
+
+  /**
+   * The project configuration, read from disk when Docker Pilot did not load it
+   */
+  private async getProjectConfig(): Promise<DockerPilotConfig> {
+    const config = this.dockerPilot.getConfig();
+    if (config) {
+      return config;
+    }
+
+    if (!this.projectConfig) {
+      this.projectConfig = await this.dockerPilot.getConfigManager().loadConfig();
+    }
+    return this.projectConfig;
+  }
+
+  /**
+   * Save config.plugins, through Docker Pilot when it is initialized so its managers see the change
+   */
+  private async savePlugins(plugins: string[]): Promise<void> {
+    if (this.dockerPilot.isInitialized()) {
+      await this.dockerPilot.updateConfig({ plugins });
+    } else {
+      this.projectConfig = await this.dockerPilot.getConfigManager().updateConfig({ plugins });
+    }
+  }
+
+  protected override showExamples(): void {
+    this.logger.info(`
+Examples:
+  docker-pilot plugin list                          # Loaded plugins and the ones that failed to load
+  docker-pilot plugin info docker-pilot-slack       # Version, supported Docker Pilot range, commands and hooks
+  docker-pilot plugin enable docker-pilot-slack     # npm package installed in the project
+  docker-pilot plugin enable @acme/docker-pilot-aws # Scoped package
+  docker-pilot plugin enable ./plugins/audit.js     # Path relative to the project
+  docker-pilot plugin disable docker-pilot-slack
+  docker-pilot plugin reload audit                  # Pick up changes, also in a running daemon
+
+enable and disable update the plugins list of docker-pilot.config.json. Plugins
+declare the Docker Pilot versions they support in metadata.dockerPilot (a semver
+range such as "^2.0.0"); plugins that do not support this version are rejected.
+
+A plugin whose hooks or commands fail (or whose hooks run past hookTimeout, 10s
+by default) 3 times in a row is disabled until it is reloaded.
+`);
+  }
+}
@@ -1,5 +1,5 @@
 import { BaseCommand } from './BaseCommand';
-import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
@@ -22,7 +22,7 @@ export class PullCommand extends BaseCommand {
       const startTime = Date.now();
 
       if (!(await this.checkDockerAvailable())) {
-        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'));
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
       }
 
       // Show loading message
@@ -42,7 +42,7 @@ export class PullCommand extends BaseCommand {
       pullArgs.push('pull');
 
       // Add options
-      if (parsedOptions['quiet'] || parsedOptions['q']) {
+      if (parsedOptions['quiet']) {
         pullArgs.push('--quiet');
       }
 
@@ -142,12 +142,6 @@ Examples:
   docker-pilot pull --parallel         # Pull images in parallel
   docker-pilot pull --ignore-pull-failures  # Continue on pull failures
   docker-pilot pull --include-deps     # Pull dependency images too
-
-Pull Options:
-  --quiet, -q               Suppress output
-  --parallel                Pull images in parallel
-  --ignore-pull-failures    Continue if some images fail to pull
-  --include-deps            Also pull images of dependencies
 `);
   }
 }
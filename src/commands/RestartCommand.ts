@@ -1,25 +1,29 @@
 import { BaseCommand } from './BaseCommand';
-import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { PluginManager } from '../plugins/PluginManager';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
 
 export class RestartCommand extends BaseCommand {
-  constructor(context: CommandContext) {
+  private pluginManager: PluginManager | null;
+
+  constructor(context: CommandContext, pluginManager: PluginManager | null = null) {
     super(
       'restart',
       'Restart services',
       'docker-pilot restart [service-name] [options]',
       context
     );
+    this.pluginManager = pluginManager;
   }  async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
     const { args: parsedArgs, options: parsedOptions } = this.parseOptions(args);
     const serviceName = parsedArgs[0];
 
     try {
       if (!(await this.checkDockerAvailable())) {
-        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'));
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
       }
 
       // Show loading message
@@ -29,8 +33,17 @@ export class RestartCommand extends BaseCommand {
         this.logger.loading(this.i18n.t('cmd.restart.loading_all'));
       }
 
+      // A restart is a stop and a start to plugins, as in ServiceManager.restartAll
+      const serviceManager = this.createServiceManager(this.pluginManager);
+      const targets = serviceName ? [serviceName] : Object.keys(this.context.config.services);
+
       const { result: restartOutput, executionTime } = await this.measureExecutionTime(async () => {
-        return await this.restartServices(serviceName, parsedOptions);
+        await serviceManager.runServiceHooks('beforeServiceStop', targets);
+        await serviceManager.runServiceHooks('beforeServiceStart', targets);
+        const output = await this.restartServices(serviceName, parsedOptions);
+        await serviceManager.runServiceHooks('afterServiceStop', targets);
+        await serviceManager.runServiceHooks('afterServiceStart', targets);
+        return output;
       });
 
       // Show restart output
@@ -49,7 +62,8 @@ export class RestartCommand extends BaseCommand {
 
       return this.createSuccessResult(
         `✅ Successfully restarted ${resultMessage}`,
-        executionTime
+        executionTime,
+        { services: targets, output: restartOutput }
       );
 
     } catch (error) {
@@ -75,8 +89,8 @@ export class RestartCommand extends BaseCommand {
       restartArgs.push('restart');
 
       // Add timeout if specified
-      if (options?.['timeout'] || options?.['t']) {
-        restartArgs.push('--timeout', (options['timeout'] || options['t']) as string);
+      if (options?.['timeout'] !== undefined) {
+        restartArgs.push('--timeout', String(options['timeout']));
       }
 
       // Add no-deps option if specified
@@ -0,0 +1,180 @@
+/**
+ * Restore Command - Restore services from backup archives
+ */
+
+import * as path from 'path';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
+import { BaseCommand } from './BaseCommand';
+import { BackupManager, BackupArchive } from '../core/BackupManager';
+import { FileUtils } from '../utils/FileUtils';
+
+export class RestoreCommand extends BaseCommand {
+  private fileUtils: FileUtils;
+
+  constructor(context: CommandContext) {
+    super(
+      'restore',
+      'Restore a service from a backup archive',
+      'docker-pilot restore [list] [service-name] [--at <timestamp>] [--yes]',
+      context
+    );
+    this.fileUtils = new FileUtils(this.logger);
+  }
+
+  async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
+    const { args: parsedArgs, options: parsedOptions } = this.parseOptions(args);
+
+    try {
+      const backupManager = this.createBackupManager();
+
+      if (parsedArgs[0] === 'list') {
+        return await this.showCatalog(backupManager, parsedArgs[1]);
+      }
+
+      const serviceName = parsedArgs[0];
+      if (!serviceName) {
+        return await this.showCatalog(backupManager);
+      }
+
+      if (!backupManager.getBackupServices().includes(serviceName)) {
+        return this.createErrorResult(this.i18n.t('cmd.backup.unknown_service', { service: serviceName }));
+      }
+
+      const archive = await backupManager.resolveArchive(serviceName, parsedOptions['at']);
+      const timestamp = BackupManager.formatTimestamp(archive.timestamp);
+
+      this.logger.info(this.i18n.t('cmd.restore.selected', {
+        file: path.relative(this.context.workingDirectory, archive.file),
+        timestamp
+      }));
+
+      const confirmed = await this.confirmAction(
+        this.i18n.t('cmd.restore.confirm', { service: serviceName, timestamp }),
+        { assumeYes: Boolean(parsedOptions['yes']) }
+      );
+
+      if (!confirmed) {
+        return this.createErrorResult(this.i18n.t('cmd.operation_cancelled'), EXIT_CODES.CANCELLED);
+      }
+
+      if (!(await this.checkDockerAvailable())) {
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
+      }
+
+      const { result, executionTime } = await this.measureExecutionTime(async () => {
+        return await backupManager.restoreService(serviceName, archive);
+      });
+
+      if (result.safetyBackup) {
+        const safetyArchive = (await backupManager.listArchives(serviceName))
+          .find(candidate => candidate.file === result.safetyBackup);
+
+        if (safetyArchive) {
+          this.logger.info(this.i18n.t('cmd.restore.undo_hint', {
+            service: serviceName,
+            timestamp: BackupManager.formatTimestamp(safetyArchive.timestamp)
+          }));
+        }
+      }
+
+      if (!result.success) {
+        return this.createErrorResult(result.error || 'Unknown error', 1, executionTime);
+      }
+
+      return this.createSuccessResult(
+        this.i18n.t('cmd.restore.success', {
+          service: serviceName,
+          file: path.relative(this.context.workingDirectory, archive.file)
+        }),
+        executionTime,
+        result
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(errorMessage);
+      return this.createErrorResult(errorMessage);
+    }
+  }
+
+  /**
+   * Show the backup catalog
+   */
+  private async showCatalog(backupManager: BackupManager, serviceName?: string): Promise<CommandResult> {
+    const archives = await backupManager.listArchives(serviceName, { includeRemote: true });
+
+    if (archives.length === 0) {
+      const directory = path.relative(this.context.workingDirectory, backupManager.getBackupDirectory()) || '.';
+      this.logger.info(this.i18n.t('cmd.restore.catalog_empty', { directory }));
+      return this.createSuccessResult('', undefined, archives);
+    }
+
+    this.logger.newLine();
+    this.logger.info(this.i18n.t('cmd.restore.catalog_title'));
+    this.logger.separator('-', 100);
+    this.logger.info(this.formatCatalogRow(
+      this.i18n.t('cmd.restore.column_service'),
+      this.i18n.t('cmd.restore.column_timestamp'),
+      this.i18n.t('cmd.restore.column_size'),
+      this.i18n.t('cmd.restore.column_location'),
+      this.i18n.t('cmd.restore.column_checksum')
+    ));
+
+    archives.forEach((archive: BackupArchive) => {
+      const checksum = archive.checksum ||
+        this.i18n.t(archive.location === 'remote' ? 'cmd.restore.remote_checksum' : 'cmd.restore.no_manifest');
+
+      this.logger.info(this.formatCatalogRow(
+        archive.service,
+        BackupManager.formatTimestamp(archive.timestamp),
+        this.fileUtils.formatFileSize(archive.size),
+        this.i18n.t(`cmd.restore.location_${archive.location}`),
+        checksum
+      ));
+    });
+
+    const output = archives
+      .map(archive => [
+        archive.service,
+        BackupManager.formatTimestamp(archive.timestamp),
+        archive.size,
+        archive.location,
+        archive.checksum || ''
+      ].join('\t'))
+      .join('\n');
+
+    return this.createSuccessResult(output, undefined, archives);
+  }
+
+  /**
+   * Format a catalog table row
+   */
+  private formatCatalogRow(service: string, timestamp: string, size: string, location: string, checksum: string): string {
+    return `  ${service.padEnd(16)} ${timestamp.padEnd(22)} ${size.padEnd(10)} ${location.padEnd(14)} ${checksum}`;
+  }
+
+  /**
+   * Create backup manager from command context
+   */
+  private createBackupManager(): BackupManager {
+    return new BackupManager(this.context.config, {
+      workingDirectory: this.context.workingDirectory,
+      ...(this.context.composeFile && { composeFile: this.context.composeFile })
+    });
+  }
+
+  protected override showExamples(): void {
+    this.logger.info(`
+Examples:
+  docker-pilot restore                                   # Show the backup catalog
+  docker-pilot restore list postgres                     # Show archives of one service
+  docker-pilot restore postgres                          # Restore the latest postgres backup
+  docker-pilot restore postgres --at 2024-01-31T02-00-00Z  # Restore a specific archive
+  docker-pilot restore postgres --at 2024-01-31 --yes    # Newest archive at or before a date, no prompt
+
+Archives only present in remote storage (backup.cloud) are downloaded first.
+Archives are verified against their SHA-256 manifest before restoring, and a
+safety backup of the current data is taken first. The archive is piped into
+backup.services.<name>.restoreCommand inside the container.
+`);
+  }
+}
@@ -1,5 +1,5 @@
 import { BaseCommand } from './BaseCommand';
-import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
@@ -21,11 +21,11 @@ export class ScaleCommand extends BaseCommand {
       const startTime = Date.now();
 
       if (parsedArgs.length === 0) {
-        return this.createErrorResult(this.i18n.t('cmd.args_required', { type: 'service=replicas pair' }));
+        return this.createErrorResult(this.i18n.t('cmd.args_required', { type: 'service=replicas pair' }), EXIT_CODES.USAGE);
       }
 
       if (!(await this.checkDockerAvailable())) {
-        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'));
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
       }
 
       // Parse service=replicas pairs
@@ -35,12 +35,12 @@ export class ScaleCommand extends BaseCommand {
         const [service, replicasStr] = arg.split('=');
 
         if (!service || !replicasStr) {
-          return this.createErrorResult(this.i18n.t('cmd.invalid_format', { format: arg }) + '. ' + this.i18n.t('cmd.scale.format_help'));
+          return this.createErrorResult(this.i18n.t('cmd.invalid_format', { format: arg }) + '. ' + this.i18n.t('cmd.scale.format_help'), EXIT_CODES.USAGE);
         }
 
         const replicas = parseInt(replicasStr, 10);
         if (isNaN(replicas) || replicas < 0) {
-          return this.createErrorResult(this.i18n.t('cmd.scale.invalid_replicas', { replicas: replicasStr }));
+          return this.createErrorResult(this.i18n.t('cmd.scale.invalid_replicas', { replicas: replicasStr }), EXIT_CODES.USAGE);
         }
 
         scaleTargets.push({ service, replicas });
@@ -68,8 +68,8 @@ export class ScaleCommand extends BaseCommand {
       if (!parsedOptions['recreate']) {
         scaleArgs.push('--no-recreate');
       }      // Add timeout if specified
-      if (parsedOptions['timeout']) {
-        scaleArgs.push('--timeout', parsedOptions['timeout'] as string);
+      if (parsedOptions['timeout'] !== undefined) {
+        scaleArgs.push('--timeout', String(parsedOptions['timeout']));
       }
 
       const command = 'docker ' + scaleArgs.join(' ');
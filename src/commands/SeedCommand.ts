@@ -0,0 +1,69 @@
+/**
+ * Seed Command - Run the seed command defined for services
+ */
+
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
+import { BaseCommand } from './BaseCommand';
+import { ServiceManager } from '../core/ServiceManager';
+
+export class SeedCommand extends BaseCommand {
+  constructor(context: CommandContext) {
+    super(
+      'seed',
+      'Seed databases of services with development data',
+      'docker-pilot seed [service-name]',
+      context
+    );
+  }
+
+  async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
+    const { args: parsedArgs } = this.parseOptions(args);
+    const serviceName = parsedArgs[0];
+
+    try {
+      if (!(await this.checkDockerAvailable())) {
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
+      }
+
+      const serviceManager = new ServiceManager(this.context.config, {
+        workingDirectory: this.context.workingDirectory,
+        ...(this.context.composeFile && { composeFile: this.context.composeFile })
+      });
+
+      const { result: results, executionTime } = await this.measureExecutionTime(() =>
+        serviceManager.runSeeds(serviceName)
+      );
+
+      if (results.length === 0) {
+        this.logger.info(this.i18n.t('task.none_defined', { task: 'seed' }));
+        return this.createSuccessResult('', executionTime, results);
+      }
+
+      const failed = results.filter(result => !result.success);
+      if (failed.length > 0) {
+        return this.createErrorResult(failed.map(result => result.error || '').join('\n'), 1, executionTime);
+      }
+
+      return this.createSuccessResult(this.i18n.t('task.completed', { task: 'seed', count: results.length }), executionTime, results);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(errorMessage);
+      return this.createErrorResult(errorMessage);
+    }
+  }
+
+  protected override showExamples(): void {
+    this.logger.info(`
+Examples:
+  docker-pilot seed                    # Run the seed command of every service that defines one
+  docker-pilot seed api                # Seed one service
+
+The command is set per service and runs inside its container with sh -c:
+  "services": { "api": { "seed": "npm run db:seed" } }
+
+Seeds refuse to run while development.environment is "production".
+With development.seedData, seeds also run after "up" once each service is
+ready, following its migrations when development.autoMigrate is on.
+`);
+  }
+}
@@ -1,5 +1,5 @@
 import { BaseCommand } from './BaseCommand';
-import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
 import { spawn } from 'child_process';
 
 export class ShellCommand extends BaseCommand {
@@ -37,7 +37,7 @@ export class ShellCommand extends BaseCommand {
       }
 
       if (!(await this.checkDockerAvailable())) {
-        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'));
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
       }
 
       if (!this.validateService(serviceName)) {
@@ -82,24 +82,18 @@ export class ShellCommand extends BaseCommand {
       execArgs.push('exec');
 
       // Add user if specified
-      if (options['user'] || options['u']) {
-        execArgs.push('--user', options['user'] || options['u']);
+      if (options['user']) {
+        execArgs.push('--user', options['user']);
       }
 
       // Add working directory if specified
-      if (options['workdir'] || options['w']) {
-        execArgs.push('--workdir', options['workdir'] || options['w']);
+      if (options['workdir']) {
+        execArgs.push('--workdir', options['workdir']);
       }
 
       // Add environment variables if specified
-      if (options['env'] || options['e']) {
-        const envVars = Array.isArray(options['env'] || options['e'])
-          ? options['env'] || options['e']
-          : [options['env'] || options['e']];
-
-        for (const envVar of envVars) {
-          execArgs.push('--env', envVar);
-        }
+      for (const envVar of options['env'] || []) {
+        execArgs.push('--env', envVar);
       }
 
       // Add service name and shell
@@ -240,12 +234,7 @@ Examples:
   docker-pilot shell web --workdir /tmp  # Start in /tmp directory
   docker-pilot shell web --env DEBUG=1   # Set environment variable
   docker-pilot shell db --shell psql     # Open PostgreSQL shell in db container
-
-Shell Options:
-  --shell <shell>         Shell to use (default: /bin/bash)
-  --user <user>          User to run shell as
-  --workdir <path>       Working directory
-  --env <key=value>      Environment variables
+  docker-pilot shell web -e A=1 -e B=2   # Set several environment variables
 `);
   }
 }
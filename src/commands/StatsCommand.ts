@@ -0,0 +1,306 @@
+/**
+ * Stats Command - Show resource usage of services, live or from the metrics history
+ */
+
+import * as path from 'path';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
+import { BaseCommand } from './BaseCommand';
+import { ServiceManager } from '../core/ServiceManager';
+import { ServiceMonitor } from '../core/ServiceMonitor';
+import { MetricsStore, MetricsRecord } from '../core/MetricsStore';
+import { FileUtils } from '../utils/FileUtils';
+
+interface SeriesPoint {
+  time: number;
+  value: number;
+}
+
+interface HistorySeries {
+  label: string;
+  points: SeriesPoint[];
+  format: (value: number) => string;
+}
+
+const SPARK_CHARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+export class StatsCommand extends BaseCommand {
+  private fileUtils: FileUtils;
+
+  /**
+   * Number of characters in a sparkline
+   */
+  private static readonly SPARKLINE_WIDTH = 48;
+
+  constructor(context: CommandContext) {
+    super(
+      'stats',
+      'Show resource usage of services, live or from the recorded history',
+      'docker-pilot stats [service-name] [--history <duration>]',
+      context
+    );
+    this.fileUtils = new FileUtils(this.logger);
+  }
+
+  async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
+    const { args: parsedArgs, options: parsedOptions } = this.parseOptions(args);
+    const serviceName = parsedArgs[0];
+
+    try {
+      if (parsedOptions['history'] !== undefined) {
+        const duration = String(parsedOptions['history']);
+        const window = StatsCommand.parseDuration(duration);
+
+        if (window === null) {
+          return this.createErrorResult(this.i18n.t('cmd.stats.invalid_duration', { duration }), EXIT_CODES.USAGE);
+        }
+
+        return await this.showHistory(window, duration, serviceName);
+      }
+
+      if (!(await this.checkDockerAvailable())) {
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
+      }
+
+      return await this.showCurrent(serviceName);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(errorMessage);
+      return this.createErrorResult(errorMessage);
+    }
+  }
+
+  /**
+   * Show a single snapshot of current resource usage
+   */
+  private async showCurrent(serviceName?: string): Promise<CommandResult> {
+    const serviceManager = new ServiceManager(this.context.config, {
+      workingDirectory: this.context.workingDirectory,
+      ...(this.context.composeFile && { composeFile: this.context.composeFile })
+    });
+
+    const { result: samples, executionTime } = await this.measureExecutionTime(async () => {
+      const all = await new ServiceMonitor(this.context.config, serviceManager).sample();
+      return all.filter(sample => !serviceName || sample.service === serviceName);
+    });
+
+    if (samples.length === 0) {
+      this.logger.info(this.i18n.t('cmd.stats.no_running'));
+      return this.createSuccessResult('', executionTime, samples);
+    }
+
+    this.logger.newLine();
+    this.logger.info(this.i18n.t('cmd.stats.title'));
+    this.logger.separator('-', 90);
+    this.logger.info(`  ${'SERVICE'.padEnd(20)} ${'CPU'.padEnd(8)} ${'MEMORY'.padEnd(24)} ${'MEM %'.padEnd(8)} ${'NET I/O'.padEnd(14)} BLOCK I/O`);
+
+    samples.forEach(sample => {
+      const network = this.formatPair(sample.networkRx, sample.networkTx);
+      const block = this.formatPair(sample.blockRead, sample.blockWrite);
+      this.logger.info(
+        `  ${sample.service.padEnd(20)} ${this.formatPercent(sample.cpu).padEnd(8)} ${(sample.memoryUsage || '-').padEnd(24)} ` +
+        `${this.formatPercent(sample.memory).padEnd(8)} ${network.padEnd(14)} ${block}`
+      );
+    });
+
+    const output = samples
+      .map(sample => [sample.service, sample.cpu, sample.memory, sample.memoryBytes ?? ''].join('\t'))
+      .join('\n');
+
+    return this.createSuccessResult(output, executionTime, samples);
+  }
+
+  /**
+   * Show sparklines and min/avg/max from the metrics history
+   */
+  private async showHistory(window: number, label: string, serviceName?: string): Promise<CommandResult> {
+    const store = new MetricsStore(this.context.config, { workingDirectory: this.context.workingDirectory });
+    const now = Date.now();
+    const since = new Date(now - window);
+    const records = await store.query(since, serviceName);
+
+    if (records.length === 0) {
+      const directory = path.relative(this.context.workingDirectory, store.getDirectory()) || '.';
+      this.logger.info(this.i18n.t('cmd.stats.no_history', { duration: label, directory }));
+      this.logger.info(this.i18n.t('cmd.stats.no_history_hint'));
+      return this.createSuccessResult('', undefined, { since, until: new Date(now), series: [] });
+    }
+
+    const byService = new Map<string, MetricsRecord[]>();
+    records.forEach(record => {
+      const serviceRecords = byService.get(record.service);
+      if (serviceRecords) {
+        serviceRecords.push(record);
+      } else {
+        byService.set(record.service, [record]);
+      }
+    });
+
+    this.logger.newLine();
+    this.logger.info(this.i18n.t('cmd.stats.history_title', {
+      duration: label,
+      since: since.toLocaleString()
+    }));
+    this.logger.separator('-', 100);
+
+    const output: string[] = [];
+    const summaries: Array<{ service: string; metric: string; min: number; avg: number; max: number; samples: number }> = [];
+
+    for (const [service, serviceRecords] of byService) {
+      this.logger.info(`  ${service}`);
+
+      for (const series of this.buildSeries(serviceRecords)) {
+        if (series.points.length === 0) {
+          continue;
+        }
+
+        // A week of samples is well over 100k points, too many to spread into Math.min/max
+        let min = Infinity;
+        let max = -Infinity;
+        let sum = 0;
+        for (const { value } of series.points) {
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+          sum += value;
+        }
+        const avg = sum / series.points.length;
+        const sparkline = this.renderSparkline(series.points, since.getTime(), now);
+
+        this.logger.info(
+          `    ${series.label.padEnd(10)} ${sparkline}  ` +
+          `min ${series.format(min).padEnd(12)} avg ${series.format(avg).padEnd(12)} max ${series.format(max)}`
+        );
+        output.push([service, series.label, min, avg, max].join('\t'));
+        summaries.push({ service, metric: series.label, min, avg, max, samples: series.points.length });
+      }
+
+      // Container changes mark deploys and restarts, handy to line up with a trend
+      serviceRecords.forEach((record, index) => {
+        const previous = serviceRecords[index - 1];
+        if (previous && previous.container !== record.container) {
+          this.logger.info(`    ${this.i18n.t('cmd.stats.recreated', { time: record.time.toLocaleString() })}`);
+        }
+      });
+
+      this.logger.newLine();
+    }
+
+    return this.createSuccessResult(output.join('\n'), undefined, { since, until: new Date(now), series: summaries });
+  }
+
+  /**
+   * Build the CPU, memory, network and block IO series of one service.
+   * Network and block IO counters are cumulative, so they are turned into rates.
+   */
+  private buildSeries(records: MetricsRecord[]): HistorySeries[] {
+    const bytes = (value: number) => this.fileUtils.formatFileSize(Math.max(Math.round(value), 0));
+    const rate = (value: number) => `${bytes(value)}/s`;
+
+    const gauge = (select: (record: MetricsRecord) => number | null | undefined): SeriesPoint[] =>
+      records
+        .map(record => ({ time: record.time.getTime(), value: select(record) }))
+        .filter((point): point is SeriesPoint => typeof point.value === 'number');
+
+    const counterRate = (select: (record: MetricsRecord) => number | undefined): SeriesPoint[] => {
+      const points: SeriesPoint[] = [];
+
+      records.forEach((record, index) => {
+        const previous = records[index - 1];
+        const current = select(record);
+        const before = previous ? select(previous) : undefined;
+
+        // Counters restart with the container, so only compare samples of the same one
+        if (!previous || previous.container !== record.container || current === undefined || before === undefined) {
+          return;
+        }
+
+        const seconds = (record.time.getTime() - previous.time.getTime()) / 1000;
+        if (seconds > 0 && current >= before) {
+          points.push({ time: record.time.getTime(), value: (current - before) / seconds });
+        }
+      });
+
+      return points;
+    };
+
+    const sum = (a?: number, b?: number) => (a === undefined || b === undefined ? undefined : a + b);
+
+    return [
+      { label: 'CPU', points: gauge(record => record.cpu), format: value => `${value.toFixed(1)}%` },
+      { label: 'Memory', points: gauge(record => record.memoryBytes), format: bytes },
+      { label: 'Net I/O', points: counterRate(record => sum(record.networkRx, record.networkTx)), format: rate },
+      { label: 'Block I/O', points: counterRate(record => sum(record.blockRead, record.blockWrite)), format: rate }
+    ];
+  }
+
+  /**
+   * Render points as a sparkline, one character per time bucket; gaps stay blank
+   */
+  private renderSparkline(points: SeriesPoint[], start: number, end: number): string {
+    const width = StatsCommand.SPARKLINE_WIDTH;
+    const bucketSize = (end - start) / width;
+    const buckets: number[][] = Array.from({ length: width }, () => []);
+
+    points.forEach(point => {
+      const index = Math.min(Math.max(Math.floor((point.time - start) / bucketSize), 0), width - 1);
+      buckets[index]!.push(point.value);
+    });
+
+    const averages = buckets.map(bucket =>
+      bucket.length > 0 ? bucket.reduce((sum, value) => sum + value, 0) / bucket.length : null
+    );
+    const present = averages.filter((value): value is number => value !== null);
+    const min = Math.min(...present);
+    const range = Math.max(...present) - min;
+
+    return averages
+      .map(value => {
+        if (value === null) {
+          return ' ';
+        }
+        const level = range === 0 ? 0 : Math.round(((value - min) / range) * (SPARK_CHARS.length - 1));
+        return SPARK_CHARS[level];
+      })
+      .join('');
+  }
+
+  private formatPercent(value: number): string {
+    return Number.isNaN(value) ? '-' : `${value.toFixed(2)}%`;
+  }
+
+  private formatPair(first?: number, second?: number): string {
+    if (first === undefined || second === undefined) {
+      return '-';
+    }
+    const format = (value: number) => this.fileUtils.formatFileSize(Math.round(value));
+    return `${format(first)} / ${format(second)}`;
+  }
+
+  /**
+   * Parse a duration such as "90s", "30m", "1h", "7d" or "2w" into milliseconds
+   */
+  private static parseDuration(value: string): number | null {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smhdw])$/i);
+    if (!match) {
+      return null;
+    }
+
+    const units: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000, w: 604800000 };
+    const milliseconds = parseFloat(match[1]!) * units[match[2]!.toLowerCase()]!;
+    return milliseconds > 0 ? milliseconds : null;
+  }
+
+  protected override showExamples(): void {
+    this.logger.info(`
+Examples:
+  docker-pilot stats                     # Current CPU, memory, network and block IO
+  docker-pilot stats backend             # Current usage of one service
+  docker-pilot stats --history 1h        # Sparklines and min/avg/max for the last hour
+  docker-pilot stats api --history 7d    # One service over the last week
+
+History is recorded by "docker-pilot daemon" every monitoring.refreshInterval
+seconds into .docker-pilot/metrics (one file per day, kept for
+monitoring.history.retention days). Container recreations are listed under each
+service, so a trend can be lined up with the last deploy.
+`);
+  }
+}
@@ -2,8 +2,9 @@
  * Status Command - Show status of services
  */
 
-import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { CommandResult, CommandOptions, CommandContext, ProbeResult, EXIT_CODES } from '../types';
 import { BaseCommand } from './BaseCommand';
+import { EndpointProber } from '../utils/EndpointProber';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
@@ -17,6 +18,8 @@ interface ServiceStatus {
   ports?: string[];
   image?: string;
   created?: string;
+  appHealth?: 'healthy' | 'unhealthy';
+  probe?: ProbeResult;
 }
 
 export class StatusCommand extends BaseCommand {
@@ -33,13 +36,13 @@ export class StatusCommand extends BaseCommand {
 
     try {
       if (!(await this.checkDockerAvailable())) {
-        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'));
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
       }
 
       this.logger.info(this.i18n.t('cmd.status.loading'));
 
       const { result: statusData, executionTime } = await this.measureExecutionTime(async () => {
-        return await this.getServicesStatus(serviceName);
+        return await this.probeEndpoints(await this.getServicesStatus(serviceName));
       });
 
       // Always show status output
@@ -50,7 +53,8 @@ export class StatusCommand extends BaseCommand {
 
       return this.createSuccessResult(
         outputSummary,
-        executionTime
+        executionTime,
+        statusData
       );
 
     } catch (error) {
@@ -58,6 +62,21 @@ export class StatusCommand extends BaseCommand {
       this.logger.error(this.i18n.t('cmd.status.failed', { error: errorMessage }));
       return this.createErrorResult(errorMessage);
     }
+  }
+
+  /**
+   * Probe monitoring.urls of running services for application-level health
+   */
+  private async probeEndpoints(services: ServiceStatus[]): Promise<ServiceStatus[]> {
+    const running = services.filter(service => service.state === 'running').map(service => service.name);
+    const urls = this.context.config.monitoring.urls;
+
+    if (!running.some(service => urls[service])) {
+      return services;
+    }
+
+    const probes = await new EndpointProber(this.logger).probeAll(urls, running);
+    return EndpointProber.merge(services, probes);
   }  /**
    * Get real status of services using docker compose ps
    */
@@ -296,10 +315,9 @@ Examples:
   docker-pilot status --detailed     # Show detailed status information
   docker-pilot status --json         # Output status in JSON format
 
-Status Options:
-  --detailed      Show detailed information (ports, uptime, image)
-  --json          Output status in JSON format
-  --refresh=N     Auto-refresh every N seconds
+Services listed in monitoring.urls are probed while running (http://, https://
+or tcp://host:port) and reported as App health, so a running container whose
+endpoint answers 502 shows up as unhealthy.
 `);
   }
 
@@ -381,7 +399,10 @@ Status Options:
     if (runningServices.length > 0) {
       summary += '🟢 Running Services:\n';
       runningServices.forEach(service => {
-        summary += `  ✅ ${service.name} (${service.state})`;
+        summary += `  ${service.appHealth === 'unhealthy' ? '❤️' : '✅'} ${service.name} (${service.state})`;
+        if (service.appHealth === 'unhealthy' && service.probe) {
+          summary += ` - app unhealthy: ${this.describeProbe(service.probe)}`;
+        }
         if (service.ports && service.ports.length > 0) {
           const mainPort = service.ports[0];
           if (mainPort) {
@@ -431,6 +452,18 @@ Status Options:
     this.logger.info(`  ${statusIcon} ${service.name}`);
     this.logger.info(`     State: ${service.state} ${healthIcon} ${service.health}`);
 
+    if (service.probe) {
+      this.logger.info(`     App: ${this.getHealthIcon(service.appHealth || 'none')} ${service.appHealth} (${this.describeProbe(service.probe)})`);
+
+      const expiresAt = service.probe.tlsExpiresAt;
+      if (expiresAt) {
+        const days = Math.floor((expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+        if (options?.['detailed'] || days < 14) {
+          this.logger.info(`     TLS: ${days < 14 ? '⚠️ ' : ''}certificate expires in ${days} day(s) (${expiresAt.toISOString().slice(0, 10)})`);
+        }
+      }
+    }
+
     if (options?.['detailed']) {
       if (service.image) {
         this.logger.info(`     Image: ${service.image}`);
@@ -461,6 +494,14 @@ Status Options:
     this.logger.newLine();
   }
 
+  /**
+   * Describe a probe result, e.g. "HTTP 502, 34ms"
+   */
+  private describeProbe(probe: ProbeResult): string {
+    const outcome = probe.statusCode ? `HTTP ${probe.statusCode}` : probe.error || probe.type.toUpperCase();
+    return `${outcome}, ${probe.latency}ms`;
+  }
+
   private getStatusIcon(state: string): string {
     const icons: Record<string, string> = {
       running: '✅',
@@ -2,28 +2,33 @@
  * Up Command - Start all services or specific service
  */
 
-import { CommandResult, CommandOptions, CommandContext } from '../types';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
 import { BaseCommand } from './BaseCommand';
+import { ServiceManager } from '../core/ServiceManager';
+import { PluginManager } from '../plugins/PluginManager';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
 
 export class UpCommand extends BaseCommand {
-  constructor(context: CommandContext) {
+  private pluginManager: PluginManager | null;
+
+  constructor(context: CommandContext, pluginManager: PluginManager | null = null) {
     super(
       'up',
       'Start all services or a specific service',
       'docker-pilot up [service-name] [options]',
       context
     );
+    this.pluginManager = pluginManager;
   }  async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
     const { args: parsedArgs, options: parsedOptions } = this.parseOptions(args);
     const serviceName = parsedArgs[0];
 
     try {
       if (!(await this.checkDockerAvailable())) {
-        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'));
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
       }
 
       // Show loading message
@@ -33,8 +38,15 @@ export class UpCommand extends BaseCommand {
         this.logger.loading('🚀 Starting all services...');
       }
 
+      // Plugin service hooks run around the compose call; a failing before hook vetoes the start
+      const serviceManager = this.createServiceManager(this.pluginManager);
+      const targets = serviceName ? [serviceName] : Object.keys(this.context.config.services);
+
       const { result: upOutput, executionTime } = await this.measureExecutionTime(async () => {
-        return await this.startServices(serviceName, parsedOptions);
+        await serviceManager.runServiceHooks('beforeServiceStart', targets);
+        const output = await this.startServices(serviceName, parsedOptions);
+        await serviceManager.runServiceHooks('afterServiceStart', targets);
+        return output;
       });      // Display startup results
       this.showStartupResults(upOutput);
 
@@ -48,6 +60,11 @@ export class UpCommand extends BaseCommand {
       // Show service information
       if (parsedOptions['detach'] !== false) {
         this.showServiceInfo(serviceName);
+
+        const failedTasks = await this.runPostStartTasks(serviceManager, serviceName);
+        if (failedTasks.length > 0) {
+          return this.createErrorResult(failedTasks.join('\n'), 1, executionTime);
+        }
       }
 
       const resultMessage = serviceName
@@ -56,7 +73,8 @@ export class UpCommand extends BaseCommand {
 
       return this.createSuccessResult(
         `Successfully started ${resultMessage}`,
-        executionTime
+        executionTime,
+        { services: targets, output: upOutput }
       );
 
     } catch (error) {
@@ -75,6 +93,20 @@ export class UpCommand extends BaseCommand {
     this.logger.info('  docker-pilot up --detach=false     # Start in foreground');
   }
 
+  /**
+   * Run migrations and seeds enabled by development.autoMigrate / seedData,
+   * returning the errors of the tasks that failed
+   */
+  private async runPostStartTasks(serviceManager: ServiceManager, serviceName?: string): Promise<string[]> {
+    const { autoMigrate, seedData } = this.context.config.development;
+    if (!autoMigrate && !seedData) {
+      return [];
+    }
+
+    const results = await serviceManager.runPostStartTasks(serviceName ? [serviceName] : undefined);
+    return results.filter(result => !result.success).map(result => result.error || '');
+  }
+
   private showServiceInfo(serviceName?: string): void {
     this.logger.info('\n📋 Service Information:');
 
@@ -119,7 +151,7 @@ export class UpCommand extends BaseCommand {
         upArgs.push('--detach');
       }
 
-      if (options?.['build'] || options?.['b']) {
+      if (options?.['build']) {
         upArgs.push('--build');
       }
 
@@ -0,0 +1,218 @@
+/**
+ * Volume Command - Snapshot, restore and clone Docker volumes
+ */
+
+import * as path from 'path';
+import { CommandResult, CommandOptions, CommandContext, EXIT_CODES } from '../types';
+import { BaseCommand } from './BaseCommand';
+import { VolumeManager } from '../core/VolumeManager';
+import { BackupManager } from '../core/BackupManager';
+import { FileUtils } from '../utils/FileUtils';
+
+export class VolumeCommand extends BaseCommand {
+  private fileUtils: FileUtils;
+
+  constructor(context: CommandContext) {
+    super(
+      'volume',
+      'Snapshot, restore and clone Docker volumes',
+      'docker-pilot volume <list|snapshot|snapshots|restore|clone> [volume] [options]',
+      context
+    );
+    this.fileUtils = new FileUtils(this.logger);
+  }
+
+  async execute(args: string[], _options: CommandOptions): Promise<CommandResult> {
+    const { args: parsedArgs, options: parsedOptions } = this.parseOptions(args);
+    const action = parsedArgs[0] || 'list';
+    const volumeName = parsedArgs[1];
+
+    try {
+      const volumeManager = this.createVolumeManager();
+
+      if (action === 'snapshots') {
+        return await this.listSnapshots(volumeManager, volumeName);
+      }
+
+      if (!(await this.checkDockerAvailable())) {
+        return this.createErrorResult(this.i18n.t('cmd.docker_not_available'), EXIT_CODES.DOCKER_UNAVAILABLE);
+      }
+
+      switch (action) {
+        case 'list':
+          return await this.listVolumes(volumeManager);
+
+        case 'snapshot':
+          if (!volumeName) {
+            return this.createErrorResult(this.i18n.t('cmd.volume.name_required'), EXIT_CODES.USAGE);
+          }
+          return await this.snapshotVolume(volumeManager, volumeName);
+
+        case 'restore':
+          if (!volumeName) {
+            return this.createErrorResult(this.i18n.t('cmd.volume.name_required'), EXIT_CODES.USAGE);
+          }
+          return await this.restoreVolume(volumeManager, volumeName, parsedOptions);
+
+        case 'clone':
+          if (!volumeName || !parsedArgs[2]) {
+            return this.createErrorResult(this.i18n.t('cmd.volume.clone_usage'), EXIT_CODES.USAGE);
+          }
+          return await this.cloneVolume(volumeManager, volumeName, parsedArgs[2]);
+
+        default:
+          return this.createErrorResult(this.i18n.t('cmd.volume.unknown_action', { action }), EXIT_CODES.USAGE);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(errorMessage);
+      return this.createErrorResult(errorMessage);
+    }
+  }
+
+  /**
+   * List configured and project volumes
+   */
+  private async listVolumes(volumeManager: VolumeManager): Promise<CommandResult> {
+    const volumes = await volumeManager.listVolumes();
+
+    if (volumes.length === 0) {
+      this.logger.info(this.i18n.t('cmd.volume.none'));
+      return this.createSuccessResult('', undefined, volumes);
+    }
+
+    this.logger.newLine();
+    this.logger.info(this.i18n.t('cmd.volume.title'));
+    this.logger.separator('-', 60);
+
+    volumes.forEach(volume => {
+      const icon = volume.exists ? '✅' : '⚪';
+      const tags = [
+        volume.configured ? this.i18n.t('cmd.volume.configured') : null,
+        volume.external ? this.i18n.t('cmd.volume.external') : null,
+        volume.exists ? null : this.i18n.t('cmd.volume.missing')
+      ].filter(Boolean).join(', ');
+
+      this.logger.info(`  ${icon} ${volume.name.padEnd(20)} ${volume.dockerName}${tags ? ` (${tags})` : ''}`);
+    });
+
+    return this.createSuccessResult(volumes.map(volume => volume.dockerName).join('\n'), undefined, volumes);
+  }
+
+  /**
+   * List snapshots
+   */
+  private async listSnapshots(volumeManager: VolumeManager, volumeName?: string): Promise<CommandResult> {
+    const snapshots = await volumeManager.listSnapshots(volumeName);
+
+    if (snapshots.length === 0) {
+      this.logger.info(this.i18n.t('cmd.volume.no_snapshots'));
+      return this.createSuccessResult('', undefined, snapshots);
+    }
+
+    this.logger.newLine();
+    this.logger.info(this.i18n.t('cmd.volume.snapshots_title'));
+    this.logger.separator('-', 90);
+
+    snapshots.forEach(snapshot => {
+      const timestamp = BackupManager.formatTimestamp(snapshot.timestamp);
+      const size = this.fileUtils.formatFileSize(snapshot.size);
+      const checksum = snapshot.checksum || this.i18n.t('cmd.restore.no_manifest');
+      this.logger.info(`  ${snapshot.volume.padEnd(24)} ${timestamp.padEnd(22)} ${size.padEnd(10)} ${checksum}`);
+    });
+
+    return this.createSuccessResult(snapshots.map(snapshot => snapshot.file).join('\n'), undefined, snapshots);
+  }
+
+  /**
+   * Snapshot a volume
+   */
+  private async snapshotVolume(volumeManager: VolumeManager, volumeName: string): Promise<CommandResult> {
+    const { result: snapshot, executionTime } = await this.measureExecutionTime(async () => {
+      return await volumeManager.snapshot(volumeName);
+    });
+
+    this.logger.info(`  ${this.fileUtils.formatFileSize(snapshot.size)}, sha256 ${snapshot.checksum}`);
+
+    return this.createSuccessResult(snapshot.file, executionTime, snapshot);
+  }
+
+  /**
+   * Restore a volume from a snapshot
+   */
+  private async restoreVolume(
+    volumeManager: VolumeManager,
+    volumeName: string,
+    options: Record<string, any>
+  ): Promise<CommandResult> {
+    const snapshot = await volumeManager.resolveSnapshot(volumeName, options['at']);
+    const timestamp = BackupManager.formatTimestamp(snapshot.timestamp);
+
+    this.logger.info(this.i18n.t('cmd.restore.selected', {
+      file: path.relative(this.context.workingDirectory, snapshot.file),
+      timestamp
+    }));
+
+    const confirmed = await this.confirmAction(
+      this.i18n.t('cmd.volume.confirm_restore', { volume: volumeName, timestamp }),
+      { assumeYes: Boolean(options['yes']) }
+    );
+
+    if (!confirmed) {
+      return this.createErrorResult(this.i18n.t('cmd.operation_cancelled'), EXIT_CODES.CANCELLED);
+    }
+
+    const { result: safetySnapshot, executionTime } = await this.measureExecutionTime(async () => {
+      return await volumeManager.restore(volumeName, snapshot);
+    });
+
+    if (safetySnapshot) {
+      this.logger.info(this.i18n.t('cmd.volume.undo_hint', {
+        volume: volumeName,
+        timestamp: BackupManager.formatTimestamp(safetySnapshot.timestamp)
+      }));
+    }
+
+    return this.createSuccessResult(
+      this.i18n.t('cmd.volume.restored', { volume: volumeName, timestamp }),
+      executionTime,
+      { volume: volumeName, snapshot, safetySnapshot }
+    );
+  }
+
+  /**
+   * Clone a volume into a new one
+   */
+  private async cloneVolume(volumeManager: VolumeManager, source: string, destination: string): Promise<CommandResult> {
+    const { result: destinationName, executionTime } = await this.measureExecutionTime(async () => {
+      return await volumeManager.clone(source, destination);
+    });
+
+    return this.createSuccessResult(destinationName, executionTime, { source, destination: destinationName });
+  }
+
+  /**
+   * Create volume manager from command context
+   */
+  private createVolumeManager(): VolumeManager {
+    return new VolumeManager(this.context.config, {
+      workingDirectory: this.context.workingDirectory
+    });
+  }
+
+  protected override showExamples(): void {
+    this.logger.info(`
+Examples:
+  docker-pilot volume list                          # Volumes from config and the compose project
+  docker-pilot volume snapshot db_data              # Tar a volume into <backup.directory>/volumes
+  docker-pilot volume snapshots db_data             # List snapshots of a volume
+  docker-pilot volume restore db_data               # Restore the latest snapshot (asks first)
+  docker-pilot volume restore db_data --at 2024-01-31T02-00-00Z --yes
+  docker-pilot volume clone db_data db_data_before_migration
+
+Volume names may be written as in the volumes section / compose file (db_data)
+or as the full Docker volume name (myproject_db_data). Stop the services that
+use a volume for a consistent snapshot; restore refuses to run while it is in use.
+`);
+  }
+}
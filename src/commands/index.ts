@@ -16,3 +16,15 @@ export { RestartCommand } from './RestartCommand';
 export { CleanCommand } from './CleanCommand';
 export { PullCommand } from './PullCommand';
 export { ComposeCommand } from './ComposeCommand';
+export { BackupCommand } from './BackupCommand';
+export { RestoreCommand } from './RestoreCommand';
+export { DaemonCommand } from './DaemonCommand';
+export { VolumeCommand } from './VolumeCommand';
+export { StatsCommand } from './StatsCommand';
+export { DevCommand } from './DevCommand';
+export { MigrateCommand } from './MigrateCommand';
+export { SeedCommand } from './SeedCommand';
+export { PluginCommand } from './PluginCommand';
+export { PluginsCommand } from './PluginsCommand';
+export { CompletionCommand } from './CompletionCommand';
+export { COMMAND_DEFINITIONS, GLOBAL_FLAGS, getCommandDefinition, getCommandFlags } from './CommandRegistry';
@@ -0,0 +1,121 @@
+/**
+ * Alert Dispatcher for Docker Pilot
+ * Delivers alerts raised by the ServiceMonitor to the configured channels.
+ * Delivery failures are logged and never propagate to the monitor.
+ */
+
+import { DockerPilotConfig } from '../types';
+import { Alert, ServiceMonitor } from './ServiceMonitor';
+import { Logger } from '../utils/Logger';
+import { I18n } from '../utils/i18n';
+import { AlertChannel, AlertNotification, createAlertChannels } from '../alerts';
+
+export class AlertDispatcher {
+  private config: DockerPilotConfig;
+  private logger: Logger;
+  private i18n: I18n;
+  private channels: AlertChannel[] | null = null;
+  private deliveries = new Set<Promise<void>>();
+  private monitor: ServiceMonitor | null = null;
+
+  private readonly onFiring = (alert: Alert) => this.track(this.notify('alert:firing', alert));
+  private readonly onResolved = (alert: Alert) => this.track(this.notify('alert:resolved', alert));
+
+  constructor(config: DockerPilotConfig) {
+    this.config = config;
+    this.logger = new Logger();
+    this.i18n = new I18n(config.language as any);
+  }
+
+  /**
+   * Start delivering the alerts of a monitor
+   */
+  attach(monitor: ServiceMonitor): void {
+    this.detach();
+    this.monitor = monitor;
+    monitor.on('alert:firing', this.onFiring);
+    monitor.on('alert:resolved', this.onResolved);
+  }
+
+  /**
+   * Stop listening to the attached monitor
+   */
+  detach(): void {
+    if (this.monitor) {
+      this.monitor.off('alert:firing', this.onFiring);
+      this.monitor.off('alert:resolved', this.onResolved);
+      this.monitor = null;
+    }
+  }
+
+  /**
+   * Check whether any channel is configured
+   */
+  hasChannels(): boolean {
+    return this.getChannels().length > 0;
+  }
+
+  /**
+   * Deliver one alert to every channel. Never rejects.
+   */
+  async notify(event: AlertNotification['event'], alert: Alert): Promise<void> {
+    const notification: AlertNotification = {
+      event,
+      project: this.config.projectName,
+      alert,
+      summary: this.i18n.t(event === 'alert:firing' ? 'alerts.summary_firing' : 'alerts.summary_resolved', {
+        service: alert.service,
+        metric: alert.metric,
+        value: alert.value.toFixed(1),
+        threshold: alert.threshold
+      })
+    };
+
+    await Promise.all(this.getChannels().map(async channel => {
+      try {
+        await channel.send(notification);
+        this.logger.debug(`Alert ${alert.id} (${event}) delivered via ${channel.name}`);
+      } catch (error) {
+        this.logger.warn(this.i18n.t('alerts.delivery_failed', {
+          channel: channel.name,
+          alert: alert.id,
+          error: error instanceof Error ? error.message : String(error)
+        }));
+      }
+    }));
+  }
+
+  /**
+   * Wait for deliveries in progress
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.deliveries));
+  }
+
+  private track(delivery: Promise<void>): void {
+    this.deliveries.add(delivery);
+    delivery.finally(() => this.deliveries.delete(delivery));
+  }
+
+  private getChannels(): AlertChannel[] {
+    if (!this.channels) {
+      this.channels = createAlertChannels(this.config.monitoring.alerts);
+    }
+    return this.channels;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: DockerPilotConfig): void {
+    this.config = config;
+    this.channels = null;
+  }
+
+  /**
+   * Update language for AlertDispatcher
+   */
+  updateLanguage(language: string): void {
+    this.i18n.setLanguage(language as any);
+  }
+}
@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as zlib from 'zlib';
+import { BackupManager } from './BackupManager';
+import { DockerUtils } from '../utils/DockerUtils';
+import { DockerPilotConfigSchema } from '../types';
+
+const KEY_ENV = 'DOCKER_PILOT_TEST_BACKUP_KEY';
+const DUMP = Buffer.from('CREATE TABLE users (id int);\n'.repeat(2000));
+
+/**
+ * Stand-in for the `docker compose exec` child: backup commands print the dump,
+ * restore commands collect what is written to stdin
+ */
+function fakeExec(restored: Buffer[]) {
+  return vi.spyOn(DockerUtils.prototype, 'execInService').mockImplementation(async (_service, command) => {
+    const child = new EventEmitter() as any;
+    child.stdout = new PassThrough();
+    child.stderr = new PassThrough();
+    child.stdin = new PassThrough();
+
+    if (command[2] === 'dump') {
+      child.stdout.end(DUMP);
+      child.stdout.on('end', () => setImmediate(() => child.emit('close', 0)));
+    } else {
+      child.stdout.end();
+      child.stdin.on('data', (chunk: Buffer) => restored.push(chunk));
+      child.stdin.on('finish', () => setImmediate(() => child.emit('close', 0)));
+    }
+
+    return child;
+  });
+}
+
+describe('BackupManager with encrypted archives', () => {
+  let workingDirectory: string;
+  let manager: BackupManager;
+  let restored: Buffer[];
+  let execInService: ReturnType<typeof fakeExec>;
+
+  beforeEach(async () => {
+    workingDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'docker-pilot-backup-'));
+    process.env[KEY_ENV] = 'backup key';
+    restored = [];
+    execInService = fakeExec(restored);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const config = DockerPilotConfigSchema.parse({
+      projectName: 'demo',
+      backup: {
+        encryptionKeyEnv: KEY_ENV,
+        services: {
+          db: { command: 'dump', restoreCommand: 'load', filename: '{service}.sql', compression: true, encryption: true }
+        }
+      }
+    });
+    manager = new BackupManager(config, { workingDirectory });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    delete process.env[KEY_ENV];
+    await fs.remove(workingDirectory);
+  });
+
+  async function createArchive() {
+    const result = await manager.backupService('db');
+    expect(result.success).toBe(true);
+
+    const [archive] = await manager.listArchives('db');
+    execInService.mockClear();
+    return archive!;
+  }
+
+  /**
+   * Rewrite the archive and its manifest, as an attacker with write access to the
+   * backup directory could; the checksum alone then no longer catches the change
+   */
+  async function rewriteArchive(file: string, change: (data: Buffer) => Buffer) {
+    await fs.writeFile(file, change(await fs.readFile(file)));
+    await manager['writeManifest'](file);
+
+    const [archive] = await manager.listArchives('db');
+    return archive!;
+  }
+
+  it('writes gzip-compressed, encrypted archives', async () => {
+    const archive = await createArchive();
+    const data = await fs.readFile(archive.file);
+
+    expect(path.basename(archive.file)).toMatch(/^db-.*\.sql\.gz\.enc$/);
+    expect(data.subarray(0, 4).toString()).toBe('DPB1');
+    expect(data.includes(DUMP.subarray(0, 28))).toBe(false);
+    expect(await fs.pathExists(`${archive.file}.sha256`)).toBe(true);
+  });
+
+  it('round trips a backup through restore', async () => {
+    const archive = await createArchive();
+    const result = await manager.restoreService('db', archive);
+
+    expect(result.success).toBe(true);
+    expect(result.safetyBackup).toBeDefined();
+    expect(Buffer.concat(restored).equals(DUMP)).toBe(true);
+  });
+
+  it('moves the safety backup to the next second instead of overwriting the archive being restored', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-05-10T02:00:00.100Z'));
+    const archive = await createArchive();
+    const original = await fs.readFile(archive.file);
+
+    const result = await manager.restoreService('db', archive);
+
+    expect(result.success).toBe(true);
+    expect(path.basename(archive.file)).toMatch(/^db-2024-05-10T02-00-00Z/);
+    expect(path.basename(result.safetyBackup!)).toMatch(/^db-2024-05-10T02-00-01Z/);
+    expect((await fs.readFile(archive.file)).equals(original)).toBe(true);
+    expect(await manager.listArchives('db')).toHaveLength(2);
+  });
+
+  it('keeps the archive when the post-backup hook fails, but fails the run', async () => {
+    const config = DockerPilotConfigSchema.parse({
+      projectName: 'demo',
+      backup: {
+        services: { db: { command: 'dump', filename: '{service}.sql', compression: false, postBackupHook: 'exit 3' } }
+      }
+    });
+    manager = new BackupManager(config, { workingDirectory });
+
+    const result = await manager.backupService('db');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Post-backup hook of db failed/);
+    expect(await fs.readFile(result.file!)).toEqual(DUMP);
+    expect(await manager.listArchives('db')).toMatchObject([{ file: result.file }]);
+  });
+
+  it('removes the archive when the backup command fails', async () => {
+    execInService.mockImplementation(async () => {
+      const child = new EventEmitter() as any;
+      child.stdout = new PassThrough();
+      child.stderr = new PassThrough();
+      child.stdin = new PassThrough();
+      child.stdout.end('partial');
+      child.stdout.on('end', () => setImmediate(() => child.emit('close', 1)));
+      return child;
+    });
+
+    const result = await manager.backupService('db');
+
+    expect(result.success).toBe(false);
+    expect(await manager.listArchives('db')).toHaveLength(0);
+  });
+
+  it('verifies an intact archive', async () => {
+    const archive = await createArchive();
+
+    expect(await manager.verifyArchive(archive)).toMatchObject({ valid: true });
+  });
+
+  it('refuses an archive encrypted with another key', async () => {
+    const archive = await createArchive();
+    process.env[KEY_ENV] = 'another key';
+
+    const result = await manager.restoreService('db', archive);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Authentication failed/);
+    expect(execInService).not.toHaveBeenCalled();
+  });
+
+  it('refuses a tampered archive before touching the volume', async () => {
+    const { file } = await createArchive();
+    const archive = await rewriteArchive(file, data => {
+      data[100]! ^= 0x01;
+      return data;
+    });
+
+    const result = await manager.restoreService('db', archive);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Authentication failed/);
+    // Neither the safety backup nor the restore command ran
+    expect(execInService).not.toHaveBeenCalled();
+    expect(restored).toHaveLength(0);
+  });
+
+  it('refuses a tampered auth tag before touching the volume', async () => {
+    const { file } = await createArchive();
+    const archive = await rewriteArchive(file, data => {
+      data[data.length - 1]! ^= 0x01;
+      return data;
+    });
+
+    const result = await manager.restoreService('db', archive);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Authentication failed/);
+    expect(execInService).not.toHaveBeenCalled();
+  });
+
+  it('refuses a truncated archive before touching the volume', async () => {
+    const { file } = await createArchive();
+    const archive = await rewriteArchive(file, data => data.subarray(0, data.length - 64));
+
+    const result = await manager.restoreService('db', archive);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Authentication failed/);
+    expect(execInService).not.toHaveBeenCalled();
+    expect(restored).toHaveLength(0);
+  });
+
+  it('refuses an archive whose checksum does not match its manifest', async () => {
+    const archive = await createArchive();
+    const data = await fs.readFile(archive.file);
+    data[100]! ^= 0x01;
+    await fs.writeFile(archive.file, data);
+
+    const result = await manager.restoreService('db', archive);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/checksum/i);
+    expect(execInService).not.toHaveBeenCalled();
+  });
+
+  it('refuses plaintext gzip data in place of an encrypted archive', async () => {
+    const { file } = await createArchive();
+    const archive = await rewriteArchive(file, () => zlib.gzipSync(DUMP));
+
+    const result = await manager.restoreService('db', archive);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Not an encrypted Docker Pilot archive/);
+    expect(execInService).not.toHaveBeenCalled();
+  });
+});
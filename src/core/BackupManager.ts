@@ -0,0 +1,918 @@
+/**
+ * Backup Manager for Docker Pilot
+ * Runs the per-service backups declared in the backup configuration
+ */
+
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as zlib from 'zlib';
+import * as crypto from 'crypto';
+import { exec, ChildProcess } from 'child_process';
+import { Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { promisify } from 'util';
+import { DockerPilotConfig, BackupServiceConfig, ServiceError } from '../types';
+import { Logger } from '../utils/Logger';
+import { DockerUtils } from '../utils/DockerUtils';
+import { I18n } from '../utils/i18n';
+import { EncryptionUtils } from '../utils/EncryptionUtils';
+import { StorageProvider, createStorageProvider } from '../storage';
+
+const execAsync = promisify(exec);
+
+export interface BackupManagerOptions {
+  projectName?: string;
+  composeFile?: string;
+  workingDirectory?: string;
+}
+
+export interface BackupRunResult {
+  service: string;
+  success: boolean;
+  file?: string;
+  size?: number;
+  error?: string;
+  executionTime: number;
+}
+
+export type BackupLocation = 'local' | 'remote' | 'both';
+
+export interface BackupArchive {
+  service: string;
+  file: string;
+  timestamp: Date;
+  size: number;
+  location: BackupLocation;
+  checksum?: string;
+  remoteKey?: string;
+}
+
+export interface BackupListOptions {
+  includeRemote?: boolean;
+}
+
+export interface BackupVerification {
+  archive: BackupArchive;
+  valid: boolean;
+  encrypted: boolean;
+  expected?: string;
+  actual: string;
+  error?: string;
+}
+
+export interface RestoreRunResult {
+  service: string;
+  success: boolean;
+  archive: string;
+  safetyBackup?: string;
+  error?: string;
+  executionTime: number;
+}
+
+export class BackupManager {
+  private config: DockerPilotConfig;
+  private logger: Logger;
+  private dockerUtils: DockerUtils;
+  private encryptionUtils: EncryptionUtils;
+  private storageProvider: StorageProvider | null | undefined;
+  private options: BackupManagerOptions;
+  private i18n: I18n;
+
+  /**
+   * Timestamp format embedded in archive names (ISO 8601, filesystem safe)
+   */
+  private static readonly TIMESTAMP_PATTERN = '\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}Z';
+
+  constructor(config: DockerPilotConfig, options: BackupManagerOptions = {}) {
+    this.config = config;
+    this.logger = new Logger();
+    this.dockerUtils = new DockerUtils(this.logger);
+    this.encryptionUtils = new EncryptionUtils();
+    this.i18n = new I18n(config.language as any);
+
+    this.options = {
+      projectName: options.projectName || config.projectName,
+      workingDirectory: options.workingDirectory || process.cwd(),
+      ...(options.composeFile && { composeFile: options.composeFile })
+    };
+  }
+
+  /**
+   * Get absolute path of the backup directory
+   */
+  getBackupDirectory(): string {
+    return path.resolve(this.options.workingDirectory!, this.config.backup.directory);
+  }
+
+  /**
+   * Get services that have a backup definition
+   */
+  getBackupServices(): string[] {
+    return Object.keys(this.config.backup.services);
+  }
+
+  /**
+   * Backup all configured services, or only the given ones
+   */
+  async backupAll(serviceNames: string[] = []): Promise<BackupRunResult[]> {
+    if (!this.config.backup.enabled) {
+      throw new ServiceError(this.i18n.t('backup.disabled'));
+    }
+
+    const targets = serviceNames.length > 0 ? serviceNames : this.getBackupServices();
+
+    if (targets.length === 0) {
+      this.logger.warn(this.i18n.t('backup.no_services'));
+      return [];
+    }
+
+    const results: BackupRunResult[] = [];
+
+    for (const serviceName of targets) {
+      const result = await this.backupService(serviceName);
+      results.push(result);
+
+      if (result.success) {
+        await this.pruneBackups(serviceName);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Backup a single service
+   */
+  async backupService(serviceName: string): Promise<BackupRunResult> {
+    const startTime = Date.now();
+    const serviceConfig = this.config.backup.services[serviceName];
+
+    if (!serviceConfig) {
+      return {
+        service: serviceName,
+        success: false,
+        error: this.i18n.t('backup.service_not_configured', { service: serviceName }),
+        executionTime: 0
+      };
+    }
+
+    let archivePath: string | undefined;
+    const hookEnv = (file: string) => ({
+      DOCKER_PILOT_BACKUP_SERVICE: serviceName,
+      DOCKER_PILOT_BACKUP_FILE: file
+    });
+
+    this.logger.loading(this.i18n.t('backup.starting', { service: serviceName }));
+
+    try {
+      archivePath = await this.claimArchivePath(serviceName, serviceConfig, new Date());
+
+      if (serviceConfig.preBackupHook) {
+        await this.runHook(serviceConfig.preBackupHook, hookEnv(archivePath));
+      }
+
+      await this.streamToFile(serviceName, serviceConfig, archivePath);
+      await this.writeManifest(archivePath);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(this.i18n.t('backup.failed', { service: serviceName, error: errorMessage }));
+
+      // Never leave a truncated archive behind
+      if (archivePath) {
+        await fs.remove(archivePath).catch(() => undefined);
+        await fs.remove(BackupManager.getManifestPath(archivePath)).catch(() => undefined);
+      }
+
+      return {
+        service: serviceName,
+        success: false,
+        error: errorMessage,
+        executionTime: Date.now() - startTime
+      };
+    }
+
+    // The archive is complete from here on: a failing post hook or upload keeps it but still fails the run
+    const errors: string[] = [];
+
+    if (serviceConfig.postBackupHook) {
+      try {
+        await this.runHook(serviceConfig.postBackupHook, hookEnv(archivePath));
+      } catch (hookError) {
+        errors.push(this.i18n.t('backup.post_hook_failed', {
+          service: serviceName,
+          error: hookError instanceof Error ? hookError.message : String(hookError)
+        }));
+      }
+    }
+
+    const { size } = await fs.stat(archivePath);
+    this.logger.success(this.i18n.t('backup.completed', {
+      service: serviceName,
+      file: path.relative(this.options.workingDirectory!, archivePath)
+    }));
+
+    // Offsite copies are the point, so a failed upload fails the run too
+    try {
+      await this.uploadArchive(archivePath);
+    } catch (uploadError) {
+      errors.push(this.i18n.t('backup.upload_failed', {
+        service: serviceName,
+        error: uploadError instanceof Error ? uploadError.message : String(uploadError)
+      }));
+    }
+
+    if (errors.length > 0) {
+      errors.forEach(message => this.logger.error(message));
+
+      return {
+        service: serviceName,
+        success: false,
+        file: archivePath,
+        size,
+        error: errors.join('; '),
+        executionTime: Date.now() - startTime
+      };
+    }
+
+    return {
+      service: serviceName,
+      success: true,
+      file: archivePath,
+      size,
+      executionTime: Date.now() - startTime
+    };
+  }
+
+  /**
+   * List archives in the backup directory, newest first.
+   * With includeRemote, archives only present in remote storage are listed too.
+   */
+  async listArchives(serviceName?: string, options: BackupListOptions = {}): Promise<BackupArchive[]> {
+    const directory = this.getBackupDirectory();
+    const entries = await fs.pathExists(directory) ? await fs.readdir(directory) : [];
+    const archives: BackupArchive[] = [];
+
+    for (const entry of entries) {
+      const match = this.matchArchive(entry, serviceName);
+      if (!match) continue;
+
+      const file = path.join(directory, entry);
+      const stats = await fs.stat(file);
+      if (!stats.isFile()) continue;
+
+      const checksum = await this.readManifest(file);
+
+      archives.push({
+        service: match.service,
+        file,
+        timestamp: match.timestamp,
+        size: stats.size,
+        location: 'local',
+        ...(checksum && { checksum })
+      });
+    }
+
+    if (options.includeRemote && this.config.backup.cloud?.provider) {
+      try {
+        for (const remote of await this.listRemoteArchives(serviceName)) {
+          const local = archives.find(archive => path.basename(archive.file) === path.basename(remote.file));
+
+          if (local) {
+            local.location = 'both';
+            local.remoteKey = remote.remoteKey!;
+          } else {
+            archives.push(remote);
+          }
+        }
+      } catch (error) {
+        this.logger.warn(this.i18n.t('backup.remote_list_failed', {
+          error: error instanceof Error ? error.message : String(error)
+        }));
+      }
+    }
+
+    return archives.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  /**
+   * List archives in remote storage, newest first
+   */
+  async listRemoteArchives(serviceName?: string): Promise<BackupArchive[]> {
+    const provider = this.getStorageProvider();
+    if (!provider) {
+      return [];
+    }
+
+    const prefix = this.getRemotePrefix();
+    const archives: BackupArchive[] = [];
+
+    for (const object of await provider.list(prefix)) {
+      const name = object.key.slice(prefix.length);
+      const match = this.matchArchive(name, serviceName);
+      if (!match) continue;
+
+      archives.push({
+        service: match.service,
+        file: path.join(this.getBackupDirectory(), name),
+        timestamp: match.timestamp,
+        size: object.size,
+        location: 'remote',
+        remoteKey: object.key
+      });
+    }
+
+    return archives.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  /**
+   * Remove archives older than the retention period (in days).
+   * The most recent archive of each service is always kept.
+   */
+  async pruneBackups(serviceName?: string): Promise<string[]> {
+    const services = serviceName ? [serviceName] : this.getBackupServices();
+    const cutoff = Date.now() - this.config.backup.retention * 24 * 60 * 60 * 1000;
+    const removed: string[] = [];
+
+    for (const service of services) {
+      const archives = await this.listArchives(service);
+
+      for (const archive of archives.slice(1)) {
+        if (archive.timestamp.getTime() < cutoff) {
+          await fs.remove(archive.file);
+          await fs.remove(BackupManager.getManifestPath(archive.file));
+          removed.push(archive.file);
+          this.logger.debug(`Pruned backup archive: ${archive.file}`);
+        }
+      }
+    }
+
+    if (this.config.backup.cloud?.provider) {
+      try {
+        const provider = this.getStorageProvider()!;
+
+        for (const service of services) {
+          const archives = await this.listRemoteArchives(service);
+
+          for (const archive of archives.slice(1)) {
+            if (archive.timestamp.getTime() < cutoff) {
+              await provider.delete(archive.remoteKey!);
+              await provider.delete(BackupManager.getManifestPath(archive.remoteKey!));
+              removed.push(`${provider.name}:${archive.remoteKey}`);
+              this.logger.debug(`Pruned remote backup archive: ${archive.remoteKey}`);
+            }
+          }
+        }
+      } catch (error) {
+        this.logger.warn(this.i18n.t('backup.remote_prune_failed', {
+          error: error instanceof Error ? error.message : String(error)
+        }));
+      }
+    }
+
+    if (removed.length > 0) {
+      this.logger.info(this.i18n.t('backup.pruned', { count: removed.length }));
+    }
+
+    return removed;
+  }
+
+  /**
+   * Find the archive to restore: the newest one, or the newest taken at or before the given timestamp
+   */
+  async resolveArchive(serviceName: string, at?: string): Promise<BackupArchive> {
+    const archives = await this.listArchives(serviceName, { includeRemote: true });
+
+    if (archives.length === 0) {
+      throw new ServiceError(this.i18n.t('backup.no_archives', { service: serviceName }));
+    }
+
+    if (!at) {
+      return archives[0]!;
+    }
+
+    const target = new RegExp(`^${BackupManager.TIMESTAMP_PATTERN}$`).test(at)
+      ? BackupManager.parseTimestamp(at)
+      : new Date(at);
+
+    if (isNaN(target.getTime())) {
+      throw new ServiceError(this.i18n.t('backup.invalid_timestamp', { timestamp: at }));
+    }
+
+    const archive = archives.find(candidate => candidate.timestamp.getTime() <= target.getTime());
+    if (!archive) {
+      throw new ServiceError(this.i18n.t('backup.archive_not_found', { service: serviceName, timestamp: at }));
+    }
+
+    return archive;
+  }
+
+  /**
+   * Check an archive against the SHA-256 manifest written when it was taken,
+   * then read it end to end (decrypting and decompressing in memory) so that
+   * authentication and compression errors surface without writing plaintext to disk
+   */
+  async verifyArchive(archive: BackupArchive): Promise<BackupVerification> {
+    const file = path.relative(this.options.workingDirectory!, archive.file);
+    const expected = archive.checksum || await this.readManifest(archive.file);
+    const actual = await BackupManager.computeChecksum(archive.file);
+    const encrypted = BackupManager.isEncrypted(archive.file);
+    let error: string | undefined;
+
+    if (!expected) {
+      error = this.i18n.t('backup.manifest_missing', { file });
+    } else if (expected !== actual) {
+      error = this.i18n.t('backup.checksum_mismatch', { file });
+    } else {
+      try {
+        const discard = new Writable({
+          write(_chunk, _encoding, callback) {
+            callback();
+          }
+        });
+
+        await pipeline([
+          fs.createReadStream(archive.file),
+          ...(await this.createReadTransforms(archive.file)),
+          discard
+        ]);
+      } catch (readError) {
+        error = this.i18n.t('backup.archive_unreadable', {
+          file,
+          error: readError instanceof Error ? readError.message : String(readError)
+        });
+      }
+    }
+
+    return {
+      archive,
+      valid: !error,
+      encrypted,
+      ...(expected && { expected }),
+      actual,
+      ...(error && { error })
+    };
+  }
+
+  /**
+   * Restore a service from an archive.
+   * The archive is verified first and a safety backup of the current data is taken,
+   * so a bad restore can be undone by restoring the safety backup.
+   */
+  async restoreService(serviceName: string, archive: BackupArchive): Promise<RestoreRunResult> {
+    const startTime = Date.now();
+    const serviceConfig = this.config.backup.services[serviceName];
+    let safetyBackup: string | undefined;
+
+    try {
+      if (!serviceConfig) {
+        throw new ServiceError(this.i18n.t('backup.service_not_configured', { service: serviceName }));
+      }
+
+      if (!serviceConfig.restoreCommand) {
+        throw new ServiceError(this.i18n.t('backup.restore_not_configured', { service: serviceName }));
+      }
+
+      if (archive.location === 'remote') {
+        await this.fetchArchive(archive);
+      }
+
+      const file = path.relative(this.options.workingDirectory!, archive.file);
+      const verification = await this.verifyArchive(archive);
+
+      if (!verification.valid) {
+        throw new ServiceError(verification.error!, {
+          expected: verification.expected,
+          actual: verification.actual
+        });
+      }
+
+      this.logger.success(this.i18n.t('backup.checksum_verified', { file }));
+
+      const safety = await this.backupService(serviceName);
+      if (!safety.success) {
+        throw new ServiceError(this.i18n.t('backup.safety_backup_failed', { error: safety.error || '' }));
+      }
+
+      safetyBackup = safety.file!;
+      this.logger.info(this.i18n.t('backup.safety_backup', {
+        file: path.relative(this.options.workingDirectory!, safetyBackup)
+      }));
+
+      this.logger.loading(this.i18n.t('backup.restore_starting', { service: serviceName, file }));
+      await this.streamFromFile(serviceName, serviceConfig.restoreCommand, archive.file);
+      this.logger.success(this.i18n.t('backup.restore_completed', { service: serviceName }));
+
+      return {
+        service: serviceName,
+        success: true,
+        archive: archive.file,
+        safetyBackup,
+        executionTime: Date.now() - startTime
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(this.i18n.t('backup.restore_failed', { service: serviceName, error: errorMessage }));
+
+      return {
+        service: serviceName,
+        success: false,
+        archive: archive.file,
+        ...(safetyBackup && { safetyBackup }),
+        error: errorMessage,
+        executionTime: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * Get the remote storage provider configured in backup.cloud, if any
+   */
+  getStorageProvider(): StorageProvider | null {
+    if (this.storageProvider === undefined) {
+      const cloud = this.config.backup.cloud;
+      this.storageProvider = cloud?.provider
+        ? createStorageProvider(cloud, this.options.workingDirectory!)
+        : null;
+    }
+
+    return this.storageProvider;
+  }
+
+  /**
+   * Upload an archive and its manifest to remote storage
+   */
+  private async uploadArchive(archivePath: string): Promise<void> {
+    const provider = this.getStorageProvider();
+    if (!provider) {
+      return;
+    }
+
+    const key = this.getRemotePrefix() + path.basename(archivePath);
+
+    await provider.upload(archivePath, key);
+    await provider.upload(BackupManager.getManifestPath(archivePath), BackupManager.getManifestPath(key));
+
+    this.logger.info(this.i18n.t('backup.uploaded', { provider: provider.name, key }));
+  }
+
+  /**
+   * Download a remote-only archive (and its manifest) into the backup directory
+   */
+  private async fetchArchive(archive: BackupArchive): Promise<void> {
+    const provider = this.getStorageProvider();
+    if (!provider || !archive.remoteKey) {
+      throw new ServiceError(this.i18n.t('backup.remote_not_configured'));
+    }
+
+    this.logger.loading(this.i18n.t('backup.downloading', { provider: provider.name, key: archive.remoteKey }));
+
+    await provider.download(archive.remoteKey, archive.file);
+    try {
+      await provider.download(BackupManager.getManifestPath(archive.remoteKey), BackupManager.getManifestPath(archive.file));
+    } catch (error) {
+      // Without a manifest the archive fails verification with a clear message
+      this.logger.debug(`Manifest download failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    archive.location = 'both';
+  }
+
+  /**
+   * Get the key prefix used in remote storage
+   */
+  private getRemotePrefix(): string {
+    const prefix = this.config.backup.cloud?.prefix || '';
+    return prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix;
+  }
+
+  /**
+   * Match a file name against the archive names of the backup services
+   */
+  private matchArchive(name: string, serviceName?: string): { service: string; timestamp: Date } | null {
+    const services = serviceName ? [serviceName] : this.getBackupServices();
+
+    for (const service of services) {
+      const serviceConfig = this.config.backup.services[service];
+      if (!serviceConfig) continue;
+
+      const match = name.match(this.buildArchiveMatcher(service, serviceConfig));
+      if (match && match[1]) {
+        return { service, timestamp: BackupManager.parseTimestamp(match[1]) };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Run the service backup command inside its container and write the output to disk
+   */
+  private async streamToFile(serviceName: string, serviceConfig: BackupServiceConfig, archivePath: string): Promise<void> {
+    const child = await this.dockerUtils.execInService(serviceName, ['sh', '-c', serviceConfig.command], {
+      stream: true,
+      cwd: this.options.workingDirectory!,
+      ...(this.options.composeFile && { composeFile: this.options.composeFile })
+    }) as ChildProcess;
+
+    child.stdin?.end();
+
+    let stderr = '';
+    child.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    const exitCode = new Promise<number | null>((resolve, reject) => {
+      child.on('error', reject);
+      child.on('close', (code) => resolve(code));
+    });
+    // The transforms are built asynchronously; keep an early spawn error from going unhandled meanwhile
+    exitCode.catch(() => undefined);
+
+    const transforms: Transform[] = [];
+    if (serviceConfig.compression) {
+      transforms.push(zlib.createGzip());
+    }
+    if (serviceConfig.encryption) {
+      transforms.push(await this.encryptionUtils.createEncryptStream(await this.getEncryptionKey()));
+    }
+
+    const [, code] = await Promise.all([
+      pipeline([child.stdout!, ...transforms, fs.createWriteStream(archivePath)]),
+      exitCode
+    ]);
+    if (code !== 0) {
+      throw new ServiceError(
+        this.i18n.t('backup.command_failed', { code: String(code), error: stderr.trim() }),
+        { serviceName, exitCode: code, stderr }
+      );
+    }
+  }
+
+  /**
+   * Feed an archive into the service restore command through stdin
+   */
+  private async streamFromFile(serviceName: string, restoreCommand: string, archivePath: string): Promise<void> {
+    const child = await this.dockerUtils.execInService(serviceName, ['sh', '-c', restoreCommand], {
+      stream: true,
+      cwd: this.options.workingDirectory!,
+      ...(this.options.composeFile && { composeFile: this.options.composeFile })
+    }) as ChildProcess;
+
+    let stderr = '';
+    child.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+    child.stdout?.resume();
+
+    const exitCode = new Promise<number | null>((resolve, reject) => {
+      child.on('error', reject);
+      child.on('close', (code) => resolve(code));
+    });
+    exitCode.catch(() => undefined);
+
+    const streamed = pipeline([
+      fs.createReadStream(archivePath),
+      ...(await this.createReadTransforms(archivePath)),
+      child.stdin!
+    ]);
+
+    // Wait for both sides; a failing restore command usually also breaks the pipe,
+    // and its exit code is the more useful error
+    const [streamResult, code] = await Promise.all([
+      streamed.then(() => null, (error: Error) => error),
+      exitCode
+    ]);
+
+    if (code !== 0) {
+      throw new ServiceError(
+        this.i18n.t('backup.restore_command_failed', { code: String(code), error: stderr.trim() }),
+        { serviceName, exitCode: code, stderr }
+      );
+    }
+
+    if (streamResult) {
+      throw streamResult;
+    }
+  }
+
+  /**
+   * Build the decrypt/decompress chain needed to read an archive back
+   */
+  private async createReadTransforms(archivePath: string): Promise<Transform[]> {
+    const transforms: Transform[] = [];
+    let name = archivePath;
+
+    if (BackupManager.isEncrypted(name)) {
+      transforms.push(this.encryptionUtils.createDecryptStream(await this.getEncryptionKey()));
+      name = name.slice(0, -'.enc'.length);
+    }
+
+    if (name.endsWith('.gz')) {
+      transforms.push(zlib.createGunzip());
+    }
+
+    return transforms;
+  }
+
+  /**
+   * Get the encryption key material from the configured key file or environment variable
+   */
+  private async getEncryptionKey(): Promise<string> {
+    const { encryptionKeyFile, encryptionKeyEnv } = this.config.backup;
+
+    if (encryptionKeyFile) {
+      const keyPath = path.resolve(this.options.workingDirectory!, encryptionKeyFile);
+
+      if (!(await fs.pathExists(keyPath))) {
+        throw new ServiceError(this.i18n.t('backup.encryption_key_file_missing', { file: keyPath }));
+      }
+
+      const key = (await fs.readFile(keyPath, 'utf8')).trim();
+      if (key) {
+        return key;
+      }
+    }
+
+    const key = process.env[encryptionKeyEnv]?.trim();
+    if (!key) {
+      throw new ServiceError(this.i18n.t('backup.encryption_key_missing', { env: encryptionKeyEnv }));
+    }
+
+    return key;
+  }
+
+  /**
+   * Write the SHA-256 manifest next to an archive (sha256sum compatible)
+   */
+  private async writeManifest(archivePath: string): Promise<void> {
+    const checksum = await BackupManager.computeChecksum(archivePath);
+    await fs.writeFile(
+      BackupManager.getManifestPath(archivePath),
+      `${checksum}  ${path.basename(archivePath)}\n`
+    );
+  }
+
+  /**
+   * Read the checksum recorded in an archive manifest
+   */
+  private async readManifest(archivePath: string): Promise<string | undefined> {
+    const manifestPath = BackupManager.getManifestPath(archivePath);
+
+    if (!(await fs.pathExists(manifestPath))) {
+      return undefined;
+    }
+
+    const content = await fs.readFile(manifestPath, 'utf8');
+    return content.trim().split(/\s+/)[0]?.toLowerCase() || undefined;
+  }
+
+  /**
+   * Run a pre/post backup hook on the host
+   */
+  private async runHook(hook: string, env: Record<string, string>): Promise<void> {
+    this.logger.command(hook);
+
+    await execAsync(hook, {
+      cwd: this.options.workingDirectory!,
+      env: { ...process.env, ...env }
+    });
+  }
+
+  /**
+   * Build the archive path for a backup run.
+   * Supports {service}, {project}, {date} and {timestamp} placeholders in the filename;
+   * when {timestamp} is missing it is inserted before the extension so runs never overwrite each other.
+   */
+  private buildArchivePath(serviceName: string, serviceConfig: BackupServiceConfig, date: Date): string {
+    const timestamp = BackupManager.formatTimestamp(date);
+    const filename = this.getFilenameTemplate(serviceConfig)
+      .replace(/\{service\}/g, serviceName)
+      .replace(/\{project\}/g, this.options.projectName || '')
+      .replace(/\{date\}/g, timestamp.slice(0, 10))
+      .replace(/\{timestamp\}/g, timestamp);
+
+    return path.join(this.getBackupDirectory(), filename + this.getArchiveSuffix(serviceConfig));
+  }
+
+  /**
+   * Reserve the archive path of a backup run by creating the file exclusively.
+   * Timestamps have second precision, so a run landing on a taken name (the safety
+   * backup of an archive just taken, a manual run next to a scheduled one) moves to
+   * the next free second instead of overwriting it.
+   */
+  private async claimArchivePath(serviceName: string, serviceConfig: BackupServiceConfig, date: Date): Promise<string> {
+    for (let time = date.getTime(); ; time += 1000) {
+      const archivePath = this.buildArchivePath(serviceName, serviceConfig, new Date(time));
+      await fs.ensureDir(path.dirname(archivePath));
+
+      try {
+        await fs.close(await fs.open(archivePath, 'wx'));
+        return archivePath;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Build a regex matching archive names of a service, capturing the timestamp
+   */
+  private buildArchiveMatcher(serviceName: string, serviceConfig: BackupServiceConfig): RegExp {
+    const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = escape(this.getFilenameTemplate(serviceConfig) + this.getArchiveSuffix(serviceConfig))
+      .replace(/\\\{service\\\}/g, escape(serviceName))
+      .replace(/\\\{project\\\}/g, escape(this.options.projectName || ''))
+      .replace(/\\\{date\\\}/g, '\\d{4}-\\d{2}-\\d{2}')
+      .replace(/\\\{timestamp\\\}/g, `(${BackupManager.TIMESTAMP_PATTERN})`);
+
+    return new RegExp(`^${pattern}$`);
+  }
+
+  /**
+   * Get filename template, guaranteeing a {timestamp} placeholder
+   */
+  private getFilenameTemplate(serviceConfig: BackupServiceConfig): string {
+    const filename = serviceConfig.filename;
+    if (filename.includes('{timestamp}')) {
+      return filename;
+    }
+
+    const dotIndex = filename.indexOf('.', 1);
+    return dotIndex === -1
+      ? `${filename}-{timestamp}`
+      : `${filename.slice(0, dotIndex)}-{timestamp}${filename.slice(dotIndex)}`;
+  }
+
+  /**
+   * Get suffix appended to archive names
+   */
+  private getArchiveSuffix(serviceConfig: BackupServiceConfig): string {
+    const compression = serviceConfig.compression && !serviceConfig.filename.endsWith('.gz') ? '.gz' : '';
+    return compression + (serviceConfig.encryption ? '.enc' : '');
+  }
+
+  /**
+   * Check whether an archive is encrypted
+   */
+  static isEncrypted(archivePath: string): boolean {
+    return archivePath.endsWith('.enc');
+  }
+
+  /**
+   * Get manifest path of an archive
+   */
+  static getManifestPath(archivePath: string): string {
+    return `${archivePath}.sha256`;
+  }
+
+  /**
+   * Compute the SHA-256 checksum of a file
+   */
+  static async computeChecksum(file: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+
+    for await (const chunk of fs.createReadStream(file)) {
+      hash.update(chunk);
+    }
+
+    return hash.digest('hex');
+  }
+
+  /**
+   * Format a date as an archive timestamp (e.g. 2024-01-31T02-00-00Z)
+   */
+  static formatTimestamp(date: Date): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z').replace(/:/g, '-');
+  }
+
+  /**
+   * Parse an archive timestamp back into a date
+   */
+  static parseTimestamp(timestamp: string): Date {
+    return new Date(timestamp.replace(/T(\d{2})-(\d{2})-(\d{2})Z$/, 'T$1:$2:$3Z'));
+  }
+
+  /**
+   * Update backup manager configuration
+   */
+  updateConfig(config: DockerPilotConfig): void {
+    this.config = config;
+    this.storageProvider = undefined;
+  }
+
+  /**
+   * Update language for BackupManager
+   */
+  updateLanguage(language: string): void {
+    this.i18n.setLanguage(language as any);
+  }
+
+  /**
+   * Get current options
+   */
+  getOptions(): BackupManagerOptions {
+    return { ...this.options };
+  }
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { BackupScheduler, BackupRunEvent } from './BackupScheduler';
+import { BackupManager } from './BackupManager';
+import { DockerPilotConfigSchema } from '../types';
+
+const SCHEDULE = '0 2 * * *';
+
+function at(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+describe('BackupScheduler', () => {
+  let workingDirectory: string;
+  let stateFile: string;
+  let backupAll: ReturnType<typeof vi.fn>;
+  let scheduler: BackupScheduler;
+  let events: Array<{ name: string; event: BackupRunEvent }>;
+
+  function createScheduler(schedule = SCHEDULE): BackupScheduler {
+    const config = DockerPilotConfigSchema.parse({ projectName: 'demo', backup: { schedule } });
+    const instance = new BackupScheduler(config, { backupAll } as unknown as BackupManager, { workingDirectory });
+
+    for (const name of ['backup:start', 'backup:success', 'backup:failure']) {
+      instance.on(name, (event: BackupRunEvent) => events.push({ name, event }));
+    }
+
+    return instance;
+  }
+
+  async function writeState(state: object): Promise<void> {
+    await fs.outputJson(stateFile, state);
+  }
+
+  beforeEach(async () => {
+    workingDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'docker-pilot-scheduler-'));
+    stateFile = path.join(workingDirectory, '.docker-pilot', 'backup-scheduler.json');
+    backupAll = vi.fn().mockResolvedValue([{ service: 'db', success: true, executionTime: 1 }]);
+    events = [];
+
+    // Only timers and the clock are faked, fs still needs the real event loop
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await scheduler?.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await fs.remove(workingDirectory);
+  });
+
+  it('starts counting from now on the first start', async () => {
+    vi.setSystemTime(at(2024, 5, 10, 10));
+    scheduler = createScheduler();
+
+    await scheduler.start();
+
+    expect(backupAll).not.toHaveBeenCalled();
+    expect(scheduler.getNextRun()).toEqual(at(2024, 5, 11, 2));
+    expect(await fs.readJson(stateFile)).toMatchObject({ schedule: SCHEDULE, lastRun: at(2024, 5, 10, 10).toISOString() });
+  });
+
+  it('catches up on a run missed while stopped', async () => {
+    await writeState({ schedule: SCHEDULE, lastRun: at(2024, 5, 9, 2).toISOString(), lastStatus: 'success' });
+    vi.setSystemTime(at(2024, 5, 10, 10));
+    scheduler = createScheduler();
+
+    await scheduler.start();
+
+    expect(backupAll).toHaveBeenCalledTimes(1);
+    expect(events.map(({ name, event }) => [name, event.trigger])).toEqual([
+      ['backup:start', 'catch-up'],
+      ['backup:success', 'catch-up']
+    ]);
+    expect(events[0]!.event.scheduledAt).toEqual(at(2024, 5, 10, 2));
+    expect(scheduler.getNextRun()).toEqual(at(2024, 5, 11, 2));
+  });
+
+  it('collapses several missed runs into one, recorded as the latest', async () => {
+    await writeState({ schedule: SCHEDULE, lastRun: at(2024, 5, 1, 2).toISOString(), lastStatus: 'success' });
+    vi.setSystemTime(at(2024, 5, 10, 10));
+    scheduler = createScheduler();
+
+    await scheduler.start();
+
+    expect(backupAll).toHaveBeenCalledTimes(1);
+    expect(scheduler.getState()).toMatchObject({ lastRun: at(2024, 5, 10, 2).toISOString(), lastStatus: 'success' });
+    expect(await fs.readJson(stateFile)).toMatchObject({ lastRun: at(2024, 5, 10, 2).toISOString() });
+  });
+
+  it('does not catch up when nothing was missed', async () => {
+    await writeState({ schedule: SCHEDULE, lastRun: at(2024, 5, 10, 2).toISOString(), lastStatus: 'success' });
+    vi.setSystemTime(at(2024, 5, 10, 10));
+    scheduler = createScheduler();
+
+    await scheduler.start();
+
+    expect(backupAll).not.toHaveBeenCalled();
+  });
+
+  it('does not catch up after the schedule changed', async () => {
+    await writeState({ schedule: '0 3 * * *', lastRun: at(2024, 5, 1, 3).toISOString(), lastStatus: 'success' });
+    vi.setSystemTime(at(2024, 5, 10, 10));
+    scheduler = createScheduler();
+
+    await scheduler.start();
+
+    expect(backupAll).not.toHaveBeenCalled();
+    expect(scheduler.getState()).toMatchObject({ schedule: SCHEDULE, lastRun: at(2024, 5, 10, 10).toISOString() });
+  });
+
+  it('records a failed catch-up without retrying it on every tick', async () => {
+    backupAll.mockResolvedValue([{ service: 'db', success: false, error: 'disk full', executionTime: 1 }]);
+    await writeState({ schedule: SCHEDULE, lastRun: at(2024, 5, 9, 2).toISOString(), lastStatus: 'success' });
+    vi.setSystemTime(at(2024, 5, 10, 10));
+    scheduler = createScheduler();
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(2 * 60 * 60 * 1000);
+
+    expect(backupAll).toHaveBeenCalledTimes(1);
+    expect(events.map(({ name }) => name)).toEqual(['backup:start', 'backup:failure']);
+    expect(events[1]!.event.error).toBe('db: disk full');
+    expect(scheduler.getState()).toMatchObject({ lastStatus: 'failure', lastError: 'db: disk full' });
+  });
+
+  it('fires on schedule once the timer reaches the next run', async () => {
+    await writeState({ schedule: SCHEDULE, lastRun: at(2024, 5, 9, 2).toISOString(), lastStatus: 'success' });
+    vi.setSystemTime(at(2024, 5, 10, 1, 59));
+    scheduler = createScheduler();
+
+    await scheduler.start();
+    expect(backupAll).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(backupAll).toHaveBeenCalledTimes(1);
+    expect(events[0]!.event).toMatchObject({ trigger: 'schedule', scheduledAt: at(2024, 5, 10, 2) });
+    expect(scheduler.getNextRun()).toEqual(at(2024, 5, 11, 2));
+  });
+
+  it('keeps scheduling when the state cannot be saved', async () => {
+    await writeState({ schedule: SCHEDULE, lastRun: at(2024, 5, 9, 2).toISOString(), lastStatus: 'success' });
+    vi.setSystemTime(at(2024, 5, 10, 1, 59));
+    scheduler = createScheduler();
+
+    await scheduler.start();
+    vi.spyOn(scheduler as any, 'saveState').mockRejectedValue(new Error('ENOSPC: no space left on device'));
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(events.map(({ name }) => name)).toEqual(['backup:start', 'backup:success']);
+    expect(scheduler.getNextRun()).toEqual(at(2024, 5, 11, 2));
+
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+
+    expect(backupAll).toHaveBeenCalledTimes(2);
+  });
+
+  it('refuses to start without a schedule', async () => {
+    scheduler = createScheduler('');
+
+    await expect(scheduler.start()).rejects.toThrow();
+    expect(scheduler.isActive()).toBe(false);
+  });
+});
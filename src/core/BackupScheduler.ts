@@ -0,0 +1,286 @@
+/**
+ * Backup Scheduler for Docker Pilot
+ * Fires backups on the backup.schedule cron expression and catches up on runs
+ * missed while the daemon was not running
+ */
+
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { EventEmitter } from 'events';
+import { DockerPilotConfig, ServiceError } from '../types';
+import { BackupManager, BackupRunResult } from './BackupManager';
+import { Logger } from '../utils/Logger';
+import { I18n } from '../utils/i18n';
+import { CronExpression } from '../utils/CronExpression';
+
+export interface BackupSchedulerOptions {
+  workingDirectory?: string;
+  stateFile?: string;
+}
+
+export interface BackupSchedulerState {
+  schedule?: string;
+  lastRun?: string;
+  lastStatus?: 'success' | 'failure';
+  lastError?: string;
+}
+
+export type BackupTrigger = 'schedule' | 'catch-up' | 'manual';
+
+export interface BackupRunEvent {
+  trigger: BackupTrigger;
+  scheduledAt?: Date;
+  results?: BackupRunResult[];
+  error?: string;
+}
+
+export class BackupScheduler extends EventEmitter {
+  private config: DockerPilotConfig;
+  private backupManager: BackupManager;
+  private logger: Logger;
+  private i18n: I18n;
+  private options: Required<BackupSchedulerOptions>;
+  private cron: CronExpression | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<void> | null = null;
+  private state: BackupSchedulerState = {};
+  private active = false;
+
+  /**
+   * Longest single timer; the schedule is re-evaluated on every wake-up,
+   * which also absorbs clock changes and suspend/resume
+   */
+  private static readonly MAX_TIMER_DELAY = 60 * 60 * 1000;
+
+  /**
+   * A scheduled run that fires later than this is reported as a catch-up
+   */
+  private static readonly CATCH_UP_THRESHOLD = 60 * 1000;
+
+  constructor(config: DockerPilotConfig, backupManager: BackupManager, options: BackupSchedulerOptions = {}) {
+    super();
+    this.config = config;
+    this.backupManager = backupManager;
+    this.logger = new Logger();
+    this.i18n = new I18n(config.language as any);
+
+    const workingDirectory = options.workingDirectory || process.cwd();
+    this.options = {
+      workingDirectory,
+      stateFile: options.stateFile || path.join(workingDirectory, '.docker-pilot', 'backup-scheduler.json')
+    };
+  }
+
+  /**
+   * Start the scheduler. A run missed while the scheduler was down is fired right away.
+   */
+  async start(): Promise<void> {
+    if (this.active) {
+      return;
+    }
+
+    const schedule = this.config.backup.schedule;
+    if (!this.config.backup.enabled || !schedule) {
+      throw new ServiceError(this.i18n.t('scheduler.no_schedule'));
+    }
+
+    this.cron = CronExpression.parse(schedule);
+    this.state = await this.loadState();
+
+    // First start, or the schedule changed: start counting from now instead of catching up
+    if (!this.state.lastRun || this.state.schedule !== schedule) {
+      this.state = { ...this.state, schedule, lastRun: new Date().toISOString() };
+      await this.saveState();
+    }
+
+    this.active = true;
+    this.logger.debug(`Backup scheduler started with schedule "${schedule}"`);
+
+    await this.tick();
+  }
+
+  /**
+   * Stop the scheduler, waiting for a backup in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.active = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentRun) {
+      await this.currentRun;
+    }
+  }
+
+  /**
+   * Check whether the scheduler is running
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Get the next scheduled run
+   */
+  getNextRun(): Date | null {
+    if (!this.cron || !this.state.lastRun) {
+      return null;
+    }
+
+    return this.cron.next(new Date(this.state.lastRun));
+  }
+
+  /**
+   * Get persisted scheduler state
+   */
+  getState(): BackupSchedulerState {
+    return { ...this.state };
+  }
+
+  /**
+   * Run a due backup if there is one, then arm the timer for the next occurrence
+   */
+  private async tick(): Promise<void> {
+    this.timer = null;
+
+    if (!this.active || !this.cron) {
+      return;
+    }
+
+    const now = new Date();
+    const due = this.getNextRun()!;
+
+    if (due.getTime() <= now.getTime()) {
+      const late = now.getTime() - due.getTime() > BackupScheduler.CATCH_UP_THRESHOLD;
+
+      if (late) {
+        this.logger.warn(this.i18n.t('scheduler.catching_up', { time: due.toLocaleString() }));
+      }
+
+      // Missed occurrences collapse into a single run, recorded as the latest one due
+      try {
+        this.currentRun = this.runBackups(this.getLatestOccurrence(due, now), late ? 'catch-up' : 'schedule');
+        await this.currentRun;
+      } catch (error) {
+        this.logger.error(this.i18n.t('scheduler.tick_failed'), error);
+      } finally {
+        this.currentRun = null;
+      }
+    }
+
+    // Always re-arm, a failed run must not stop the schedule
+    if (!this.active) {
+      return;
+    }
+
+    const next = this.getNextRun()!;
+    const delay = Math.min(Math.max(next.getTime() - Date.now(), 0), BackupScheduler.MAX_TIMER_DELAY);
+
+    this.timer = setTimeout(() => {
+      this.tick().catch(error => this.logger.error(this.i18n.t('scheduler.tick_failed'), error));
+    }, delay);
+  }
+
+  /**
+   * Run the backups of a scheduled occurrence and record the outcome
+   */
+  private async runBackups(scheduledAt: Date, trigger: BackupTrigger): Promise<void> {
+    this.emit('backup:start', { trigger, scheduledAt } as BackupRunEvent);
+
+    let results: BackupRunResult[] = [];
+    let error: string | undefined;
+
+    try {
+      results = await this.backupManager.backupAll();
+      const failed = results.filter(result => !result.success);
+
+      if (failed.length > 0) {
+        error = failed.map(result => `${result.service}: ${result.error}`).join('\n');
+      }
+    } catch (runError) {
+      error = runError instanceof Error ? runError.message : String(runError);
+    }
+
+    // Record the run even when it failed, so a broken backup is not retried on every tick
+    this.state = {
+      ...this.state,
+      lastRun: scheduledAt.toISOString(),
+      lastStatus: error ? 'failure' : 'success',
+      ...(error && { lastError: error })
+    };
+    if (!error) {
+      delete this.state.lastError;
+    }
+
+    // The outcome is kept in memory either way, a full or read-only disk only loses it on restart
+    try {
+      await this.saveState();
+    } catch (saveError) {
+      this.logger.warn(this.i18n.t('scheduler.state_save_failed', {
+        file: this.options.stateFile,
+        error: saveError instanceof Error ? saveError.message : String(saveError)
+      }));
+    }
+
+    if (error) {
+      this.emit('backup:failure', { trigger, scheduledAt, results, error } as BackupRunEvent);
+    } else {
+      this.emit('backup:success', { trigger, scheduledAt, results } as BackupRunEvent);
+    }
+  }
+
+  /**
+   * Get the latest occurrence at or before now, starting from a due occurrence
+   */
+  private getLatestOccurrence(due: Date, now: Date): Date {
+    let latest = due;
+    let next = this.cron!.next(latest);
+
+    while (next.getTime() <= now.getTime()) {
+      latest = next;
+      next = this.cron!.next(latest);
+    }
+
+    return latest;
+  }
+
+  /**
+   * Load persisted state
+   */
+  private async loadState(): Promise<BackupSchedulerState> {
+    try {
+      if (await fs.pathExists(this.options.stateFile)) {
+        return await fs.readJson(this.options.stateFile);
+      }
+    } catch {
+      this.logger.warn(this.i18n.t('scheduler.state_unreadable', { file: this.options.stateFile }));
+    }
+
+    return {};
+  }
+
+  /**
+   * Persist state
+   */
+  private async saveState(): Promise<void> {
+    await fs.ensureDir(path.dirname(this.options.stateFile));
+    await fs.writeJson(this.options.stateFile, this.state, { spaces: 2 });
+  }
+
+  /**
+   * Update scheduler configuration. Takes effect on the next start.
+   */
+  updateConfig(config: DockerPilotConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Update language for BackupScheduler
+   */
+  updateLanguage(language: string): void {
+    this.i18n.setLanguage(language as any);
+  }
+}
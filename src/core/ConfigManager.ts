@@ -4,7 +4,7 @@
  */
 
 import * as path from 'path';
-import { DockerPilotConfig, DockerPilotConfigSchema, ConfigurationError } from '../types';
+import { DockerPilotConfig, DockerPilotConfigSchema, DevelopmentConfig, ConfigurationError } from '../types';
 import { Logger } from '../utils/Logger';
 import { FileUtils } from '../utils/FileUtils';
 import { ValidationUtils } from '../utils/ValidationUtils';
@@ -15,16 +15,38 @@ export interface ConfigManagerOptions {
   autoSave?: boolean;
   createDefault?: boolean;
   validateOnLoad?: boolean;
+  /**
+   * Environment profile to load, overriding development.environment
+   */
+  environment?: DevelopmentConfig['environment'];
 }
 
+export interface EnvironmentProfile {
+  environment: DevelopmentConfig['environment'];
+  overlayPath: string | null;
+  composeFile: string | null;
+}
+
+/**
+ * Compose filename markers of each environment, as reported by FileUtils
+ */
+const COMPOSE_VARIANTS: Record<DevelopmentConfig['environment'], string> = {
+  development: 'dev',
+  staging: 'staging',
+  production: 'prod'
+};
+
 export class ConfigManager {
   private config: DockerPilotConfig | null = null;
   private configPath: string;
   private logger: Logger;
   private fileUtils: FileUtils;
   private validationUtils: ValidationUtils;
-  private options: Required<ConfigManagerOptions>;
+  private options: Required<Omit<ConfigManagerOptions, 'environment'>> & Pick<ConfigManagerOptions, 'environment'>;
   private i18n: I18n;
+  private profile: EnvironmentProfile | null = null;
+  private baseData: Record<string, any> | null = null;
+  private savedConfig: DockerPilotConfig | null = null;
   constructor(options: ConfigManagerOptions = {}) {
     this.logger = new Logger();
     this.fileUtils = new FileUtils(this.logger);
@@ -35,7 +57,8 @@ export class ConfigManager {
       configPath: options.configPath || this.getDefaultConfigPath(),
       autoSave: options.autoSave ?? true,
       createDefault: options.createDefault ?? true,
-      validateOnLoad: options.validateOnLoad ?? true
+      validateOnLoad: options.validateOnLoad ?? true,
+      ...(options.environment && { environment: options.environment })
     };
 
     this.configPath = this.options.configPath;
@@ -88,8 +111,8 @@ export class ConfigManager {
         }
       }
 
-      // Read configuration file
-      const configData = await this.fileUtils.readJson(this.configPath);
+      // Read configuration file and layer the environment profile over it
+      const configData = await this.applyEnvironmentProfile(await this.fileUtils.readJson(this.configPath));
 
       // Validate configuration if enabled
       if (this.options.validateOnLoad) {
@@ -116,6 +139,7 @@ export class ConfigManager {
 
       // Parse and store configuration
       this.config = DockerPilotConfigSchema.parse(configData);
+      this.savedConfig = this.config;
 
       this.logger.success(`Configuration loaded successfully: ${this.configPath}`);
       return this.config;
@@ -163,7 +187,7 @@ export class ConfigManager {
 
           // Check if content has actually changed
           const existingContent = await this.fileUtils.readJson(this.configPath);
-          const contentChanged = JSON.stringify(existingContent) !== JSON.stringify(configToSave);
+          const contentChanged = JSON.stringify(existingContent) !== JSON.stringify(this.toFileContent(configToSave));
 
           if (contentChanged) {
             await this.fileUtils.backupFile(this.configPath);
@@ -178,10 +202,15 @@ export class ConfigManager {
       }
 
       // Save configuration
-      await this.fileUtils.writeJson(this.configPath, configToSave, { spaces: 2 });
+      const fileContent = this.toFileContent(configToSave);
+      await this.fileUtils.writeJson(this.configPath, fileContent, { spaces: 2 });
 
       // Update stored configuration
       this.config = configToSave;
+      this.savedConfig = configToSave;
+      if (this.profile) {
+        this.baseData = fileContent;
+      }
 
       this.logger.success(`Configuration saved: ${this.configPath}`);
 
@@ -312,6 +341,7 @@ export class ConfigManager {
         }
       },
       plugins: [],
+      pluginConfig: {},
       cli: {
         version: '1.0.0',
         welcomeMessage: `Bem-vindo ao {projectName} Docker Pilot v{version}! 🐳`,
@@ -325,6 +355,7 @@ export class ConfigManager {
         enabled: false,
         directory: './backups',
         retention: 7,
+        encryptionKeyEnv: 'DOCKER_PILOT_BACKUP_KEY',
         services: {}
       },
       monitoring: {
@@ -332,8 +363,15 @@ export class ConfigManager {
         refreshInterval: 5,
         services: ['app'],
         urls: {},
+        history: {
+          enabled: true,
+          retention: 7
+        },
         alerts: {
           enabled: false,
+          webhookSecretEnv: 'DOCKER_PILOT_WEBHOOK_SECRET',
+          webhookRetries: 3,
+          duration: 60,
           thresholds: {
             cpu: 80,
             memory: 80,
@@ -469,6 +507,15 @@ export class ConfigManager {
           ...(config.volumes && {
             volumes: config.volumes
           }),
+          ...(config.build && {
+            build: typeof config.build === 'string'
+              ? { context: config.build }
+              : {
+                context: config.build.context || '.',
+                ...(config.build.dockerfile && { dockerfile: config.build.dockerfile }),
+                ...(config.build.target && { target: config.build.target })
+              }
+          }),
           ...(config.environment && {
             environment: this.normalizeEnvironmentVariables(config.environment)
           })
@@ -631,6 +678,136 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * Get the active environment profile, or null when only the base file is used
+   */
+  getEnvironmentProfile(): EnvironmentProfile | null {
+    return this.profile ? { ...this.profile } : null;
+  }
+
+  /**
+   * Get the path of the overlay file of an environment, e.g. docker-pilot.config.staging.json
+   */
+  getEnvironmentConfigPath(environment: string): string {
+    const configBaseName = path.basename(this.configPath, '.json');
+    return path.join(path.dirname(this.configPath), `${configBaseName}.${environment}.json`);
+  }
+
+  /**
+   * Layer docker-pilot.config.<env>.json over the base configuration. The
+   * environment comes from the environment option (--env) or
+   * development.environment; a profile is only active when an overlay exists
+   * or the environment was asked for explicitly. Unless the overlay sets
+   * primaryComposeFile, the compose variant of the environment is picked
+   * (e.g. docker-compose.prod.yml for production).
+   */
+  private async applyEnvironmentProfile(baseData: Record<string, any>): Promise<Record<string, any>> {
+    const environment: DevelopmentConfig['environment'] =
+      this.options.environment || baseData?.['development']?.['environment'] || 'development';
+    const overlayPath = this.getEnvironmentConfigPath(environment);
+    const hasOverlay = await this.fileUtils.exists(overlayPath);
+
+    this.baseData = baseData;
+
+    if (!hasOverlay && !this.options.environment) {
+      this.profile = null;
+      return baseData;
+    }
+
+    const overlay = hasOverlay ? await this.fileUtils.readJson(overlayPath) : {};
+    const merged = ConfigManager.deepMerge(baseData, overlay);
+    merged['development'] = { ...(merged['development'] || {}), environment };
+
+    const composeFile = overlay['primaryComposeFile'] ? null : await this.findComposeVariant(environment);
+    if (composeFile) {
+      merged['primaryComposeFile'] = composeFile;
+    }
+
+    this.profile = { environment, overlayPath: hasOverlay ? overlayPath : null, composeFile };
+    this.logger.info(this.i18n.t('config.profile_active', {
+      environment,
+      overlay: hasOverlay ? path.basename(overlayPath) : this.i18n.t('config.profile_no_overlay')
+    }));
+    if (composeFile) {
+      this.logger.info(this.i18n.t('config.profile_compose', { file: path.relative(process.cwd(), composeFile) }));
+    }
+
+    return merged;
+  }
+
+  /**
+   * Find the compose file variant of an environment next to the configuration file
+   */
+  private async findComposeVariant(environment: DevelopmentConfig['environment']): Promise<string | null> {
+    const files = await this.fileUtils.findDockerComposeFilesWithInfo(path.dirname(this.configPath), {
+      maxDepth: 2,
+      includeVariants: true
+    });
+
+    const variant = files
+      .filter(file => file.environment === COMPOSE_VARIANTS[environment])
+      .sort((a, b) => a.priority - b.priority)[0];
+
+    return variant?.path || null;
+  }
+
+  /**
+   * What goes into the base file: the whole configuration, or with a profile
+   * active only the changes made since loading, so overlay values stay out of it
+   */
+  private toFileContent(config: DockerPilotConfig): Record<string, any> {
+    if (!this.profile || !this.baseData || !this.savedConfig) {
+      return config;
+    }
+
+    return ConfigManager.applyChanges(this.baseData, this.savedConfig, config);
+  }
+
+  /**
+   * Deep merge plain objects; arrays and primitives of the overlay replace the base
+   */
+  private static deepMerge(base: Record<string, any>, overlay: Record<string, any>): Record<string, any> {
+    const merged: Record<string, any> = { ...base };
+
+    for (const [key, value] of Object.entries(overlay)) {
+      merged[key] = ConfigManager.isPlainObject(value) && ConfigManager.isPlainObject(merged[key])
+        ? ConfigManager.deepMerge(merged[key], value)
+        : value;
+    }
+
+    return merged;
+  }
+
+  /**
+   * Apply the differences between two versions of a configuration to a target
+   */
+  private static applyChanges(target: Record<string, any>, before: Record<string, any>, after: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = { ...target };
+
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const previous = before[key];
+      const next = after[key];
+
+      if (JSON.stringify(previous) === JSON.stringify(next)) {
+        continue;
+      }
+
+      if (next === undefined) {
+        delete result[key];
+      } else if (ConfigManager.isPlainObject(previous) && ConfigManager.isPlainObject(next)) {
+        result[key] = ConfigManager.applyChanges(ConfigManager.isPlainObject(result[key]) ? result[key] : {}, previous, next);
+      } else {
+        result[key] = next;
+      }
+    }
+
+    return result;
+  }
+
+  private static isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
   /**
    * Get configuration file path
    */
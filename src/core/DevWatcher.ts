@@ -0,0 +1,414 @@
+/**
+ * Development Watcher for Docker Pilot
+ * Watches the development.watchFiles globs and maps changed files to services:
+ * changes inside a service's build.context rebuild and recreate it, changes in a
+ * bind-mounted directory restart it. Bursts of changes are debounced.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { EventEmitter } from 'events';
+import { CommandResult, DockerPilotConfig, ServiceConfig, ServiceError } from '../types';
+import { DockerUtils } from '../utils/DockerUtils';
+import { FileUtils } from '../utils/FileUtils';
+import { Logger } from '../utils/Logger';
+import { I18n } from '../utils/i18n';
+
+export type DevAction = 'rebuild' | 'restart';
+
+export interface DevWatcherOptions {
+  workingDirectory?: string;
+  composeFile?: string;
+  /**
+   * Quiet period in milliseconds before acting on a burst of changes
+   */
+  debounce?: number;
+}
+
+/**
+ * What a changed file means for one service
+ */
+export interface DevTrigger {
+  service: string;
+  action: DevAction;
+}
+
+/**
+ * A pending action on a service and the files that caused it
+ */
+export interface DevChange {
+  service: string;
+  action: DevAction;
+  files: string[];
+}
+
+export interface DevWatcher {
+  on(event: 'change', listener: (file: string, triggers: DevTrigger[]) => void): this;
+  on(event: 'action:start', listener: (change: DevChange) => void): this;
+  on(event: 'action:end', listener: (change: DevChange, result: CommandResult) => void): this;
+  emit(event: 'change', file: string, triggers: DevTrigger[]): boolean;
+  emit(event: 'action:start', change: DevChange): boolean;
+  emit(event: 'action:end', change: DevChange, result: CommandResult): boolean;
+}
+
+/**
+ * Path segments never worth reacting to
+ */
+const IGNORED_SEGMENTS = ['node_modules', '.git', '.docker-pilot'];
+
+export class DevWatcher extends EventEmitter {
+  private config: DockerPilotConfig;
+  private options: Required<Pick<DevWatcherOptions, 'workingDirectory' | 'debounce'>> & Pick<DevWatcherOptions, 'composeFile'>;
+  private dockerUtils: DockerUtils;
+  private fileUtils: FileUtils;
+  private logger: Logger;
+  private i18n: I18n;
+  private watchers: fs.FSWatcher[] = [];
+  private matchers: RegExp[] = [];
+  private pending = new Map<string, { action: DevAction; files: Set<string> }>();
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<void> | null = null;
+  private active = false;
+
+  constructor(config: DockerPilotConfig, options: DevWatcherOptions = {}) {
+    super();
+    this.config = config;
+    this.options = {
+      workingDirectory: options.workingDirectory || process.cwd(),
+      debounce: options.debounce ?? 500,
+      ...(options.composeFile && { composeFile: options.composeFile })
+    };
+    this.logger = new Logger();
+    this.dockerUtils = new DockerUtils(this.logger);
+    this.fileUtils = new FileUtils(this.logger);
+    this.i18n = new I18n(config.language as any);
+  }
+
+  /**
+   * Start watching; returns the watched paths
+   */
+  start(): string[] {
+    if (this.active) {
+      return [];
+    }
+
+    if (!this.config.development.hotReload) {
+      throw new ServiceError(this.i18n.t('dev.hot_reload_disabled'));
+    }
+
+    const patterns = this.getPatterns();
+    if (patterns.length === 0) {
+      throw new ServiceError(this.i18n.t('dev.nothing_to_watch'));
+    }
+
+    this.matchers = patterns.map(pattern => DevWatcher.globToRegExp(DevWatcher.toPosix(pattern)));
+    const roots = DevWatcher.watchRoots(patterns);
+    const watched: string[] = [];
+
+    for (const root of roots) {
+      if (!fs.existsSync(root)) {
+        this.logger.warn(this.i18n.t('dev.path_missing', { path: this.relative(root) }));
+        continue;
+      }
+
+      const isDirectory = fs.statSync(root).isDirectory();
+      const watcher = this.fileUtils.watchPath(root, (_eventType, filename) => {
+        if (filename) {
+          this.handleChange(isDirectory ? path.join(root, filename.toString()) : root);
+        }
+      }, { recursive: isDirectory });
+
+      watcher.on('error', error => this.logger.warn(this.i18n.t('dev.watch_failed', {
+        path: this.relative(root),
+        error: error.message
+      })));
+
+      this.watchers.push(watcher);
+      watched.push(root);
+    }
+
+    if (watched.length === 0) {
+      throw new ServiceError(this.i18n.t('dev.nothing_to_watch'));
+    }
+
+    this.active = true;
+    return watched;
+  }
+
+  /**
+   * Stop watching, waiting for an action in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.active = false;
+
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending.clear();
+
+    if (this.currentRun) {
+      await this.currentRun;
+    }
+  }
+
+  /**
+   * Check whether the watcher is running
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Work out which services a changed file affects and how
+   */
+  resolveTriggers(file: string): DevTrigger[] {
+    const baseDirectory = this.getComposeDirectory();
+    const triggers: DevTrigger[] = [];
+
+    for (const [service, serviceConfig] of Object.entries(this.config.services)) {
+      if (this.isInBuildContext(file, serviceConfig, baseDirectory)) {
+        triggers.push({ service, action: 'rebuild' });
+      } else if (DevWatcher.bindMounts(serviceConfig, baseDirectory).some(mount => DevWatcher.isInside(file, mount))) {
+        triggers.push({ service, action: 'restart' });
+      }
+    }
+
+    return triggers;
+  }
+
+  /**
+   * Record a changed file and (re)start the debounce timer
+   */
+  private handleChange(file: string): void {
+    if (!this.active || DevWatcher.isIgnored(file) || !this.matches(file)) {
+      return;
+    }
+
+    const triggers = this.resolveTriggers(file);
+    this.emit('change', file, triggers);
+
+    for (const { service, action } of triggers) {
+      const entry = this.pending.get(service) || { action, files: new Set<string>() };
+      // A rebuild also restarts, so it wins over a restart of the same service
+      entry.action = entry.action === 'rebuild' || action === 'rebuild' ? 'rebuild' : 'restart';
+      entry.files.add(file);
+      this.pending.set(service, entry);
+    }
+
+    if (this.pending.size > 0) {
+      this.schedule();
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.flush(), this.options.debounce);
+  }
+
+  /**
+   * Run the pending actions, one service at a time. Changes arriving meanwhile
+   * are picked up by the next flush.
+   */
+  private async flush(): Promise<void> {
+    this.timer = null;
+
+    if (this.currentRun) {
+      await this.currentRun;
+      if (this.pending.size > 0 && !this.timer) {
+        this.schedule();
+      }
+      return;
+    }
+
+    const changes: DevChange[] = Array.from(this.pending.entries())
+      .map(([service, { action, files }]) => ({ service, action, files: Array.from(files) }));
+    this.pending.clear();
+
+    this.currentRun = this.runChanges(changes);
+    await this.currentRun;
+    this.currentRun = null;
+  }
+
+  private async runChanges(changes: DevChange[]): Promise<void> {
+    for (const change of changes) {
+      if (!this.active) {
+        return;
+      }
+
+      this.emit('action:start', change);
+
+      const args = change.action === 'rebuild'
+        ? ['-d', '--build', '--no-deps', change.service]
+        : [change.service];
+
+      const result = await this.dockerUtils.executeComposeCommand(change.action === 'rebuild' ? 'up' : 'restart', args, {
+        silent: true,
+        cwd: this.options.workingDirectory,
+        ...(this.options.composeFile && { composeFile: this.options.composeFile })
+      });
+
+      this.emit('action:end', change, result);
+    }
+  }
+
+  /**
+   * Configured globs, or every build context when development.watchFiles is empty
+   */
+  private getPatterns(): string[] {
+    const { watchFiles } = this.config.development;
+
+    if (watchFiles.length > 0) {
+      return watchFiles.map(pattern => {
+        const absolute = path.resolve(this.options.workingDirectory, pattern);
+        // A plain directory means everything below it
+        return !DevWatcher.hasMagic(pattern) && fs.existsSync(absolute) && fs.statSync(absolute).isDirectory()
+          ? path.join(absolute, '**')
+          : absolute;
+      });
+    }
+
+    const baseDirectory = this.getComposeDirectory();
+    return Object.values(this.config.services)
+      .filter(service => service.build?.context)
+      .map(service => path.join(path.resolve(baseDirectory, service.build!.context), '**'));
+  }
+
+  private matches(file: string): boolean {
+    const posixFile = DevWatcher.toPosix(file);
+    return this.matchers.some(matcher => matcher.test(posixFile));
+  }
+
+  private isInBuildContext(file: string, service: ServiceConfig, baseDirectory: string): boolean {
+    if (!service.build?.context) {
+      return false;
+    }
+
+    const context = path.resolve(baseDirectory, service.build.context);
+    const dockerfile = path.resolve(context, service.build.dockerfile || 'Dockerfile');
+    return file === dockerfile || DevWatcher.isInside(file, context);
+  }
+
+  /**
+   * Build contexts and bind mounts are relative to the compose file
+   */
+  private getComposeDirectory(): string {
+    return this.options.composeFile
+      ? path.dirname(path.resolve(this.options.workingDirectory, this.options.composeFile))
+      : this.options.workingDirectory;
+  }
+
+  private relative(target: string): string {
+    return path.relative(this.options.workingDirectory, target) || '.';
+  }
+
+  /**
+   * Host directories bind-mounted into a service, e.g. "./src:/app/src"
+   */
+  private static bindMounts(service: ServiceConfig, baseDirectory: string): string[] {
+    return (service.volumes || [])
+      .map(volume => volume.split(':')[0] || '')
+      .filter(source => source.startsWith('.') || source.startsWith('/'))
+      .map(source => path.resolve(baseDirectory, source));
+  }
+
+  /**
+   * Directories to watch: the static prefix of every glob, without nested duplicates
+   */
+  private static watchRoots(patterns: string[]): string[] {
+    const bases = patterns.map(pattern => {
+      const segments = pattern.split(/[\\/]/);
+      const firstMagic = segments.findIndex(segment => DevWatcher.hasMagic(segment));
+      const base = firstMagic === -1 ? segments : segments.slice(0, firstMagic);
+      return base.join(path.sep) || path.sep;
+    });
+
+    return Array.from(new Set(bases))
+      .filter((base, _index, all) => !all.some(other => other !== base && DevWatcher.isInside(base, other)));
+  }
+
+  private static isInside(file: string, directory: string): boolean {
+    const relative = path.relative(directory, file);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  }
+
+  private static isIgnored(file: string): boolean {
+    return file.split(/[\\/]/).some(segment => IGNORED_SEGMENTS.includes(segment));
+  }
+
+  private static hasMagic(pattern: string): boolean {
+    return /[*?{[]/.test(pattern);
+  }
+
+  private static toPosix(file: string): string {
+    return file.split(path.sep).join('/');
+  }
+
+  /**
+   * Translate a glob into a regular expression. Supports *, ?, ** (any number of
+   * directories), [...] classes and {a,b} alternatives.
+   */
+  private static globToRegExp(glob: string): RegExp {
+    let source = '';
+    let braceDepth = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i]!;
+
+      if (char === '*') {
+        if (glob[i + 1] === '*') {
+          i++;
+          if (glob[i + 1] === '/') {
+            i++;
+            source += '(?:.*/)?';
+          } else {
+            source += '.*';
+          }
+        } else {
+          source += '[^/]*';
+        }
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '[') {
+        const end = glob.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+        } else {
+          source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+          i = end;
+        }
+      } else if (char === '{') {
+        braceDepth++;
+        source += '(?:';
+      } else if (char === '}' && braceDepth > 0) {
+        braceDepth--;
+        source += ')';
+      } else if (char === ',' && braceDepth > 0) {
+        source += '|';
+      } else {
+        source += char.replace(/[.+^$()|\\]/g, '\\$&');
+      }
+    }
+
+    return new RegExp(`^${source}$`);
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: DockerPilotConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Update language for DevWatcher
+   */
+  updateLanguage(language: string): void {
+    this.i18n.setLanguage(language as any);
+  }
+}
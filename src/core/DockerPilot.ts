@@ -12,16 +12,26 @@ import {
   ProjectStatus,
   DockerPilotEvent,
   EventType,
-  DockerPilotError
+  DockerPilotError,
+  DevelopmentConfig
 } from '../types';
 import { Logger } from '../utils/Logger';
 import { DockerUtils } from '../utils/DockerUtils';
 import { FileUtils } from '../utils/FileUtils';
 import { ValidationUtils } from '../utils/ValidationUtils';
 import { I18n } from '../utils/i18n';
-import { ConfigManager } from './ConfigManager';
+import { Confirmation } from '../utils/Confirmation';
+import { ConfigManager, EnvironmentProfile } from './ConfigManager';
 import { CommandRunner } from './CommandRunner';
 import { ServiceManager } from './ServiceManager';
+import { BackupManager } from './BackupManager';
+import { BackupScheduler } from './BackupScheduler';
+import { VolumeManager } from './VolumeManager';
+import { ServiceMonitor } from './ServiceMonitor';
+import { AlertDispatcher } from './AlertDispatcher';
+import { MetricsStore } from './MetricsStore';
+import { MetricsExporter } from './MetricsExporter';
+import { PluginManager } from '../plugins/PluginManager';
 
 export interface DockerPilotOptions {
   configPath?: string;
@@ -30,6 +40,10 @@ export interface DockerPilotOptions {
   silent?: boolean;
   autoLoadConfig?: boolean;
   validateConfig?: boolean;
+  /**
+   * Environment profile to load (docker-pilot.config.<env>.json), overriding development.environment
+   */
+  environment?: DevelopmentConfig['environment'];
 }
 
 export class DockerPilot extends EventEmitter {
@@ -41,7 +55,15 @@ export class DockerPilot extends EventEmitter {
   private configManager: ConfigManager;
   private commandRunner: CommandRunner;
   private serviceManager: ServiceManager | null = null;
-  private options: Required<DockerPilotOptions>;
+  private backupManager: BackupManager | null = null;
+  private backupScheduler: BackupScheduler | null = null;
+  private volumeManager: VolumeManager | null = null;
+  private serviceMonitor: ServiceMonitor | null = null;
+  private alertDispatcher: AlertDispatcher | null = null;
+  private metricsStore: MetricsStore | null = null;
+  private metricsExporter: MetricsExporter | null = null;
+  private pluginManager: PluginManager | null = null;
+  private options: Required<Omit<DockerPilotOptions, 'environment'>> & Pick<DockerPilotOptions, 'environment'>;
   private initialized = false;
   private i18n: I18n;
 
@@ -54,7 +76,8 @@ export class DockerPilot extends EventEmitter {
       logLevel: options.logLevel || 'info',
       silent: options.silent || false,
       autoLoadConfig: options.autoLoadConfig ?? true,
-      validateConfig: options.validateConfig ?? true
+      validateConfig: options.validateConfig ?? true,
+      ...(options.environment && { environment: options.environment })
     };
 
     // Initialize utilities
@@ -71,7 +94,8 @@ export class DockerPilot extends EventEmitter {
       configPath: this.options.configPath,
       validateOnLoad: this.options.validateConfig,
       autoSave: true,
-      createDefault: true
+      createDefault: true,
+      ...(this.options.environment && { environment: this.options.environment })
     });
 
     this.commandRunner = new CommandRunner(this.logger, {
@@ -122,15 +146,49 @@ export class DockerPilot extends EventEmitter {
       // Configure i18n based on config
       if (this.config.language) {
         this.i18n.setLanguage(this.config.language);
-      }      // Initialize service manager
+      }
+
+      // Plugins listed in config.plugins; loaded once the managers exist
+      this.pluginManager = new PluginManager({
+        autoLoad: false,
+        plugins: this.config.plugins,
+        workingDirectory: this.options.workingDirectory,
+        host: this
+      });
+      this.pluginManager.updateLanguage(this.config.language);
+      this.pluginManager.on('plugin:loaded', plugin => this.emitEvent('plugin:loaded', plugin));
+      this.pluginManager.on('plugin:error', failure => this.emitEvent('plugin:error', failure));
+
+      // Initialize service manager
       this.serviceManager = new ServiceManager(this.config, {
+        projectName: this.config.projectName,
+        workingDirectory: this.options.workingDirectory,
+        pluginManager: this.pluginManager
+      });
+
+      // Initialize backup manager
+      this.backupManager = new BackupManager(this.config, {
         projectName: this.config.projectName,
         workingDirectory: this.options.workingDirectory
       });
 
+      // Initialize volume manager
+      this.volumeManager = new VolumeManager(this.config, {
+        projectName: this.config.projectName,
+        workingDirectory: this.options.workingDirectory
+      });
+
+      // Initialize metrics store
+      this.metricsStore = new MetricsStore(this.config, {
+        workingDirectory: this.options.workingDirectory
+      });
+
       // Initialize with primary compose file if available
       await this.initializeWithPrimaryComposeFile();
 
+      // Load plugins; their contexts read the config and managers from here
+      await this.pluginManager.initialize();
+
       this.initialized = true;
       this.emit('initialized', { config: this.config, dockerInfo });
 
@@ -163,23 +221,28 @@ export class DockerPilot extends EventEmitter {
     this.emitEvent('command:start', { command: 'up' });
 
     try {
-      const result = await this.serviceManager!.startAll();
+      await this.beforeCommand('up', []);
+      const result = await this.withPostStartTasks(await this.serviceManager!.startAll());
+      await this.afterCommand('up', [], result);
       this.emitEvent('command:end', { command: 'up', result });
       return result;
     } catch (error) {
+      await this.notifyError(error, { command: 'up' });
       this.emitEvent('command:error', { command: 'up', error });
       throw error;
     }
   }
   /**
-   * Stop all services
+   * Stop all services, optionally removing their volumes and orphan containers
    */
-  async down(): Promise<CommandResult> {
+  async down(options: { volumes?: boolean; removeOrphans?: boolean } = {}): Promise<CommandResult> {
     await this.ensureInitialized();
-    this.emitEvent('command:start', { command: 'down' });
+    this.emitEvent('command:start', { command: 'down', options });
 
     try {
-      const result = await this.serviceManager!.stopAll();
+      await this.beforeCommand('down', []);
+      const result = await this.serviceManager!.stopAll(options);
+      await this.afterCommand('down', [], result);
       this.emitEvent('command:end', { command: 'down', result });
       return result;
     } catch (error) {
@@ -191,6 +254,7 @@ export class DockerPilot extends EventEmitter {
         executionTime: 0
       };
 
+      await this.notifyError(error, { command: 'down' });
       this.emitEvent('command:error', { command: 'down', error });
       return errorResult;
     }
@@ -203,7 +267,9 @@ export class DockerPilot extends EventEmitter {
     this.emitEvent('command:start', { command: 'restart' });
 
     try {
+      await this.beforeCommand('restart', []);
       const result = await this.serviceManager!.restartAll();
+      await this.afterCommand('restart', [], result);
       this.emitEvent('command:end', { command: 'restart', result });
       return result;
     } catch (error) {
@@ -215,6 +281,7 @@ export class DockerPilot extends EventEmitter {
         executionTime: 0
       };
 
+      await this.notifyError(error, { command: 'restart' });
       this.emitEvent('command:error', { command: 'restart', error });
       return errorResult;
     }
@@ -228,10 +295,11 @@ export class DockerPilot extends EventEmitter {
     this.emitEvent('service:start', { serviceName });
 
     try {
-      const result = await this.serviceManager!.startService(serviceName);
+      const result = await this.withPostStartTasks(await this.serviceManager!.startService(serviceName), [serviceName]);
       this.emitEvent('service:start', { serviceName, result });
       return result;
     } catch (error) {
+      await this.notifyError(error, { serviceName });
       this.emitEvent('service:error', { serviceName, error });
       throw error;
     }
@@ -249,6 +317,7 @@ export class DockerPilot extends EventEmitter {
       this.emitEvent('service:stop', { serviceName, result });
       return result;
     } catch (error) {
+      await this.notifyError(error, { serviceName });
       this.emitEvent('service:error', { serviceName, error });
       throw error;
     }
@@ -266,6 +335,7 @@ export class DockerPilot extends EventEmitter {
       this.emitEvent('service:restart', { serviceName, result });
       return result;
     } catch (error) {
+      await this.notifyError(error, { serviceName });
       this.emitEvent('service:error', { serviceName, error });
       throw error;
     }
@@ -283,15 +353,79 @@ export class DockerPilot extends EventEmitter {
     this.emitEvent('command:start', { command: 'build', serviceName, options });
 
     try {
+      await this.beforeCommand('build', serviceName ? [serviceName] : []);
       const result = await this.serviceManager!.buildServices(serviceName, options);
+      await this.afterCommand('build', serviceName ? [serviceName] : [], result);
       this.emitEvent('command:end', { command: 'build', serviceName, result });
       return result;
     } catch (error) {
+      await this.notifyError(error, { command: 'build', serviceName });
       this.emitEvent('command:error', { command: 'build', serviceName, error });
       throw error;
     }
   }
 
+  /**
+   * Run the migrate command of services
+   */
+  async migrate(serviceName?: string): Promise<CommandResult[]> {
+    await this.ensureInitialized();
+    this.emitEvent('command:start', { command: 'migrate', serviceName });
+
+    try {
+      await this.beforeCommand('migrate', serviceName ? [serviceName] : []);
+      const results = await this.serviceManager!.runMigrations(serviceName);
+      await this.afterCommand('migrate', serviceName ? [serviceName] : [], results);
+      this.emitEvent('command:end', { command: 'migrate', serviceName, results });
+      return results;
+    } catch (error) {
+      await this.notifyError(error, { command: 'migrate', serviceName });
+      this.emitEvent('command:error', { command: 'migrate', serviceName, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Run the seed command of services
+   */
+  async seed(serviceName?: string): Promise<CommandResult[]> {
+    await this.ensureInitialized();
+    this.emitEvent('command:start', { command: 'seed', serviceName });
+
+    try {
+      await this.beforeCommand('seed', serviceName ? [serviceName] : []);
+      const results = await this.serviceManager!.runSeeds(serviceName);
+      await this.afterCommand('seed', serviceName ? [serviceName] : [], results);
+      this.emitEvent('command:end', { command: 'seed', serviceName, results });
+      return results;
+    } catch (error) {
+      await this.notifyError(error, { command: 'seed', serviceName });
+      this.emitEvent('command:error', { command: 'seed', serviceName, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Run post-start migrations and seeds after a successful start;
+   * a failing task fails the start result
+   */
+  private async withPostStartTasks(result: CommandResult, serviceNames?: string[]): Promise<CommandResult> {
+    if (!result.success) {
+      return result;
+    }
+
+    const failed = (await this.serviceManager!.runPostStartTasks(serviceNames)).filter(task => !task.success);
+    if (failed.length === 0) {
+      return result;
+    }
+
+    return {
+      ...result,
+      success: false,
+      error: failed.map(task => task.error).filter(Boolean).join('\n')
+    };
+  }
+
   /**
    * Rebuild and restart services
    */
@@ -300,10 +434,13 @@ export class DockerPilot extends EventEmitter {
     this.emitEvent('command:start', { command: 'rebuild', serviceName });
 
     try {
+      await this.beforeCommand('rebuild', serviceName ? [serviceName] : []);
       const results = await this.serviceManager!.rebuildServices(serviceName);
+      await this.afterCommand('rebuild', serviceName ? [serviceName] : [], results);
       this.emitEvent('command:end', { command: 'rebuild', serviceName, results });
       return results;
     } catch (error) {
+      await this.notifyError(error, { command: 'rebuild', serviceName });
       this.emitEvent('command:error', { command: 'rebuild', serviceName, error });
       throw error;
     }
@@ -321,11 +458,11 @@ export class DockerPilot extends EventEmitter {
   }
 
   /**
-   * Get service status
+   * Get service status, including application-level health from monitoring.urls
    */
   async status(serviceName?: string): Promise<ServiceStatus[]> {
     await this.ensureInitialized();
-    return this.serviceManager!.getServiceStatus(serviceName);
+    return this.serviceManager!.getServiceStatus(serviceName, { probe: true });
   }
 
   /**
@@ -372,10 +509,13 @@ export class DockerPilot extends EventEmitter {
     this.emitEvent('command:start', { command: 'pull', serviceName });
 
     try {
+      await this.beforeCommand('pull', serviceName ? [serviceName] : []);
       const result = await this.dockerUtils.pullImages(serviceName);
+      await this.afterCommand('pull', serviceName ? [serviceName] : [], result);
       this.emitEvent('command:end', { command: 'pull', serviceName, result });
       return result;
     } catch (error) {
+      await this.notifyError(error, { command: 'pull', serviceName });
       this.emitEvent('command:error', { command: 'pull', serviceName, error });
       throw error;
     }
@@ -389,15 +529,209 @@ export class DockerPilot extends EventEmitter {
     this.emitEvent('command:start', { command: 'clean', options });
 
     try {
+      await this.beforeCommand('clean', []);
       const result = await this.dockerUtils.cleanSystem(options);
+      await this.afterCommand('clean', [], result);
       this.emitEvent('command:end', { command: 'clean', result });
       return result;
     } catch (error) {
+      await this.notifyError(error, { command: 'clean' });
       this.emitEvent('command:error', { command: 'clean', error });
       throw error;
     }
   }
 
+  /**
+   * Back up services defined in the backup configuration
+   */
+  async backup(serviceNames: string[] = []): Promise<CommandResult> {
+    await this.ensureInitialized();
+    this.emitEvent('command:start', { command: 'backup', serviceNames });
+
+    try {
+      await this.beforeCommand('backup', serviceNames);
+      this.emitEvent('backup:start', { trigger: 'manual', serviceNames });
+      const startTime = Date.now();
+      const results = await this.backupManager!.backupAll(serviceNames);
+      const failed = results.filter(result => !result.success);
+
+      if (failed.length > 0) {
+        const error = failed.map(backup => `${backup.service}: ${backup.error}`).join('\n');
+        this.emitEvent('backup:failure', { trigger: 'manual', results, error });
+      } else {
+        this.emitEvent('backup:success', { trigger: 'manual', results });
+      }
+
+      const result: CommandResult = {
+        success: failed.length === 0,
+        output: results
+          .filter(backup => backup.success)
+          .map(backup => `${backup.service}: ${backup.file}`)
+          .join('\n'),
+        executionTime: Date.now() - startTime,
+        ...(failed.length > 0 && {
+          error: failed.map(backup => `${backup.service}: ${backup.error}`).join('\n')
+        })
+      };
+
+      await this.afterCommand('backup', serviceNames, result);
+      this.emitEvent('command:end', { command: 'backup', results, result });
+      return result;
+    } catch (error) {
+      this.emitEvent('backup:failure', {
+        trigger: 'manual',
+        error: error instanceof Error ? error.message : String(error)
+      });
+      await this.notifyError(error, { command: 'backup', serviceNames });
+      this.emitEvent('command:error', { command: 'backup', error });
+      throw error;
+    }
+  }
+
+  /**
+   * Start firing backups on the backup.schedule cron expression
+   */
+  async startBackupScheduler(): Promise<BackupScheduler> {
+    await this.ensureInitialized();
+
+    if (!this.backupScheduler) {
+      this.backupScheduler = new BackupScheduler(this.config!, this.backupManager!, {
+        workingDirectory: this.options.workingDirectory
+      });
+
+      for (const type of ['backup:start', 'backup:success', 'backup:failure'] as const) {
+        this.backupScheduler.on(type, data => this.emitEvent(type, data));
+      }
+    }
+
+    await this.backupScheduler.start();
+    return this.backupScheduler;
+  }
+
+  /**
+   * Stop the backup scheduler, waiting for a backup in progress to finish
+   */
+  async stopBackupScheduler(): Promise<void> {
+    if (this.backupScheduler) {
+      await this.backupScheduler.stop();
+    }
+  }
+
+  /**
+   * Start sampling services and evaluating monitoring.alerts thresholds
+   */
+  async startMonitor(): Promise<ServiceMonitor> {
+    await this.ensureInitialized();
+
+    if (!this.serviceMonitor) {
+      this.serviceMonitor = new ServiceMonitor(this.config!, this.serviceManager!);
+
+      for (const type of ['alert:firing', 'alert:resolved'] as const) {
+        this.serviceMonitor.on(type, alert => this.emitEvent(type, alert));
+      }
+
+      this.alertDispatcher = new AlertDispatcher(this.config!);
+      this.alertDispatcher.attach(this.serviceMonitor);
+
+      this.serviceMonitor.on('sample', samples => {
+        if (this.config?.monitoring.history.enabled && this.metricsStore) {
+          this.metricsStore.append(samples).catch(error => {
+            this.logger.warn(this.i18n.t('metrics.write_failed', {
+              error: error instanceof Error ? error.message : String(error)
+            }));
+          });
+        }
+      });
+    }
+
+    await this.serviceMonitor.start();
+    return this.serviceMonitor;
+  }
+
+  /**
+   * Stop the service monitor
+   */
+  async stopMonitor(): Promise<void> {
+    if (this.serviceMonitor) {
+      await this.serviceMonitor.stop();
+    }
+
+    if (this.alertDispatcher) {
+      await this.alertDispatcher.flush();
+    }
+  }
+
+  /**
+   * Serve Prometheus metrics on /metrics. Resource usage and probe metrics
+   * come from the service monitor, so start it first to include them.
+   */
+  async startMetricsExporter(port: number, host?: string): Promise<MetricsExporter> {
+    await this.ensureInitialized();
+
+    if (!this.metricsExporter) {
+      const exporter = new MetricsExporter(this.config!, this.serviceManager!, this.serviceMonitor);
+
+      this.on('command:end', (event: DockerPilotEvent) => {
+        exporter.recordCommand(event.data.command, event.data.result?.success === false ? 'failure' : 'success');
+      });
+      this.on('command:error', (event: DockerPilotEvent) => {
+        exporter.recordCommand(event.data.command, 'error');
+      });
+
+      // Manual backups are already counted through their command events
+      for (const [type, result] of [['backup:success', 'success'], ['backup:failure', 'failure']] as const) {
+        this.on(type, (event: DockerPilotEvent) => {
+          if (event.data.trigger !== 'manual') {
+            exporter.recordCommand('scheduled-backup', result);
+          }
+        });
+      }
+
+      this.metricsExporter = exporter;
+    }
+
+    await this.metricsExporter.start(port, host);
+    return this.metricsExporter;
+  }
+
+  /**
+   * Stop serving Prometheus metrics
+   */
+  async stopMetricsExporter(): Promise<void> {
+    if (this.metricsExporter) {
+      await this.metricsExporter.stop();
+    }
+  }
+
+  /**
+   * Restore a service from its newest backup archive, or the newest taken at or before a timestamp
+   */
+  async restore(serviceName: string, at?: string): Promise<CommandResult> {
+    await this.ensureInitialized();
+    this.emitEvent('command:start', { command: 'restore', serviceName, at });
+
+    try {
+      await this.beforeCommand('restore', [serviceName]);
+      const archive = await this.backupManager!.resolveArchive(serviceName, at);
+      const restoreResult = await this.backupManager!.restoreService(serviceName, archive);
+
+      const result: CommandResult = {
+        success: restoreResult.success,
+        output: restoreResult.success ? `${serviceName}: ${restoreResult.archive}` : '',
+        executionTime: restoreResult.executionTime,
+        ...(restoreResult.error && { error: restoreResult.error })
+      };
+
+      await this.afterCommand('restore', [serviceName], result);
+      this.emitEvent('command:end', { command: 'restore', serviceName, restoreResult, result });
+      return result;
+    } catch (error) {
+      await this.notifyError(error, { command: 'restore', serviceName });
+      this.emitEvent('command:error', { command: 'restore', serviceName, error });
+      throw error;
+    }
+  }
+
   /**
    * Get FileUtils instance
    */
@@ -405,6 +739,13 @@ export class DockerPilot extends EventEmitter {
     return this.fileUtils;
   }
 
+  /**
+   * Get ConfigManager instance
+   */
+  getConfigManager(): ConfigManager {
+    return this.configManager;
+  }
+
   /**
    * Set Docker Compose file path
    */
@@ -419,6 +760,11 @@ export class DockerPilot extends EventEmitter {
       composeFile: composeFilePath
     });
 
+    this.backupManager = new BackupManager(this.config!, {
+      ...this.backupManager?.getOptions(),
+      composeFile: composeFilePath
+    });
+
     this.logger.info(this.i18n.t('compose.file_set', { file: path.relative(process.cwd(), composeFilePath) }));
   }
 
@@ -441,6 +787,11 @@ export class DockerPilot extends EventEmitter {
       composeFile: composeFilePath
     });
 
+    this.backupManager = new BackupManager(this.config!, {
+      ...this.backupManager?.getOptions(),
+      composeFile: composeFilePath
+    });
+
     // Save to configuration
     await this.updateConfig({
       primaryComposeFile: composeFilePath
@@ -456,6 +807,13 @@ export class DockerPilot extends EventEmitter {
   getPrimaryComposeFile(): string | null {
     return this.config?.primaryComposeFile || null;
   }  /**
+   * Get the active environment profile, or null when only the base configuration is used
+   */
+  getEnvironmentProfile(): EnvironmentProfile | null {
+    return this.configManager.getEnvironmentProfile();
+  }
+
+  /**
    * Get current compose file
    */
   getComposeFile(): string | null {
@@ -520,6 +878,34 @@ export class DockerPilot extends EventEmitter {
       this.serviceManager.updateConfig(updatedConfig);
     }
 
+    if (this.backupManager) {
+      this.backupManager.updateConfig(updatedConfig);
+    }
+
+    if (this.volumeManager) {
+      this.volumeManager.updateConfig(updatedConfig);
+    }
+
+    if (this.backupScheduler) {
+      this.backupScheduler.updateConfig(updatedConfig);
+    }
+
+    if (this.serviceMonitor) {
+      this.serviceMonitor.updateConfig(updatedConfig);
+    }
+
+    if (this.alertDispatcher) {
+      this.alertDispatcher.updateConfig(updatedConfig);
+    }
+
+    if (this.metricsStore) {
+      this.metricsStore.updateConfig(updatedConfig);
+    }
+
+    if (this.metricsExporter) {
+      this.metricsExporter.updateConfig(updatedConfig);
+    }
+
     this.emitEvent('config:saved', { config: updatedConfig });
     return updatedConfig;
   }
@@ -537,6 +923,14 @@ export class DockerPilot extends EventEmitter {
       this.serviceManager.updateConfig(updatedConfig);
     }
 
+    if (this.backupManager) {
+      this.backupManager.updateConfig(updatedConfig);
+    }
+
+    if (this.volumeManager) {
+      this.volumeManager.updateConfig(updatedConfig);
+    }
+
     return updatedConfig;
   }
 
@@ -553,6 +947,14 @@ export class DockerPilot extends EventEmitter {
       this.serviceManager.updateConfig(updatedConfig);
     }
 
+    if (this.backupManager) {
+      this.backupManager.updateConfig(updatedConfig);
+    }
+
+    if (this.volumeManager) {
+      this.volumeManager.updateConfig(updatedConfig);
+    }
+
     return updatedConfig;
   }
 
@@ -568,6 +970,14 @@ export class DockerPilot extends EventEmitter {
       this.serviceManager.updateConfig(updatedConfig);
     }
 
+    if (this.backupManager) {
+      this.backupManager.updateConfig(updatedConfig);
+    }
+
+    if (this.volumeManager) {
+      this.volumeManager.updateConfig(updatedConfig);
+    }
+
     return updatedConfig;
   }
 
@@ -595,7 +1005,17 @@ export class DockerPilot extends EventEmitter {
    */
   async validateConfig(): Promise<any> {
     await this.ensureInitialized();
-    return this.validationUtils.validateConfig(this.config!);
+    const result = await this.validationUtils.validateConfig(this.config!);
+
+    // Plugin sections are checked against the schemas of the loaded plugins
+    if (this.pluginManager) {
+      const pluginResult = this.pluginManager.validatePluginConfigs(this.config!);
+      result.valid = result.valid && pluginResult.valid;
+      result.errors.push(...pluginResult.errors);
+      result.warnings.push(...pluginResult.warnings);
+    }
+
+    return result;
   }
 
   /**
@@ -625,6 +1045,71 @@ export class DockerPilot extends EventEmitter {
     this.emit('event', event);
   }
 
+  // ============================================================================
+  // PLUGIN HOOKS
+  // ============================================================================
+
+  /**
+   * Run a command between the beforeCommand and afterCommand plugin hooks.
+   * A command vetoed by a beforeCommand hook is not run and fails with the veto message.
+   */
+  async runWithCommandHooks(command: string, args: string[], run: () => Promise<CommandResult>): Promise<CommandResult> {
+    try {
+      await this.beforeCommand(command, args);
+    } catch (error) {
+      await this.notifyError(error, { command, args });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    const result = await run();
+    await this.afterCommand(command, args, result);
+
+    if (!result.success) {
+      await this.notifyError(new Error(result.error || 'Unknown error'), { command, args });
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the beforeCommand plugin hooks; a hook that throws vetoes the command
+   */
+  private async beforeCommand(command: string, args: string[]): Promise<void> {
+    await this.pluginManager?.executeHook('beforeCommand', command, args);
+  }
+
+  /**
+   * Run the afterCommand plugin hooks; multi-step results are reported as one
+   */
+  private async afterCommand(command: string, args: string[], result: CommandResult | CommandResult[]): Promise<void> {
+    if (!this.pluginManager) {
+      return;
+    }
+
+    if (!Array.isArray(result)) {
+      await this.pluginManager.executeHook('afterCommand', command, args, result);
+      return;
+    }
+
+    const errors = result.map(step => step.error).filter(Boolean);
+    await this.pluginManager.executeHook('afterCommand', command, args, {
+      success: result.every(step => step.success),
+      output: result.map(step => step.output).filter(Boolean).join('\n'),
+      executionTime: result.reduce((total, step) => total + (step.executionTime || 0), 0),
+      ...(errors.length > 0 && { error: errors.join('\n') })
+    });
+  }
+
+  /**
+   * Report a failed operation to the onError plugin hooks
+   */
+  private async notifyError(error: unknown, context: Record<string, unknown>): Promise<void> {
+    await this.pluginManager?.executeHook('onError', error instanceof Error ? error : new Error(String(error)), context);
+  }
+
   // ============================================================================
   // UTILITY AND LIFECYCLE
   // ============================================================================
@@ -691,6 +1176,13 @@ export class DockerPilot extends EventEmitter {
    */
   async cleanup(): Promise<void> {
     this.logger.debug('Cleaning up Docker Pilot resources...');
+    await this.stopBackupScheduler();
+    await this.stopMonitor();
+    await this.stopMetricsExporter();
+    if (this.pluginManager) {
+      await this.pluginManager.cleanup();
+      this.pluginManager = null;
+    }
     this.removeAllListeners();
     this.initialized = false;
   }
@@ -948,6 +1440,55 @@ export class DockerPilot extends EventEmitter {
   getServiceManager(): ServiceManager | null {
     return this.serviceManager;
   }
+
+  /**
+   * Get backup manager instance
+   */
+  getBackupManager(): BackupManager | null {
+    return this.backupManager;
+  }
+
+  /**
+   * Get backup scheduler instance
+   */
+  getBackupScheduler(): BackupScheduler | null {
+    return this.backupScheduler;
+  }
+
+  /**
+   * Get volume manager instance
+   */
+  getVolumeManager(): VolumeManager | null {
+    return this.volumeManager;
+  }
+
+  /**
+   * Get service monitor instance
+   */
+  getServiceMonitor(): ServiceMonitor | null {
+    return this.serviceMonitor;
+  }
+
+  /**
+   * Get metrics store instance
+   */
+  getMetricsStore(): MetricsStore | null {
+    return this.metricsStore;
+  }
+
+  /**
+   * Get metrics exporter instance
+   */
+  getMetricsExporter(): MetricsExporter | null {
+    return this.metricsExporter;
+  }
+
+  /**
+   * Get plugin manager instance
+   */
+  getPluginManager(): PluginManager | null {
+    return this.pluginManager;
+  }
   /**
    * Execute a command by name
    */
@@ -969,10 +1510,42 @@ export class DockerPilot extends EventEmitter {
 
       case 'down':
         try {
-          if (args.length > 0 && args[0]) {
-            return await this.stopService(args[0]);
+          const downService = args.find(arg => !arg.startsWith('-'));
+          const removeVolumes = args.includes('--volumes') || args.includes('-v');
+          const removeOrphans = args.includes('--remove-orphans');
+
+          if (downService) {
+            if (removeVolumes || removeOrphans) {
+              return {
+                success: false,
+                output: '',
+                error: '--volumes and --remove-orphans apply to the whole project, not a single service',
+                executionTime: 0
+              };
+            }
+            return await this.stopService(downService);
           }
-          return await this.down();
+
+          // Losing volume data is confirmed like the down command unless --yes/--force is passed
+          if (removeVolumes) {
+            const confirmation = new Confirmation(this.logger, this.i18n, this.config?.cli.confirmDestructiveActions ?? true);
+            const action = this.i18n.t('cmd.confirm_volumes') + this.i18n.t('cmd.confirm_stop', { target: this.i18n.t('cmd.all_services') });
+            const confirmed = await confirmation.confirm(this.i18n.t('cmd.confirm_action', { action }), {
+              assumeYes: args.some(arg => ['--yes', '-y', '--force', '-f'].includes(arg)),
+              ...(this.config && { typeToConfirm: this.config.projectName })
+            });
+
+            if (!confirmed) {
+              return {
+                success: false,
+                output: '',
+                error: this.i18n.t('cmd.operation_cancelled'),
+                executionTime: 0
+              };
+            }
+          }
+
+          return await this.down({ volumes: removeVolumes, removeOrphans });
         } catch (error) {
           return {
             success: false,
@@ -1179,11 +1752,71 @@ export class DockerPilot extends EventEmitter {
           output: '',
           error: 'Unknown config command. Use --show to display current configuration.',
           executionTime: 0
-        };      default:
+        };
+
+      case 'backup':
+        try {
+          return await this.backup(args.filter(arg => !arg.startsWith('-')));
+        } catch (error) {
+          return {
+            success: false,
+            output: '',
+            error: error instanceof Error ? error.message : 'Failed to back up services',
+            executionTime: 0
+          };
+        }
+
+      case 'restore':
+        const atIndex = args.indexOf('--at');
+        const restoreAt = atIndex !== -1 ? args[atIndex + 1] : undefined;
+        const restoreService = args.find((arg, index) => !arg.startsWith('-') && (atIndex === -1 || index !== atIndex + 1));
+
+        if (!restoreService) {
+          return {
+            success: false,
+            output: '',
+            error: 'Service name required for restore command',
+            executionTime: 0
+          };
+        }
+
+        try {
+          // Replaces the service data, so it is confirmed like the restore command unless --yes/--force is passed
+          const archive = await this.backupManager!.resolveArchive(restoreService, restoreAt);
+          const confirmation = new Confirmation(this.logger, this.i18n, this.config?.cli.confirmDestructiveActions ?? true);
+          const confirmed = await confirmation.confirm(
+            this.i18n.t('cmd.restore.confirm', { service: restoreService, timestamp: BackupManager.formatTimestamp(archive.timestamp) }),
+            { assumeYes: args.some(arg => ['--yes', '-y', '--force', '-f'].includes(arg)) }
+          );
+
+          if (!confirmed) {
+            return {
+              success: false,
+              output: '',
+              error: this.i18n.t('cmd.operation_cancelled'),
+              executionTime: 0
+            };
+          }
+
+          return await this.restore(restoreService, restoreAt);
+        } catch (error) {
+          return {
+            success: false,
+            output: '',
+            error: error instanceof Error ? error.message : 'Failed to restore service',
+            executionTime: 0
+          };
+        }
+
+      default:
+        if (this.pluginManager?.getCommand(commandName)) {
+          return this.runWithCommandHooks(commandName, args, () => this.pluginManager!.executeCommand(commandName, args));
+        }
+
         return {
           success: false,
           output: '',
-          error: `Unknown command: ${commandName}. Available commands: up, down, restart, build, logs, status, shell, exec, scale, pull, clean, config`,
+          error: `Unknown command: ${commandName}. Available commands: up, down, restart, build, logs, status, shell, exec, scale, pull, clean, config, backup, restore`,
           executionTime: 0
         };
     }
@@ -1205,6 +1838,34 @@ export class DockerPilot extends EventEmitter {
       this.serviceManager.updateLanguage(language);
     }
 
+    if (this.backupManager) {
+      this.backupManager.updateLanguage(language);
+    }
+
+    if (this.backupScheduler) {
+      this.backupScheduler.updateLanguage(language);
+    }
+
+    if (this.volumeManager) {
+      this.volumeManager.updateLanguage(language);
+    }
+
+    if (this.serviceMonitor) {
+      this.serviceMonitor.updateLanguage(language);
+    }
+
+    if (this.alertDispatcher) {
+      this.alertDispatcher.updateLanguage(language);
+    }
+
+    if (this.metricsExporter) {
+      this.metricsExporter.updateLanguage(language);
+    }
+
+    if (this.pluginManager) {
+      this.pluginManager.updateLanguage(language);
+    }
+
     // Emit language change event
     this.emit('language:changed', { language });
   }
@@ -0,0 +1,244 @@
+/**
+ * Prometheus Metrics Exporter for Docker Pilot
+ * Serves /metrics in the Prometheus text exposition format: service state and
+ * health, resource usage and probe results from the ServiceMonitor, restart
+ * counts and counters of the commands run by this process
+ */
+
+import * as http from 'http';
+import { DockerPilotConfig, ServiceError, ServiceStatus } from '../types';
+import { ServiceManager } from './ServiceManager';
+import { ServiceMonitor } from './ServiceMonitor';
+import { DockerUtils } from '../utils/DockerUtils';
+import { Logger } from '../utils/Logger';
+import { I18n } from '../utils/i18n';
+
+type Labels = Record<string, string>;
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'gauge' | 'counter';
+  samples: Array<{ labels: Labels; value: number }>;
+}
+
+const SERVICE_STATES: ServiceStatus['state'][] = ['running', 'stopped', 'starting', 'stopping', 'error', 'unknown'];
+const HEALTH_STATES: ServiceStatus['health'][] = ['healthy', 'unhealthy', 'starting', 'none'];
+
+export class MetricsExporter {
+  private config: DockerPilotConfig;
+  private serviceManager: ServiceManager;
+  private monitor: ServiceMonitor | null;
+  private dockerUtils: DockerUtils;
+  private logger: Logger;
+  private i18n: I18n;
+  private server: http.Server | null = null;
+  private commandCounts = new Map<string, { command: string; result: string; count: number }>();
+
+  constructor(config: DockerPilotConfig, serviceManager: ServiceManager, monitor: ServiceMonitor | null = null) {
+    this.config = config;
+    this.serviceManager = serviceManager;
+    this.monitor = monitor;
+    this.logger = new Logger();
+    this.dockerUtils = new DockerUtils(this.logger);
+    this.i18n = new I18n(config.language as any);
+  }
+
+  /**
+   * Start serving /metrics
+   */
+  async start(port: number, host: string = '127.0.0.1'): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', error => reject(new ServiceError(this.i18n.t('metrics.listen_failed', {
+        address: `${host}:${port}`,
+        error: error.message
+      }))));
+      server.listen(port, host, () => resolve());
+    });
+
+    this.server = server;
+    this.logger.debug(`Metrics exporter listening on http://${host}:${port}/metrics`);
+  }
+
+  /**
+   * Stop serving
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Count an executed command by name and result
+   */
+  recordCommand(command: string, result: 'success' | 'failure' | 'error'): void {
+    const key = `${command}\0${result}`;
+    const entry = this.commandCounts.get(key) || { command, result, count: 0 };
+    entry.count++;
+    this.commandCounts.set(key, entry);
+  }
+
+  /**
+   * Render all metrics in the Prometheus text format
+   */
+  async render(): Promise<string> {
+    const project = this.config.projectName;
+    const services = await this.serviceManager.getServiceStatus();
+    const containerIds = services.map(service => service.containerId).filter((id): id is string => Boolean(id));
+    const restarts = await this.dockerUtils.getRestartCounts(containerIds).catch(() => ({} as Record<string, number>));
+    const samples = this.monitor?.getLatestSamples() || [];
+    const probes = this.monitor?.getProbeResults() || [];
+    const alerts = this.monitor?.getFiringAlerts() || [];
+
+    const family = (name: string, type: MetricFamily['type'], help: string): MetricFamily =>
+      ({ name: `docker_pilot_${name}`, type, help, samples: [] });
+
+    const up = family('service_up', 'gauge', 'Whether the service container is running (1) or not (0)');
+    const state = family('service_state', 'gauge', 'Current state of the service container, one series per state');
+    const health = family('service_health', 'gauge', 'Docker healthcheck status of the service, one series per status');
+    const restartCount = family('service_restarts', 'gauge', 'Restart count of the service container');
+    const cpu = family('service_cpu_percent', 'gauge', 'CPU usage of the service container in percent');
+    const memory = family('service_memory_percent', 'gauge', 'Memory usage of the service container in percent of its limit');
+    const memoryBytes = family('service_memory_bytes', 'gauge', 'Memory usage of the service container in bytes');
+    const probeUp = family('probe_success', 'gauge', 'Whether the last endpoint probe succeeded');
+    const probeLatency = family('probe_latency_seconds', 'gauge', 'Latency of the last endpoint probe');
+    const probeStatus = family('probe_http_status_code', 'gauge', 'HTTP status code of the last endpoint probe');
+    const tlsExpiry = family('probe_tls_expiry_timestamp_seconds', 'gauge', 'Expiry of the TLS certificate presented to the probe');
+    const firing = family('alerts_firing', 'gauge', 'Threshold alerts currently firing');
+    const total = family('project_services', 'gauge', 'Number of services in the project');
+    const running = family('project_services_running', 'gauge', 'Number of running services in the project');
+    const healthy = family('project_services_healthy', 'gauge', 'Number of healthy services in the project');
+    const commands = family('commands_total', 'counter', 'Commands executed by this Docker Pilot process, by result');
+
+    for (const service of services) {
+      const labels = { project, service: service.name };
+
+      up.samples.push({ labels, value: service.state === 'running' ? 1 : 0 });
+      SERVICE_STATES.forEach(value => state.samples.push({ labels: { ...labels, state: value }, value: service.state === value ? 1 : 0 }));
+      HEALTH_STATES.forEach(value => health.samples.push({ labels: { ...labels, health: value }, value: service.health === value ? 1 : 0 }));
+
+      const restartValue = service.containerId
+        ? Object.entries(restarts).find(([id]) => id.startsWith(service.containerId!) || service.containerId!.startsWith(id))?.[1]
+        : undefined;
+      if (restartValue !== undefined) {
+        restartCount.samples.push({ labels, value: restartValue });
+      }
+    }
+
+    for (const sample of samples) {
+      const labels = { project, service: sample.service };
+      cpu.samples.push({ labels, value: sample.cpu });
+      memory.samples.push({ labels, value: sample.memory });
+      if (sample.memoryBytes !== undefined) {
+        memoryBytes.samples.push({ labels, value: sample.memoryBytes });
+      }
+    }
+
+    for (const probe of probes) {
+      const labels = { project, service: probe.service, type: probe.type };
+      probeUp.samples.push({ labels, value: probe.healthy ? 1 : 0 });
+      probeLatency.samples.push({ labels, value: probe.latency / 1000 });
+      if (probe.statusCode !== undefined) {
+        probeStatus.samples.push({ labels, value: probe.statusCode });
+      }
+      if (probe.tlsExpiresAt) {
+        tlsExpiry.samples.push({ labels, value: Math.floor(probe.tlsExpiresAt.getTime() / 1000) });
+      }
+    }
+
+    alerts.forEach(alert => firing.samples.push({ labels: { project, service: alert.service, metric: alert.metric }, value: 1 }));
+
+    total.samples.push({ labels: { project }, value: services.length });
+    running.samples.push({ labels: { project }, value: services.filter(service => service.state === 'running').length });
+    healthy.samples.push({ labels: { project }, value: services.filter(service => service.health === 'healthy').length });
+
+    for (const { command, result, count } of this.commandCounts.values()) {
+      commands.samples.push({ labels: { project, command, result }, value: count });
+    }
+
+    return [
+      up, state, health, restartCount, cpu, memory, memoryBytes,
+      probeUp, probeLatency, probeStatus, tlsExpiry, firing,
+      total, running, healthy, commands
+    ].map(MetricsExporter.formatFamily).join('');
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { allow: 'GET, HEAD' }).end();
+      return;
+    }
+
+    if (url.pathname === '/') {
+      res.writeHead(200, { 'content-type': 'text/html' })
+        .end('<html><body><h1>Docker Pilot</h1><a href="/metrics">Metrics</a></body></html>');
+      return;
+    }
+
+    if (url.pathname !== '/metrics') {
+      res.writeHead(404, { 'content-type': 'text/plain' }).end('Not Found\n');
+      return;
+    }
+
+    try {
+      const body = await this.render();
+      res.writeHead(200, { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(req.method === 'HEAD' ? undefined : body);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(this.i18n.t('metrics.scrape_failed', { error: message }));
+      res.writeHead(500, { 'content-type': 'text/plain' }).end(`${message}\n`);
+    }
+  }
+
+  private static formatFamily(family: MetricFamily): string {
+    const lines = [`# HELP ${family.name} ${family.help}`, `# TYPE ${family.name} ${family.type}`];
+
+    for (const { labels, value } of family.samples) {
+      const labelText = Object.entries(labels)
+        .map(([key, labelValue]) => `${key}="${MetricsExporter.escapeLabel(labelValue)}"`)
+        .join(',');
+      lines.push(`${family.name}{${labelText}} ${MetricsExporter.formatValue(value)}`);
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private static formatValue(value: number): string {
+    if (Number.isNaN(value)) return 'NaN';
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+  }
+
+  private static escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: DockerPilotConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Update language for MetricsExporter
+   */
+  updateLanguage(language: string): void {
+    this.i18n.setLanguage(language as any);
+  }
+}
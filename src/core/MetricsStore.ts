@@ -0,0 +1,172 @@
+/**
+ * Metrics Store for Docker Pilot
+ * Append-only time series of service resource usage, kept as one JSON-lines file
+ * per UTC day in .docker-pilot/metrics and pruned after monitoring.history.retention days
+ */
+
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { DockerPilotConfig } from '../types';
+import { ServiceSample } from './ServiceMonitor';
+import { Logger } from '../utils/Logger';
+
+export interface MetricsStoreOptions {
+  workingDirectory?: string;
+  directory?: string;
+}
+
+export interface MetricsRecord {
+  time: Date;
+  service: string;
+  container: string;
+  cpu: number | null;
+  memory: number | null;
+  memoryBytes?: number;
+  networkRx?: number;
+  networkTx?: number;
+  blockRead?: number;
+  blockWrite?: number;
+}
+
+export class MetricsStore {
+  private config: DockerPilotConfig;
+  private logger: Logger;
+  private directory: string;
+  private lastPruneDay: string | null = null;
+
+  private static readonly FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+  constructor(config: DockerPilotConfig, options: MetricsStoreOptions = {}) {
+    this.config = config;
+    this.logger = new Logger();
+
+    const workingDirectory = options.workingDirectory || process.cwd();
+    this.directory = options.directory || path.join(workingDirectory, '.docker-pilot', 'metrics');
+  }
+
+  /**
+   * Get the directory holding the metrics files
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Append samples to the file of the current day
+   */
+  async append(samples: ServiceSample[]): Promise<void> {
+    if (samples.length === 0) {
+      return;
+    }
+
+    const day = MetricsStore.dayOf(samples[0]!.timestamp);
+    const lines = samples.map(sample => JSON.stringify({
+      time: sample.timestamp.toISOString(),
+      service: sample.service,
+      container: sample.containerId.slice(0, 12),
+      cpu: MetricsStore.round(sample.cpu),
+      memory: MetricsStore.round(sample.memory),
+      memoryBytes: sample.memoryBytes,
+      networkRx: sample.networkRx,
+      networkTx: sample.networkTx,
+      blockRead: sample.blockRead,
+      blockWrite: sample.blockWrite
+    }));
+
+    await fs.ensureDir(this.directory);
+    await fs.appendFile(path.join(this.directory, `${day}.jsonl`), `${lines.join('\n')}\n`);
+
+    if (this.lastPruneDay !== day) {
+      this.lastPruneDay = day;
+      await this.prune(samples[0]!.timestamp);
+    }
+  }
+
+  /**
+   * Read records taken at or after a point in time, oldest first
+   */
+  async query(since: Date, service?: string): Promise<MetricsRecord[]> {
+    const firstDay = MetricsStore.dayOf(since);
+    const records: MetricsRecord[] = [];
+
+    for (const { day, file } of await this.listFiles()) {
+      if (day < firstDay) {
+        continue;
+      }
+
+      const content = await fs.readFile(file, 'utf8');
+
+      for (const line of content.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+
+        try {
+          const data = JSON.parse(line);
+          const record: MetricsRecord = { ...data, time: new Date(data.time) };
+
+          if (record.time >= since && (!service || record.service === service)) {
+            records.push(record);
+          }
+        } catch {
+          // A line cut short by a crash is skipped rather than failing the whole read
+          this.logger.debug(`Skipping unreadable metrics line in ${file}`);
+        }
+      }
+    }
+
+    return records.sort((a, b) => a.time.getTime() - b.time.getTime());
+  }
+
+  /**
+   * Delete day files older than monitoring.history.retention days
+   */
+  async prune(now: Date = new Date()): Promise<string[]> {
+    const retentionDays = this.config.monitoring.history.retention;
+    const cutoff = MetricsStore.dayOf(new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000));
+    const removed: string[] = [];
+
+    for (const { day, file } of await this.listFiles()) {
+      if (day < cutoff) {
+        await fs.remove(file);
+        removed.push(file);
+      }
+    }
+
+    if (removed.length > 0) {
+      this.logger.debug(`Pruned ${removed.length} metrics file(s) older than ${cutoff}`);
+    }
+
+    return removed;
+  }
+
+  /**
+   * List day files, oldest first
+   */
+  private async listFiles(): Promise<Array<{ day: string; file: string }>> {
+    if (!(await fs.pathExists(this.directory))) {
+      return [];
+    }
+
+    return (await fs.readdir(this.directory))
+      .map(entry => ({ entry, match: entry.match(MetricsStore.FILE_PATTERN) }))
+      .filter(({ match }) => match)
+      .map(({ entry, match }) => ({ day: match![1]!, file: path.join(this.directory, entry) }))
+      .sort((a, b) => a.day.localeCompare(b.day));
+  }
+
+  private static dayOf(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static round(value: number): number | null {
+    return Number.isNaN(value) ? null : Math.round(value * 100) / 100;
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: DockerPilotConfig): void {
+    this.config = config;
+  }
+}
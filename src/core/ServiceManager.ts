@@ -7,15 +7,23 @@ import * as path from 'path';
 import { DockerPilotConfig, ServiceConfig, ServiceStatus, ProjectStatus, ServiceError } from '../types';
 import { Logger } from '../utils/Logger';
 import { DockerUtils } from '../utils/DockerUtils';
+import { EndpointProber } from '../utils/EndpointProber';
 import { CommandResult } from '../types';
 import { I18n } from '../utils/i18n';
+import { PluginManager } from '../plugins/PluginManager';
 
 export interface ServiceManagerOptions {
   projectName?: string;
   composeFile?: string;
   workingDirectory?: string;
+  /**
+   * Plugins whose service hooks run around starts and stops
+   */
+  pluginManager?: PluginManager;
 }
 
+export type ServiceHook = 'beforeServiceStart' | 'afterServiceStart' | 'beforeServiceStop' | 'afterServiceStop';
+
 export class ServiceManager {
   private config: DockerPilotConfig;
   private logger: Logger;
@@ -37,7 +45,8 @@ export class ServiceManager {
     this.options = {
       projectName: options.projectName || config.projectName,
       workingDirectory,
-      composeFile: options.composeFile || this.findComposeFile(workingDirectory)
+      composeFile: options.composeFile || this.findComposeFile(workingDirectory),
+      ...(options.pluginManager && { pluginManager: options.pluginManager })
     };
   }  /**
    * Find Docker Compose file with enhanced search (synchronous for ServiceManager)
@@ -125,6 +134,9 @@ export class ServiceManager {
    * Start all services
    */
   async startAll(): Promise<CommandResult> {
+    const serviceNames = Object.keys(this.config.services);
+    await this.runServiceHooks('beforeServiceStart', serviceNames);
+
     this.logger.loading(this.i18n.t('operation.starting_services'));
 
     try {
@@ -133,6 +145,7 @@ export class ServiceManager {
       );
 
       if (result.success) {
+        await this.runServiceHooks('afterServiceStart', serviceNames);
         this.logger.success(this.i18n.t('service.all_started'));
         await this.displayServiceStatus();
       } else {
@@ -146,16 +159,24 @@ export class ServiceManager {
       throw new ServiceError(`Failed to start services: ${errorMessage}`, { error });
     }
   }  /**
-   * Stop all services
-   */  async stopAll(): Promise<CommandResult> {
+   * Stop all services, optionally removing their volumes and orphan containers
+   */  async stopAll(options: { volumes?: boolean; removeOrphans?: boolean } = {}): Promise<CommandResult> {
+    const serviceNames = Object.keys(this.config.services);
+    await this.runServiceHooks('beforeServiceStop', serviceNames);
+
     this.logger.loading(this.i18n.t('operation.stopping_services'));
 
     try {
-      const result = await this.dockerUtils.executeComposeCommand('down', [],
+      const downArgs = [
+        ...(options.volumes ? ['--volumes'] : []),
+        ...(options.removeOrphans ? ['--remove-orphans'] : [])
+      ];
+      const result = await this.dockerUtils.executeComposeCommand('down', downArgs,
         this.createDockerOptions()
       );
 
       if (result.success) {
+        await this.runServiceHooks('afterServiceStop', serviceNames);
         this.logger.success(this.i18n.t('service.all_stopped'));
       } else {
         this.logger.error(this.i18n.t('service.failed_stop', { name: 'services' }), result.error);
@@ -177,6 +198,10 @@ export class ServiceManager {
    * Restart all services
    */
   async restartAll(): Promise<CommandResult> {
+    const serviceNames = Object.keys(this.config.services);
+    await this.runServiceHooks('beforeServiceStop', serviceNames);
+    await this.runServiceHooks('beforeServiceStart', serviceNames);
+
     this.logger.loading(this.i18n.t('operation.restarting_services'));
 
     try {
@@ -185,6 +210,8 @@ export class ServiceManager {
       );
 
       if (result.success) {
+        await this.runServiceHooks('afterServiceStop', serviceNames);
+        await this.runServiceHooks('afterServiceStart', serviceNames);
         this.logger.success(this.i18n.t('service.all_restarted'));
         await this.displayServiceStatus();
       } else {
@@ -211,6 +238,8 @@ export class ServiceManager {
       throw new ServiceError(this.i18n.t('error.service_not_found', { name: serviceName }));
     }
 
+    await this.runServiceHooks('beforeServiceStart', [serviceName]);
+
     this.logger.loading(this.i18n.t('service.starting', { name: serviceName }));
 
     try {
@@ -219,6 +248,7 @@ export class ServiceManager {
       );
 
       if (result.success) {
+        await this.runServiceHooks('afterServiceStart', [serviceName]);
         this.logger.success(this.i18n.t('service.started_success', { name: serviceName }));
         await this.displayServiceStatus(serviceName);
       } else {
@@ -240,6 +270,8 @@ export class ServiceManager {
       throw new ServiceError(this.i18n.t('error.service_not_found', { name: serviceName }));
     }
 
+    await this.runServiceHooks('beforeServiceStop', [serviceName]);
+
     this.logger.loading(this.i18n.t('service.stopping', { name: serviceName }));
 
     try {
@@ -248,6 +280,7 @@ export class ServiceManager {
       );
 
       if (result.success) {
+        await this.runServiceHooks('afterServiceStop', [serviceName]);
         this.logger.success(this.i18n.t('service.stopped_success', { name: serviceName }));
       } else {
         this.logger.error(this.i18n.t('service.failed_stop', { name: serviceName }), result.error);
@@ -269,6 +302,9 @@ export class ServiceManager {
       throw new ServiceError(`Service not configured: ${serviceName}`);
     }
 
+    await this.runServiceHooks('beforeServiceStop', [serviceName]);
+    await this.runServiceHooks('beforeServiceStart', [serviceName]);
+
     this.logger.loading(`Restarting service: ${serviceName}`);
 
     try {
@@ -277,6 +313,8 @@ export class ServiceManager {
       );
 
       if (result.success) {
+        await this.runServiceHooks('afterServiceStop', [serviceName]);
+        await this.runServiceHooks('afterServiceStart', [serviceName]);
         this.logger.success(`Service ${serviceName} restarted successfully`);
         await this.displayServiceStatus(serviceName);
       } else {
@@ -291,6 +329,20 @@ export class ServiceManager {
     }
   }
 
+  /**
+   * Run a service hook of the loaded plugins for each service.
+   * A throwing before* hook rejects with a PluginError, vetoing the operation.
+   */
+  async runServiceHooks(hook: ServiceHook, serviceNames: string[]): Promise<void> {
+    if (!this.options.pluginManager) {
+      return;
+    }
+
+    for (const serviceName of serviceNames) {
+      await this.options.pluginManager.executeHook(hook, serviceName);
+    }
+  }
+
   /**
    * Build services
    */
@@ -446,14 +498,24 @@ export class ServiceManager {
   }
 
   /**
-   * Get service status
-   */  async getServiceStatus(serviceName?: string): Promise<ServiceStatus[]> {
+   * Get service status, optionally probing monitoring.urls of running services
+   * to report application-level health
+   */  async getServiceStatus(serviceName?: string, options: { probe?: boolean } = {}): Promise<ServiceStatus[]> {
     try {
-      return await this.dockerUtils.getServiceStatus(
+      const services = await this.dockerUtils.getServiceStatus(
         this.options.projectName!,
         serviceName,
         this.options.composeFile ? { composeFile: this.options.composeFile } : undefined
       );
+
+      if (!options.probe) {
+        return services;
+      }
+
+      const running = services.filter(service => service.state === 'running').map(service => service.name);
+      const probes = await new EndpointProber(this.logger).probeAll(this.config.monitoring.urls, running);
+
+      return EndpointProber.merge(services, probes);
     } catch (error) {
       this.logger.error('Error getting service status', error);
       return [];
@@ -571,7 +633,8 @@ export class ServiceManager {
         const services = await this.getServiceStatus(serviceName);
         const service = services.find(s => s.name === serviceName);
 
-        if (service && service.state === 'running' && service.health === 'healthy') {
+        // Services without a healthcheck are ready as soon as they run
+        if (service && service.state === 'running' && (service.health === 'healthy' || service.health === 'none')) {
           this.logger.success(`Service ${serviceName} is healthy`);
           return true;
         }
@@ -587,6 +650,115 @@ export class ServiceManager {
     return false;
   }
 
+  /**
+   * Run the migrate command of a service, or of every service that defines one
+   */
+  async runMigrations(serviceName?: string): Promise<CommandResult[]> {
+    return this.runServiceTask('migrate', serviceName);
+  }
+
+  /**
+   * Run the seed command of a service, or of every service that defines one.
+   * Refused when development.environment is production.
+   */
+  async runSeeds(serviceName?: string): Promise<CommandResult[]> {
+    if (this.config.development.environment === 'production') {
+      throw new ServiceError(this.i18n.t('task.seed_production'));
+    }
+
+    return this.runServiceTask('seed', serviceName);
+  }
+
+  /**
+   * Run migrations (development.autoMigrate) and seeds (development.seedData)
+   * of started services once they are healthy
+   */
+  async runPostStartTasks(serviceNames?: string[]): Promise<CommandResult[]> {
+    const { autoMigrate, seedData, environment } = this.config.development;
+    const runSeeds = seedData && environment !== 'production';
+
+    if (seedData && !runSeeds) {
+      this.logger.warn(this.i18n.t('task.seed_skipped_production'));
+    }
+
+    const services = Object.entries(this.config.services)
+      .filter(([name]) => !serviceNames || serviceNames.includes(name))
+      .filter(([, service]) => (autoMigrate && service.migrate) || (runSeeds && service.seed));
+
+    const results: CommandResult[] = [];
+
+    for (const [name, service] of services) {
+      if (!(await this.waitForServiceHealth(name))) {
+        this.logger.warn(this.i18n.t('task.not_ready', { service: name }));
+        results.push({ success: false, error: this.i18n.t('task.not_ready', { service: name }) });
+        continue;
+      }
+
+      if (autoMigrate && service.migrate) {
+        const result = await this.execServiceTask('migrate', name, service.migrate);
+        results.push(result);
+
+        // Seeding a half-migrated database only adds to the mess
+        if (!result.success) {
+          continue;
+        }
+      }
+
+      if (runSeeds && service.seed) {
+        results.push(await this.execServiceTask('seed', name, service.seed));
+      }
+    }
+
+    return results;
+  }
+
+  private async runServiceTask(task: 'migrate' | 'seed', serviceName?: string): Promise<CommandResult[]> {
+    if (serviceName) {
+      const service = this.config.services[serviceName];
+      if (!service) {
+        throw new ServiceError(this.i18n.t('error.service_not_found', { name: serviceName }));
+      }
+
+      const command = service[task];
+      if (!command) {
+        throw new ServiceError(this.i18n.t('task.not_defined', { task, service: serviceName }));
+      }
+
+      return [await this.execServiceTask(task, serviceName, command)];
+    }
+
+    const results: CommandResult[] = [];
+    for (const [name, service] of Object.entries(this.config.services)) {
+      const command = service[task];
+      if (command) {
+        results.push(await this.execServiceTask(task, name, command));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Run a migrate or seed command in the service container with sh -c
+   */
+  private async execServiceTask(task: 'migrate' | 'seed', serviceName: string, command: string): Promise<CommandResult> {
+    this.logger.loading(this.i18n.t(`task.${task}_running`, { service: serviceName, command }));
+
+    const result = await this.dockerUtils.executeComposeCommand('exec',
+      ['-T', serviceName, 'sh', '-c', `'${command.replace(/'/g, `'\\''`)}'`],
+      this.createDockerOptions()
+    );
+
+    if (result.success) {
+      this.logger.success(this.i18n.t(`task.${task}_success`, { service: serviceName }));
+      return result;
+    }
+
+    const message = this.i18n.t(`task.${task}_failed`, { service: serviceName });
+    this.logger.error(message, result.error);
+    return { ...result, error: result.error || message };
+  }
+
   /**
    * Update service manager configuration
    */
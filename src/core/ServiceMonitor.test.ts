@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ServiceMonitor, ServiceSample, Alert } from './ServiceMonitor';
+import { ServiceManager } from './ServiceManager';
+import { DockerPilotConfigSchema } from '../types';
+
+const START = new Date('2024-05-10T10:00:00Z');
+
+function after(seconds: number): Date {
+  return new Date(START.getTime() + seconds * 1000);
+}
+
+function sample(service: string, cpu: number, memory = 10): ServiceSample {
+  return { service, containerId: `${service}-container`, cpu, memory, timestamp: START };
+}
+
+describe('ServiceMonitor.evaluate', () => {
+  let monitor: ServiceMonitor;
+  let events: Array<{ name: string; alert: Alert }>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const config = DockerPilotConfigSchema.parse({
+      projectName: 'demo',
+      monitoring: { alerts: { enabled: true, duration: 60, thresholds: { cpu: 80, memory: 90 } } }
+    });
+    monitor = new ServiceMonitor(config, {} as ServiceManager);
+    events = [];
+
+    monitor.on('alert:firing', alert => events.push({ name: 'alert:firing', alert }));
+    monitor.on('alert:resolved', alert => events.push({ name: 'alert:resolved', alert }));
+  });
+
+  it('fires only once the breach has lasted for the configured duration', () => {
+    expect(monitor.evaluate([sample('web', 95)], START)).toEqual([]);
+    expect(monitor.evaluate([sample('web', 97)], after(59))).toEqual([]);
+
+    const [alert] = monitor.evaluate([sample('web', 99)], after(60));
+
+    expect(alert).toMatchObject({
+      id: 'web:cpu',
+      service: 'web',
+      metric: 'cpu',
+      status: 'firing',
+      value: 99,
+      threshold: 80,
+      since: START,
+      firedAt: after(60)
+    });
+    expect(events.map(({ name }) => name)).toEqual(['alert:firing']);
+  });
+
+  it('fires at once with a zero duration', () => {
+    const config = DockerPilotConfigSchema.parse({ projectName: 'demo', monitoring: { alerts: { duration: 0 } } });
+    monitor = new ServiceMonitor(config, {} as ServiceManager);
+
+    expect(monitor.evaluate([sample('web', 85)], START)).toMatchObject([{ status: 'firing', since: START, firedAt: START }]);
+  });
+
+  it('restarts the duration when the value dips below the threshold', () => {
+    monitor.evaluate([sample('web', 95)], START);
+    monitor.evaluate([sample('web', 50)], after(30));
+    monitor.evaluate([sample('web', 95)], after(45));
+
+    expect(monitor.evaluate([sample('web', 95)], after(90))).toEqual([]);
+    expect(monitor.evaluate([sample('web', 95)], after(105))).toMatchObject([{ status: 'firing', since: after(45) }]);
+  });
+
+  it('treats a value equal to the threshold as healthy', () => {
+    monitor.evaluate([sample('web', 80)], START);
+
+    expect(monitor.evaluate([sample('web', 80)], after(120))).toEqual([]);
+  });
+
+  it('does not fire again while the breach goes on, but tracks the latest value', () => {
+    monitor.evaluate([sample('web', 95)], START);
+    monitor.evaluate([sample('web', 95)], after(60));
+
+    expect(monitor.evaluate([sample('web', 98)], after(65))).toEqual([]);
+
+    const [resolved] = monitor.evaluate([sample('web', 20)], after(70));
+    expect(resolved).toMatchObject({ status: 'resolved', value: 20, firedAt: after(60), resolvedAt: after(70) });
+    expect(events.map(({ name }) => name)).toEqual(['alert:firing', 'alert:resolved']);
+  });
+
+  it('tracks each service and metric on its own', () => {
+    monitor.evaluate([sample('web', 95, 95), sample('db', 10, 95)], START);
+    const changed = monitor.evaluate([sample('web', 95, 50), sample('db', 10, 95)], after(60));
+
+    expect(changed.map(alert => alert.id).sort()).toEqual(['db:memory', 'web:cpu']);
+  });
+
+  it('resolves a firing alert when its service disappears from the samples', () => {
+    monitor.evaluate([sample('web', 95), sample('db', 10)], START);
+    monitor.evaluate([sample('web', 95), sample('db', 10)], after(60));
+
+    const changed = monitor.evaluate([sample('db', 10)], after(65));
+
+    expect(changed).toMatchObject([{ id: 'web:cpu', status: 'resolved', value: 95, resolvedAt: after(65) }]);
+    expect(monitor.evaluate([sample('db', 10)], after(70))).toEqual([]);
+  });
+
+  it('forgets a pending breach when its service disappears', () => {
+    monitor.evaluate([sample('web', 95)], START);
+
+    expect(monitor.evaluate([], after(30))).toEqual([]);
+    monitor.evaluate([sample('web', 95)], after(45));
+    expect(monitor.evaluate([sample('web', 95)], after(90))).toEqual([]);
+  });
+
+  it('skips metrics that could not be read', () => {
+    monitor.evaluate([sample('web', NaN)], START);
+
+    expect(monitor.evaluate([sample('web', NaN)], after(120))).toEqual([]);
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Service Monitor for Docker Pilot
+ * Samples container resource usage and probes monitoring.urls every
+ * monitoring.refreshInterval seconds, and evaluates monitoring.alerts.thresholds,
+ * tracking firing/resolved alert state
+ */
+
+import { EventEmitter } from 'events';
+import { DockerPilotConfig, ProbeResult, ServiceError } from '../types';
+import { ServiceManager } from './ServiceManager';
+import { DockerUtils } from '../utils/DockerUtils';
+import { EndpointProber } from '../utils/EndpointProber';
+import { Logger } from '../utils/Logger';
+import { I18n } from '../utils/i18n';
+
+export type AlertMetric = 'cpu' | 'memory';
+
+export type AlertStatus = 'firing' | 'resolved';
+
+export interface ServiceSample {
+  service: string;
+  containerId: string;
+  cpu: number;
+  memory: number;
+  memoryUsage?: string;
+  memoryBytes?: number;
+  networkRx?: number;
+  networkTx?: number;
+  blockRead?: number;
+  blockWrite?: number;
+  timestamp: Date;
+}
+
+export interface Alert {
+  id: string;
+  service: string;
+  metric: AlertMetric;
+  status: AlertStatus;
+  value: number;
+  threshold: number;
+  since: Date;
+  firedAt: Date;
+  resolvedAt?: Date;
+}
+
+export interface ServiceMonitor {
+  on(event: 'sample', listener: (samples: ServiceSample[]) => void): this;
+  on(event: 'probe', listener: (results: ProbeResult[]) => void): this;
+  on(event: 'alert:firing' | 'alert:resolved', listener: (alert: Alert) => void): this;
+  once(event: 'sample', listener: (samples: ServiceSample[]) => void): this;
+  once(event: 'probe', listener: (results: ProbeResult[]) => void): this;
+  once(event: 'alert:firing' | 'alert:resolved', listener: (alert: Alert) => void): this;
+  off(event: 'sample', listener: (samples: ServiceSample[]) => void): this;
+  off(event: 'probe', listener: (results: ProbeResult[]) => void): this;
+  off(event: 'alert:firing' | 'alert:resolved', listener: (alert: Alert) => void): this;
+  emit(event: 'sample', samples: ServiceSample[]): boolean;
+  emit(event: 'probe', results: ProbeResult[]): boolean;
+  emit(event: 'alert:firing' | 'alert:resolved', alert: Alert): boolean;
+}
+
+/**
+ * A threshold breach being tracked; the alert is only set once the breach has
+ * lasted for monitoring.alerts.duration seconds
+ */
+interface Breach {
+  since: Date;
+  alert: Alert | null;
+}
+
+const ALERT_METRICS: AlertMetric[] = ['cpu', 'memory'];
+
+export class ServiceMonitor extends EventEmitter {
+  private config: DockerPilotConfig;
+  private serviceManager: ServiceManager;
+  private dockerUtils: DockerUtils;
+  private prober: EndpointProber;
+  private logger: Logger;
+  private i18n: I18n;
+  private breaches = new Map<string, Breach>();
+  private probeResults: ProbeResult[] = [];
+  private latestSamples: ServiceSample[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private currentPoll: Promise<void> | null = null;
+  private active = false;
+
+  constructor(config: DockerPilotConfig, serviceManager: ServiceManager) {
+    super();
+    this.config = config;
+    this.serviceManager = serviceManager;
+    this.logger = new Logger();
+    this.dockerUtils = new DockerUtils(this.logger);
+    this.prober = new EndpointProber(this.logger);
+    this.i18n = new I18n(config.language as any);
+  }
+
+  /**
+   * Start sampling on monitoring.refreshInterval
+   */
+  async start(): Promise<void> {
+    if (this.active) {
+      return;
+    }
+
+    if (!this.config.monitoring.enabled) {
+      throw new ServiceError(this.i18n.t('monitor.disabled'));
+    }
+
+    this.active = true;
+    this.logger.debug(`Service monitor started, sampling every ${this.config.monitoring.refreshInterval}s`);
+
+    await this.tick();
+  }
+
+  /**
+   * Stop sampling, waiting for a sample in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.active = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentPoll) {
+      await this.currentPoll;
+    }
+  }
+
+  /**
+   * Check whether the monitor is running
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Get alerts that are currently firing
+   */
+  getFiringAlerts(): Alert[] {
+    return Array.from(this.breaches.values())
+      .map(breach => breach.alert)
+      .filter((alert): alert is Alert => alert !== null);
+  }
+
+  /**
+   * Get the samples of the latest sampling round
+   */
+  getLatestSamples(): ServiceSample[] {
+    return [...this.latestSamples];
+  }
+
+  /**
+   * Get the latest endpoint probe results
+   */
+  getProbeResults(): ProbeResult[] {
+    return [...this.probeResults];
+  }
+
+  /**
+   * Probe the monitoring.urls endpoints of the monitored services
+   */
+  async probe(): Promise<ProbeResult[]> {
+    const monitored = this.config.monitoring.services;
+    return this.prober.probeAll(this.config.monitoring.urls, monitored.length > 0 ? monitored : undefined);
+  }
+
+  /**
+   * Sample CPU and memory usage of the running monitored services
+   */
+  async sample(): Promise<ServiceSample[]> {
+    const monitored = this.config.monitoring.services;
+    const services = (await this.serviceManager.getServiceStatus())
+      .filter(service => service.state === 'running' && service.containerId)
+      .filter(service => monitored.length === 0 || monitored.includes(service.name));
+
+    if (services.length === 0) {
+      return [];
+    }
+
+    const stats = await this.dockerUtils.getStats(services.map(service => service.containerId!));
+    const timestamp = new Date();
+    const samples: ServiceSample[] = [];
+
+    for (const service of services) {
+      const containerId = service.containerId!;
+      const entry = stats.find(stat => {
+        const id = String(stat.ID || stat.Container || '');
+        return id !== '' && (containerId.startsWith(id) || id.startsWith(containerId));
+      });
+
+      if (!entry) {
+        continue;
+      }
+
+      const [memoryBytes] = ServiceMonitor.parseSizePair(entry.MemUsage);
+      const [networkRx, networkTx] = ServiceMonitor.parseSizePair(entry.NetIO);
+      const [blockRead, blockWrite] = ServiceMonitor.parseSizePair(entry.BlockIO);
+
+      samples.push({
+        service: service.name,
+        containerId,
+        cpu: ServiceMonitor.parsePercentage(entry.CPUPerc),
+        memory: ServiceMonitor.parsePercentage(entry.MemPerc),
+        ...(entry.MemUsage && { memoryUsage: entry.MemUsage }),
+        ...(memoryBytes !== undefined && { memoryBytes }),
+        ...(networkRx !== undefined && { networkRx }),
+        ...(networkTx !== undefined && { networkTx }),
+        ...(blockRead !== undefined && { blockRead }),
+        ...(blockWrite !== undefined && { blockWrite }),
+        timestamp
+      });
+    }
+
+    return samples;
+  }
+
+  /**
+   * Compare samples against the thresholds and update alert state.
+   * Returns the alerts that changed state.
+   */
+  evaluate(samples: ServiceSample[], now: Date = new Date()): Alert[] {
+    const { thresholds, duration } = this.config.monitoring.alerts;
+    const changed: Alert[] = [];
+    const seen = new Set<string>();
+
+    for (const sample of samples) {
+      for (const metric of ALERT_METRICS) {
+        const value = sample[metric];
+        if (Number.isNaN(value)) {
+          continue;
+        }
+
+        const id = `${sample.service}:${metric}`;
+        const threshold = thresholds[metric];
+        const breach = this.breaches.get(id);
+        seen.add(id);
+
+        if (value <= threshold) {
+          if (breach?.alert) {
+            changed.push(this.resolve(breach.alert, value, now));
+          }
+          this.breaches.delete(id);
+          continue;
+        }
+
+        if (!breach) {
+          this.breaches.set(id, { since: now, alert: null });
+        }
+
+        const current = this.breaches.get(id)!;
+
+        if (current.alert) {
+          current.alert.value = value;
+        } else if (now.getTime() - current.since.getTime() >= duration * 1000) {
+          current.alert = {
+            id,
+            service: sample.service,
+            metric,
+            status: 'firing',
+            value,
+            threshold,
+            since: current.since,
+            firedAt: now
+          };
+          changed.push({ ...current.alert });
+        }
+      }
+    }
+
+    // A service that stopped or is no longer monitored cannot stay in breach
+    for (const [id, breach] of this.breaches) {
+      if (!seen.has(id)) {
+        if (breach.alert) {
+          changed.push(this.resolve(breach.alert, breach.alert.value, now));
+        }
+        this.breaches.delete(id);
+      }
+    }
+
+    for (const alert of changed) {
+      this.emit(alert.status === 'firing' ? 'alert:firing' : 'alert:resolved', alert);
+    }
+
+    return changed;
+  }
+
+  /**
+   * Take a sample, evaluate it and schedule the next one
+   */
+  private async tick(): Promise<void> {
+    this.timer = null;
+
+    if (!this.active) {
+      return;
+    }
+
+    this.currentPoll = this.poll();
+    await this.currentPoll;
+    this.currentPoll = null;
+
+    if (this.active) {
+      this.timer = setTimeout(() => this.tick(), this.config.monitoring.refreshInterval * 1000);
+    }
+  }
+
+  /**
+   * Run one sampling round; failures are logged so the loop keeps going
+   */
+  private async poll(): Promise<void> {
+    try {
+      const [samples, probeResults] = await Promise.all([this.sample(), this.probe()]);
+
+      this.probeResults = probeResults;
+      if (probeResults.length > 0) {
+        this.emit('probe', probeResults);
+      }
+
+      this.latestSamples = samples;
+      this.emit('sample', samples);
+
+      if (this.config.monitoring.alerts.enabled) {
+        this.evaluate(samples);
+      }
+    } catch (error) {
+      this.logger.warn(this.i18n.t('monitor.sample_failed', {
+        error: error instanceof Error ? error.message : String(error)
+      }));
+    }
+  }
+
+  /**
+   * Mark a firing alert as resolved
+   */
+  private resolve(alert: Alert, value: number, now: Date): Alert {
+    return { ...alert, status: 'resolved', value, resolvedAt: now };
+  }
+
+  /**
+   * Parse a docker stats percentage such as "12.34%"
+   */
+  private static parsePercentage(value: unknown): number {
+    return parseFloat(String(value ?? '').replace('%', ''));
+  }
+
+  /**
+   * Parse a docker stats size pair such as "1.5MB / 2.1kB" or "120MiB / 1.9GiB" into bytes
+   */
+  private static parseSizePair(value: unknown): [number?, number?] {
+    return String(value ?? '').split('/').map(part => {
+      const match = part.trim().match(/^([\d.]+)\s*([kKMGTP]?i?B)$/);
+      if (!match) {
+        return undefined;
+      }
+
+      const unit = match[2]!;
+      const base = unit.includes('i') ? 1024 : 1000;
+      const exponent = ' KMGTP'.indexOf(unit.charAt(0).toUpperCase());
+      return parseFloat(match[1]!) * Math.pow(base, Math.max(exponent, 0));
+    }) as [number?, number?];
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: DockerPilotConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Update language for ServiceMonitor
+   */
+  updateLanguage(language: string): void {
+    this.i18n.setLanguage(language as any);
+  }
+}
@@ -0,0 +1,432 @@
+/**
+ * Volume Manager for Docker Pilot
+ * Snapshots, restores and clones Docker volumes through a throwaway helper container
+ */
+
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { DockerPilotConfig, ServiceError } from '../types';
+import { Logger } from '../utils/Logger';
+import { DockerUtils } from '../utils/DockerUtils';
+import { I18n } from '../utils/i18n';
+import { BackupManager } from './BackupManager';
+
+export interface VolumeManagerOptions {
+  projectName?: string;
+  workingDirectory?: string;
+  helperImage?: string;
+}
+
+export interface VolumeInfo {
+  name: string;
+  dockerName: string;
+  configured: boolean;
+  external: boolean;
+  exists: boolean;
+}
+
+export interface VolumeSnapshot {
+  volume: string;
+  file: string;
+  timestamp: Date;
+  size: number;
+  checksum?: string;
+}
+
+export class VolumeManager {
+  private config: DockerPilotConfig;
+  private logger: Logger;
+  private dockerUtils: DockerUtils;
+  private options: VolumeManagerOptions;
+  private i18n: I18n;
+
+  /**
+   * Docker volume names: [a-zA-Z0-9][a-zA-Z0-9_.-]*
+   */
+  private static readonly VOLUME_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+
+  private static readonly SNAPSHOT_PATTERN = /^(.+)-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}Z)\.tar\.gz$/;
+
+  constructor(config: DockerPilotConfig, options: VolumeManagerOptions = {}) {
+    this.config = config;
+    this.logger = new Logger();
+    this.dockerUtils = new DockerUtils(this.logger);
+    this.i18n = new I18n(config.language as any);
+
+    this.options = {
+      projectName: options.projectName || config.projectName,
+      workingDirectory: options.workingDirectory || process.cwd(),
+      helperImage: options.helperImage || 'alpine:3'
+    };
+  }
+
+  /**
+   * Get the directory where volume snapshots are stored
+   */
+  getSnapshotDirectory(): string {
+    return path.resolve(this.options.workingDirectory!, this.config.backup.directory, 'volumes');
+  }
+
+  /**
+   * List volumes from the configuration and the Docker project
+   */
+  async listVolumes(): Promise<VolumeInfo[]> {
+    const projectVolumes = await this.dockerUtils.getProjectVolumes(this.getComposeProjectName());
+    const volumes: VolumeInfo[] = [];
+
+    for (const [name, volumeConfig] of Object.entries(this.config.volumes)) {
+      const dockerName = this.getDockerName(name);
+      volumes.push({
+        name,
+        dockerName,
+        configured: true,
+        external: volumeConfig.external,
+        exists: projectVolumes.includes(dockerName) || await this.dockerUtils.volumeExists(dockerName)
+      });
+    }
+
+    for (const dockerName of projectVolumes) {
+      if (volumes.some(volume => volume.dockerName === dockerName)) continue;
+
+      const prefix = `${this.getComposeProjectName()}_`;
+      volumes.push({
+        name: dockerName.startsWith(prefix) ? dockerName.slice(prefix.length) : dockerName,
+        dockerName,
+        configured: false,
+        external: false,
+        exists: true
+      });
+    }
+
+    return volumes;
+  }
+
+  /**
+   * Resolve a volume name (as written in the configuration or compose file, or the full Docker name)
+   * to an existing Docker volume
+   */
+  async resolveVolume(name: string): Promise<string> {
+    const dockerName = await this.findVolume(name);
+
+    if (!dockerName) {
+      throw new ServiceError(this.i18n.t('volume.not_found', { volume: name }));
+    }
+
+    return dockerName;
+  }
+
+  /**
+   * Tar a volume into the snapshot directory
+   */
+  async snapshot(name: string): Promise<VolumeSnapshot> {
+    const dockerName = await this.resolveVolume(name);
+    const timestamp = new Date();
+    const directory = this.getSnapshotDirectory();
+    const filename = `${dockerName}-${BackupManager.formatTimestamp(timestamp)}.tar.gz`;
+    const file = path.join(directory, filename);
+
+    await this.warnIfInUse(dockerName);
+    await fs.ensureDir(directory);
+
+    this.logger.loading(this.i18n.t('volume.snapshot_starting', { volume: dockerName }));
+
+    try {
+      await this.runHelper([
+        '-v', `${dockerName}:/volume:ro`,
+        '-v', this.quote(`${directory}:/snapshots`)
+      ], `tar czf /snapshots/${filename} -C /volume .`);
+
+      const checksum = await BackupManager.computeChecksum(file);
+      await fs.writeFile(BackupManager.getManifestPath(file), `${checksum}  ${filename}\n`);
+
+      const { size } = await fs.stat(file);
+      this.logger.success(this.i18n.t('volume.snapshot_completed', {
+        volume: dockerName,
+        file: path.relative(this.options.workingDirectory!, file)
+      }));
+
+      return { volume: dockerName, file, timestamp, size, checksum };
+    } catch (error) {
+      await fs.remove(file).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * List snapshots, newest first
+   */
+  async listSnapshots(name?: string): Promise<VolumeSnapshot[]> {
+    const directory = this.getSnapshotDirectory();
+
+    if (!(await fs.pathExists(directory))) {
+      return [];
+    }
+
+    const volumeNames = name ? [name, this.getDockerName(name)] : null;
+    const snapshots: VolumeSnapshot[] = [];
+
+    for (const entry of await fs.readdir(directory)) {
+      const match = entry.match(VolumeManager.SNAPSHOT_PATTERN);
+      if (!match || !match[1] || !match[2]) continue;
+      if (volumeNames && !volumeNames.includes(match[1])) continue;
+
+      const file = path.join(directory, entry);
+      const { size } = await fs.stat(file);
+      const checksum = await this.readChecksum(file);
+
+      snapshots.push({
+        volume: match[1],
+        file,
+        timestamp: BackupManager.parseTimestamp(match[2]),
+        size,
+        ...(checksum && { checksum })
+      });
+    }
+
+    return snapshots.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  /**
+   * Find the snapshot to restore: the newest one, or the newest taken at or before the given timestamp
+   */
+  async resolveSnapshot(name: string, at?: string): Promise<VolumeSnapshot> {
+    const snapshots = await this.listSnapshots(name);
+
+    if (snapshots.length === 0) {
+      throw new ServiceError(this.i18n.t('volume.no_snapshots', { volume: name }));
+    }
+
+    if (!at) {
+      return snapshots[0]!;
+    }
+
+    const target = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}Z$/.test(at)
+      ? BackupManager.parseTimestamp(at)
+      : new Date(at);
+
+    if (isNaN(target.getTime())) {
+      throw new ServiceError(this.i18n.t('backup.invalid_timestamp', { timestamp: at }));
+    }
+
+    const snapshot = snapshots.find(candidate => candidate.timestamp.getTime() <= target.getTime());
+    if (!snapshot) {
+      throw new ServiceError(this.i18n.t('volume.snapshot_not_found', { volume: name, timestamp: at }));
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Replace the contents of a volume with a snapshot.
+   * The snapshot is verified first and the current contents are snapshotted, so the restore can be undone.
+   * Returns the safety snapshot, if the volume existed.
+   */
+  async restore(name: string, snapshot: VolumeSnapshot): Promise<VolumeSnapshot | null> {
+    const file = path.relative(this.options.workingDirectory!, snapshot.file);
+
+    if (!snapshot.checksum) {
+      throw new ServiceError(this.i18n.t('backup.manifest_missing', { file }));
+    }
+
+    if (await BackupManager.computeChecksum(snapshot.file) !== snapshot.checksum) {
+      throw new ServiceError(this.i18n.t('backup.checksum_mismatch', { file }));
+    }
+
+    let dockerName = await this.findVolume(name);
+    let safetySnapshot: VolumeSnapshot | null = null;
+
+    if (dockerName) {
+      const running = await this.dockerUtils.getVolumeContainers(dockerName);
+      if (running.length > 0) {
+        throw new ServiceError(this.i18n.t('volume.in_use', { volume: dockerName, containers: running.join(', ') }));
+      }
+
+      safetySnapshot = await this.snapshot(dockerName);
+    } else {
+      // Restoring into a volume that does not exist yet
+      dockerName = this.getDockerName(name);
+      await this.createVolume(dockerName, name);
+    }
+
+    this.logger.loading(this.i18n.t('volume.restore_starting', { volume: dockerName, file }));
+
+    await this.runHelper([
+      '-v', `${dockerName}:/volume`,
+      '-v', this.quote(`${path.dirname(snapshot.file)}:/snapshots:ro`)
+    ], `find /volume -mindepth 1 -delete && tar xzf /snapshots/${path.basename(snapshot.file)} -C /volume`);
+
+    this.logger.success(this.i18n.t('volume.restore_completed', { volume: dockerName }));
+    return safetySnapshot;
+  }
+
+  /**
+   * Copy a volume into a new volume
+   */
+  async clone(source: string, destination: string): Promise<string> {
+    const sourceName = await this.resolveVolume(source);
+    this.assertValidName(destination);
+
+    const destinationName = this.getDockerName(destination);
+    if (await this.dockerUtils.volumeExists(destinationName)) {
+      throw new ServiceError(this.i18n.t('volume.already_exists', { volume: destinationName }));
+    }
+
+    await this.warnIfInUse(sourceName);
+    await this.createVolume(destinationName, destination);
+
+    this.logger.loading(this.i18n.t('volume.clone_starting', { source: sourceName, destination: destinationName }));
+
+    try {
+      await this.runHelper([
+        '-v', `${sourceName}:/from:ro`,
+        '-v', `${destinationName}:/to`
+      ], 'cp -a /from/. /to/');
+    } catch (error) {
+      await this.dockerUtils.executeDockerCommand('volume', ['rm', destinationName], { silent: true });
+      throw error;
+    }
+
+    this.logger.success(this.i18n.t('volume.clone_completed', { source: sourceName, destination: destinationName }));
+    return destinationName;
+  }
+
+  /**
+   * Find the Docker volume for a name, or null when it does not exist
+   */
+  private async findVolume(name: string): Promise<string | null> {
+    this.assertValidName(name);
+
+    for (const candidate of [this.getDockerName(name), name]) {
+      if (await this.dockerUtils.volumeExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Create a volume. Volumes declared in the configuration get the compose labels
+   * so that docker compose adopts them instead of warning about a foreign volume.
+   */
+  private async createVolume(dockerName: string, name: string): Promise<void> {
+    const volumeConfig = this.config.volumes[name];
+    const args = ['create'];
+
+    if (volumeConfig && !volumeConfig.external && dockerName === this.getDockerName(name)) {
+      args.push(
+        '--label', `com.docker.compose.project=${this.getComposeProjectName()}`,
+        '--label', `com.docker.compose.volume=${name}`
+      );
+    }
+
+    if (volumeConfig?.driver) {
+      args.push('--driver', volumeConfig.driver);
+    }
+
+    for (const [key, value] of Object.entries(volumeConfig?.driver_opts || {})) {
+      args.push('--opt', this.quote(`${key}=${value}`));
+    }
+
+    args.push(dockerName);
+
+    const result = await this.dockerUtils.executeDockerCommand('volume', args, { silent: true });
+    if (!result.success) {
+      throw new ServiceError(this.i18n.t('volume.create_failed', { volume: dockerName, error: result.error || '' }));
+    }
+  }
+
+  /**
+   * Run a shell script in a throwaway helper container
+   */
+  private async runHelper(mounts: string[], script: string): Promise<void> {
+    const result = await this.dockerUtils.executeDockerCommand('run', [
+      '--rm',
+      ...mounts,
+      this.options.helperImage!,
+      'sh', '-c', this.quote(script)
+    ], { silent: true, cwd: this.options.workingDirectory! });
+
+    if (!result.success) {
+      throw new ServiceError(this.i18n.t('volume.helper_failed', { error: result.error || '' }), { script });
+    }
+  }
+
+  /**
+   * Warn when running containers write to a volume that is being copied
+   */
+  private async warnIfInUse(dockerName: string): Promise<void> {
+    const containers = await this.dockerUtils.getVolumeContainers(dockerName);
+    if (containers.length > 0) {
+      this.logger.warn(this.i18n.t('volume.in_use_warning', { volume: dockerName, containers: containers.join(', ') }));
+    }
+  }
+
+  /**
+   * Get the Docker name of a volume declared in the configuration
+   */
+  private getDockerName(name: string): string {
+    const volumeConfig = this.config.volumes[name];
+    if (!volumeConfig || volumeConfig.external) {
+      return name;
+    }
+
+    return `${this.getComposeProjectName()}_${name}`;
+  }
+
+  /**
+   * Get the project name as normalized by docker compose
+   */
+  private getComposeProjectName(): string {
+    return (this.options.projectName || '').toLowerCase().replace(/[^a-z0-9_-]/g, '');
+  }
+
+  /**
+   * Read the checksum recorded in a snapshot manifest
+   */
+  private async readChecksum(file: string): Promise<string | undefined> {
+    const manifestPath = BackupManager.getManifestPath(file);
+    if (!(await fs.pathExists(manifestPath))) {
+      return undefined;
+    }
+
+    return (await fs.readFile(manifestPath, 'utf8')).trim().split(/\s+/)[0] || undefined;
+  }
+
+  /**
+   * Reject names that are not valid Docker volume names (they end up in shell commands)
+   */
+  private assertValidName(name: string): void {
+    if (!VolumeManager.VOLUME_NAME_PATTERN.test(name)) {
+      throw new ServiceError(this.i18n.t('volume.invalid_name', { volume: name }));
+    }
+  }
+
+  /**
+   * Quote a value for the shell
+   */
+  private quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+
+  /**
+   * Update volume manager configuration
+   */
+  updateConfig(config: DockerPilotConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Update language for VolumeManager
+   */
+  updateLanguage(language: string): void {
+    this.i18n.setLanguage(language as any);
+  }
+
+  /**
+   * Get current options
+   */
+  getOptions(): VolumeManagerOptions {
+    return { ...this.options };
+  }
+}
@@ -11,6 +11,14 @@ export { DockerPilot } from './core/DockerPilot';
 export { ConfigManager } from './core/ConfigManager';
 export { CommandRunner } from './core/CommandRunner';
 export { ServiceManager } from './core/ServiceManager';
+export { BackupManager } from './core/BackupManager';
+export { BackupScheduler } from './core/BackupScheduler';
+export { VolumeManager } from './core/VolumeManager';
+export { ServiceMonitor } from './core/ServiceMonitor';
+export { AlertDispatcher } from './core/AlertDispatcher';
+export { MetricsStore } from './core/MetricsStore';
+export { MetricsExporter } from './core/MetricsExporter';
+export { DevWatcher } from './core/DevWatcher';
 
 // Types
 export * from './types';
@@ -20,10 +28,21 @@ export { Logger } from './utils/Logger';
 export { DockerUtils } from './utils/DockerUtils';
 export { FileUtils } from './utils/FileUtils';
 export { ValidationUtils } from './utils/ValidationUtils';
+export { EncryptionUtils } from './utils/EncryptionUtils';
+export { CronExpression } from './utils/CronExpression';
+export { EndpointProber } from './utils/EndpointProber';
+export { Confirmation } from './utils/Confirmation';
+export type { ConfirmOptions, ConfirmationAsker } from './utils/Confirmation';
+export { OutputFormatter, OUTPUT_FORMATS } from './utils/OutputFormatter';
+export type { OutputFormat, OutputDocument } from './utils/OutputFormatter';
+export { CompletionScripts, COMPLETION_SHELLS } from './utils/CompletionScripts';
+export type { CompletionShell } from './utils/CompletionScripts';
 
 // Plugins
 export { PluginManager } from './plugins/PluginManager';
 export { BasePlugin } from './plugins/BasePlugin';
+export { HostedPluginContext, FilePluginStorage } from './plugins/PluginContext';
+export type { PluginContext, PluginStorage, PluginHost, PluginEventListener } from './plugins/PluginContext';
 
 // Commands
 export { BaseCommand } from './commands/BaseCommand';
@@ -0,0 +1,587 @@
+/**
+ * Live Dashboard for Docker Pilot
+ * Full-screen terminal view of the project: a service table with live CPU and
+ * memory bars, the tailing logs of the selected service and key bindings to
+ * restart, stop, start or open a shell in it
+ */
+
+import * as readline from 'readline';
+import { ChildProcess } from 'child_process';
+import { CommandContext, ServiceStatus } from '../types';
+import { ServiceManager, ServiceHook } from '../core/ServiceManager';
+import { ServiceMonitor, ServiceSample } from '../core/ServiceMonitor';
+import { DockerUtils } from '../utils/DockerUtils';
+import { Logger } from '../utils/Logger';
+import { I18n } from '../utils/i18n';
+
+export interface DashboardOptions {
+  /**
+   * Number of log lines kept for the selected service
+   */
+  logLines?: number;
+}
+
+type DashboardAction = 'restart' | 'stop' | 'start';
+
+/**
+ * Plugin hooks run around each action; a restart counts as a stop and a start
+ */
+const ACTION_HOOKS: Record<DashboardAction, { before: ServiceHook[]; after: ServiceHook[] }> = {
+  start: { before: ['beforeServiceStart'], after: ['afterServiceStart'] },
+  stop: { before: ['beforeServiceStop'], after: ['afterServiceStop'] },
+  restart: {
+    before: ['beforeServiceStop', 'beforeServiceStart'],
+    after: ['afterServiceStop', 'afterServiceStart']
+  }
+};
+
+/**
+ * A piece of a screen line with an optional ANSI style
+ */
+type Segment = [text: string, style?: string];
+
+const STYLE = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  dim: '\x1b[2m',
+  inverse: '\x1b[7m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+  gray: '\x1b[90m'
+};
+
+const SCREEN = {
+  enter: '\x1b[?1049h',
+  leave: '\x1b[?1049l',
+  hideCursor: '\x1b[?25l',
+  showCursor: '\x1b[?25h',
+  clearLine: '\x1b[K',
+  clearBelow: '\x1b[J'
+};
+
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]|[\x00-\x08\x0b-\x1f\x7f]/g;
+
+export class Dashboard {
+  private context: CommandContext;
+  private serviceManager: ServiceManager;
+  private monitor: ServiceMonitor;
+  private dockerUtils: DockerUtils;
+  private logger: Logger;
+  private i18n: I18n;
+  private logLimit: number;
+
+  private services: ServiceStatus[] = [];
+  private samples = new Map<string, ServiceSample>();
+  private selected: string | null = null;
+  private updatedAt: Date | null = null;
+  private message: Segment | null = null;
+  private busy = false;
+
+  private logs: string[] = [];
+  private logRemainder = '';
+  private logService: string | null = null;
+  private logProcess: ChildProcess | null = null;
+
+  private active = false;
+  private suspended = false;
+  private timer: NodeJS.Timeout | null = null;
+  private renderTimer: NodeJS.Timeout | null = null;
+  private finish: (() => void) | null = null;
+
+  constructor(context: CommandContext, serviceManager: ServiceManager, options: DashboardOptions = {}) {
+    this.context = context;
+    this.serviceManager = serviceManager;
+    this.monitor = new ServiceMonitor(context.config, serviceManager);
+    this.logger = new Logger();
+    this.dockerUtils = new DockerUtils(this.logger);
+    this.i18n = new I18n(context.config.language as any);
+    this.logLimit = options.logLines ?? 500;
+
+    this.onKeypress = this.onKeypress.bind(this);
+    this.onResize = this.onResize.bind(this);
+    this.restoreTerminal = this.restoreTerminal.bind(this);
+  }
+
+  /**
+   * Check whether the dashboard can take over the terminal
+   */
+  static isSupported(): boolean {
+    return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+  }
+
+  /**
+   * Show the dashboard until the user quits
+   */
+  run(): Promise<void> {
+    if (this.active) {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      this.finish = resolve;
+      this.active = true;
+      this.attachTerminal();
+      this.render();
+      this.tick();
+    });
+  }
+
+  /**
+   * Refresh services and samples, then schedule the next refresh
+   */
+  private async tick(): Promise<void> {
+    this.timer = null;
+
+    if (!this.active || this.suspended) {
+      return;
+    }
+
+    await this.refresh();
+
+    if (this.active && !this.suspended && !this.timer) {
+      this.timer = setTimeout(() => this.tick(), this.context.config.monitoring.refreshInterval * 1000);
+    }
+  }
+
+  /**
+   * Load service status and resource usage
+   */
+  private async refresh(): Promise<void> {
+    try {
+      const [services, samples] = await Promise.all([
+        this.serviceManager.getServiceStatus(),
+        this.monitor.sample()
+      ]);
+
+      this.services = services;
+      this.samples = new Map(samples.map(sample => [sample.service, sample]));
+      this.updatedAt = new Date();
+
+      if (!this.selected || !services.some(service => service.name === this.selected)) {
+        this.selected = services[0]?.name ?? null;
+      }
+
+      this.followLogs();
+    } catch (error) {
+      this.message = [this.i18n.t('dashboard.refresh_failed', {
+        error: error instanceof Error ? error.message : String(error)
+      }), STYLE.red];
+    }
+
+    this.render();
+  }
+
+  /**
+   * Tail the logs of the selected service. A new selection always starts a new
+   * tail; the same service is only tailed again once it is back up.
+   */
+  private followLogs(): void {
+    const service = this.services.find(item => item.name === this.selected);
+
+    if (!service) {
+      this.stopLogs();
+      this.logService = null;
+      this.logs = [];
+      return;
+    }
+
+    const isNewSelection = service.name !== this.logService;
+    if (!isNewSelection && (this.logProcess || service.state !== 'running')) {
+      return;
+    }
+
+    this.stopLogs();
+    this.logService = service.name;
+    this.logs = [];
+    this.logRemainder = '';
+
+    this.dockerUtils.getLogs(service.name, {
+      follow: true,
+      stream: true,
+      tail: this.logLimit,
+      cwd: this.context.workingDirectory,
+      ...(this.context.composeFile && { composeFile: this.context.composeFile })
+    }).then(result => {
+      if (!('pid' in result)) {
+        return;
+      }
+
+      // The selection may have moved on while the process was starting
+      if (!this.active || this.logService !== service.name) {
+        result.kill();
+        return;
+      }
+
+      this.logProcess = result;
+      result.stdout?.on('data', (chunk: Buffer) => this.appendLogs(chunk.toString()));
+      result.stderr?.on('data', (chunk: Buffer) => this.appendLogs(chunk.toString()));
+      result.on('error', () => this.appendLogs(`${this.i18n.t('dashboard.logs_failed')}\n`));
+      result.on('exit', () => {
+        if (this.logProcess === result) {
+          this.logProcess = null;
+        }
+      });
+    }).catch(error => this.logger.debug('Failed to tail logs', error));
+  }
+
+  private stopLogs(): void {
+    if (this.logProcess) {
+      this.logProcess.kill();
+      this.logProcess = null;
+    }
+  }
+
+  private appendLogs(text: string): void {
+    const lines = (this.logRemainder + text).split('\n');
+    this.logRemainder = lines.pop() ?? '';
+
+    this.logs.push(...lines.map(line => line.replace(/\t/g, '  ').replace(ANSI_PATTERN, '')));
+    if (this.logs.length > this.logLimit) {
+      this.logs.splice(0, this.logs.length - this.logLimit);
+    }
+
+    this.scheduleRender();
+  }
+
+  /**
+   * Coalesce renders triggered by bursts of log output
+   */
+  private scheduleRender(): void {
+    if (!this.renderTimer) {
+      this.renderTimer = setTimeout(() => {
+        this.renderTimer = null;
+        this.render();
+      }, 50);
+    }
+  }
+
+  private onKeypress(_input: string | undefined, key: readline.Key | undefined): void {
+    if (!key || this.suspended) {
+      return;
+    }
+
+    if ((key.ctrl && key.name === 'c') || key.name === 'q' || key.name === 'escape') {
+      this.close();
+      return;
+    }
+
+    switch (key.name) {
+      case 'up':
+      case 'k':
+        this.moveSelection(-1);
+        break;
+      case 'down':
+      case 'j':
+        this.moveSelection(1);
+        break;
+      case 'r':
+        this.runAction('restart');
+        break;
+      case 's':
+        this.runAction('stop');
+        break;
+      case 'u':
+        this.runAction('start');
+        break;
+      case 'h':
+      case 'return':
+        this.openShell();
+        break;
+    }
+  }
+
+  private onResize(): void {
+    this.render();
+  }
+
+  private moveSelection(offset: number): void {
+    if (this.services.length === 0) {
+      return;
+    }
+
+    const index = this.services.findIndex(service => service.name === this.selected);
+    const next = Math.min(Math.max(index + offset, 0), this.services.length - 1);
+    this.selected = this.services[next]!.name;
+    this.followLogs();
+    this.render();
+  }
+
+  /**
+   * Run a compose action on the selected service and refresh afterwards
+   */
+  private async runAction(action: DashboardAction): Promise<void> {
+    const service = this.selected;
+    if (!service || this.busy) {
+      return;
+    }
+
+    this.busy = true;
+    this.message = [this.i18n.t('dashboard.action_running', { action, service }), STYLE.yellow];
+    this.render();
+
+    try {
+      const hooks = ACTION_HOOKS[action];
+      for (const hook of hooks.before) {
+        await this.serviceManager.runServiceHooks(hook, [service]);
+      }
+
+      const result = await this.dockerUtils.executeComposeCommand(action, [service], {
+        silent: true,
+        cwd: this.context.workingDirectory,
+        ...(this.context.composeFile && { composeFile: this.context.composeFile })
+      });
+
+      if (result.success) {
+        for (const hook of hooks.after) {
+          await this.serviceManager.runServiceHooks(hook, [service]);
+        }
+      }
+
+      this.message = result.success
+        ? [this.i18n.t('dashboard.action_success', { action, service }), STYLE.green]
+        : [this.i18n.t('dashboard.action_failed', { action, service, error: result.error || '' }), STYLE.red];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.message = [this.i18n.t('dashboard.action_failed', { action, service, error: message }), STYLE.red];
+    } finally {
+      this.busy = false;
+    }
+
+    if (this.active && !this.suspended) {
+      await this.refresh();
+    }
+  }
+
+  /**
+   * Hand the terminal to an interactive shell in the selected service,
+   * coming back to the dashboard once it exits
+   */
+  private async openShell(): Promise<void> {
+    const service = this.selected;
+    if (!service || this.busy) {
+      return;
+    }
+
+    this.suspend();
+
+    try {
+      const { ShellCommand } = await import('../commands/ShellCommand');
+      const result = await new ShellCommand(this.context).execute([service], {});
+
+      this.message = result.success
+        ? null
+        : [this.i18n.t('dashboard.shell_failed', { service, error: result.error || '' }), STYLE.red];
+    } finally {
+      this.resume();
+    }
+  }
+
+  /**
+   * Give the terminal back temporarily, e.g. to an interactive shell
+   */
+  private suspend(): void {
+    this.suspended = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.detachTerminal();
+  }
+
+  private resume(): void {
+    if (!this.active) {
+      return;
+    }
+
+    this.suspended = false;
+    this.attachTerminal();
+    this.render();
+    this.tick();
+  }
+
+  /**
+   * Leave the dashboard, restoring the terminal
+   */
+  private close(): void {
+    if (!this.active) {
+      return;
+    }
+
+    this.active = false;
+    [this.timer, this.renderTimer].forEach(timer => timer && clearTimeout(timer));
+    this.timer = null;
+    this.renderTimer = null;
+    this.stopLogs();
+    this.detachTerminal();
+
+    const finish = this.finish;
+    this.finish = null;
+    finish?.();
+  }
+
+  /**
+   * Switch to the alternate screen and read single keypresses
+   */
+  private attachTerminal(): void {
+    readline.emitKeypressEvents(process.stdin);
+    process.stdin.setRawMode?.(true);
+    process.stdin.on('keypress', this.onKeypress);
+    process.stdin.resume();
+    process.stdout.on('resize', this.onResize);
+    process.once('exit', this.restoreTerminal);
+    process.stdout.write(SCREEN.enter + SCREEN.hideCursor);
+  }
+
+  private detachTerminal(): void {
+    process.stdin.off('keypress', this.onKeypress);
+    process.stdin.setRawMode?.(false);
+    process.stdin.pause();
+    process.stdout.off('resize', this.onResize);
+    process.off('exit', this.restoreTerminal);
+    this.restoreTerminal();
+  }
+
+  private restoreTerminal(): void {
+    process.stdout.write(SCREEN.showCursor + SCREEN.leave);
+  }
+
+  /**
+   * Draw the whole screen in place. Every line is overwritten and cleared to its
+   * end instead of clearing the screen first, so nothing flickers.
+   */
+  private render(): void {
+    if (!this.active || this.suspended) {
+      return;
+    }
+
+    const width = Math.max((process.stdout.columns || 80) - 1, 20);
+    const height = Math.max(process.stdout.rows || 24, 10);
+    const lines: Segment[][] = [];
+
+    const title = ` Docker Pilot · ${this.context.config.projectName}`;
+    const updated = this.updatedAt
+      ? this.i18n.t('dashboard.updated', { time: this.updatedAt.toLocaleTimeString() })
+      : this.i18n.t('dashboard.loading');
+    lines.push([[`${title}${' '.repeat(Math.max(width - title.length - updated.length - 1, 1))}${updated} `, STYLE.inverse]]);
+    lines.push([]);
+
+    // Service table, scrolled so that the selection stays visible
+    const tableHeight = Math.max(Math.min(this.services.length, Math.floor((height - 8) / 2)), 1);
+    const nameWidth = Math.min(Math.max(...this.services.map(service => service.name.length), 7) + 2, 24);
+    const barWidth = Math.min(Math.max(Math.floor((width - nameWidth - 60) / 2), 5), 20);
+
+    lines.push([[
+      `   ${'SERVICE'.padEnd(nameWidth)}${'STATE'.padEnd(10)}${'HEALTH'.padEnd(11)}` +
+      `${'CPU'.padEnd(barWidth + 9)}${'MEMORY'.padEnd(barWidth + 9)}USAGE`,
+      STYLE.bold
+    ]]);
+
+    if (this.services.length === 0) {
+      lines.push([[`   ${this.i18n.t(this.updatedAt ? 'dashboard.no_services' : 'dashboard.loading')}`, STYLE.dim]]);
+    }
+
+    const selectedIndex = Math.max(this.services.findIndex(service => service.name === this.selected), 0);
+    const offset = Math.min(Math.max(selectedIndex - tableHeight + 1, 0), Math.max(this.services.length - tableHeight, 0));
+
+    this.services.slice(offset, offset + tableHeight).forEach(service => {
+      lines.push(this.renderServiceRow(service, nameWidth, barWidth));
+    });
+
+    // Log pane fills the rest of the screen above the footer
+    lines.push([]);
+    const logTitle = this.logService
+      ? ` ${this.i18n.t('dashboard.logs_title', { service: this.logService })} `
+      : '';
+    lines.push([[`──${logTitle}${'─'.repeat(Math.max(width - logTitle.length - 2, 0))}`, STYLE.cyan]]);
+
+    const logHeight = Math.max(height - lines.length - 2, 0);
+    const visibleLogs = this.logs.slice(-logHeight);
+    visibleLogs.forEach(line => lines.push([[line]]));
+    while (lines.length < height - 2) {
+      lines.push([]);
+    }
+
+    lines.push(this.message ? [this.message] : []);
+    lines.push([[` ${this.i18n.t('dashboard.keys')}`, STYLE.dim]]);
+
+    const frame = lines
+      .slice(0, height)
+      .map((segments, row) => `\x1b[${row + 1};1H${Dashboard.fit(segments, width)}${SCREEN.clearLine}`)
+      .join('');
+
+    process.stdout.write(frame + SCREEN.clearBelow);
+  }
+
+  private renderServiceRow(service: ServiceStatus, nameWidth: number, barWidth: number): Segment[] {
+    const isSelected = service.name === this.selected;
+    const sample = this.samples.get(service.name);
+    const { thresholds } = this.context.config.monitoring.alerts;
+    const name = service.name.slice(0, nameWidth - 1).padEnd(nameWidth);
+
+    const stateStyle = service.state === 'running' ? STYLE.green
+      : service.state === 'stopped' || service.state === 'error' ? STYLE.red
+        : STYLE.yellow;
+    const healthStyle = service.health === 'healthy' ? STYLE.green
+      : service.health === 'unhealthy' ? STYLE.red
+        : service.health === 'starting' ? STYLE.yellow
+          : STYLE.gray;
+
+    const segments: Segment[] = [
+      [isSelected ? ' ▶ ' : '   ', STYLE.cyan],
+      isSelected ? [name, STYLE.bold] : [name],
+      [service.state.padEnd(10), stateStyle],
+      [(service.health && service.health !== 'none' ? service.health : '-').padEnd(11), healthStyle]
+    ];
+
+    if (!sample) {
+      return [...segments, ['-', STYLE.gray]];
+    }
+
+    return [
+      ...segments,
+      ...Dashboard.bar(sample.cpu, thresholds.cpu, barWidth),
+      ...Dashboard.bar(sample.memory, thresholds.memory, barWidth),
+      [sample.memoryUsage || '', STYLE.gray]
+    ];
+  }
+
+  /**
+   * Render a percentage as a bar colored against its alert threshold
+   */
+  private static bar(value: number, threshold: number, width: number): Segment[] {
+    if (Number.isNaN(value)) {
+      return [[`${'░'.repeat(width)}      - `, STYLE.gray]];
+    }
+
+    const filled = Math.round((Math.min(Math.max(value, 0), 100) / 100) * width);
+    const style = value >= threshold ? STYLE.red : value >= threshold * 0.75 ? STYLE.yellow : STYLE.green;
+
+    return [
+      ['█'.repeat(filled), style],
+      ['░'.repeat(width - filled), STYLE.gray],
+      [` ${`${value.toFixed(1)}%`.padStart(6)}  `]
+    ];
+  }
+
+  /**
+   * Join segments into a line cut to the terminal width
+   */
+  private static fit(segments: Segment[], width: number): string {
+    let remaining = width;
+    let line = '';
+
+    for (const [text, style] of segments) {
+      if (remaining <= 0) {
+        break;
+      }
+
+      const part = Array.from(text).slice(0, remaining).join('');
+      remaining -= Array.from(part).length;
+      line += style ? `${style}${part}${STYLE.reset}` : part;
+    }
+
+    return line;
+  }
+}
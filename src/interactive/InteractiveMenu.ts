@@ -7,8 +7,11 @@ import * as readline from 'readline';
 import * as path from 'path';
 import { DockerPilot } from '../core/DockerPilot';
 import { Logger } from '../utils/Logger';
-import { DockerPilotConfig, CommandContext } from '../types';
+import { DockerPilotConfig, CommandContext, CommandResult } from '../types';
+import { BaseCommand } from '../commands/BaseCommand';
 import { I18n } from '../utils/i18n';
+import { Confirmation } from '../utils/Confirmation';
+import { Dashboard } from './Dashboard';
 
 export interface MenuOption {
   key: string;
@@ -27,10 +30,7 @@ export class InteractiveMenu {
   constructor(dockerPilot: DockerPilot) {
     this.dockerPilot = dockerPilot;
     this.logger = new Logger();
-    this.rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout
-    });
+    this.rl = this.createReadline();
 
     // Initialize i18n
     this.i18n = new I18n();
@@ -41,6 +41,9 @@ export class InteractiveMenu {
   async start(): Promise<void> {
     this.isRunning = true;
 
+    // Commands run from the menu ask their confirmations through the menu's readline
+    Confirmation.setAsker(question => this.askQuestion(question));
+
     // Check if language is configured, if not ask user to choose
     const config = this.dockerPilot.getConfig();
     if (!config?.language) {
@@ -66,6 +69,7 @@ export class InteractiveMenu {
    */
   stop(): void {
     this.isRunning = false;
+    Confirmation.setAsker(null);
     if (this.rl) {
       try {
         this.rl.removeAllListeners();
@@ -303,12 +307,12 @@ export class InteractiveMenu {
               return;
             }
             const { DownCommand } = await import('../commands/DownCommand');
-            const downCommand = new DownCommand(context);
+            const downCommand = new DownCommand(context, this.dockerPilot.getPluginManager());
 
             this.logger.info('🛑 Stopping all services...');
             console.log('\n' + '='.repeat(50));
 
-            const result = await downCommand.execute([], {});
+            const result = await this.runCommand(downCommand, []);
 
             console.log('='.repeat(50));
 
@@ -336,9 +340,9 @@ export class InteractiveMenu {
               return;
             }
             const { RestartCommand } = await import('../commands/RestartCommand');
-            const restartCommand = new RestartCommand(context);
+            const restartCommand = new RestartCommand(context, this.dockerPilot.getPluginManager());
 
-            const result = await restartCommand.execute([], {});
+            const result = await this.runCommand(restartCommand, []);
 
             if (result.success) {
               console.log('');
@@ -446,7 +450,7 @@ export class InteractiveMenu {
                 return;
             }
 
-            const result = await logsCommand.execute(logsArgs, {});
+            const result = await this.runCommand(logsCommand, logsArgs);
 
             if (result.success) {
               if (result.output && result.output.trim() !== '') {
@@ -479,7 +483,7 @@ export class InteractiveMenu {
             const { StatusCommand } = await import('../commands/StatusCommand');
             const statusCommand = new StatusCommand(context);
 
-            const result = await statusCommand.execute([], {});
+            const result = await this.runCommand(statusCommand, []);
 
             if (result.success) {
               // Show the status output if available
@@ -541,7 +545,7 @@ export class InteractiveMenu {
             const { ShellCommand } = await import('../commands/ShellCommand');
             const shellCommand = new ShellCommand(context);
 
-            const result = await shellCommand.execute([serviceName], {});
+            const result = await this.runCommand(shellCommand, [serviceName]);
 
             if (result.success) {
               console.log('');
@@ -605,7 +609,7 @@ export class InteractiveMenu {
             const { ExecCommand } = await import('../commands/ExecCommand');
             const execCommand = new ExecCommand(context);
 
-            const result = await execCommand.execute([serviceName, ...command.split(' ')], {});
+            const result = await this.runCommand(execCommand, [serviceName, ...command.split(' ')]);
 
             if (result.success) {
               console.log('');
@@ -653,31 +657,30 @@ export class InteractiveMenu {
         label: this.i18n.t('command.monitor'),
         category: '🛠️ ' + this.i18n.t('command.advanced'),
         action: async () => {
-          this.logger.info(this.i18n.t('command.monitoring_start'));
-          this.logger.info(this.i18n.t('command.monitoring_tip'));
-          this.logger.newLine();
+          const serviceManager = this.dockerPilot.getServiceManager();
+          const context = this.createCommandContext();
+          if (!serviceManager || !context) {
+            this.logger.error(this.i18n.t('command.service_manager_unavailable'));
+            return;
+          }
 
-          const monitorProcess = setInterval(async () => {
-            try {
-              this.clearScreen();
-              this.logger.info(this.i18n.t('command.docker_monitor', { time: new Date().toLocaleString() }));
-              this.logger.separator('=', 50);
-              this.logger.newLine();
+          if (!Dashboard.isSupported()) {
+            this.logger.warn(this.i18n.t('dashboard.requires_tty'));
+            await this.displayServiceStatus();
+            return;
+          }
 
-              await this.displayServiceStatus();
+          this.logger.info(this.i18n.t('command.monitoring_start'));
 
-              this.logger.info(this.i18n.t('command.press_ctrl_c'));
-            } catch (error) {
-              clearInterval(monitorProcess);
-            }
-          }, 5000);
+          // The dashboard reads raw keypresses, so the menu's readline must let go of stdin
+          this.rl.close();
+          try {
+            await new Dashboard(context, serviceManager).run();
+          } finally {
+            this.rl = this.createReadline();
+          }
 
-          // Listen for Ctrl+C
-          process.on('SIGINT', () => {
-            clearInterval(monitorProcess);
-            this.logger.newLine();
-            this.logger.info(this.i18n.t('command.monitoring_stopped'));
-          });
+          this.logger.info(this.i18n.t('command.monitoring_stopped'));
         }
       },
       {
@@ -707,12 +710,26 @@ export class InteractiveMenu {
         label: this.i18n.t('command.deep_clean'),
         category: '⚙️ ' + this.i18n.t('command.maintenance'),
         action: async () => {
-          const confirm = await this.askQuestion(this.i18n.t('command.deep_clean_warning'));
+          const config = this.dockerPilot.getConfig();
+          const confirmation = new Confirmation(this.logger, this.i18n, config?.cli.confirmDestructiveActions ?? true);
+          const confirmed = await confirmation.confirm(this.i18n.t('command.deep_clean_warning'), {
+            ...(config && { typeToConfirm: config.projectName })
+          });
+
+          // Confirmed once for both commands
+          if (confirmed) {
+            const downResult = await this.dockerPilot.executeCommand('down', ['--volumes', '--yes']);
+            if (!downResult.success) {
+              this.logger.error(this.i18n.t('command.deep_clean_failed', { error: downResult.error || 'down' }));
+              return;
+            }
+
+            const cleanResult = await this.dockerPilot.executeCommand('clean', ['--all', '--yes']);
+            if (!cleanResult.success) {
+              this.logger.error(this.i18n.t('command.deep_clean_failed', { error: cleanResult.error || 'clean' }));
+              return;
+            }
 
-          if (confirm.toLowerCase() === 's' || confirm.toLowerCase() === 'sim' ||
-              confirm.toLowerCase() === 'y' || confirm.toLowerCase() === 'yes') {
-            await this.dockerPilot.executeCommand('down', ['--volumes']);
-            await this.dockerPilot.executeCommand('clean', ['--all']);
             this.logger.success(this.i18n.t('command.deep_clean_complete'));
           } else {
             this.logger.info(this.i18n.t('command.operation_cancelled'));
@@ -730,9 +747,9 @@ export class InteractiveMenu {
               return;
             }
             const { ConfigCommand } = await import('../commands/ConfigCommand');
-            const configCommand = new ConfigCommand(context);
+            const configCommand = new ConfigCommand(context, this.dockerPilot.getPluginManager());
 
-            const result = await configCommand.execute(['show'], {});
+            const result = await this.runCommand(configCommand, ['show']);
 
             if (result.success) {
               console.log('');
@@ -766,7 +783,7 @@ export class InteractiveMenu {
           const context = this.createCommandContext();
 
           const composeCommand = new (await import('../commands/ComposeCommand')).ComposeCommand(context);
-          const result = await composeCommand.execute(['list', '--variants']);
+          const result = await this.runCommand(composeCommand, ['list', '--variants']);
 
           if (result.success) {
             console.log(result.output);
@@ -785,7 +802,7 @@ export class InteractiveMenu {
           const context = this.createCommandContext();
 
           const composeCommand = new (await import('../commands/ComposeCommand')).ComposeCommand(context);
-          const result = await composeCommand.execute(['find', dirToSearch]);
+          const result = await this.runCommand(composeCommand, ['find', dirToSearch]);
 
           if (result.success) {
             console.log(result.output);
@@ -816,7 +833,7 @@ export class InteractiveMenu {
             if (firstFile) {
               const context = this.createCommandContext();
               const composeCommand = new (await import('../commands/ComposeCommand')).ComposeCommand(context);
-              const result = await composeCommand.execute(['analyze', firstFile.path]);
+              const result = await this.runCommand(composeCommand, ['analyze', firstFile.path]);
 
               if (result.success) {
                 console.log(result.output);
@@ -840,7 +857,7 @@ export class InteractiveMenu {
               if (selectedFile) {
                 const context = this.createCommandContext();
                 const composeCommand = new (await import('../commands/ComposeCommand')).ComposeCommand(context);
-                const result = await composeCommand.execute(['analyze', selectedFile.path]);
+                const result = await this.runCommand(composeCommand, ['analyze', selectedFile.path]);
 
                 if (result.success) {
                   console.log(result.output);
@@ -875,7 +892,7 @@ export class InteractiveMenu {
             if (firstFile) {
               const context = this.createCommandContext();
               const composeCommand = new (await import('../commands/ComposeCommand')).ComposeCommand(context);
-              const result = await composeCommand.execute(['validate', firstFile.path]);
+              const result = await this.runCommand(composeCommand, ['validate', firstFile.path]);
 
               if (result.success) {
                 console.log(result.output);
@@ -898,7 +915,7 @@ export class InteractiveMenu {
               if (selectedFile) {
                 const context = this.createCommandContext();
                 const composeCommand = new (await import('../commands/ComposeCommand')).ComposeCommand(context);
-                const result = await composeCommand.execute(['validate', selectedFile.path]);
+                const result = await this.runCommand(composeCommand, ['validate', selectedFile.path]);
 
                 if (result.success) {
                   console.log(result.output);
@@ -918,7 +935,7 @@ export class InteractiveMenu {
         category: '📄 ' + this.i18n.t('command.compose_management'),        action: async () => {
           const context = this.createCommandContext();
           const composeCommand = new (await import('../commands/ComposeCommand')).ComposeCommand(context);
-          const result = await composeCommand.execute(['services']);
+          const result = await this.runCommand(composeCommand, ['services']);
 
           if (result.success) {
             console.log(result.output);
@@ -983,9 +1000,9 @@ export class InteractiveMenu {
                 return;
               }
               const { RestartCommand } = await import('../commands/RestartCommand');
-              const restartCommand = new RestartCommand(context);
+              const restartCommand = new RestartCommand(context, this.dockerPilot.getPluginManager());
 
-              const result = await restartCommand.execute([serviceName], {});
+              const result = await this.runCommand(restartCommand, [serviceName]);
 
               if (result.success) {
                 console.log('');
@@ -1098,7 +1115,7 @@ export class InteractiveMenu {
                   return;
               }
 
-              const result = await logsCommand.execute(logsArgs, {});
+              const result = await this.runCommand(logsCommand, logsArgs);
 
               if (result.success) {
                 if (result.output && result.output.trim() !== '') {
@@ -1121,6 +1138,45 @@ export class InteractiveMenu {
       );
     });
 
+    // Plugin commands that asked for a menu entry
+    const pluginCommands = this.dockerPilot.getPluginManager()?.getCommands().filter(command => command.menu) || [];
+    for (const command of pluginCommands) {
+      const menu = typeof command.menu === 'object' ? command.menu : {};
+
+      options.push({
+        key: (optionKey++).toString(),
+        label: menu.label || `${command.name} - ${command.description}`,
+        description: command.description,
+        category: '🧩 ' + this.i18n.t('command.plugins'),
+        action: async () => {
+          try {
+            const input = menu.prompt ? await this.askQuestion(`${menu.prompt} `) : '';
+            const args = input.trim() ? input.trim().split(/\s+/) : [];
+
+            const result = await this.dockerPilot.executeCommand(command.name, args);
+
+            if (result.success) {
+              if (result.output && result.output.trim() !== '') {
+                console.log('');
+                console.log(result.output);
+              }
+              this.logger.success(this.i18n.t('command.plugin_command_success', { command: command.name }));
+            } else {
+              this.logger.error(this.i18n.t('command.plugin_command_failed', {
+                command: command.name,
+                error: result.error || ''
+              }));
+            }
+          } catch (error) {
+            this.logger.error(this.i18n.t('command.plugin_command_failed', {
+              command: command.name,
+              error: error instanceof Error ? error.message : String(error)
+            }));
+          }
+        }
+      });
+    }
+
     return options;
   }  /**
    * Display menu with categories
@@ -1270,12 +1326,29 @@ export class InteractiveMenu {
     process.stdout.write('\x1b[H'); // Move cursor to home position
   }
 
+  /**
+   * Create the readline interface used for menu input
+   */
+  private createReadline(): readline.Interface {
+    return readline.createInterface({
+      input: process.stdin,
+      output: process.stdout
+    });
+  }
+
   /**
    * Sleep utility
    */
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }  /**
+   * Run a command between the plugin hooks, as the CLI does
+   */
+  private runCommand(command: BaseCommand, args: string[]): Promise<CommandResult> {
+    return this.dockerPilot.runWithCommandHooks(command.name, args, () => command.execute(args, {}));
+  }
+
+  /**
    * Create context for compose commands
    */
   private createCommandContext(): CommandContext | null {
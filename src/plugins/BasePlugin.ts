@@ -3,23 +3,39 @@
  * Provides common functionality for all plugins
  */
 
-import { Plugin, PluginMetadata, PluginHooks, CommandContext, CommandOptions, CommandResult } from '../types';
+import * as semver from 'semver';
+import { z } from 'zod';
+import {
+  Plugin,
+  PluginMetadata,
+  PluginHooks,
+  PluginCommandHandler,
+  PluginCommandDefinition,
+  CommandResult,
+  ServiceStatus,
+  PluginError
+} from '../types';
 import { Logger } from '../utils/Logger';
 import { I18n } from '../utils/i18n';
+import { PluginContext } from './PluginContext';
 
 export abstract class BasePlugin implements Plugin {
   protected logger: Logger;
-  protected context: CommandContext | null = null;
+  protected context: PluginContext | null = null;
   protected i18n: I18n;
   public readonly hooks?: PluginHooks;
-  public readonly commands?: Record<string, (args: string[], options: CommandOptions) => Promise<CommandResult>>;
+  public readonly commands?: Record<string, PluginCommandHandler | PluginCommandDefinition>;
+  /**
+   * Override with a zod schema to validate the plugin's section of config.pluginConfig
+   */
+  public readonly configSchema?: z.ZodTypeAny;
 
   constructor(
     public readonly metadata: PluginMetadata,
     hooks?: PluginHooks,
-    commands?: Record<string, (args: string[], options: CommandOptions) => Promise<CommandResult>>
+    commands?: Record<string, PluginCommandHandler | PluginCommandDefinition>
   ) {
-    this.logger = new Logger();
+    this.logger = new Logger().child(metadata.name);
     this.i18n = new I18n();
     if (hooks) this.hooks = hooks;
     if (commands) this.commands = commands;
@@ -27,12 +43,13 @@ export abstract class BasePlugin implements Plugin {
   /**
    * Initialize the plugin
    */
-  async initialize(context: CommandContext): Promise<void> {
+  async initialize(context: PluginContext): Promise<void> {
     this.context = context;
+    this.logger = context.logger;
 
     // Configure i18n based on context config
-    if (context.config?.language) {
-      this.i18n.setLanguage(context.config.language as any);
+    if (context.config.language) {
+      this.i18n.setLanguage(context.config.language);
     }
 
     this.logger.debug(this.i18n.t('plugin.initializing', { name: this.metadata.name }));
@@ -49,7 +66,7 @@ export abstract class BasePlugin implements Plugin {
   /**
    * Update plugin configuration
    */
-  async updateConfig(config: any): Promise<void> {
+  async updateConfig(config: Record<string, any>): Promise<void> {
     await this.onConfigUpdate(config);
   }
 
@@ -61,12 +78,15 @@ export abstract class BasePlugin implements Plugin {
   }
 
   /**
-   * Check if plugin is compatible with Docker Pilot version
+   * Check if plugin is compatible with Docker Pilot version (metadata.dockerPilot)
    */
-  isCompatible(_dockerPilotVersion: string): boolean {
-    // Simple version compatibility check
-    // In a real implementation, you'd use semver for proper version comparison
-    return true;
+  isCompatible(dockerPilotVersion: string): boolean {
+    const range = this.metadata.dockerPilot;
+    if (!range) {
+      return true;
+    }
+
+    return semver.validRange(range) !== null && semver.satisfies(dockerPilotVersion, range, { includePrerelease: true });
   }
 
   /**
@@ -95,7 +115,7 @@ export abstract class BasePlugin implements Plugin {
    * Called when plugin configuration is updated
    * Override this method in your plugin
    */
-  protected async onConfigUpdate(_config: any): Promise<void> {
+  protected async onConfigUpdate(_config: Record<string, any>): Promise<void> {
     // Override in subclass
   }
 
@@ -108,41 +128,51 @@ export abstract class BasePlugin implements Plugin {
   }
 
   /**
-   * Helper method to execute Docker commands
+   * Helper method to run a Docker Pilot or plugin command
    */
-  protected async executeCommand(command: string, args: string[] = []): Promise<any> {
-    // In a real implementation, this would use the Docker Pilot command system
+  protected async executeCommand(command: string, args: string[] = []): Promise<CommandResult> {
     this.logger.debug(`Plugin ${this.metadata.name} executing command: ${command} ${args.join(' ')}`);
-    return { success: true, output: '' };
+    return this.requireContext().executeCommand(command, args);
   }
 
   /**
    * Helper method to get service status
    */
-  protected async getServiceStatus(serviceName?: string): Promise<any> {
-    // In a real implementation, this would use the Docker Pilot service manager
-    this.logger.debug(`Plugin ${this.metadata.name} getting service status for: ${serviceName || 'all'}`);
-    return [];
+  protected async getServiceStatus(serviceName?: string): Promise<ServiceStatus[]> {
+    const serviceManager = this.requireContext().serviceManager;
+    if (!serviceManager) {
+      throw new PluginError(this.i18n.t('plugin.service_manager_unavailable', { name: this.metadata.name }));
+    }
+
+    return serviceManager.getServiceStatus(serviceName);
+  }
+
+  /**
+   * Get the context the plugin was initialized with
+   */
+  protected requireContext(): PluginContext {
+    if (!this.context) {
+      throw new PluginError(this.i18n.t('plugin.not_initialized', { name: this.metadata.name }));
+    }
+    return this.context;
   }
 
   /**
-   * Helper method to log messages
+   * Helper method to log messages; the logger is scoped to the plugin name
    */
   protected log(level: 'debug' | 'info' | 'warn' | 'error', message: string, data?: any): void {
-    const prefixedMessage = `[${this.metadata.name}] ${message}`;
-
     switch (level) {
       case 'debug':
-        this.logger.debug(prefixedMessage, data);
+        this.logger.debug(message, data);
         break;
       case 'info':
-        this.logger.info(prefixedMessage, data);
+        this.logger.info(message, data);
         break;
       case 'warn':
-        this.logger.warn(prefixedMessage, data);
+        this.logger.warn(message, data);
         break;
       case 'error':
-        this.logger.error(prefixedMessage, data);
+        this.logger.error(message, data);
         break;
     }
   }
@@ -0,0 +1,210 @@
+/**
+ * Plugin Context for Docker Pilot
+ * What a plugin is handed on initialize: read access to the loaded config,
+ * service and Docker operations, Docker Pilot events, a logger scoped to the
+ * plugin and key-value storage persisted in .docker-pilot/plugins/<name>.json
+ */
+
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { CommandResult, DockerPilotConfig, DockerPilotEvent, EventType, PluginError } from '../types';
+import { ServiceManager } from '../core/ServiceManager';
+import { DockerUtils } from '../utils/DockerUtils';
+import { Logger } from '../utils/Logger';
+import { I18n } from '../utils/i18n';
+
+export type PluginEventListener = (event: DockerPilotEvent) => void;
+
+/**
+ * Persistent key-value storage of one plugin; values must be JSON serializable
+ */
+export interface PluginStorage {
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export interface PluginContext {
+  readonly pluginName: string;
+  /**
+   * The loaded configuration; a frozen copy, so plugins cannot change it
+   */
+  readonly config: Readonly<DockerPilotConfig>;
+  /**
+   * The plugin's section of config.pluginConfig, parsed with its configSchema
+   */
+  readonly pluginConfig: Readonly<Record<string, any>>;
+  readonly workingDirectory: string;
+  readonly composeFile: string | null;
+  readonly logger: Logger;
+  /**
+   * Null until Docker Pilot is initialized
+   */
+  readonly serviceManager: ServiceManager | null;
+  readonly dockerUtils: DockerUtils;
+  readonly storage: PluginStorage;
+  /**
+   * Subscribe to a Docker Pilot event, or to every event with 'event'.
+   * Returns a function that removes the listener; all listeners are removed
+   * when the plugin is unloaded.
+   */
+  on(type: EventType | 'event', listener: PluginEventListener): () => void;
+  /**
+   * Run a Docker Pilot or plugin command by name
+   */
+  executeCommand(command: string, args?: string[]): Promise<CommandResult>;
+}
+
+/**
+ * What the plugin manager needs from Docker Pilot to build plugin contexts
+ */
+export interface PluginHost {
+  getConfig(): DockerPilotConfig | null;
+  getServiceManager(): ServiceManager | null;
+  getWorkingDirectory(): string;
+  getComposeFile(): string | null;
+  getLogger(): Logger;
+  executeCommand(commandName: string, args?: string[]): Promise<CommandResult>;
+  on(eventName: string, listener: PluginEventListener): unknown;
+  off(eventName: string, listener: PluginEventListener): unknown;
+}
+
+export class FilePluginStorage implements PluginStorage {
+  private filePath: string;
+  private data: Record<string, unknown> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const data = await this.load();
+    return data[key] as T | undefined;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    const data = await this.load();
+    data[key] = JSON.parse(JSON.stringify(value ?? null));
+    await this.save();
+  }
+
+  async delete(key: string): Promise<void> {
+    const data = await this.load();
+    if (key in data) {
+      delete data[key];
+      await this.save();
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    return Object.keys(await this.load());
+  }
+
+  private async load(): Promise<Record<string, unknown>> {
+    if (!this.data) {
+      this.data = (await fs.pathExists(this.filePath)) ? await fs.readJson(this.filePath) : {};
+    }
+    return this.data!;
+  }
+
+  /**
+   * Writes are queued so concurrent sets never interleave
+   */
+  private save(): Promise<void> {
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => fs.outputJson(this.filePath, this.data, { spaces: 2 }));
+    return this.writing;
+  }
+}
+
+export class HostedPluginContext implements PluginContext {
+  readonly pluginName: string;
+  readonly logger: Logger;
+  readonly dockerUtils: DockerUtils;
+  readonly storage: PluginStorage;
+  private host: PluginHost;
+  private i18n: I18n;
+  private settings: Readonly<Record<string, any>>;
+  private subscriptions: Array<{ type: string; listener: PluginEventListener }> = [];
+
+  constructor(host: PluginHost, pluginName: string, i18n: I18n, pluginConfig: Record<string, any> = {}) {
+    this.host = host;
+    this.i18n = i18n;
+    this.settings = HostedPluginContext.deepFreeze(structuredClone(pluginConfig));
+    this.pluginName = pluginName;
+    this.logger = host.getLogger().child(pluginName);
+    this.dockerUtils = new DockerUtils(this.logger);
+    this.storage = new FilePluginStorage(HostedPluginContext.storagePath(host.getWorkingDirectory(), pluginName));
+  }
+
+  get config(): Readonly<DockerPilotConfig> {
+    const config = this.host.getConfig();
+    if (!config) {
+      throw new PluginError(this.i18n.t('plugin.config_not_loaded', { name: this.pluginName }));
+    }
+    return HostedPluginContext.deepFreeze(JSON.parse(JSON.stringify(config)));
+  }
+
+  get pluginConfig(): Readonly<Record<string, any>> {
+    return this.settings;
+  }
+
+  /**
+   * Replace the plugin settings, after they were validated
+   */
+  setPluginConfig(pluginConfig: Record<string, any>): void {
+    this.settings = HostedPluginContext.deepFreeze(structuredClone(pluginConfig));
+  }
+
+  get workingDirectory(): string {
+    return this.host.getWorkingDirectory();
+  }
+
+  get composeFile(): string | null {
+    return this.host.getComposeFile();
+  }
+
+  get serviceManager(): ServiceManager | null {
+    return this.host.getServiceManager();
+  }
+
+  on(type: EventType | 'event', listener: PluginEventListener): () => void {
+    this.host.on(type, listener);
+    this.subscriptions.push({ type, listener });
+
+    return () => {
+      this.host.off(type, listener);
+      this.subscriptions = this.subscriptions.filter(subscription => subscription.listener !== listener);
+    };
+  }
+
+  executeCommand(command: string, args: string[] = []): Promise<CommandResult> {
+    return this.host.executeCommand(command, args);
+  }
+
+  /**
+   * Remove the event listeners of the plugin
+   */
+  dispose(): void {
+    this.subscriptions.forEach(({ type, listener }) => this.host.off(type, listener));
+    this.subscriptions = [];
+  }
+
+  /**
+   * Storage file of a plugin; scoped package names like @acme/tools become @acme__tools
+   */
+  static storagePath(workingDirectory: string, pluginName: string): string {
+    return path.join(workingDirectory, '.docker-pilot', 'plugins', `${pluginName.replace(/[\\/]/g, '__')}.json`);
+  }
+
+  private static deepFreeze<T>(value: T): T {
+    if (value && typeof value === 'object') {
+      Object.values(value).forEach(child => HostedPluginContext.deepFreeze(child));
+      Object.freeze(value);
+    }
+    return value;
+  }
+}
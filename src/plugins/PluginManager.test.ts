@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { PluginManager, PluginManagerOptions } from './PluginManager';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Plugin whose beforeServiceStart hook hangs, throws or succeeds depending on the service
+ */
+const PLUGIN_SOURCE = `
+module.exports = class {
+  constructor() {
+    this.metadata = { name: 'guard', version: '1.0.0', description: 'Test plugin', author: 'test' };
+    this.hooks = {
+      beforeServiceStart: (service) => {
+        if (service === 'hang') return new Promise(() => undefined);
+        if (service === 'refuse') throw new Error('not today');
+      },
+      afterServiceStart: (service) => {
+        if (service === 'refuse') throw new Error('after failed');
+      }
+    };
+  }
+};
+`;
+
+describe('PluginManager hooks', () => {
+  let directory: string;
+  let pluginFile: string;
+  let manager: PluginManager;
+  let warn: ReturnType<typeof vi.spyOn>;
+
+  async function createManager(options: PluginManagerOptions = {}): Promise<PluginManager> {
+    const instance = new PluginManager({ autoLoad: false, workingDirectory: directory, hookTimeout: 50, ...options });
+    await instance.loadPlugin(pluginFile, 'guard');
+    return instance;
+  }
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'docker-pilot-plugins-'));
+    pluginFile = path.join(directory, 'guard.js');
+    await fs.writeFile(pluginFile, PLUGIN_SOURCE);
+    warn = vi.spyOn(Logger.prototype, 'warn');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await manager?.cleanup().catch(() => undefined);
+    vi.restoreAllMocks();
+    await fs.remove(directory);
+  });
+
+  it('vetoes the operation when a before hook throws, without counting a failure', async () => {
+    manager = await createManager();
+    const errors: unknown[] = [];
+    manager.on('plugin:error', failure => errors.push(failure));
+
+    await expect(manager.executeHook('beforeServiceStart', 'refuse')).rejects.toThrow('Blocked by plugin guard: not today');
+    expect(errors).toHaveLength(0);
+  });
+
+  it('vetoes the operation when a before hook times out', async () => {
+    manager = await createManager();
+    const errors: unknown[] = [];
+    manager.on('plugin:error', failure => errors.push(failure));
+
+    await expect(manager.executeHook('beforeServiceStart', 'hang')).rejects.toMatchObject({
+      message: expect.stringContaining('did not finish within 50ms'),
+      context: { plugin: 'guard', hook: 'beforeServiceStart', timedOut: true }
+    });
+    expect(errors).toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('the operation is blocked'));
+  });
+
+  it('lets the operation continue after a before hook timeout when vetoOnTimeout is off', async () => {
+    manager = await createManager({ vetoOnTimeout: false });
+
+    await expect(manager.executeHook('beforeServiceStart', 'hang')).resolves.toEqual([null]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('the operation continues'));
+  });
+
+  it('isolates failing after hooks', async () => {
+    manager = await createManager();
+
+    await expect(manager.executeHook('afterServiceStart', 'refuse')).resolves.toEqual([null]);
+    await expect(manager.executeHook('beforeServiceStart', 'web')).resolves.toEqual([undefined]);
+  });
+
+  it('disables a plugin whose hooks keep timing out', async () => {
+    manager = await createManager({ vetoOnTimeout: false, maxFailures: 2 });
+
+    await manager.executeHook('beforeServiceStart', 'hang');
+    await manager.executeHook('beforeServiceStart', 'hang');
+
+    expect(manager.getPlugin('guard')).toBeNull();
+    await expect(manager.executeHook('beforeServiceStart', 'refuse')).resolves.toEqual([]);
+  });
+});
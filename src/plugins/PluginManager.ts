@@ -4,44 +4,175 @@
  */
 
 import * as path from 'path';
-import { Plugin, PluginMetadata, PluginHooks, CommandContext } from '../types';
+import * as fs from 'fs';
+import * as semver from 'semver';
+import { EventEmitter } from 'events';
+import {
+  Plugin,
+  PluginMetadata,
+  PluginHooks,
+  PluginCommandDefinition,
+  CommandContext,
+  CommandOptions,
+  CommandResult,
+  DockerPilotConfig,
+  DockerPilotConfigSchema,
+  PluginError
+} from '../types';
 import { Logger } from '../utils/Logger';
 import { FileUtils } from '../utils/FileUtils';
+import { ValidationResult, ValidationUtils } from '../utils/ValidationUtils';
 import { I18n } from '../utils/i18n';
+import { HostedPluginContext, PluginHost } from './PluginContext';
 
 export interface PluginManagerOptions {
   pluginDir?: string;
   autoLoad?: boolean;
   enabledPlugins?: string[];
+  /**
+   * Plugins to load (config.plugins): paths relative to the working directory,
+   * or npm package names (including scoped ones) installed in the project
+   */
+  plugins?: string[];
+  workingDirectory?: string;
+  /**
+   * Version plugins are checked against (metadata.dockerPilot)
+   */
+  dockerPilotVersion?: string;
+  /**
+   * Docker Pilot instance backing the plugin contexts; without it plugins get
+   * the config passed to initialize() and no service manager
+   */
+  host?: PluginHost;
+  /**
+   * Milliseconds a hook may run; plugins can set their own hookTimeout
+   */
+  hookTimeout?: number;
+  /**
+   * Whether a before* hook that times out vetoes the operation (fail closed, the
+   * default) or lets it continue (fail open); the decision is logged either way
+   */
+  vetoOnTimeout?: boolean;
+  /**
+   * Consecutive failures after which a plugin is disabled (0 never disables)
+   */
+  maxFailures?: number;
+}
+
+type HookName = keyof PluginHooks;
+
+interface RegisteredHook {
+  plugin: string;
+  handler: (...args: any[]) => unknown;
+}
+
+/**
+ * A command contributed by a loaded plugin
+ */
+export interface RegisteredPluginCommand extends PluginCommandDefinition {
+  name: string;
+  plugin: string;
+}
+
+/**
+ * A loaded plugin and what it contributes
+ */
+export interface PluginInfo {
+  name: string;
+  /**
+   * Module the plugin was loaded from
+   */
+  source: string;
+  metadata: PluginMetadata;
+  commands: string[];
+  hooks: string[];
+}
+
+/**
+ * A configured plugin that could not be loaded
+ */
+export interface PluginLoadFailure {
+  entry: string;
+  error: string;
 }
 
-export class PluginManager {
+/**
+ * A plugin that failed to load, or whose hook or command threw or timed out
+ */
+export interface PluginFailureEvent {
+  plugin: string;
+  /**
+   * 'load', a hook name or 'command:<name>'
+   */
+  source: string;
+  error: string;
+  timedOut: boolean;
+  /**
+   * Consecutive failures of the plugin so far
+   */
+  failures: number;
+  /**
+   * Whether the plugin was disabled because of this failure
+   */
+  disabled: boolean;
+}
+
+export interface PluginManager {
+  on(event: 'plugin:loaded', listener: (plugin: { plugin: string; version: string }) => void): this;
+  on(event: 'plugin:error', listener: (failure: PluginFailureEvent) => void): this;
+  emit(event: 'plugin:loaded', plugin: { plugin: string; version: string }): boolean;
+  emit(event: 'plugin:error', failure: PluginFailureEvent): boolean;
+}
+
+export class PluginManager extends EventEmitter {
   private plugins: Map<string, Plugin> = new Map();
   private logger: Logger;
   private fileUtils: FileUtils;
+  private validationUtils: ValidationUtils;
   private i18n: I18n;
-  private options: Required<PluginManagerOptions>;
-  private hooks: Map<string, Function[]> = new Map();
+  private options: Required<Omit<PluginManagerOptions, 'host'>>;
+  private host: PluginHost | null;
+  private hooks: Map<HookName, RegisteredHook[]> = new Map();
+  private commands: Map<string, RegisteredPluginCommand> = new Map();
+  private context: CommandContext | null = null;
+  private contexts: Map<string, HostedPluginContext> = new Map();
+  private sources: Map<string, string> = new Map();
+  private failures: Map<string, string> = new Map();
+  private schemas: Map<string, NonNullable<Plugin['configSchema']>> = new Map();
+  private failureCounts: Map<string, number> = new Map();
 
   constructor(options: PluginManagerOptions = {}) {
+    super();
     this.logger = new Logger();
     this.fileUtils = new FileUtils(this.logger);
+    this.validationUtils = new ValidationUtils(this.logger, this.fileUtils);
     this.i18n = new I18n();
     this.options = {
       pluginDir: options.pluginDir || path.join(process.cwd(), 'plugins'),
       autoLoad: options.autoLoad ?? true,
-      enabledPlugins: options.enabledPlugins || []
+      enabledPlugins: options.enabledPlugins || [],
+      plugins: [...(options.plugins || [])],
+      workingDirectory: options.workingDirectory || process.cwd(),
+      dockerPilotVersion: options.dockerPilotVersion || require('../../package.json').version,
+      hookTimeout: options.hookTimeout ?? 10000,
+      vetoOnTimeout: options.vetoOnTimeout ?? true,
+      maxFailures: options.maxFailures ?? 3
     };
+    this.host = options.host || null;
   }  /**
-   * Initialize plugin manager
+   * Initialize plugin manager; without a host, plugins see the config of the given context
    */
-  async initialize(): Promise<void> {
-    this.logger.debug(this.i18n.t('plugin.manager_initialized'));
+  async initialize(context?: CommandContext): Promise<void> {
+    if (context) {
+      this.context = context;
+    }
 
     if (this.options.autoLoad) {
       await this.loadPlugins();
     }
-      this.logger.success(this.i18n.t('plugin.manager_initialized'));
+
+    await this.loadConfiguredPlugins();
+    this.logger.debug(this.i18n.t('plugin.manager_initialized'));
   }
 
   /**
@@ -67,11 +198,65 @@ export class PluginManager {
     }
   }
 
+  /**
+   * Load the plugins listed in options.plugins; failures are logged and kept for getLoadFailures()
+   */
+  async loadConfiguredPlugins(): Promise<void> {
+    for (const entry of this.options.plugins) {
+      const pluginName = PluginManager.getPluginName(entry);
+      if (this.hasPlugin(pluginName)) {
+        continue;
+      }
+
+      try {
+        await this.loadPlugin(this.resolvePlugin(entry), pluginName);
+        this.failures.delete(entry);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.failures.set(entry, message);
+        this.logger.error(this.i18n.t('plugin.failed_load', { name: entry }), error);
+        this.emit('plugin:error', { plugin: pluginName, source: 'load', error: message, timedOut: false, failures: 0, disabled: false });
+      }
+    }
+  }
+
+  /**
+   * Resolve a config.plugins entry to a module path. Paths (./x, ../x, /x) are
+   * relative to the working directory, bare names are tried in the plugin
+   * directory and then as packages from the project's node_modules.
+   */
+  resolvePlugin(entry: string): string {
+    if (PluginManager.isPathEntry(entry)) {
+      return path.resolve(this.options.workingDirectory, entry);
+    }
+
+    const localPlugin = path.join(this.options.pluginDir, `${entry}.js`);
+    if (fs.existsSync(localPlugin)) {
+      return localPlugin;
+    }
+
+    try {
+      return require.resolve(entry, { paths: [this.options.workingDirectory] });
+    } catch {
+      throw new PluginError(this.i18n.t('plugin.not_installed', { name: entry }), { entry });
+    }
+  }
+
+  /**
+   * Name a plugin is registered under: the package name, or the file name for paths
+   */
+  static getPluginName(entry: string): string {
+    return PluginManager.isPathEntry(entry) ? path.basename(entry, path.extname(entry)) : entry;
+  }
+
+  private static isPathEntry(entry: string): boolean {
+    return entry.startsWith('.') || path.isAbsolute(entry);
+  }
+
   /**
    * Load a specific plugin
    */
-  async loadPlugin(pluginPath: string): Promise<Plugin> {
-    const pluginName = path.basename(pluginPath, '.js');
+  async loadPlugin(pluginPath: string, pluginName: string = path.basename(pluginPath, '.js')): Promise<Plugin> {
       // Check if plugin is enabled
     if (this.options.enabledPlugins.length > 0 &&
         !this.options.enabledPlugins.includes(pluginName)) {
@@ -90,22 +275,41 @@ export class PluginManager {
     // Validate plugin structure
     if (!this.isValidPlugin(plugin)) {
       throw new Error(this.i18n.t('plugin.invalid', { name: pluginName }));
-    }// Initialize plugin
+    }
+
+    this.checkCompatibility(pluginName, plugin);
+
+    // Kept even when the settings are invalid, so validatePluginConfigs can report them
+    if (plugin.configSchema) {
+      this.schemas.set(pluginName, plugin.configSchema);
+    }
+    const pluginConfig = this.parsePluginConfig(pluginName, plugin, this.getConfig()?.pluginConfig?.[pluginName]);
+
+    // Initialize plugin
     if (plugin.initialize) {
-      // Create a minimal context for plugin initialization
-      const context: CommandContext = {
-        config: { projectName: '', dockerCompose: 'docker compose', configVersion: '1.0', services: {}, plugins: [], cli: {}, backup: {}, monitoring: {}, development: {}, networks: {}, volumes: {} } as any,
-        logger: this.logger,
-        workingDirectory: process.cwd()
-      };
-      await plugin.initialize(context);
+      const context = new HostedPluginContext(this.host || this.createStandaloneHost(), pluginName, this.i18n, pluginConfig);
+      this.contexts.set(pluginName, context);
+
+      try {
+        await plugin.initialize(context);
+      } catch (error) {
+        context.dispose();
+        this.contexts.delete(pluginName);
+        throw error;
+      }
     }
 
-    // Register plugin hooks
+    // Register plugin hooks and commands
     if (plugin.hooks) {
       this.registerPluginHooks(pluginName, plugin.hooks);
+    }
+    if (plugin.commands) {
+      this.registerPluginCommands(pluginName, plugin.commands);
     }    this.plugins.set(pluginName, plugin);
-    this.logger.success(this.i18n.t('plugin.loaded', { name: pluginName }));
+    this.sources.set(pluginName, pluginPath);
+    this.failureCounts.delete(pluginName);
+    this.logger.debug(this.i18n.t('plugin.loaded', { name: pluginName }));
+    this.emit('plugin:loaded', { plugin: pluginName, version: plugin.metadata.version });
 
     return plugin;
   }
@@ -123,11 +327,23 @@ export class PluginManager {
       await plugin.cleanup();
     }
 
-    // Unregister hooks
+    // Drop the event subscriptions of its context
+    this.contexts.get(pluginName)?.dispose();
+    this.contexts.delete(pluginName);
+
+    // Unregister hooks and commands
     this.unregisterPluginHooks(pluginName);
+    for (const [commandName, command] of this.commands) {
+      if (command.plugin === pluginName) {
+        this.commands.delete(commandName);
+      }
+    }
 
     this.plugins.delete(pluginName);
-    this.logger.success(this.i18n.t('plugin.unloaded', { name: pluginName }));
+    this.sources.delete(pluginName);
+    this.schemas.delete(pluginName);
+    this.failureCounts.delete(pluginName);
+    this.logger.debug(this.i18n.t('plugin.unloaded', { name: pluginName }));
   }
 
   /**
@@ -155,40 +371,94 @@ export class PluginManager {
    * Register plugin hooks
    */
   private registerPluginHooks(pluginName: string, hooks: PluginHooks): void {
-    for (const [hookName, handler] of Object.entries(hooks)) {
+    for (const [hookName, handler] of Object.entries(hooks) as Array<[HookName, RegisteredHook['handler']]>) {
+      if (typeof handler !== 'function') {
+        continue;
+      }
+
       if (!this.hooks.has(hookName)) {
         this.hooks.set(hookName, []);
       }
 
-      this.hooks.get(hookName)!.push(handler);
-      this.logger.debug(`Registered hook: ${hookName} for plugin: ${pluginName}`);
+      this.hooks.get(hookName)!.push({ plugin: pluginName, handler });
+      this.logger.debug(this.i18n.t('plugin.hook_registered', { hook: hookName, name: pluginName }));
+    }
+  }
+  /**
+   * Register plugin commands; a command another plugin already provides is skipped
+   */
+  private registerPluginCommands(pluginName: string, commands: NonNullable<Plugin['commands']>): void {
+    for (const [name, command] of Object.entries(commands)) {
+      if (typeof command !== 'function' && typeof command?.handler !== 'function') {
+        this.logger.warn(this.i18n.t('plugin.command_invalid', { command: name, name: pluginName }));
+        continue;
+      }
+
+      const existing = this.commands.get(name);
+      if (existing) {
+        this.logger.warn(this.i18n.t('plugin.command_duplicate', { command: name, name: pluginName, other: existing.plugin }));
+        continue;
+      }
+
+      this.commands.set(name, typeof command === 'function'
+        ? { name, plugin: pluginName, description: this.i18n.t('plugin.command_description', { name: pluginName }), handler: command }
+        : { ...command, name, plugin: pluginName });
     }
   }
   /**
    * Unregister plugin hooks
    */
-  private unregisterPluginHooks(_pluginName: string): void {
-    for (const [_hookName, _handlers] of this.hooks.entries()) {
-      // Remove handlers that belong to this plugin
-      // This is a simplified approach - in a real implementation,
-      // you'd need to track which handlers belong to which plugin
-      this.hooks.set(_hookName, []);
+  private unregisterPluginHooks(pluginName: string): void {
+    for (const [hookName, handlers] of this.hooks.entries()) {
+      this.hooks.set(hookName, handlers.filter(hook => hook.plugin !== pluginName));
     }
   }
 
   /**
-   * Execute hook
+   * Execute hook. A before* hook that throws vetoes the operation it guards:
+   * the error is rethrown as a PluginError and the remaining handlers are skipped.
+   * Errors in other hooks, and hooks running past their timeout, are isolated:
+   * they are recorded as plugin:error and count towards disabling the plugin.
    */
-  async executeHook(hookName: string, ...args: any[]): Promise<any[]> {
+  async executeHook(hookName: HookName, ...args: any[]): Promise<any[]> {
     const handlers = this.hooks.get(hookName) || [];
     const results: any[] = [];
 
-    for (const handler of handlers) {
+    for (const { plugin, handler } of handlers) {
+      // Disabled by a failure earlier in this run
+      if (!this.plugins.has(plugin)) {
+        continue;
+      }
+
       try {
-        const result = await handler(...args);
+        const result = await this.withTimeout(plugin, hookName, () => handler(...args));
+        this.failureCounts.delete(plugin);
         results.push(result);
       } catch (error) {
-        this.logger.error(`Hook execution failed: ${hookName}`, error);
+        const timedOut = error instanceof PluginError && error.context?.timedOut === true;
+        const veto = new PluginError(this.i18n.t('plugin.vetoed', {
+          name: plugin,
+          error: error instanceof Error ? error.message : String(error)
+        }), { plugin, hook: hookName, error, timedOut });
+
+        if (hookName.startsWith('before') && !timedOut) {
+          throw veto;
+        }
+
+        this.logger.error(this.i18n.t('plugin.hook_failed', { hook: `${plugin}.${hookName}` }), error);
+        await this.recordFailure(plugin, hookName, error, timedOut);
+
+        // A hung before* hook may be one that never got to refuse; vetoOnTimeout decides
+        if (hookName.startsWith('before')) {
+          this.logger.warn(this.i18n.t(this.options.vetoOnTimeout ? 'plugin.timeout_vetoed' : 'plugin.timeout_ignored', {
+            hook: `${plugin}.${hookName}`
+          }));
+
+          if (this.options.vetoOnTimeout) {
+            throw veto;
+          }
+        }
+
         results.push(null);
       }
     }
@@ -196,6 +466,121 @@ export class PluginManager {
     return results;
   }
 
+  /**
+   * Run a hook handler, failing with a PluginError once the plugin's timeout elapses
+   */
+  private async withTimeout<T>(pluginName: string, hookName: string, call: () => T | Promise<T>): Promise<T> {
+    const timeout = this.plugins.get(pluginName)?.hookTimeout ?? this.options.hookTimeout;
+    let timer: NodeJS.Timeout | undefined;
+
+    const expired = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new PluginError(
+        this.i18n.t('plugin.hook_timeout', { hook: `${pluginName}.${hookName}`, timeout }),
+        { plugin: pluginName, hook: hookName, timedOut: true }
+      )), timeout);
+    });
+
+    try {
+      return await Promise.race([Promise.resolve().then(call), expired]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Record a failure as a plugin:error event; a plugin failing maxFailures
+   * times in a row is unloaded until it is reloaded or enabled again
+   */
+  private async recordFailure(pluginName: string, source: string, error: unknown, timedOut: boolean = false): Promise<void> {
+    const failures = (this.failureCounts.get(pluginName) || 0) + 1;
+    const message = error instanceof Error ? error.message : String(error);
+    const disable = this.options.maxFailures > 0 && failures >= this.options.maxFailures && this.plugins.has(pluginName);
+
+    this.failureCounts.set(pluginName, failures);
+
+    if (disable) {
+      this.logger.warn(this.i18n.t('plugin.auto_disabled', { name: pluginName, count: failures }));
+
+      try {
+        await this.unloadPlugin(pluginName);
+      } catch (unloadError) {
+        this.logger.error(this.i18n.t('plugin.failed_unload', { name: pluginName }), unloadError);
+      }
+
+      this.failures.set(this.getEntry(pluginName), this.i18n.t('plugin.auto_disabled', { name: pluginName, count: failures }));
+    }
+
+    this.emit('plugin:error', { plugin: pluginName, source, error: message, timedOut, failures, disabled: disable });
+  }
+
+  /**
+   * The config.plugins entry of a plugin, or its name when it was loaded otherwise
+   */
+  private getEntry(pluginName: string): string {
+    return this.options.plugins.find(entry => PluginManager.getPluginName(entry) === pluginName) || pluginName;
+  }
+
+  /**
+   * Get the commands contributed by loaded plugins
+   */
+  getCommands(): RegisteredPluginCommand[] {
+    return Array.from(this.commands.values());
+  }
+
+  /**
+   * Get a plugin command by name
+   */
+  getCommand(commandName: string): RegisteredPluginCommand | null {
+    return this.commands.get(commandName) || null;
+  }
+
+  /**
+   * Run a plugin command; a handler that throws yields a failed result
+   */
+  async executeCommand(commandName: string, args: string[] = [], options: CommandOptions = {}): Promise<CommandResult> {
+    const command = this.getCommand(commandName);
+    if (!command) {
+      throw new PluginError(this.i18n.t('plugin.command_not_found', { command: commandName }));
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const result = await command.handler(args, options);
+      this.failureCounts.delete(command.plugin);
+      return { executionTime: Date.now() - startTime, ...(result || { success: true }) };
+    } catch (error) {
+      this.logger.debug(`Plugin command ${commandName} of ${command.plugin} failed`, error);
+      await this.recordFailure(command.plugin, `command:${commandName}`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        executionTime: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * Host used without a Docker Pilot instance: the config given to initialize()
+   * (or the defaults), local events and plugin commands only
+   */
+  private createStandaloneHost(): PluginHost {
+    const events = new EventEmitter();
+    const workingDirectory = this.context?.workingDirectory || this.options.workingDirectory;
+    const config = this.context?.config || DockerPilotConfigSchema.parse({ projectName: path.basename(workingDirectory) });
+
+    return {
+      getConfig: () => config,
+      getServiceManager: () => null,
+      getWorkingDirectory: () => workingDirectory,
+      getComposeFile: () => null,
+      getLogger: () => this.context?.logger || this.logger,
+      executeCommand: (commandName, args = []) => this.executeCommand(commandName, args),
+      on: (eventName, listener) => events.on(eventName, listener),
+      off: (eventName, listener) => events.off(eventName, listener)
+    };
+  }
+
   /**
    * Validate plugin structure
    */
@@ -209,6 +594,149 @@ export class PluginManager {
     );
   }
 
+  /**
+   * Check a plugin's pluginConfig section against its configSchema and return
+   * the parsed settings; invalid settings reject the plugin
+   */
+  private parsePluginConfig(pluginName: string, plugin: Plugin, section: unknown): Record<string, any> {
+    if (!plugin.configSchema) {
+      return (section as Record<string, any>) || {};
+    }
+
+    const result = this.validationUtils.validatePluginConfig(pluginName, plugin.configSchema, section);
+    if (!result.valid) {
+      throw new PluginError(this.i18n.t('plugin.config_invalid', {
+        name: pluginName,
+        errors: result.errors.map(error => `${error.field}: ${error.message}`).join('; ')
+      }), { plugin: pluginName, validation: result });
+    }
+
+    return plugin.configSchema.parse(section ?? {});
+  }
+
+  /**
+   * Validate config.pluginConfig against the schemas of the loaded plugins, and
+   * of those rejected for invalid settings. Sections that belong to no plugin
+   * are reported as warnings.
+   */
+  validatePluginConfigs(config: DockerPilotConfig): ValidationResult {
+    const result: ValidationResult = {
+      valid: true,
+      errors: [],
+      warnings: []
+    };
+
+    for (const [pluginName, schema] of this.schemas) {
+      const pluginResult = this.validationUtils.validatePluginConfig(pluginName, schema, config.pluginConfig[pluginName]);
+      result.valid = result.valid && pluginResult.valid;
+      result.errors.push(...pluginResult.errors);
+      result.warnings.push(...pluginResult.warnings);
+    }
+
+    for (const pluginName of Object.keys(config.pluginConfig)) {
+      if (!this.plugins.has(pluginName) && !this.schemas.has(pluginName)) {
+        result.warnings.push({
+          field: `pluginConfig.${pluginName}`,
+          message: this.i18n.t('validation.plugin_config_unknown', { name: pluginName }),
+          suggestion: 'Enable the plugin or remove its section from pluginConfig'
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Configuration the plugins are loaded with
+   */
+  private getConfig(): DockerPilotConfig | null {
+    return this.host ? this.host.getConfig() : this.context?.config || null;
+  }
+
+  /**
+   * Reject a plugin whose metadata.dockerPilot range excludes this version
+   */
+  private checkCompatibility(pluginName: string, plugin: Plugin): void {
+    const range = plugin.metadata.dockerPilot;
+    const version = this.options.dockerPilotVersion;
+
+    if (!range) {
+      this.logger.warn(this.i18n.t('plugin.no_version_range', { name: pluginName }));
+      return;
+    }
+
+    if (!semver.validRange(range)) {
+      throw new PluginError(this.i18n.t('plugin.invalid_version_range', { name: pluginName, range }), { plugin: pluginName, range });
+    }
+
+    if (!semver.satisfies(version, range, { includePrerelease: true })) {
+      throw new PluginError(this.i18n.t('plugin.incompatible', { name: pluginName, range, version }), { plugin: pluginName, range, version });
+    }
+  }
+
+  /**
+   * Reload a plugin from disk: unload it, drop its modules from the require cache
+   * and load it again. Also brings back a plugin disabled after repeated failures.
+   */
+  async reloadPlugin(pluginName: string): Promise<Plugin> {
+    const name = this.getPluginInfo(pluginName)?.name || PluginManager.getPluginName(pluginName);
+    const entry = this.getEntry(name);
+
+    if (!this.hasPlugin(name) && !this.options.plugins.includes(entry)) {
+      throw new PluginError(this.i18n.t('plugin.not_found', { name: pluginName }));
+    }
+
+    if (this.hasPlugin(name)) {
+      await this.unloadPlugin(name);
+    }
+
+    const source = this.resolvePlugin(entry);
+    PluginManager.clearRequireCache(source, this.getModuleRoot(entry, source));
+
+    try {
+      const plugin = await this.loadPlugin(source, name);
+      this.failures.delete(entry);
+      this.logger.debug(this.i18n.t('plugin.reloaded', { name }));
+      return plugin;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.failures.set(entry, message);
+      this.emit('plugin:error', { plugin: name, source: 'load', error: message, timedOut: false, failures: 0, disabled: false });
+      throw error;
+    }
+  }
+
+  /**
+   * Directory whose modules belong to a plugin: its package, or the directory of its file
+   */
+  private getModuleRoot(entry: string, source: string): string {
+    const packageDir = path.join('node_modules', entry);
+    const index = source.lastIndexOf(packageDir + path.sep);
+
+    return PluginManager.isPathEntry(entry) || index === -1
+      ? path.dirname(source)
+      : source.slice(0, index + packageDir.length);
+  }
+
+  /**
+   * Drop a module and the modules it required from the same root from the require
+   * cache; dependencies installed in node_modules are kept
+   */
+  private static clearRequireCache(modulePath: string, root: string): void {
+    const cached = require.cache[modulePath];
+    if (!cached) {
+      return;
+    }
+
+    delete require.cache[modulePath];
+    for (const child of cached.children) {
+      const relative = path.relative(root, child.id);
+      if (!relative.startsWith('..') && !path.isAbsolute(relative) && !relative.split(path.sep).includes('node_modules')) {
+        PluginManager.clearRequireCache(child.id, root);
+      }
+    }
+  }
+
   /**
    * Get plugin metadata
    */
@@ -217,43 +745,108 @@ export class PluginManager {
   }
 
   /**
-   * Enable plugin
+   * Get what a loaded plugin contributes, by registered or metadata name
    */
-  async enablePlugin(pluginName: string): Promise<void> {
-    if (!this.options.enabledPlugins.includes(pluginName)) {
+  getPluginInfo(pluginName: string): PluginInfo | null {
+    const name = this.plugins.has(pluginName)
+      ? pluginName
+      : Array.from(this.plugins.keys()).find(key => this.plugins.get(key)!.metadata.name === pluginName);
+    const plugin = name ? this.plugins.get(name) : undefined;
+
+    if (!name || !plugin) {
+      return null;
+    }
+
+    return {
+      name,
+      source: this.sources.get(name) || '',
+      metadata: plugin.metadata,
+      commands: this.getCommands().filter(command => command.plugin === name).map(command => command.name),
+      hooks: Array.from(this.hooks.entries())
+        .filter(([, handlers]) => handlers.some(hook => hook.plugin === name))
+        .map(([hookName]) => hookName)
+    };
+  }
+
+  /**
+   * Get all loaded plugins with what they contribute
+   */
+  getPluginInfos(): PluginInfo[] {
+    return Array.from(this.plugins.keys()).map(name => this.getPluginInfo(name)!);
+  }
+
+  /**
+   * Get the configured plugins that failed to load, with the reason
+   */
+  getLoadFailures(): PluginLoadFailure[] {
+    return Array.from(this.failures.entries()).map(([entry, error]) => ({ entry, error }));
+  }
+
+  /**
+   * Enable plugin: load it from a config.plugins style entry (package name or path)
+   */
+  async enablePlugin(entry: string): Promise<Plugin> {
+    const pluginName = PluginManager.getPluginName(entry);
+
+    if (this.options.enabledPlugins.length > 0 && !this.options.enabledPlugins.includes(pluginName)) {
       this.options.enabledPlugins.push(pluginName);
     }
 
-    if (!this.hasPlugin(pluginName)) {
-      const pluginPath = path.join(this.options.pluginDir, `${pluginName}.js`);
-      await this.loadPlugin(pluginPath);
+    if (!this.options.plugins.includes(entry)) {
+      this.options.plugins.push(entry);
+    }
+
+    const loaded = this.getPlugin(pluginName);
+    if (loaded) {
+      return loaded;
+    }
+
+    try {
+      const plugin = await this.loadPlugin(this.resolvePlugin(entry), pluginName);
+      this.failures.delete(entry);
+      return plugin;
+    } catch (error) {
+      this.options.plugins = this.options.plugins.filter(configured => configured !== entry);
+      throw error;
     }
   }
 
   /**
-   * Disable plugin
+   * Disable plugin, given its name or config.plugins entry
    */
   async disablePlugin(pluginName: string): Promise<void> {
-    const index = this.options.enabledPlugins.indexOf(pluginName);
+    const name = this.getPluginInfo(pluginName)?.name || PluginManager.getPluginName(pluginName);
+
+    const index = this.options.enabledPlugins.indexOf(name);
     if (index > -1) {
       this.options.enabledPlugins.splice(index, 1);
     }
 
-    if (this.hasPlugin(pluginName)) {
-      await this.unloadPlugin(pluginName);
+    this.options.plugins = this.options.plugins.filter(entry => PluginManager.getPluginName(entry) !== name);
+    this.failures.delete(pluginName);
+    this.schemas.delete(name);
+
+    if (this.hasPlugin(name)) {
+      await this.unloadPlugin(name);
     }
   }  /**
    * Update plugin configuration
    */
-  async updatePluginConfig(pluginName: string, config: any): Promise<void> {
+  async updatePluginConfig(pluginName: string, config: Record<string, unknown>): Promise<void> {
     const plugin = this.getPlugin(pluginName);
     if (!plugin) {
       throw new Error(this.i18n.t('plugin.not_found', { name: pluginName }));
     }
 
-    // For now, we just log the config update
-    // In a full implementation, this would notify the plugin
-    this.logger.debug(this.i18n.t('plugin.config_updated', { name: pluginName }), config);
+    // Invalid settings throw and leave the current ones in place
+    const pluginConfig = this.parsePluginConfig(pluginName, plugin, config);
+    this.contexts.get(pluginName)?.setPluginConfig(pluginConfig);
+
+    if (plugin.updateConfig) {
+      await plugin.updateConfig(pluginConfig);
+    }
+
+    this.logger.debug(this.i18n.t('plugin.config_updated', { name: pluginName }), pluginConfig);
   }
 
   /**
@@ -274,8 +867,6 @@ export class PluginManager {
    * Cleanup all plugins
    */
   async cleanup(): Promise<void> {
-    this.logger.debug(this.i18n.t('plugin.cleanup_completed'));
-
     const pluginNames = Array.from(this.plugins.keys());
     for (const pluginName of pluginNames) {
       try {
@@ -286,6 +877,8 @@ export class PluginManager {
     }
 
     this.hooks.clear();
-    this.logger.success(this.i18n.t('plugin.cleanup_completed'));
+    this.commands.clear();
+    this.schemas.clear();
+    this.logger.debug(this.i18n.t('plugin.cleanup_completed'));
   }
 }
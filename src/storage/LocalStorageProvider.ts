@@ -0,0 +1,82 @@
+/**
+ * Local filesystem storage provider
+ * Copies archives to another directory, e.g. a mounted network share
+ */
+
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { StorageProvider, StorageObject } from './StorageProvider';
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local';
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async upload(localFile: string, key: string): Promise<void> {
+    const target = this.resolveKey(key);
+    await fs.ensureDir(path.dirname(target));
+
+    // Copy to a temporary name first so a partial copy is never listed
+    const temporary = `${target}.partial`;
+    await fs.copy(localFile, temporary, { overwrite: true });
+    await fs.move(temporary, target, { overwrite: true });
+  }
+
+  async download(key: string, localFile: string): Promise<void> {
+    const source = this.resolveKey(key);
+
+    if (!(await fs.pathExists(source))) {
+      throw new Error(`Object not found: ${key}`);
+    }
+
+    await fs.ensureDir(path.dirname(localFile));
+    await fs.copy(source, localFile, { overwrite: true });
+  }
+
+  async list(prefix: string = ''): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+
+    const walk = async (directory: string): Promise<void> => {
+      for (const entry of await fs.readdir(directory)) {
+        const file = path.join(directory, entry);
+        const stats = await fs.stat(file);
+
+        if (stats.isDirectory()) {
+          await walk(file);
+          continue;
+        }
+
+        const key = path.relative(this.directory, file).split(path.sep).join('/');
+        if (key.startsWith(prefix) && !key.endsWith('.partial')) {
+          objects.push({ key, size: stats.size, lastModified: stats.mtime });
+        }
+      }
+    };
+
+    if (await fs.pathExists(this.directory)) {
+      await walk(this.directory);
+    }
+
+    return objects;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.remove(this.resolveKey(key));
+  }
+
+  /**
+   * Map a key to a path inside the storage directory
+   */
+  private resolveKey(key: string): string {
+    const resolved = path.resolve(this.directory, ...key.split('/'));
+
+    if (resolved !== this.directory && !resolved.startsWith(this.directory + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return resolved;
+  }
+}
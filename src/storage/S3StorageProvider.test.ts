@@ -0,0 +1,377 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { S3StorageProvider, S3StorageOptions } from './S3StorageProvider';
+import { BackupManager } from '../core/BackupManager';
+import { DockerPilotConfigSchema } from '../types';
+
+const BUCKET = 'backups';
+const REGION = 'eu-west-1';
+const ACCESS_KEY_ID = 'AKIDEXAMPLE';
+const SECRET_ACCESS_KEY = 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY';
+// The fake S3 is mounted below this path, like a gateway behind a reverse proxy
+const MOUNT = '/storage';
+const PAGE_SIZE = 2;
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+}
+
+/**
+ * Minimal S3: checks Signature Version 4 on every request, stores objects in
+ * memory and pages ListObjectsV2 results PAGE_SIZE at a time
+ */
+class FakeS3 {
+  objects = new Map<string, { body: Buffer; lastModified: Date }>();
+  requests: RecordedRequest[] = [];
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}${MOUNT}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const url = new URL(req.url!, 'http://localhost');
+    this.requests.push({ method: req.method!, path: url.pathname, query: url.searchParams, headers: req.headers });
+
+    if (!this.verifySignature(req, url)) {
+      return this.error(res, 403, 'SignatureDoesNotMatch');
+    }
+
+    const bucketPath = `${MOUNT}/${BUCKET}`;
+    if (url.pathname !== bucketPath && !url.pathname.startsWith(`${bucketPath}/`)) {
+      return this.error(res, 404, 'NoSuchBucket');
+    }
+
+    const key = decodeURIComponent(url.pathname.slice(bucketPath.length + 1));
+
+    if (!key && req.method === 'GET' && url.searchParams.get('list-type') === '2') {
+      return this.list(res, url.searchParams);
+    }
+
+    switch (req.method) {
+      case 'PUT':
+        this.objects.set(key, { body: Buffer.concat(chunks), lastModified: new Date() });
+        res.writeHead(200).end();
+        return;
+
+      case 'GET': {
+        const object = this.objects.get(key);
+        if (!object) {
+          return this.error(res, 404, 'NoSuchKey');
+        }
+        res.writeHead(200, { 'content-length': object.body.length }).end(object.body);
+        return;
+      }
+
+      case 'DELETE':
+        this.objects.delete(key);
+        res.writeHead(204).end();
+        return;
+
+      default:
+        this.error(res, 405, 'MethodNotAllowed');
+    }
+  }
+
+  private list(res: http.ServerResponse, query: URLSearchParams): void {
+    const prefix = query.get('prefix') || '';
+    const keys = Array.from(this.objects.keys()).filter(key => key.startsWith(prefix)).sort();
+    const start = Number(query.get('continuation-token') || 0);
+    const page = keys.slice(start, start + PAGE_SIZE);
+    const truncated = start + PAGE_SIZE < keys.length;
+
+    const contents = page.map(key => {
+      const object = this.objects.get(key)!;
+      return `<Contents><Key>${key.replace(/&/g, '&amp;')}</Key>` +
+        `<LastModified>${object.lastModified.toISOString()}</LastModified>` +
+        `<Size>${object.body.length}</Size></Contents>`;
+    }).join('');
+
+    res.writeHead(200, { 'content-type': 'application/xml' }).end(
+      '<?xml version="1.0" encoding="UTF-8"?><ListBucketResult>' +
+      `<Name>${BUCKET}</Name><Prefix>${prefix}</Prefix><KeyCount>${page.length}</KeyCount>` +
+      `<IsTruncated>${truncated}</IsTruncated>` +
+      (truncated ? `<NextContinuationToken>${start + PAGE_SIZE}</NextContinuationToken>` : '') +
+      `${contents}</ListBucketResult>`
+    );
+  }
+
+  /**
+   * Recompute the signature from the request as received
+   */
+  private verifySignature(req: http.IncomingMessage, url: URL): boolean {
+    const match = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, SignedHeaders=([^,]+), Signature=([0-9a-f]{64})$/
+      .exec(req.headers.authorization || '');
+    if (!match) {
+      return false;
+    }
+
+    const [, accessKeyId, date, region, signedHeaders, signature] = match;
+    const amzDate = req.headers['x-amz-date'] as string;
+    const names = signedHeaders!.split(';');
+
+    if (accessKeyId !== ACCESS_KEY_ID || region !== REGION || !amzDate?.startsWith(date!) || !names.includes('host')) {
+      return false;
+    }
+
+    const query = Array.from(url.searchParams.entries())
+      .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+      .sort(([a], [b]) => (a! < b! ? -1 : 1))
+      .map(([name, value]) => `${name}=${value}`)
+      .join('&');
+
+    const canonicalRequest = [
+      req.method,
+      url.pathname,
+      query,
+      names.map(name => `${name}:${String(req.headers[name]).trim()}\n`).join(''),
+      signedHeaders,
+      req.headers['x-amz-content-sha256']
+    ].join('\n');
+
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      `${date}/${region}/s3/aws4_request`,
+      crypto.createHash('sha256').update(canonicalRequest).digest('hex')
+    ].join('\n');
+
+    let key: Buffer = Buffer.from(`AWS4${SECRET_ACCESS_KEY}`);
+    for (const part of [date!, region!, 's3', 'aws4_request']) {
+      key = crypto.createHmac('sha256', key).update(part).digest();
+    }
+
+    return crypto.createHmac('sha256', key).update(stringToSign).digest('hex') === signature;
+  }
+
+  private error(res: http.ServerResponse, status: number, code: string): void {
+    res.writeHead(status, { 'content-type': 'application/xml' })
+      .end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${code} from fake S3</Message></Error>`);
+  }
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+describe('S3StorageProvider', () => {
+  const s3 = new FakeS3();
+  let endpoint: string;
+  let directory: string;
+
+  function createProvider(options: Partial<S3StorageOptions> = {}): S3StorageProvider {
+    return new S3StorageProvider({
+      bucket: BUCKET,
+      region: REGION,
+      endpoint,
+      forcePathStyle: true,
+      accessKeyId: ACCESS_KEY_ID,
+      secretAccessKey: SECRET_ACCESS_KEY,
+      ...options
+    });
+  }
+
+  beforeAll(async () => {
+    endpoint = await s3.start();
+  });
+
+  afterAll(async () => {
+    await s3.stop();
+  });
+
+  beforeEach(async () => {
+    s3.objects.clear();
+    s3.requests = [];
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'docker-pilot-s3-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.remove(directory);
+  });
+
+  it('signs requests with Signature Version 4', async () => {
+    await createProvider({ sessionToken: 'session-token' }).list();
+
+    const { headers } = s3.requests[0]!;
+    expect(headers.authorization).toMatch(
+      new RegExp(`^AWS4-HMAC-SHA256 Credential=${ACCESS_KEY_ID}/\\d{8}/${REGION}/s3/aws4_request, ` +
+        'SignedHeaders=host;x-amz-content-sha256;x-amz-date;x-amz-security-token, Signature=[0-9a-f]{64}$')
+    );
+    expect(headers['x-amz-date']).toMatch(/^\d{8}T\d{6}Z$/);
+    expect(headers['x-amz-content-sha256']).toBe(crypto.createHash('sha256').update('').digest('hex'));
+    expect(headers['x-amz-security-token']).toBe('session-token');
+  });
+
+  it('signs uploads with an unsigned payload and the content length', async () => {
+    const file = path.join(directory, 'archive.sql.gz');
+    await fs.writeFile(file, 'archive');
+
+    await createProvider().upload(file, 'demo/archive.sql.gz');
+
+    const { headers } = s3.requests[0]!;
+    expect(headers['x-amz-content-sha256']).toBe('UNSIGNED-PAYLOAD');
+    expect(headers.authorization).toContain('SignedHeaders=content-length;host;x-amz-content-sha256;x-amz-date,');
+  });
+
+  it('fails with the S3 error code when the signature is rejected', async () => {
+    const provider = createProvider({ secretAccessKey: 'wrong secret' });
+
+    await expect(provider.list()).rejects.toThrow(/\(403 SignatureDoesNotMatch\): SignatureDoesNotMatch from fake S3/);
+  });
+
+  it('keeps the endpoint path in front of the bucket and key', async () => {
+    const file = path.join(directory, 'archive.sql.gz');
+    await fs.writeFile(file, 'archive');
+
+    await createProvider().upload(file, 'demo/archive.sql.gz');
+    await createProvider({ endpoint: `${endpoint}/` }).list('demo/');
+
+    expect(s3.requests.map(request => request.path)).toEqual([
+      `${MOUNT}/${BUCKET}/demo/archive.sql.gz`,
+      `${MOUNT}/${BUCKET}`
+    ]);
+  });
+
+  it('keeps the endpoint path for virtual-hosted-style URLs', () => {
+    const provider = createProvider({ endpoint: 'https://s3.example.com/gateway/', forcePathStyle: false });
+
+    expect(provider['buildUrl']('demo/a b.sql.gz').toString()).toBe('https://backups.s3.example.com/gateway/demo/a%20b.sql.gz');
+    expect(provider['buildUrl'](undefined, { 'list-type': '2' }).toString()).toBe('https://backups.s3.example.com/gateway/?list-type=2');
+  });
+
+  it('uploads, downloads and deletes objects', async () => {
+    const provider = createProvider();
+    const source = path.join(directory, 'source.bin');
+    const target = path.join(directory, 'restored', 'target.bin');
+    const content = crypto.randomBytes(256 * 1024);
+    await fs.writeFile(source, content);
+
+    await provider.upload(source, 'demo/db 2024 (copy).sql.gz');
+    expect(s3.objects.get('demo/db 2024 (copy).sql.gz')!.body.equals(content)).toBe(true);
+
+    await provider.download('demo/db 2024 (copy).sql.gz', target);
+    expect((await fs.readFile(target)).equals(content)).toBe(true);
+    expect(await fs.pathExists(`${target}.partial`)).toBe(false);
+
+    await provider.delete('demo/db 2024 (copy).sql.gz');
+    expect(s3.objects.has('demo/db 2024 (copy).sql.gz')).toBe(false);
+  });
+
+  it('fails a download of a missing object without leaving a partial file', async () => {
+    const target = path.join(directory, 'missing.bin');
+
+    await expect(createProvider().download('demo/missing.bin', target)).rejects.toThrow(/404 NoSuchKey/);
+    expect(await fs.pathExists(target)).toBe(false);
+    expect(await fs.pathExists(`${target}.partial`)).toBe(false);
+  });
+
+  it('follows ListObjectsV2 continuation tokens', async () => {
+    for (const key of ['demo/a', 'demo/b', 'demo/c', 'demo/d', 'demo/e & f', 'other/x']) {
+      s3.objects.set(key, { body: Buffer.from(key), lastModified: new Date('2024-01-01T00:00:00Z') });
+    }
+
+    const objects = await createProvider().list('demo/');
+
+    expect(objects.map(object => object.key)).toEqual(['demo/a', 'demo/b', 'demo/c', 'demo/d', 'demo/e & f']);
+    expect(objects[0]).toEqual({ key: 'demo/a', size: 6, lastModified: new Date('2024-01-01T00:00:00Z') });
+    expect(s3.requests.map(request => request.query.get('continuation-token'))).toEqual([null, '2', '4']);
+    expect(s3.requests.every(request => request.query.get('prefix') === 'demo/')).toBe(true);
+  });
+
+  describe('remote retention', () => {
+    function createManager(): BackupManager {
+      const config = DockerPilotConfigSchema.parse({
+        projectName: 'demo',
+        backup: {
+          directory,
+          retention: 7,
+          services: {
+            db: { command: 'dump', filename: '{service}.sql' },
+            cache: { command: 'dump', filename: '{service}.rdb', compression: false }
+          },
+          cloud: {
+            provider: 's3',
+            bucket: BUCKET,
+            region: REGION,
+            endpoint,
+            prefix: 'demo',
+            credentials: { accessKeyId: ACCESS_KEY_ID, secretAccessKey: SECRET_ACCESS_KEY }
+          }
+        }
+      });
+
+      return new BackupManager(config, { workingDirectory: directory });
+    }
+
+    function store(...keys: string[]): void {
+      for (const key of keys) {
+        s3.objects.set(key, { body: Buffer.from(key), lastModified: new Date() });
+        s3.objects.set(`${key}.sha256`, { body: Buffer.from('checksum'), lastModified: new Date() });
+      }
+    }
+
+    it('prunes remote archives older than the retention, keeping the newest of each service', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      const recent = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().replace(/:/g, '-').replace(/\.\d{3}/, '');
+
+      store(
+        `demo/db-${recent}.sql.gz`,
+        'demo/db-2020-01-02T00-00-00Z.sql.gz',
+        'demo/db-2020-01-01T00-00-00Z.sql.gz',
+        'demo/cache-2020-01-01T00-00-00Z.rdb',
+        'other/db-2020-01-01T00-00-00Z.sql.gz'
+      );
+
+      const removed = await createManager().pruneBackups();
+
+      expect(removed.sort()).toEqual([
+        's3:demo/db-2020-01-01T00-00-00Z.sql.gz',
+        's3:demo/db-2020-01-02T00-00-00Z.sql.gz'
+      ]);
+      expect(Array.from(s3.objects.keys()).sort()).toEqual([
+        'demo/cache-2020-01-01T00-00-00Z.rdb',
+        'demo/cache-2020-01-01T00-00-00Z.rdb.sha256',
+        `demo/db-${recent}.sql.gz`,
+        `demo/db-${recent}.sql.gz.sha256`,
+        'other/db-2020-01-01T00-00-00Z.sql.gz',
+        'other/db-2020-01-01T00-00-00Z.sql.gz.sha256'
+      ]);
+    });
+
+    it('lists remote archives across pages', async () => {
+      store(
+        'demo/db-2024-01-01T00-00-00Z.sql.gz',
+        'demo/db-2024-01-02T00-00-00Z.sql.gz',
+        'demo/db-2024-01-03T00-00-00Z.sql.gz'
+      );
+
+      const archives = await createManager().listRemoteArchives('db');
+
+      expect(archives.map(archive => archive.remoteKey)).toEqual([
+        'demo/db-2024-01-03T00-00-00Z.sql.gz',
+        'demo/db-2024-01-02T00-00-00Z.sql.gz',
+        'demo/db-2024-01-01T00-00-00Z.sql.gz'
+      ]);
+      expect(archives.every(archive => archive.location === 'remote')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * S3-compatible storage provider
+ * Talks to AWS S3, MinIO, Google Cloud Storage (HMAC keys) and other S3-compatible
+ * endpoints using Signature Version 4, without requiring the AWS SDK
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import { StorageProvider, StorageObject } from './StorageProvider';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint: string;
+  forcePathStyle: boolean;
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+interface S3Request {
+  method: 'GET' | 'PUT' | 'DELETE';
+  key?: string;
+  query?: Record<string, string>;
+  body?: { file: string; size: number };
+}
+
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 's3';
+  private options: S3StorageOptions;
+
+  constructor(options: S3StorageOptions) {
+    this.options = options;
+  }
+
+  async upload(localFile: string, key: string): Promise<void> {
+    const { size } = await fs.stat(localFile);
+    const response = await this.send({ method: 'PUT', key, body: { file: localFile, size } });
+    await this.readBody(response);
+  }
+
+  async download(key: string, localFile: string): Promise<void> {
+    const response = await this.send({ method: 'GET', key });
+
+    await fs.ensureDir(path.dirname(localFile));
+    const temporary = `${localFile}.partial`;
+
+    try {
+      await pipeline(response, fs.createWriteStream(temporary));
+      await fs.move(temporary, localFile, { overwrite: true });
+    } catch (error) {
+      await fs.remove(temporary).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async list(prefix: string = ''): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.send({
+        method: 'GET',
+        query: {
+          'list-type': '2',
+          ...(prefix && { prefix }),
+          ...(continuationToken && { 'continuation-token': continuationToken })
+        }
+      });
+      const xml = await this.readBody(response);
+
+      for (const match of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const entry = match[1]!;
+        objects.push({
+          key: S3StorageProvider.decodeXml(S3StorageProvider.xmlValue(entry, 'Key') || ''),
+          size: Number(S3StorageProvider.xmlValue(entry, 'Size') || 0),
+          lastModified: new Date(S3StorageProvider.xmlValue(entry, 'LastModified') || 0)
+        });
+      }
+
+      continuationToken = S3StorageProvider.xmlValue(xml, 'IsTruncated') === 'true'
+        ? S3StorageProvider.decodeXml(S3StorageProvider.xmlValue(xml, 'NextContinuationToken') || '')
+        : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send({ method: 'DELETE', key });
+    await this.readBody(response);
+  }
+
+  /**
+   * Send a signed request, resolving with the response once the status is known to be successful
+   */
+  private async send(request: S3Request): Promise<http.IncomingMessage> {
+    const url = this.buildUrl(request.key, request.query);
+    const headers = this.signRequest(request, url);
+    const transport = url.protocol === 'http:' ? http : https;
+
+    const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+      const req = transport.request(url, { method: request.method, headers }, resolve);
+      req.on('error', reject);
+
+      if (request.body) {
+        pipeline(fs.createReadStream(request.body.file), req).catch(reject);
+      } else {
+        req.end();
+      }
+    });
+
+    const status = response.statusCode || 0;
+    if (status < 200 || status >= 300) {
+      const body = await this.readBody(response).catch(() => '');
+      const code = S3StorageProvider.xmlValue(body, 'Code') || response.statusMessage || 'UnknownError';
+      const message = S3StorageProvider.xmlValue(body, 'Message');
+      const target = request.key || this.options.bucket;
+
+      throw new Error(`S3 ${request.method} ${target} failed (${status} ${code})${message ? `: ${message}` : ''}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Build the request URL (path-style or virtual-hosted-style).
+   * A path on the endpoint (e.g. a gateway mounted under /s3) is kept in front of the bucket and key.
+   */
+  private buildUrl(key?: string, query: Record<string, string> = {}): URL {
+    const endpoint = new URL(this.options.endpoint);
+    const basePath = endpoint.pathname.replace(/\/+$/, '');
+    const keyPath = key ? `/${key.split('/').map(S3StorageProvider.encode).join('/')}` : '/';
+
+    if (this.options.forcePathStyle) {
+      endpoint.pathname = `${basePath}/${S3StorageProvider.encode(this.options.bucket)}${key ? keyPath : ''}`;
+    } else {
+      endpoint.hostname = `${this.options.bucket}.${endpoint.hostname}`;
+      endpoint.pathname = `${basePath}${keyPath}`;
+    }
+
+    endpoint.search = S3StorageProvider.canonicalQuery(query);
+    return endpoint;
+  }
+
+  /**
+   * Compute Signature Version 4 headers for a request
+   */
+  private signRequest(request: S3Request, url: URL): Record<string, string> {
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.options.region}/s3/aws4_request`;
+
+    // Uploads are streamed, so the payload is not hashed up front
+    const payloadHash = request.body ? 'UNSIGNED-PAYLOAD' : EMPTY_PAYLOAD_HASH;
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(this.options.sessionToken && { 'x-amz-security-token': this.options.sessionToken }),
+      ...(request.body && { 'content-length': String(request.body.size) })
+    };
+
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+      request.method,
+      url.pathname,
+      url.search.replace(/^\?/, ''),
+      signedHeaderNames.map(name => `${name}:${headers[name]!.trim()}\n`).join(''),
+      signedHeaderNames.join(';'),
+      payloadHash
+    ].join('\n');
+
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      crypto.createHash('sha256').update(canonicalRequest).digest('hex')
+    ].join('\n');
+
+    const hmac = (key: Buffer | string, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+    const dateKey = hmac(`AWS4${this.options.secretAccessKey}`, date);
+    const signingKey = hmac(hmac(hmac(dateKey, this.options.region), 's3'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, ` +
+        `SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`
+    };
+  }
+
+  /**
+   * Read a response body as text
+   */
+  private async readBody(response: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of response) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  /**
+   * URI-encode a value as required by Signature Version 4 (RFC 3986)
+   */
+  private static encode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  /**
+   * Build a canonical (sorted, encoded) query string
+   */
+  private static canonicalQuery(query: Record<string, string>): string {
+    return Object.keys(query)
+      .sort()
+      .map(key => `${S3StorageProvider.encode(key)}=${S3StorageProvider.encode(query[key]!)}`)
+      .join('&');
+  }
+
+  /**
+   * Extract the text of the first matching XML element
+   */
+  private static xmlValue(xml: string, tag: string): string | undefined {
+    return xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))?.[1];
+  }
+
+  /**
+   * Decode XML entities
+   */
+  private static decodeXml(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Storage provider interface for remote backup storage
+ */
+
+export interface StorageObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface StorageProvider {
+  /**
+   * Provider name shown in logs
+   */
+  readonly name: string;
+
+  /**
+   * Upload a local file under the given key
+   */
+  upload(localFile: string, key: string): Promise<void>;
+
+  /**
+   * Download an object to a local file
+   */
+  download(key: string, localFile: string): Promise<void>;
+
+  /**
+   * List objects whose key starts with the prefix
+   */
+  list(prefix?: string): Promise<StorageObject[]>;
+
+  /**
+   * Delete an object; deleting a missing object is not an error
+   */
+  delete(key: string): Promise<void>;
+}
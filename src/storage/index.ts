@@ -0,0 +1,69 @@
+/**
+ * Remote backup storage providers
+ */
+
+import * as path from 'path';
+import { BackupCloudConfig, ConfigurationError } from '../types';
+import { StorageProvider } from './StorageProvider';
+import { LocalStorageProvider } from './LocalStorageProvider';
+import { S3StorageProvider } from './S3StorageProvider';
+
+export { StorageProvider, StorageObject } from './StorageProvider';
+export { LocalStorageProvider } from './LocalStorageProvider';
+export { S3StorageProvider, S3StorageOptions } from './S3StorageProvider';
+
+/**
+ * Create the storage provider described by backup.cloud.
+ * Credentials are read from backup.cloud.credentials, falling back to the standard AWS environment variables.
+ */
+export function createStorageProvider(cloud: BackupCloudConfig, workingDirectory: string): StorageProvider {
+  switch (cloud.provider) {
+    case 'local':
+      if (!cloud.directory) {
+        throw new ConfigurationError('backup.cloud.directory is required for the local storage provider');
+      }
+      return new LocalStorageProvider(path.resolve(workingDirectory, cloud.directory));
+
+    case 'aws':
+    case 'gcp':
+    case 's3': {
+      if (!cloud.bucket) {
+        throw new ConfigurationError(`backup.cloud.bucket is required for the ${cloud.provider} storage provider`);
+      }
+
+      const credentials = cloud.credentials || {};
+      const accessKeyId = credentials['accessKeyId'] || process.env['AWS_ACCESS_KEY_ID'];
+      const secretAccessKey = credentials['secretAccessKey'] || process.env['AWS_SECRET_ACCESS_KEY'];
+      const sessionToken = credentials['sessionToken'] || process.env['AWS_SESSION_TOKEN'];
+
+      if (!accessKeyId || !secretAccessKey) {
+        throw new ConfigurationError(
+          'Storage credentials missing: set backup.cloud.credentials.accessKeyId/secretAccessKey ' +
+          'or AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY'
+        );
+      }
+
+      const region = cloud.region || (cloud.provider === 'gcp' ? 'auto' : 'us-east-1');
+      const endpoint = cloud.endpoint || (cloud.provider === 'gcp'
+        ? 'https://storage.googleapis.com'
+        : `https://s3.${region}.amazonaws.com`);
+
+      return new S3StorageProvider({
+        bucket: cloud.bucket,
+        region,
+        endpoint,
+        // Custom endpoints (MinIO and friends) rarely have wildcard DNS for buckets
+        forcePathStyle: cloud.forcePathStyle ?? Boolean(cloud.endpoint),
+        accessKeyId,
+        secretAccessKey,
+        ...(sessionToken && { sessionToken })
+      });
+    }
+
+    case 'azure':
+      throw new ConfigurationError('The azure storage provider is not supported yet; use an S3-compatible gateway with provider "s3"');
+
+    default:
+      throw new ConfigurationError('backup.cloud.provider is not set');
+  }
+}
@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod';
+import type { PluginContext } from '../plugins/PluginContext';
 
 // ============================================================================
 // I18N TYPES
@@ -34,7 +35,10 @@ export const ServiceConfigSchema = z.object({
     dockerfile: z.string().optional(),
     args: z.record(z.string()).optional(),
     target: z.string().optional()
-  }).optional()
+  }).optional(),
+  // Shell commands run inside the service container by "migrate" and "seed"
+  migrate: z.string().optional(),
+  seed: z.string().optional()
 });
 
 export type ServiceConfig = z.infer<typeof ServiceConfigSchema>;
@@ -61,6 +65,7 @@ export type CLIConfig = z.infer<typeof CLIConfigSchema>;
 
 export const BackupServiceConfigSchema = z.object({
   command: z.string(),
+  restoreCommand: z.string().optional(),
   filename: z.string(),
   preBackupHook: z.string().optional(),
   postBackupHook: z.string().optional(),
@@ -73,17 +78,24 @@ export const BackupConfigSchema = z.object({
   directory: z.string().default('./backups'),
   retention: z.number().min(1).default(7),
   schedule: z.string().optional(), // cron expression
+  encryptionKeyEnv: z.string().default('DOCKER_PILOT_BACKUP_KEY'),
+  encryptionKeyFile: z.string().optional(),
   services: z.record(BackupServiceConfigSchema).default({}),
   cloud: z.object({
-    provider: z.enum(['aws', 'gcp', 'azure']).optional(),
+    provider: z.enum(['aws', 'gcp', 'azure', 's3', 'local']).optional(),
     bucket: z.string().optional(),
     region: z.string().optional(),
+    endpoint: z.string().optional(), // S3-compatible endpoint, e.g. http://localhost:9000 for MinIO
+    forcePathStyle: z.boolean().optional(),
+    prefix: z.string().optional(),
+    directory: z.string().optional(), // target directory for the local provider
     credentials: z.record(z.string()).optional()
   }).optional()
 });
 
 export type BackupConfig = z.infer<typeof BackupConfigSchema>;
 export type BackupServiceConfig = z.infer<typeof BackupServiceConfigSchema>;
+export type BackupCloudConfig = NonNullable<BackupConfig['cloud']>;
 
 // ============================================================================
 // MONITORING CONFIGURATION TYPES
@@ -94,10 +106,25 @@ export const MonitoringConfigSchema = z.object({
   refreshInterval: z.number().min(1).default(5),
   services: z.array(z.string()).default([]),
   urls: z.record(z.string()).default({}),
+  history: z.object({
+    enabled: z.boolean().default(true),
+    retention: z.number().min(1).default(7)
+  }).default({}),
   alerts: z.object({
     enabled: z.boolean().default(false),
     email: z.string().email().optional(),
     webhook: z.string().url().optional(),
+    webhookSecretEnv: z.string().default('DOCKER_PILOT_WEBHOOK_SECRET'),
+    webhookRetries: z.number().int().min(0).default(3),
+    smtp: z.object({
+      host: z.string().default('localhost'),
+      port: z.number().int().min(1).max(65535).default(25),
+      secure: z.boolean().default(false),
+      username: z.string().optional(),
+      passwordEnv: z.string().default('DOCKER_PILOT_SMTP_PASSWORD'),
+      from: z.string().default('docker-pilot@localhost')
+    }).optional(),
+    duration: z.number().min(0).default(60),
     thresholds: z.object({
       cpu: z.number().min(0).max(100).default(80),
       memory: z.number().min(0).max(100).default(80),
@@ -107,6 +134,7 @@ export const MonitoringConfigSchema = z.object({
 });
 
 export type MonitoringConfig = z.infer<typeof MonitoringConfigSchema>;
+export type AlertsConfig = MonitoringConfig['alerts'];
 
 // ============================================================================
 // DEVELOPMENT CONFIGURATION TYPES
@@ -136,6 +164,8 @@ export const DockerPilotConfigSchema = z.object({
   primaryComposeFile: z.string().optional(),
   services: z.record(ServiceConfigSchema).default({}),
   plugins: z.array(z.string()).default([]),
+  // Settings of each plugin, by plugin name; checked against the plugin's configSchema
+  pluginConfig: z.record(z.record(z.any())).default({}),
   cli: CLIConfigSchema.default({}),
   backup: BackupConfigSchema.default({}),
   monitoring: MonitoringConfigSchema.default({}),
@@ -185,6 +215,69 @@ export interface CommandResult {
   error?: string;
   exitCode?: number;
   executionTime?: number;
+  /**
+   * Domain data of the command (service statuses, cleanup summary...), printed
+   * by the CLI with --output json|yaml
+   */
+  data?: unknown;
+}
+
+/**
+ * Exit codes of the CLI
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  /** The command ran and failed */
+  FAILURE: 1,
+  /** Unknown command or invalid option value */
+  USAGE: 2,
+  /** Docker is not installed or its daemon is not running */
+  DOCKER_UNAVAILABLE: 3,
+  /** A destructive action was not confirmed */
+  CANCELLED: 4
+} as const;
+
+/**
+ * What an argument or flag value completes to: service names of the loaded
+ * config and compose file, paths, or a fixed list of values
+ */
+export type CompletionSource = 'service' | 'file' | 'directory' | readonly string[];
+
+export interface FlagDefinition {
+  /** Long name, without the leading dashes */
+  name: string;
+  /** Single-letter short form */
+  alias?: string;
+  type: 'boolean' | 'string' | 'number';
+  description: string;
+  /** Value when the flag is not passed */
+  default?: string | number | boolean;
+  /** May be passed more than once; the value is then an array */
+  multiple?: boolean;
+  /** What the value completes to; suggestions, values outside of them are accepted */
+  values?: CompletionSource;
+}
+
+export interface SubcommandDefinition {
+  name: string;
+  aliases?: string[];
+  description: string;
+  args?: CompletionSource;
+  flags?: FlagDefinition[];
+}
+
+export interface CommandDefinition {
+  name: string;
+  aliases?: string[];
+  description: string;
+  args?: CompletionSource;
+  subcommands?: SubcommandDefinition[];
+  flags: FlagDefinition[];
+  /**
+   * Number of positional arguments after which the rest is not parsed, e.g. the
+   * command exec runs in a container after the service name
+   */
+  rawArgsAfter?: number;
 }
 
 // ============================================================================
@@ -209,6 +302,20 @@ export interface ServiceStatus {
     read: string;
     write: string;
   };
+  appHealth?: 'healthy' | 'unhealthy';
+  probe?: ProbeResult;
+}
+
+export interface ProbeResult {
+  service: string;
+  url: string;
+  type: 'http' | 'tcp';
+  healthy: boolean;
+  statusCode?: number;
+  latency: number;
+  error?: string;
+  tlsExpiresAt?: Date;
+  checkedAt: Date;
 }
 
 export interface ProjectStatus {
@@ -234,6 +341,10 @@ export interface PluginMetadata {
   homepage?: string;
   repository?: string;
   keywords?: string[];
+  /**
+   * Semver range of Docker Pilot versions the plugin supports, e.g. "^2.0.0"
+   */
+  dockerPilot?: string;
 }
 
 export interface PluginHooks {
@@ -246,11 +357,40 @@ export interface PluginHooks {
   onError?: (error: Error, context: any) => Promise<void> | void;
 }
 
+export type PluginCommandHandler = (args: string[], options: CommandOptions) => Promise<CommandResult>;
+
+export interface PluginCommandDefinition {
+  description: string;
+  usage?: string;
+  examples?: string[];
+  /**
+   * List the command in the "Plugins" category of the interactive menu;
+   * with a prompt, the menu asks for the command arguments first
+   */
+  menu?: boolean | { label?: string; prompt?: string };
+  handler: PluginCommandHandler;
+}
+
 export interface Plugin {
   metadata: PluginMetadata;
   hooks?: PluginHooks;
-  commands?: Record<string, (args: string[], options: CommandOptions) => Promise<CommandResult>>;
-  initialize?: (context: CommandContext) => Promise<void> | void;
+  /**
+   * CLI commands contributed by the plugin, as a bare handler or with help text
+   */
+  commands?: Record<string, PluginCommandHandler | PluginCommandDefinition>;
+  /**
+   * Schema of the plugin's section of config.pluginConfig
+   */
+  configSchema?: z.ZodTypeAny;
+  /**
+   * Milliseconds each of the plugin's hooks may run, overriding the default
+   */
+  hookTimeout?: number;
+  initialize?: (context: PluginContext) => Promise<void> | void;
+  /**
+   * Receives the validated settings when the plugin's section of config.pluginConfig changes
+   */
+  updateConfig?: (config: Record<string, any>) => Promise<void> | void;
   cleanup?: () => Promise<void> | void;
 }
 
@@ -269,7 +409,12 @@ export type EventType =
   | 'config:loaded'
   | 'config:saved'
   | 'plugin:loaded'
-  | 'plugin:error';
+  | 'plugin:error'
+  | 'backup:start'
+  | 'backup:success'
+  | 'backup:failure'
+  | 'alert:firing'
+  | 'alert:resolved';
 
 export interface DockerPilotEvent {
   type: EventType;
@@ -368,3 +513,10 @@ export class PluginError extends DockerPilotError {
     this.name = 'PluginError';
   }
 }
+
+export class UsageError extends DockerPilotError {
+  constructor(message: string, context?: any) {
+    super(message, 'USAGE_ERROR', context);
+    this.name = 'UsageError';
+  }
+}
@@ -0,0 +1,461 @@
+/**
+ * Shell completion scripts for Docker Pilot
+ * Generates bash, zsh and fish scripts from command definitions. Service names
+ * are completed at completion time by calling "docker-pilot completion services".
+ */
+
+import { CommandDefinition, CompletionSource, FlagDefinition, SubcommandDefinition } from '../types';
+
+export const COMPLETION_SHELLS = ['bash', 'zsh', 'fish'] as const;
+
+export type CompletionShell = typeof COMPLETION_SHELLS[number];
+
+export class CompletionScripts {
+  private commands: CommandDefinition[];
+  private globalFlags: FlagDefinition[];
+  private program: string;
+
+  constructor(commands: CommandDefinition[], globalFlags: FlagDefinition[], program: string = 'docker-pilot') {
+    this.commands = commands;
+    this.globalFlags = globalFlags;
+    this.program = program;
+  }
+
+  static isShell(value: string): value is CompletionShell {
+    return (COMPLETION_SHELLS as readonly string[]).includes(value);
+  }
+
+  generate(shell: CompletionShell): string {
+    switch (shell) {
+      case 'bash':
+        return this.bash();
+      case 'zsh':
+        return this.zsh();
+      case 'fish':
+        return this.fish();
+    }
+  }
+
+  private bash(): string {
+    const fn = this.functionName();
+    const lines: string[] = [
+      `# bash completion for ${this.program}`,
+      `# Load it in the current shell:  source <(${this.program} completion bash)`,
+      `# or install it:  ${this.program} completion bash > /etc/bash_completion.d/${this.program}`,
+      '',
+      `${fn}_services() {`,
+      `  ${this.program} completion services 2>/dev/null`,
+      '}',
+      '',
+      `${fn}() {`,
+      '  local cur prev cmd="" sub="" i word',
+      '  cur="${COMP_WORDS[COMP_CWORD]}"',
+      '  prev="${COMP_WORDS[COMP_CWORD-1]}"',
+      '  COMPREPLY=()',
+      '',
+      '  # The command and subcommand typed so far, skipping flags and their values',
+      '  for ((i = 1; i < COMP_CWORD; i++)); do',
+      '    word="${COMP_WORDS[i]}"',
+      '    [[ "$word" == -* ]] && continue',
+      '    case "${COMP_WORDS[i-1]}" in',
+      `      ${this.valueFlags().join('|')}) continue ;;`,
+      '    esac',
+      '    if [[ -z "$cmd" ]]; then',
+      '      cmd="$word"',
+      '    elif [[ -z "$sub" ]]; then',
+      '      sub="$word"',
+      '    fi',
+      '  done',
+      '',
+      '  case "$cmd:$prev" in'
+    ];
+
+    this.valueFlagCases().forEach(({ pattern, source }) => {
+      lines.push(`    ${pattern}) ${this.bashReply(source)}; return ;;`);
+    });
+
+    lines.push(
+      '  esac',
+      '',
+      '  if [[ -z "$cmd" ]]; then',
+      '    if [[ "$cur" == -* ]]; then',
+      `      COMPREPLY=($(compgen -W "${this.flagWords(this.globalFlags).join(' ')}" -- "$cur"))`,
+      '    else',
+      `      COMPREPLY=($(compgen -W "${this.commands.flatMap(command => this.names(command)).join(' ')}" -- "$cur"))`,
+      '    fi',
+      '    return',
+      '  fi',
+      '',
+      '  case "$cmd" in'
+    );
+
+    for (const command of this.commands) {
+      const subcommands = command.subcommands || [];
+      const flags = [...this.flagWords(command.flags), ...this.longFlagWords(this.globalFlags)].join(' ');
+
+      lines.push(`    ${this.names(command).join('|')})`);
+      lines.push('      if [[ "$cur" == -* ]]; then');
+
+      const subcommandsWithFlags = subcommands.filter(subcommand => subcommand.flags?.length);
+      if (subcommandsWithFlags.length > 0) {
+        lines.push('        local flags=""');
+        lines.push('        case "$sub" in');
+        subcommandsWithFlags.forEach(subcommand => {
+          lines.push(`          ${this.names(subcommand).join('|')}) flags="${this.flagWords(subcommand.flags!).join(' ')}" ;;`);
+        });
+        lines.push('        esac');
+        lines.push(`        COMPREPLY=($(compgen -W "$flags ${flags}" -- "$cur"))`);
+      } else {
+        lines.push(`        COMPREPLY=($(compgen -W "${flags}" -- "$cur"))`);
+      }
+
+      if (subcommands.length > 0) {
+        const words = [...subcommands.flatMap(subcommand => this.names(subcommand)), this.bashWords(command.args)];
+        lines.push('      elif [[ -z "$sub" ]]; then');
+        lines.push(`        COMPREPLY=($(compgen -W "${words.filter(Boolean).join(' ')}" -- "$cur"))`);
+        lines.push('      else');
+        lines.push('        case "$sub" in');
+        subcommands.forEach(subcommand => {
+          lines.push(`          ${this.names(subcommand).join('|')}) ${this.bashReply(subcommand.args)} ;;`);
+        });
+        lines.push(`          *) ${this.bashReply(command.args)} ;;`);
+        lines.push('        esac');
+      } else {
+        lines.push('      else');
+        lines.push(`        ${this.bashReply(command.args)}`);
+      }
+
+      lines.push('      fi');
+      lines.push('      ;;');
+    }
+
+    lines.push(
+      '  esac',
+      '}',
+      '',
+      `complete -F ${fn} ${this.program}`,
+      ''
+    );
+
+    return lines.join('\n');
+  }
+
+  private zsh(): string {
+    const fn = this.functionName();
+    const lines: string[] = [
+      `#compdef ${this.program}`,
+      `# zsh completion for ${this.program}`,
+      `# Load it in the current shell:  source <(${this.program} completion zsh)`,
+      `# or save it as _${this.program} in a directory of $fpath`,
+      '',
+      `${fn}_services() {`,
+      '  local -a services',
+      `  services=(\${(f)"$(${this.program} completion services 2>/dev/null)"})`,
+      '  compadd -a services',
+      '}',
+      '',
+      `${fn}() {`,
+      '  local cmd="" sub="" i word cur="${words[CURRENT]}" prev="${words[CURRENT-1]}"',
+      '  local -a items',
+      '',
+      '  # The command and subcommand typed so far, skipping flags and their values',
+      '  for ((i = 2; i < CURRENT; i++)); do',
+      '    word="${words[i]}"',
+      '    [[ "$word" == -* ]] && continue',
+      '    case "${words[i-1]}" in',
+      `      (${this.valueFlags().join('|')}) continue ;;`,
+      '    esac',
+      '    if [[ -z "$cmd" ]]; then',
+      '      cmd="$word"',
+      '    elif [[ -z "$sub" ]]; then',
+      '      sub="$word"',
+      '    fi',
+      '  done',
+      '',
+      '  case "$cmd:$prev" in'
+    ];
+
+    this.valueFlagCases().forEach(({ pattern, source }) => {
+      lines.push(`    (${pattern}) ${this.zshReply(source)}; return ;;`);
+    });
+
+    lines.push(
+      '  esac',
+      '',
+      '  if [[ -z "$cmd" ]]; then',
+      '    if [[ "$cur" == -* ]]; then',
+      `      items=(${this.zshFlagItems(this.globalFlags, true)})`,
+      "      _describe -t flags 'flag' items",
+      '    else',
+      `      items=(${this.commands.flatMap(command => this.names(command).map(name => this.zshItem(name, command.description))).join(' ')})`,
+      "      _describe -t commands 'command' items",
+      '    fi',
+      '    return',
+      '  fi',
+      '',
+      '  case "$cmd" in'
+    );
+
+    for (const command of this.commands) {
+      const subcommands = command.subcommands || [];
+
+      lines.push(`    (${this.names(command).join('|')})`);
+      lines.push('      if [[ "$cur" == -* ]]; then');
+      lines.push(`        items=(${this.zshFlagItems(command.flags, true)})`);
+
+      const subcommandsWithFlags = subcommands.filter(subcommand => subcommand.flags?.length);
+      if (subcommandsWithFlags.length > 0) {
+        lines.push('        case "$sub" in');
+        subcommandsWithFlags.forEach(subcommand => {
+          lines.push(`          (${this.names(subcommand).join('|')}) items+=(${this.zshFlagItems(subcommand.flags!, true)}) ;;`);
+        });
+        lines.push('        esac');
+      }
+
+      lines.push(`        items+=(${this.zshFlagItems(this.globalFlags, false)})`);
+      lines.push("        _describe -t flags 'flag' items");
+
+      if (subcommands.length > 0) {
+        lines.push('      elif [[ -z "$sub" ]]; then');
+        lines.push(`        items=(${subcommands.flatMap(subcommand => this.names(subcommand).map(name => this.zshItem(name, subcommand.description))).join(' ')})`);
+        lines.push("        _describe -t subcommands 'subcommand' items");
+        if (command.args) {
+          lines.push(`        ${this.zshReply(command.args)}`);
+        }
+        lines.push('      else');
+        lines.push('        case "$sub" in');
+        subcommands.forEach(subcommand => {
+          lines.push(`          (${this.names(subcommand).join('|')}) ${this.zshReply(subcommand.args)} ;;`);
+        });
+        lines.push(`          (*) ${this.zshReply(command.args)} ;;`);
+        lines.push('        esac');
+      } else {
+        lines.push('      else');
+        lines.push(`        ${this.zshReply(command.args)}`);
+      }
+
+      lines.push('      fi');
+      lines.push('      ;;');
+    }
+
+    lines.push(
+      '  esac',
+      '}',
+      '',
+      `if [[ "$funcstack[1]" == "_${this.program}" ]]; then`,
+      `  ${fn} "$@"`,
+      'else',
+      `  compdef ${fn} ${this.program}`,
+      'fi',
+      ''
+    );
+
+    return lines.join('\n');
+  }
+
+  private fish(): string {
+    const fn = `_${this.functionName()}`;
+    const complete = `complete -c ${this.program}`;
+    const lines: string[] = [
+      `# fish completion for ${this.program}`,
+      `# Load it in the current shell:  ${this.program} completion fish | source`,
+      `# or save it as ~/.config/fish/completions/${this.program}.fish`,
+      '',
+      `function ${fn}_services`,
+      `    ${this.program} completion services 2>/dev/null`,
+      'end',
+      '',
+      `${complete} -f`,
+      '',
+      '# Global flags'
+    ];
+
+    this.globalFlags.forEach(flag => {
+      // Short global flags only before the command, where they do not clash with command flags
+      lines.push(`${complete} -l ${flag.name}${this.fishFlagValue(flag)} -d ${this.fishQuote(flag.description)}`);
+      if (flag.alias) {
+        lines.push(`${complete} -n __fish_use_subcommand -s ${flag.alias} -d ${this.fishQuote(flag.description)}`);
+      }
+    });
+
+    lines.push('', '# Commands');
+    this.commands.forEach(command => {
+      this.names(command).forEach(name => {
+        lines.push(`${complete} -n __fish_use_subcommand -a ${name} -d ${this.fishQuote(command.description)}`);
+      });
+    });
+
+    for (const command of this.commands) {
+      const seen = `__fish_seen_subcommand_from ${this.names(command).join(' ')}`;
+      const subcommands = command.subcommands || [];
+      const subcommandNames = subcommands.flatMap(subcommand => this.names(subcommand)).join(' ');
+
+      lines.push('', `# ${command.name}`);
+
+      command.flags.forEach(flag => {
+        lines.push(`${complete} -n ${this.fishQuote(seen)}${this.fishFlag(flag)}`);
+      });
+
+      if (subcommands.length > 0) {
+        const noSubcommand = `${seen}; and not __fish_seen_subcommand_from ${subcommandNames}`;
+
+        subcommands.forEach(subcommand => {
+          this.names(subcommand).forEach(name => {
+            lines.push(`${complete} -n ${this.fishQuote(noSubcommand)} -a ${name} -d ${this.fishQuote(subcommand.description)}`);
+          });
+        });
+
+        if (command.args) {
+          lines.push(`${complete} -n ${this.fishQuote(noSubcommand)}${this.fishArgs(command.args)}`);
+        }
+
+        subcommands.forEach(subcommand => {
+          const condition = `${seen}; and __fish_seen_subcommand_from ${this.names(subcommand).join(' ')}`;
+          (subcommand.flags || []).forEach(flag => {
+            lines.push(`${complete} -n ${this.fishQuote(condition)}${this.fishFlag(flag)}`);
+          });
+          if (subcommand.args) {
+            lines.push(`${complete} -n ${this.fishQuote(condition)}${this.fishArgs(subcommand.args)}`);
+          }
+        });
+      } else if (command.args) {
+        lines.push(`${complete} -n ${this.fishQuote(seen)}${this.fishArgs(command.args)}`);
+      }
+    }
+
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  /**
+   * Flags that take a value, whose value is never a command or subcommand
+   */
+  private valueFlags(): string[] {
+    const flags = [
+      ...this.globalFlags,
+      ...this.commands.flatMap(command => [
+        ...command.flags,
+        ...(command.subcommands || []).flatMap(subcommand => subcommand.flags || [])
+      ])
+    ];
+
+    return Array.from(new Set(flags.filter(flag => flag.type !== 'boolean').map(flag => `--${flag.name}`)));
+  }
+
+  /**
+   * Case patterns ("command:--flag") of the flags that take a value; command
+   * flags come first so they win over global flags of the same name
+   */
+  private valueFlagCases(): Array<{ pattern: string; source: CompletionSource | undefined }> {
+    const cases: Array<{ pattern: string; source: CompletionSource | undefined }> = [];
+
+    for (const command of this.commands) {
+      const flags = [
+        ...command.flags,
+        ...(command.subcommands || []).flatMap(subcommand => subcommand.flags || [])
+      ].filter(flag => flag.type !== 'boolean');
+
+      flags.forEach(flag => {
+        const forms = [`--${flag.name}`, ...(flag.alias ? [`-${flag.alias}`] : [])];
+        const pattern = this.names(command).flatMap(name => forms.map(form => `${name}:${form}`)).join('|');
+        cases.push({ pattern, source: flag.values });
+      });
+    }
+
+    this.globalFlags.filter(flag => flag.type !== 'boolean').forEach(flag => {
+      cases.push({ pattern: `*:--${flag.name}`, source: flag.values });
+    });
+
+    return cases;
+  }
+
+  private bashReply(source: CompletionSource | undefined): string {
+    if (source === 'file') {
+      return 'COMPREPLY=($(compgen -f -- "$cur"))';
+    }
+    if (source === 'directory') {
+      return 'COMPREPLY=($(compgen -d -- "$cur"))';
+    }
+
+    const words = this.bashWords(source);
+    return words ? `COMPREPLY=($(compgen -W "${words}" -- "$cur"))` : 'COMPREPLY=()';
+  }
+
+  /**
+   * Words a source completes to, for sources that are not paths
+   */
+  private bashWords(source: CompletionSource | undefined): string {
+    if (source === 'service') {
+      return `$(${this.functionName()}_services)`;
+    }
+    return Array.isArray(source) ? source.join(' ') : '';
+  }
+
+  private zshReply(source: CompletionSource | undefined): string {
+    if (source === 'service') {
+      return `${this.functionName()}_services`;
+    }
+    if (source === 'file') {
+      return '_files';
+    }
+    if (source === 'directory') {
+      return '_files -/';
+    }
+    return Array.isArray(source) ? `compadd ${source.join(' ')}` : ':';
+  }
+
+  private zshFlagItems(flags: FlagDefinition[], withAliases: boolean): string {
+    return flags.flatMap(flag => [
+      this.zshItem(`--${flag.name}`, flag.description),
+      ...(withAliases && flag.alias ? [this.zshItem(`-${flag.alias}`, flag.description)] : [])
+    ]).join(' ');
+  }
+
+  private zshItem(name: string, description: string): string {
+    return `'${name.replace(/:/g, '\\:')}:${description.replace(/'/g, "'\\''")}'`;
+  }
+
+  private fishFlag(flag: FlagDefinition): string {
+    return `${flag.alias ? ` -s ${flag.alias}` : ''} -l ${flag.name}${this.fishFlagValue(flag)} -d ${this.fishQuote(flag.description)}`;
+  }
+
+  private fishFlagValue(flag: FlagDefinition): string {
+    if (flag.type === 'boolean') {
+      return '';
+    }
+    return flag.values === 'file' ? ' -r -F' : ` -x${flag.values ? this.fishArgs(flag.values) : ''}`;
+  }
+
+  private fishArgs(source: CompletionSource): string {
+    if (source === 'service') {
+      return ` -a '(_${this.functionName()}_services)'`;
+    }
+    if (source === 'file') {
+      return ' -F';
+    }
+    if (source === 'directory') {
+      return " -a '(__fish_complete_directories (commandline -ct))'";
+    }
+    return ` -a ${this.fishQuote(source.join(' '))}`;
+  }
+
+  private fishQuote(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+
+  private flagWords(flags: FlagDefinition[]): string[] {
+    return flags.flatMap(flag => [`--${flag.name}`, ...(flag.alias ? [`-${flag.alias}`] : [])]);
+  }
+
+  private longFlagWords(flags: FlagDefinition[]): string[] {
+    return flags.map(flag => `--${flag.name}`);
+  }
+
+  private names(definition: CommandDefinition | SubcommandDefinition): string[] {
+    return [definition.name, ...(definition.aliases || [])];
+  }
+
+  private functionName(): string {
+    return `_${this.program.replace(/[^a-zA-Z0-9]/g, '_')}`;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Confirmation of destructive actions for Docker Pilot
+ * Asks on the terminal before an action runs; the most dangerous ones (losing
+ * volume data) require typing the project name instead of answering y/N.
+ * Outside a terminal the action is refused unless --yes was passed.
+ */
+
+import * as readline from 'readline';
+import { Logger } from './Logger';
+import { I18n } from './i18n';
+
+/**
+ * Reads an answer to a question, e.g. from a readline interface that already owns stdin
+ */
+export type ConfirmationAsker = (question: string) => Promise<string>;
+
+export interface ConfirmOptions {
+  /**
+   * Confirm without asking (--yes)
+   */
+  assumeYes?: boolean;
+  /**
+   * Text, usually the project name, that must be typed to confirm
+   */
+  typeToConfirm?: string;
+}
+
+export class Confirmation {
+  private static asker: ConfirmationAsker | null = null;
+  private logger: Logger;
+  private i18n: I18n;
+  private enabled: boolean;
+
+  /**
+   * @param enabled cli.confirmDestructiveActions; when false every action is confirmed
+   */
+  constructor(logger: Logger, i18n: I18n, enabled: boolean = true) {
+    this.logger = logger;
+    this.i18n = i18n;
+    this.enabled = enabled;
+  }
+
+  /**
+   * Ask questions through another reader while it owns stdin (the interactive
+   * menu does so while it runs commands); null restores the terminal prompt
+   */
+  static setAsker(asker: ConfirmationAsker | null): void {
+    Confirmation.asker = asker;
+  }
+
+  /**
+   * Warn about the action and ask to confirm it
+   */
+  async confirm(message: string, options: ConfirmOptions = {}): Promise<boolean> {
+    if (options.assumeYes || !this.enabled) {
+      return true;
+    }
+
+    this.logger.warn(message);
+    this.logger.warn(this.i18n.t('base.destructive_warning'));
+
+    if (!Confirmation.asker && !process.stdin.isTTY) {
+      this.logger.error(this.i18n.t('base.confirmation_required_non_interactive'));
+      return false;
+    }
+
+    if (options.typeToConfirm) {
+      const answer = await this.ask(this.i18n.t('base.confirm_type_prompt', { text: options.typeToConfirm }));
+      if (answer.trim() !== options.typeToConfirm) {
+        this.logger.error(this.i18n.t('base.confirm_type_mismatch'));
+        return false;
+      }
+      return true;
+    }
+
+    const answer = await this.ask(this.i18n.t('base.confirm_prompt'));
+    return ['y', 'yes', 's', 'sim'].includes(answer.trim().toLowerCase());
+  }
+
+  private async ask(question: string): Promise<string> {
+    if (Confirmation.asker) {
+      return Confirmation.asker(question);
+    }
+
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+
+    const answer = await new Promise<string>((resolve) => {
+      rl.question(question, resolve);
+      rl.once('close', () => resolve(''));
+    });
+    rl.close();
+
+    return answer;
+  }
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { CronExpression } from './CronExpression';
+
+/**
+ * Local time, like the expressions themselves
+ */
+function at(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+function occurrences(expression: string, after: Date, count: number): Date[] {
+  const cron = CronExpression.parse(expression);
+  const dates: Date[] = [];
+  let date = after;
+
+  for (let i = 0; i < count; i++) {
+    date = cron.next(date);
+    dates.push(date);
+  }
+
+  return dates;
+}
+
+describe('CronExpression', () => {
+  describe('fields', () => {
+    it('matches lists', () => {
+      const cron = CronExpression.parse('0,15,30 * * * *');
+
+      expect(cron.matches(at(2024, 5, 1, 10, 15))).toBe(true);
+      expect(cron.matches(at(2024, 5, 1, 10, 20))).toBe(false);
+    });
+
+    it('matches ranges', () => {
+      const cron = CronExpression.parse('0 9-17 * * *');
+
+      expect(cron.matches(at(2024, 5, 1, 9))).toBe(true);
+      expect(cron.matches(at(2024, 5, 1, 17))).toBe(true);
+      expect(cron.matches(at(2024, 5, 1, 18))).toBe(false);
+    });
+
+    it('matches steps over wildcards, ranges and start values', () => {
+      expect(occurrences('*/20 * * * *', at(2024, 5, 1, 10, 0), 3))
+        .toEqual([at(2024, 5, 1, 10, 20), at(2024, 5, 1, 10, 40), at(2024, 5, 1, 11, 0)]);
+      expect(occurrences('10-30/10 * * * *', at(2024, 5, 1, 10, 30), 3))
+        .toEqual([at(2024, 5, 1, 11, 10), at(2024, 5, 1, 11, 20), at(2024, 5, 1, 11, 30)]);
+      expect(occurrences('45/5 * * * *', at(2024, 5, 1, 10, 50), 3))
+        .toEqual([at(2024, 5, 1, 10, 55), at(2024, 5, 1, 11, 45), at(2024, 5, 1, 11, 50)]);
+    });
+
+    it('accepts month and day names in any case', () => {
+      const cron = CronExpression.parse('0 0 * JAN-mar Mon-Fri');
+
+      expect(cron.matches(at(2024, 2, 5))).toBe(true); // Monday
+      expect(cron.matches(at(2024, 2, 4))).toBe(false); // Sunday
+      expect(cron.matches(at(2024, 4, 1))).toBe(false); // April
+    });
+
+    it('treats 0 and 7 as Sunday', () => {
+      expect(CronExpression.parse('0 0 * * 0').matches(at(2024, 6, 2))).toBe(true);
+      expect(CronExpression.parse('0 0 * * 7').matches(at(2024, 6, 2))).toBe(true);
+      expect(CronExpression.parse('0 0 * * sun').matches(at(2024, 6, 2))).toBe(true);
+    });
+
+    it('expands macros', () => {
+      expect(CronExpression.parse('@daily').next(at(2024, 5, 1, 10))).toEqual(at(2024, 5, 2));
+      expect(CronExpression.parse('@weekly').next(at(2024, 5, 1))).toEqual(at(2024, 5, 5));
+      expect(CronExpression.parse('@yearly').next(at(2024, 5, 1))).toEqual(at(2025, 1, 1));
+    });
+  });
+
+  describe('day of month and day of week', () => {
+    it('matches either day field when both are restricted', () => {
+      // The 13th, and every Friday
+      const cron = CronExpression.parse('0 0 13 * 5');
+
+      expect(cron.matches(at(2024, 6, 13))).toBe(true); // Thursday the 13th
+      expect(cron.matches(at(2024, 6, 14))).toBe(true); // Friday the 14th
+      expect(cron.matches(at(2024, 6, 15))).toBe(false);
+    });
+
+    it('matches only the restricted field when the other is a wildcard', () => {
+      expect(CronExpression.parse('0 0 13 * *').matches(at(2024, 6, 14))).toBe(false);
+      expect(CronExpression.parse('0 0 * * 5').matches(at(2024, 6, 13))).toBe(false);
+      expect(CronExpression.parse('0 0 */2 * 5').matches(at(2024, 6, 13))).toBe(false);
+    });
+  });
+
+  describe('next', () => {
+    it('returns the first occurrence strictly after the date', () => {
+      const cron = CronExpression.parse('30 2 * * *');
+
+      expect(cron.next(at(2024, 5, 1, 2, 30))).toEqual(at(2024, 5, 2, 2, 30));
+      expect(cron.next(new Date(2024, 4, 1, 2, 29, 59, 999))).toEqual(at(2024, 5, 1, 2, 30));
+    });
+
+    it('crosses month boundaries', () => {
+      expect(CronExpression.parse('0 3 * * *').next(at(2024, 4, 30, 4))).toEqual(at(2024, 5, 1, 3));
+      expect(CronExpression.parse('0 0 31 * *').next(at(2024, 4, 1))).toEqual(at(2024, 5, 31));
+    });
+
+    it('crosses year boundaries', () => {
+      expect(CronExpression.parse('59 23 31 12 *').next(at(2024, 12, 31, 23, 59))).toEqual(at(2025, 12, 31, 23, 59));
+      expect(CronExpression.parse('0 0 1 1 *').next(at(2024, 12, 31, 23, 59))).toEqual(at(2025, 1, 1));
+      expect(CronExpression.parse('*/15 * * * *').next(at(2024, 12, 31, 23, 50))).toEqual(at(2025, 1, 1));
+    });
+
+    it('finds leap days', () => {
+      expect(CronExpression.parse('0 0 29 2 *').next(at(2024, 3, 1))).toEqual(at(2028, 2, 29));
+    });
+
+    it('throws when the expression can never match', () => {
+      expect(() => CronExpression.parse('0 0 31 2 *').next(at(2024, 1, 1))).toThrow(/no upcoming occurrence/);
+    });
+  });
+
+  describe('invalid expressions', () => {
+    it.each([
+      ['', /expected 5 fields/],
+      ['* * * *', /expected 5 fields/],
+      ['* * * * * *', /expected 5 fields/],
+      ['60 * * * *', /out of range for minute/],
+      ['* 24 * * *', /out of range for hour/],
+      ['* * 0 * *', /out of range for day of month/],
+      ['* * * 13 *', /out of range for month/],
+      ['* * * * 8', /out of range for day of week/],
+      ['* * * foo *', /out of range for month/],
+      ['-1 * * * *', /out of range for minute/],
+      ['30-10 * * * *', /Invalid range/],
+      ['1-2-3 * * * *', /Invalid range/],
+      ['*/0 * * * *', /Invalid step/],
+      ['*/x * * * *', /Invalid step/],
+      ['*/5/2 * * * *', /Invalid minute field/],
+      ['1,,2 * * * *', /Invalid minute field/],
+      ['@every 5m', /expected 5 fields/]
+    ])('rejects "%s"', (expression, message) => {
+      expect(() => CronExpression.parse(expression)).toThrow(message);
+      expect(CronExpression.isValid(expression)).toBe(false);
+    });
+
+    it('accepts valid expressions', () => {
+      expect(CronExpression.isValid('0 2 * * *')).toBe(true);
+      expect(CronExpression.isValid('  @hourly  ')).toBe(true);
+    });
+  });
+});
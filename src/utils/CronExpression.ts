@@ -0,0 +1,216 @@
+/**
+ * Cron expression parser
+ * Supports the standard 5-field syntax (minute hour day-of-month month day-of-week)
+ * with lists, ranges, steps, month/day names and the usual @ macros
+ */
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+/**
+ * Upper bound for the next-occurrence search (minutes in ~5 years),
+ * protects against expressions that can never match such as "0 0 31 2 *"
+ */
+const MAX_SEARCH_STEPS = 5 * 366 * 24 * 60;
+
+export class CronExpression {
+  private readonly minutes: CronField;
+  private readonly hours: CronField;
+  private readonly daysOfMonth: CronField;
+  private readonly months: CronField;
+  private readonly daysOfWeek: CronField;
+
+  private constructor(readonly expression: string, fields: CronField[]) {
+    [this.minutes, this.hours, this.daysOfMonth, this.months, this.daysOfWeek] = fields as [
+      CronField, CronField, CronField, CronField, CronField
+    ];
+  }
+
+  /**
+   * Parse a cron expression, throwing on invalid syntax
+   */
+  static parse(expression: string): CronExpression {
+    const trimmed = expression.trim();
+    const normalized = MACROS[trimmed.toLowerCase()] || trimmed;
+    const parts = normalized.split(/\s+/);
+
+    if (parts.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`);
+    }
+
+    const fields = parts.map((part, index) => CronExpression.parseField(part, FIELD_SPECS[index]!));
+
+    // Sunday can be written as 0 or 7
+    const daysOfWeek = fields[4]!;
+    if (daysOfWeek.values.delete(7)) {
+      daysOfWeek.values.add(0);
+    }
+
+    return new CronExpression(trimmed, fields);
+  }
+
+  /**
+   * Check whether an expression is valid
+   */
+  static isValid(expression: string): boolean {
+    try {
+      CronExpression.parse(expression);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a date (to the minute, local time) matches the expression
+   */
+  matches(date: Date): boolean {
+    return this.minutes.values.has(date.getMinutes()) &&
+      this.hours.values.has(date.getHours()) &&
+      this.months.values.has(date.getMonth() + 1) &&
+      this.matchesDay(date);
+  }
+
+  /**
+   * Get the first occurrence strictly after the given date
+   */
+  next(after: Date): Date {
+    const date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+      if (!this.months.values.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.hours.values.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.minutes.values.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0);
+        continue;
+      }
+
+      return date;
+    }
+
+    throw new Error(`Cron expression "${this.expression}" has no upcoming occurrence`);
+  }
+
+  /**
+   * Day matching follows cron semantics: when both day fields are restricted,
+   * a date matches if either of them does
+   */
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.values.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.values.has(date.getDay());
+
+    if (this.daysOfMonth.wildcard || this.daysOfWeek.wildcard) {
+      return dayOfMonth && dayOfWeek;
+    }
+
+    return dayOfMonth || dayOfWeek;
+  }
+
+  /**
+   * Parse a single field: wildcards, values, names, ranges, lists and steps
+   */
+  private static parseField(field: string, spec: FieldSpec): CronField {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+      const [range, stepText, ...rest] = part.split('/');
+      if (!range || rest.length > 0) {
+        throw new Error(`Invalid ${spec.name} field "${field}"`);
+      }
+
+      const step = stepText === undefined ? 1 : Number(stepText);
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid step "${stepText}" in ${spec.name} field`);
+      }
+
+      let start: number;
+      let end: number;
+
+      if (range === '*') {
+        start = spec.min;
+        end = spec.max;
+      } else if (range.includes('-')) {
+        const [from, to, ...extra] = range.split('-');
+        if (extra.length > 0) {
+          throw new Error(`Invalid range "${range}" in ${spec.name} field`);
+        }
+        start = CronExpression.parseValue(from!, spec);
+        end = CronExpression.parseValue(to!, spec);
+      } else {
+        start = CronExpression.parseValue(range, spec);
+        end = stepText === undefined ? start : spec.max;
+      }
+
+      if (start > end) {
+        throw new Error(`Invalid range "${range}" in ${spec.name} field`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return { values, wildcard: field.startsWith('*') };
+  }
+
+  /**
+   * Parse a numeric or named field value
+   */
+  private static parseValue(value: string, spec: FieldSpec): number {
+    const nameIndex = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+    if (nameIndex !== -1) {
+      return nameIndex + (spec.name === 'month' ? 1 : 0);
+    }
+
+    const number = Number(value);
+    if (!/^\d+$/.test(value) || number < spec.min || number > spec.max) {
+      throw new Error(`Value "${value}" out of range for ${spec.name} (${spec.min}-${spec.max})`);
+    }
+
+    return number;
+  }
+}
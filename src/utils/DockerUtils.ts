@@ -208,7 +208,7 @@ export class DockerUtils {
    */
   async getServiceStatus(_projectName: string, serviceName?: string, options?: { composeFile?: string }): Promise<ServiceStatus[]> {
     try {
-      const args = ['ps', '--format', 'json'];
+      const args = ['--format', 'json'];
       if (serviceName) {
         args.push(serviceName);
       }      const result = await this.executeComposeCommand('ps', args, {
@@ -298,7 +298,7 @@ export class DockerUtils {
   /**
    * Get project volumes
    */
-  private async getProjectVolumes(projectName: string): Promise<string[]> {
+  async getProjectVolumes(projectName: string): Promise<string[]> {
     try {
       const result = await this.executeDockerCommand('volume', [
         'ls',
@@ -315,6 +315,33 @@ export class DockerUtils {
     return [];
   }
 
+  /**
+   * Check whether a Docker volume exists
+   */
+  async volumeExists(volumeName: string): Promise<boolean> {
+    const result = await this.executeDockerCommand('volume', ['inspect', volumeName], { silent: true });
+    return result.success;
+  }
+
+  /**
+   * Get running containers that mount a volume
+   */
+  async getVolumeContainers(volumeName: string): Promise<string[]> {
+    try {
+      const result = await this.executeDockerCommand('ps', [
+        '--filter', `volume=${volumeName}`,
+        '--format', '{{.Names}}'
+      ], { silent: true });
+
+      if (result.success && result.output) {
+        return result.output.trim().split('\n').filter(name => name.trim());
+      }
+    } catch (error) {
+      this.logger.debug('Failed to get volume containers', error);
+    }
+    return [];
+  }
+
   /**
    * Normalize container state
    */
@@ -354,6 +381,8 @@ export class DockerUtils {
       until?: string;
       projectName?: string;
       composeFile?: string;
+      stream?: boolean;
+      cwd?: string;
     } = {}
   ): Promise<ChildProcess | CommandResult> {
     const args = ['logs'];
@@ -372,8 +401,9 @@ export class DockerUtils {
         : ['compose', ...args];
 
       const child = spawn('docker', composeCmd, {
-        stdio: 'inherit',
-        cwd: process.cwd()
+        // Streamed logs are piped so the caller can render them itself (e.g. the dashboard)
+        stdio: options.stream ? ['ignore', 'pipe', 'pipe'] : 'inherit',
+        cwd: options.cwd || process.cwd()
       });
 
       return child;
@@ -386,14 +416,38 @@ export class DockerUtils {
     }
   }
 
+  /**
+   * Get how often each container has been restarted by its restart policy, keyed by full container ID
+   */
+  async getRestartCounts(containerIds: string[]): Promise<Record<string, number>> {
+    if (containerIds.length === 0) {
+      return {};
+    }
+
+    const result = await this.executeDockerCommand('inspect', [
+      '--format', '"{{.Id}} {{.RestartCount}}"',
+      ...containerIds
+    ], { silent: true });
+
+    const counts: Record<string, number> = {};
+    for (const line of (result.output || '').split('\n')) {
+      const [id, count] = line.trim().split(' ');
+      if (id && count !== undefined && !Number.isNaN(Number(count))) {
+        counts[id] = Number(count);
+      }
+    }
+
+    return counts;
+  }
+
   /**
    * Get container statistics
    */
-  async getStats(serviceName?: string): Promise<any[]> {
+  async getStats(containers?: string | string[]): Promise<any[]> {
     try {
-      const args = ['stats', '--no-stream', '--format', 'json'];
-      if (serviceName) {
-        args.push(serviceName);
+      const args = ['--no-stream', '--format', 'json'];
+      if (containers) {
+        args.push(...(Array.isArray(containers) ? containers : [containers]));
       }
 
       const result = await this.executeDockerCommand('stats', args, { silent: true });
@@ -469,26 +523,41 @@ export class DockerUtils {
   async execInService(
     serviceName: string,
     command: string[],
-    options: { interactive?: boolean; tty?: boolean; user?: string } = {}
+    options: { interactive?: boolean; tty?: boolean; user?: string; stream?: boolean; composeFile?: string; cwd?: string } = {}
   ): Promise<CommandResult | ChildProcess> {
-    const args = ['exec'];
+    const args: string[] = [];
 
     if (!options.interactive) args.push('-T');
     if (options.user) args.push('-u', options.user);
 
     args.push(serviceName, ...command);
 
+    const composeArgs = options.composeFile
+      ? ['compose', '-f', options.composeFile, 'exec', ...args]
+      : ['compose', 'exec', ...args];
+
     if (options.interactive && options.tty) {
       // For interactive sessions, return the child process
-      const child = spawn('docker', ['compose', ...args], {
+      const child = spawn('docker', composeArgs, {
         stdio: 'inherit',
-        cwd: process.cwd()
+        cwd: options.cwd || process.cwd()
+      });
+
+      return child;
+    } else if (options.stream) {
+      // For streamed output (e.g. dumps), return the child process with piped stdio
+      const child = spawn('docker', composeArgs, {
+        stdio: ['pipe', 'pipe', 'pipe'],
+        cwd: options.cwd || process.cwd()
       });
 
       return child;
     } else {
       // For non-interactive commands, return the result
-      return this.executeComposeCommand('exec', args);
+      return this.executeComposeCommand('exec', args, {
+        ...(options.composeFile && { composeFile: options.composeFile }),
+        ...(options.cwd && { cwd: options.cwd })
+      });
     }
   }
 
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as crypto from 'crypto';
+import { EncryptionUtils } from './EncryptionUtils';
+
+const KEY = 'correct horse battery staple';
+// magic | salt | iv
+const HEADER_LENGTH = 4 + 16 + 12;
+const TAG_LENGTH = 16;
+
+async function collect(source: Buffer[], transform: NodeJS.ReadWriteStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  const sink = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk);
+      callback();
+    }
+  });
+
+  await pipeline([Readable.from(source), transform, sink]);
+  return Buffer.concat(chunks);
+}
+
+async function encrypt(plaintext: Buffer, key = KEY): Promise<Buffer> {
+  return collect([plaintext], await new EncryptionUtils().createEncryptStream(key));
+}
+
+function decrypt(ciphertext: Buffer, key = KEY, chunkSize = ciphertext.length || 1): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < ciphertext.length; offset += chunkSize) {
+    chunks.push(ciphertext.subarray(offset, offset + chunkSize));
+  }
+  return collect(chunks, new EncryptionUtils().createDecryptStream(key));
+}
+
+describe('EncryptionUtils', () => {
+  const plaintext = crypto.randomBytes(200 * 1024);
+
+  it('round trips data through AES-256-GCM', async () => {
+    const ciphertext = await encrypt(plaintext);
+
+    expect(ciphertext.subarray(0, 4).toString()).toBe('DPB1');
+    expect(ciphertext.length).toBe(HEADER_LENGTH + plaintext.length + TAG_LENGTH);
+    expect(ciphertext.includes(plaintext.subarray(0, 64))).toBe(false);
+    expect((await decrypt(ciphertext)).equals(plaintext)).toBe(true);
+  });
+
+  it('round trips when the archive arrives in small chunks', async () => {
+    const ciphertext = await encrypt(plaintext);
+
+    // Chunks smaller than the header and the tag
+    expect((await decrypt(ciphertext, KEY, 7)).equals(plaintext)).toBe(true);
+  });
+
+  it('round trips empty input', async () => {
+    const ciphertext = await encrypt(Buffer.alloc(0));
+
+    expect(ciphertext.length).toBe(HEADER_LENGTH + TAG_LENGTH);
+    expect((await decrypt(ciphertext)).length).toBe(0);
+  });
+
+  it('uses a fresh salt and iv for every archive', async () => {
+    const first = await encrypt(plaintext);
+    const second = await encrypt(plaintext);
+
+    expect(first.subarray(4, HEADER_LENGTH).equals(second.subarray(4, HEADER_LENGTH))).toBe(false);
+  });
+
+  it('rejects a wrong key', async () => {
+    const ciphertext = await encrypt(plaintext);
+
+    await expect(decrypt(ciphertext, 'wrong key')).rejects.toThrow(/Authentication failed/);
+  });
+
+  it('rejects tampered ciphertext', async () => {
+    const ciphertext = await encrypt(plaintext);
+    ciphertext[HEADER_LENGTH + 100]! ^= 0x01;
+
+    await expect(decrypt(ciphertext)).rejects.toThrow(/Authentication failed/);
+  });
+
+  it('rejects a tampered auth tag', async () => {
+    const ciphertext = await encrypt(plaintext);
+    ciphertext[ciphertext.length - 1]! ^= 0x01;
+
+    await expect(decrypt(ciphertext)).rejects.toThrow(/Authentication failed/);
+  });
+
+  it('rejects a tampered salt', async () => {
+    const ciphertext = await encrypt(plaintext);
+    ciphertext[4]! ^= 0x01;
+
+    await expect(decrypt(ciphertext)).rejects.toThrow(/Authentication failed/);
+  });
+
+  it('rejects an archive truncated in the ciphertext', async () => {
+    const ciphertext = await encrypt(plaintext);
+
+    await expect(decrypt(ciphertext.subarray(0, ciphertext.length - 1000))).rejects.toThrow(/Authentication failed/);
+  });
+
+  it('rejects an archive truncated in the header', async () => {
+    const ciphertext = await encrypt(plaintext);
+
+    await expect(decrypt(ciphertext.subarray(0, HEADER_LENGTH - 1))).rejects.toThrow(/truncated/);
+  });
+
+  it('rejects an archive without the auth tag', async () => {
+    const ciphertext = await encrypt(Buffer.alloc(0));
+
+    await expect(decrypt(ciphertext.subarray(0, HEADER_LENGTH + 4))).rejects.toThrow(/truncated/);
+  });
+
+  it('rejects data that is not an encrypted archive', async () => {
+    await expect(decrypt(crypto.randomBytes(1024))).rejects.toThrow(/Not an encrypted Docker Pilot archive/);
+  });
+});
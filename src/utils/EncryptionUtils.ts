@@ -0,0 +1,130 @@
+/**
+ * Encryption utility functions
+ * Streaming AES-256-GCM encryption used for backup archives
+ */
+
+import * as crypto from 'crypto';
+import { Transform, TransformCallback } from 'stream';
+
+/**
+ * Encrypted archive layout:
+ *   magic (4 bytes) | salt (16 bytes) | iv (12 bytes) | ciphertext | auth tag (16 bytes)
+ * The AES key is derived from the configured key material with scrypt and the per-archive salt.
+ */
+const MAGIC = Buffer.from('DPB1');
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+const HEADER_LENGTH = MAGIC.length + SALT_LENGTH + IV_LENGTH;
+
+export class EncryptionUtils {
+  /**
+   * Create a stream that encrypts everything written to it
+   */
+  async createEncryptStream(keyMaterial: string): Promise<Transform> {
+    const salt = crypto.randomBytes(SALT_LENGTH);
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const key = await this.deriveKey(keyMaterial, salt);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const header = Buffer.concat([MAGIC, salt, iv]);
+    let headerWritten = false;
+
+    const writeHeader = (stream: Transform) => {
+      if (!headerWritten) {
+        stream.push(header);
+        headerWritten = true;
+      }
+    };
+
+    return new Transform({
+      transform(this: Transform, chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+        writeHeader(this);
+        callback(null, cipher.update(chunk));
+      },
+      flush(this: Transform, callback: TransformCallback) {
+        writeHeader(this);
+        this.push(cipher.final());
+        this.push(cipher.getAuthTag());
+        callback();
+      }
+    });
+  }
+
+  /**
+   * Create a stream that decrypts an encrypted archive.
+   * The stream errors at the end when the authentication tag does not match,
+   * so consumers must not trust the output until the stream has finished.
+   */
+  createDecryptStream(keyMaterial: string): Transform {
+    let header = Buffer.alloc(0);
+    let tail = Buffer.alloc(0);
+    let decipher: crypto.DecipherGCM | null = null;
+
+    const processChunk = async (stream: Transform, chunk: Buffer): Promise<void> => {
+      let data = chunk;
+
+      if (!decipher) {
+        header = Buffer.concat([header, data]);
+        if (header.length < HEADER_LENGTH) {
+          return;
+        }
+
+        if (!header.subarray(0, MAGIC.length).equals(MAGIC)) {
+          throw new Error('Not an encrypted Docker Pilot archive');
+        }
+
+        const salt = header.subarray(MAGIC.length, MAGIC.length + SALT_LENGTH);
+        const iv = header.subarray(MAGIC.length + SALT_LENGTH, HEADER_LENGTH);
+        const key = await this.deriveKey(keyMaterial, salt);
+
+        decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+        data = header.subarray(HEADER_LENGTH);
+      }
+
+      // Hold back the trailing bytes, the last 16 are the auth tag
+      const buffered = Buffer.concat([tail, data]);
+      const cut = Math.max(0, buffered.length - TAG_LENGTH);
+      tail = buffered.subarray(cut);
+
+      if (cut > 0) {
+        stream.push(decipher.update(buffered.subarray(0, cut)));
+      }
+    };
+
+    return new Transform({
+      transform(this: Transform, chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+        processChunk(this, chunk).then(() => callback(), callback);
+      },
+      flush(this: Transform, callback: TransformCallback) {
+        if (!decipher || tail.length < TAG_LENGTH) {
+          callback(new Error('Encrypted archive is truncated'));
+          return;
+        }
+
+        try {
+          decipher.setAuthTag(tail);
+          this.push(decipher.final());
+          callback();
+        } catch {
+          callback(new Error('Authentication failed: wrong key or the archive was tampered with'));
+        }
+      }
+    });
+  }
+
+  /**
+   * Derive the AES key from key material and salt
+   */
+  private deriveKey(keyMaterial: string, salt: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      crypto.scrypt(keyMaterial, salt, KEY_LENGTH, (error, key) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(key);
+        }
+      });
+    });
+  }
+}
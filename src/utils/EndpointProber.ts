@@ -0,0 +1,136 @@
+/**
+ * Endpoint probes for Docker Pilot
+ * Checks the application endpoints in monitoring.urls: HTTP(S) URLs must answer
+ * with a status below 400, tcp://host:port endpoints must accept a connection
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { TLSSocket } from 'tls';
+import { ProbeResult, ServiceStatus } from '../types';
+import { Logger } from './Logger';
+
+export interface EndpointProberOptions {
+  timeout?: number;
+}
+
+export class EndpointProber {
+  private logger: Logger;
+  private timeout: number;
+
+  constructor(logger?: Logger, options: EndpointProberOptions = {}) {
+    this.logger = logger || new Logger();
+    this.timeout = options.timeout ?? 5000;
+  }
+
+  /**
+   * Probe every configured URL, optionally limited to some services
+   */
+  async probeAll(urls: Record<string, string>, services?: string[]): Promise<ProbeResult[]> {
+    const entries = Object.entries(urls)
+      .filter(([service]) => !services || services.includes(service));
+
+    return Promise.all(entries.map(([service, url]) => this.probe(service, url)));
+  }
+
+  /**
+   * Probe a single endpoint. Never rejects: failures are reported in the result.
+   */
+  async probe(service: string, url: string): Promise<ProbeResult> {
+    const startedAt = Date.now();
+    let target: URL;
+
+    try {
+      target = new URL(url);
+    } catch {
+      return this.failure(service, url, 'http', startedAt, `Invalid URL: ${url}`);
+    }
+
+    const result = target.protocol === 'tcp:'
+      ? await this.probeTcp(service, url, target, startedAt)
+      : await this.probeHttp(service, url, target, startedAt);
+
+    this.logger.debug(`Probe ${service} ${url}: ${result.healthy ? 'healthy' : 'unhealthy'} in ${result.latency}ms`, {
+      statusCode: result.statusCode,
+      error: result.error
+    });
+
+    return result;
+  }
+
+  /**
+   * Attach probe results to service statuses as application-level health
+   */
+  static merge<T extends Pick<ServiceStatus, 'name'>>(
+    services: T[],
+    probes: ProbeResult[]
+  ): Array<T & Pick<ServiceStatus, 'appHealth' | 'probe'>> {
+    return services.map(service => {
+      const probe = probes.find(result => result.service === service.name);
+      return probe
+        ? { ...service, appHealth: probe.healthy ? 'healthy' : 'unhealthy', probe }
+        : service;
+    });
+  }
+
+  private probeHttp(service: string, url: string, target: URL, startedAt: number): Promise<ProbeResult> {
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return Promise.resolve(this.failure(service, url, 'http', startedAt, `Unsupported protocol: ${target.protocol}`));
+    }
+
+    const transport = target.protocol === 'https:' ? https : http;
+
+    return new Promise(resolve => {
+      const req = transport.request(target, {
+        method: 'GET',
+        timeout: this.timeout,
+        agent: false,
+        headers: { 'user-agent': 'docker-pilot-probe' }
+      }, response => {
+        const statusCode = response.statusCode || 0;
+        const certificate = response.socket instanceof TLSSocket ? response.socket.getPeerCertificate() : null;
+        response.resume();
+
+        resolve({
+          service,
+          url,
+          type: 'http',
+          healthy: statusCode > 0 && statusCode < 400,
+          statusCode,
+          latency: Date.now() - startedAt,
+          ...(statusCode >= 400 && { error: `HTTP ${statusCode}` }),
+          ...(certificate?.valid_to && { tlsExpiresAt: new Date(certificate.valid_to) }),
+          checkedAt: new Date()
+        });
+      });
+
+      req.on('timeout', () => req.destroy(new Error(`Timed out after ${this.timeout}ms`)));
+      req.on('error', error => resolve(this.failure(service, url, 'http', startedAt, error.message)));
+      req.end();
+    });
+  }
+
+  private probeTcp(service: string, url: string, target: URL, startedAt: number): Promise<ProbeResult> {
+    const port = Number(target.port);
+    if (!port) {
+      return Promise.resolve(this.failure(service, url, 'tcp', startedAt, `Missing port in ${url}`));
+    }
+
+    return new Promise(resolve => {
+      const socket = net.connect({ host: target.hostname, port });
+      socket.setTimeout(this.timeout);
+
+      socket.once('connect', () => {
+        socket.destroy();
+        resolve({ service, url, type: 'tcp', healthy: true, latency: Date.now() - startedAt, checkedAt: new Date() });
+      });
+      socket.once('timeout', () => socket.destroy(new Error(`Timed out after ${this.timeout}ms`)));
+      socket.once('error', error => resolve(this.failure(service, url, 'tcp', startedAt, error.message)));
+    });
+  }
+
+  private failure(service: string, url: string, type: ProbeResult['type'], startedAt: number, error: string): ProbeResult {
+    return { service, url, type, healthy: false, latency: Date.now() - startedAt, error, checkedAt: new Date() };
+  }
+}
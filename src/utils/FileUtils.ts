@@ -615,9 +615,13 @@ export class FileUtils {
   /**
    * Watch file or directory for changes
    */
-  watchPath(targetPath: string, callback: (eventType: string, filename: string | null) => void): fs.FSWatcher {
+  watchPath(
+    targetPath: string,
+    callback: (eventType: string, filename: string | null) => void,
+    options: { recursive?: boolean } = {}
+  ): fs.FSWatcher {
     this.logger.debug(`Watching path: ${targetPath}`);
-    return fs.watch(targetPath, { recursive: true }, callback);
+    return fs.watch(targetPath, { recursive: options.recursive ?? true }, callback);
   }  /**
    * Create backup of file (maintains only one backup)
    */
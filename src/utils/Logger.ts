@@ -409,10 +409,10 @@ export class Logger {
   }
 
   /**
-   * Create child logger with context
+   * Create child logger with context; its messages are labelled with the source
    */
   child(source: string): Logger {
-    const childLogger = new Logger(this.config);
+    const childLogger = new Logger({ ...this.config, enableSource: true });
 
     // Override log method to always include source
     const originalLog = childLogger.log.bind(childLogger);
@@ -0,0 +1,84 @@
+/**
+ * Structured output for Docker Pilot
+ * With --output json|yaml the CLI prints a single document on stdout, built from
+ * the CommandResult of the command; logs and any other output go to stderr
+ */
+
+import * as yaml from 'js-yaml';
+import { CommandResult, EXIT_CODES } from '../types';
+
+export const OUTPUT_FORMATS = ['json', 'yaml'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface OutputDocument {
+  command: string;
+  success: boolean;
+  exitCode: number;
+  output?: string;
+  error?: string;
+  executionTime?: number;
+  data?: unknown;
+}
+
+export class OutputFormatter {
+  private format: OutputFormat;
+  private stdoutWrite: typeof process.stdout.write | null = null;
+
+  constructor(format: OutputFormat) {
+    this.format = format;
+  }
+
+  static isFormat(value: string): value is OutputFormat {
+    return (OUTPUT_FORMATS as readonly string[]).includes(value);
+  }
+
+  /**
+   * Send everything written to stdout to stderr, so that only the document is
+   * printed on stdout
+   */
+  captureStdout(): void {
+    if (this.stdoutWrite) {
+      return;
+    }
+
+    this.stdoutWrite = process.stdout.write;
+    process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+  }
+
+  /**
+   * Restore stdout and print the document of a command result on it
+   */
+  async write(command: string, result: CommandResult): Promise<void> {
+    const text = this.serialize(OutputFormatter.toDocument(command, result));
+
+    if (this.stdoutWrite) {
+      process.stdout.write = this.stdoutWrite;
+      this.stdoutWrite = null;
+    }
+
+    // Wait for the write to be flushed, the CLI exits right after
+    await new Promise<void>(resolve => process.stdout.write(text, () => resolve()));
+  }
+
+  serialize(document: OutputDocument): string {
+    // Through JSON first, so both formats carry the same values (dates as ISO strings)
+    const plain = JSON.parse(JSON.stringify(document));
+
+    return this.format === 'json'
+      ? `${JSON.stringify(plain, null, 2)}\n`
+      : yaml.dump(plain, { noRefs: true, lineWidth: -1 });
+  }
+
+  static toDocument(command: string, result: CommandResult): OutputDocument {
+    return {
+      command,
+      success: result.success,
+      exitCode: result.success ? EXIT_CODES.SUCCESS : result.exitCode || EXIT_CODES.FAILURE,
+      ...(result.output && { output: result.output }),
+      ...(result.error && { error: result.error }),
+      ...(result.executionTime !== undefined && { executionTime: result.executionTime }),
+      ...(result.data !== undefined && { data: result.data })
+    };
+  }
+}
@@ -3,12 +3,14 @@
  * Provides validation for various Docker Pilot configurations and inputs
  */
 
+import * as path from 'path';
 import { z } from 'zod';
 import * as semver from 'semver';
 import { DockerPilotConfig, DockerPilotConfigSchema } from '../types';
 import { Logger } from './Logger';
 import { FileUtils } from './FileUtils';
 import { I18n } from './i18n';
+import { CronExpression } from './CronExpression';
 
 export interface ValidationResult {
   valid: boolean;
@@ -80,6 +82,30 @@ export class ValidationUtils {
     return result;
   }
 
+  /**
+   * Validate a plugin's section of config.pluginConfig against the schema the plugin exports
+   */
+  validatePluginConfig(pluginName: string, schema: z.ZodTypeAny, section: unknown): ValidationResult {
+    const result: ValidationResult = {
+      valid: true,
+      errors: [],
+      warnings: []
+    };
+
+    const parsed = schema.safeParse(section ?? {});
+    if (!parsed.success) {
+      result.valid = false;
+      result.errors = parsed.error.errors.map(err => ({
+        field: ['pluginConfig', pluginName, ...err.path].join('.'),
+        message: err.message,
+        code: err.code,
+        value: 'received' in err ? err.received : undefined
+      }));
+    }
+
+    return result;
+  }
+
   /**
    * Validate business rules beyond schema validation
    */
@@ -213,10 +239,24 @@ export class ValidationUtils {
   }
 
   /**
-   * Validate plugin paths
+   * Validate plugin paths and packages
    */
   private async validatePlugins(plugins: string[], result: ValidationResult): Promise<void> {
     for (const pluginPath of plugins) {
+      // Bare names are npm packages, looked up in the project's node_modules
+      if (!pluginPath.startsWith('.') && !path.isAbsolute(pluginPath)) {
+        try {
+          require.resolve(pluginPath, { paths: [process.cwd()] });
+        } catch {
+          result.warnings.push({
+            field: 'plugins',
+            message: `Plugin package not installed: ${pluginPath}`,
+            suggestion: `Install it with "npm install ${pluginPath}" or remove it from configuration`
+          });
+        }
+        continue;
+      }
+
       const exists = await this.fileUtils.exists(pluginPath);
       if (!exists) {
         result.warnings.push({
@@ -254,6 +294,34 @@ export class ValidationUtils {
         result.valid = false;
       }
     }
+
+    // Validate remote storage if configured
+    const cloud = backupConfig.cloud;
+    if (cloud?.provider) {
+      if (cloud.provider === 'local' && !cloud.directory) {
+        result.errors.push({
+          field: 'backup.cloud.directory',
+          message: 'A directory is required for the local storage provider',
+          code: 'MISSING_STORAGE_DIRECTORY'
+        });
+        result.valid = false;
+      } else if (['aws', 'gcp', 's3'].includes(cloud.provider) && !cloud.bucket) {
+        result.errors.push({
+          field: 'backup.cloud.bucket',
+          message: `A bucket is required for the ${cloud.provider} storage provider`,
+          code: 'MISSING_STORAGE_BUCKET'
+        });
+        result.valid = false;
+      } else if (cloud.provider === 'azure') {
+        result.errors.push({
+          field: 'backup.cloud.provider',
+          message: 'The azure storage provider is not supported yet',
+          code: 'UNSUPPORTED_STORAGE_PROVIDER',
+          value: cloud.provider
+        });
+        result.valid = false;
+      }
+    }
   }
 
   /**
@@ -278,9 +346,23 @@ export class ValidationUtils {
           message: `Invalid URL format: ${url}`,
           suggestion: 'Ensure URLs are properly formatted with protocol'
         });
+      } else if (typeof url === 'string' && !/^(https?|tcp):\/\//i.test(url)) {
+        result.warnings.push({
+          field: `monitoring.urls.${serviceName}`,
+          message: `Unsupported probe protocol: ${url}`,
+          suggestion: 'Use http://, https:// or tcp://host:port'
+        });
       }
     }
 
+    if (monitoringConfig.alerts?.enabled && !monitoringConfig.alerts.webhook && !monitoringConfig.alerts.email) {
+      result.warnings.push({
+        field: 'monitoring.alerts',
+        message: 'Alerts are enabled but no delivery channel is configured',
+        suggestion: 'Set monitoring.alerts.webhook and/or monitoring.alerts.email'
+      });
+    }
+
     // Validate alert thresholds
     if (monitoringConfig.alerts?.thresholds) {
       const thresholds = monitoringConfig.alerts.thresholds;
@@ -494,8 +576,7 @@ export class ValidationUtils {
    * Validate cron expression (basic validation)
    */
   private isValidCronExpression(cron: string): boolean {
-    const cronRegex = /^(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s+(\S+)(\s+(\S+))?$/;
-    return cronRegex.test(cron);
+    return CronExpression.isValid(cron);
   }
 
   /**
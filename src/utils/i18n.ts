@@ -128,6 +128,9 @@ export const messages: Messages = {
     'command.restart_service': 'Restart {service}',
     'command.logs_service': 'View {service} logs',    // Compose Management Commands
     'command.compose_management': 'Compose Files Management',
+    'command.plugins': 'Plugins',
+    'command.plugin_command_success': '✅ {command} completed',
+    'command.plugin_command_failed': '❌ {command} failed: {error}',
     'command.compose_list': 'List docker-compose files',
     'command.compose_find': 'Find docker-compose files',
     'command.compose_analyze': 'Analyze docker-compose file',
@@ -143,9 +146,10 @@ export const messages: Messages = {
     'command.replace_services_question': 'Replace current services with those from compose file? (y/N): ',
     'command.updating_images': 'Updating images...',
     'command.update_complete': 'Update completed!',
-    'command.deep_clean_warning': '⚠️ This will remove unused images, volumes and networks. Continue? (y/N): ',
+    'command.deep_clean_warning': 'This will stop the services and remove their volumes, and unused images and networks',
     'command.operation_cancelled': 'Operation cancelled.',
     'command.deep_clean_complete': 'Deep clean completed!',
+    'command.deep_clean_failed': 'Deep clean failed: {error}',
     'command.no_services_configured': 'No services configured',
     'command.available_services': 'Available services:',
     'command.choose_service': 'Choose the service (or Enter for the first): ',
@@ -156,8 +160,6 @@ export const messages: Messages = {
     'command.health_status': '🏥 Services status:',
     'command.health_check_complete': 'Health check completed!',
     'command.monitoring_start': '📊 Starting real-time monitoring...',
-    'command.monitoring_tip': '💡 Press Ctrl+C to stop monitoring',
-    'command.docker_monitor': '🐳 Docker Monitor - {time}',
     'command.monitoring_stopped': '📊 Monitoring stopped.',
     'command.stop_logs_tip': '💡 Press Ctrl+C to stop viewing logs',
     'command.showing_logs': '📜 Showing {service} logs...',
@@ -261,12 +263,32 @@ export const messages: Messages = {
     'plugin.config_updated': 'Config updated for plugin: {name}',
     'plugin.hook_registered': 'Registered hook: {hook} for plugin: {name}',
     'plugin.hook_failed': 'Hook execution failed: {hook}',
+    'plugin.hook_timeout': 'Hook {hook} did not finish within {timeout}ms',
+    'plugin.timeout_vetoed': '{hook} timed out; the operation is blocked (vetoOnTimeout)',
+    'plugin.timeout_ignored': '{hook} timed out; the operation continues (vetoOnTimeout is off)',
+    'plugin.auto_disabled': 'Plugin {name} was disabled after {count} consecutive failures',
+    'plugin.reloaded': 'Plugin reloaded: {name}',
     'plugin.manager_initialized': 'Plugin Manager initialized',
     'plugin.cleanup_completed': 'Plugin cleanup completed',
     'plugin.dir_not_found': 'Plugin directory not found: {dir}',
+    'plugin.vetoed': 'Blocked by plugin {name}: {error}',
+    'plugin.config_not_loaded': 'Configuration is not loaded yet (plugin {name})',
+    'plugin.not_initialized': 'Plugin {name} is not initialized',
+    'plugin.not_installed': 'Plugin {name} is not installed in the project (npm install {name})',
+    'plugin.config_invalid': 'Plugin {name} has invalid settings in pluginConfig: {errors}',
+    'plugin.no_version_range': 'Plugin {name} does not declare the Docker Pilot versions it supports (metadata.dockerPilot)',
+    'plugin.invalid_version_range': 'Plugin {name} declares an invalid Docker Pilot version range: {range}',
+    'plugin.incompatible': 'Plugin {name} supports Docker Pilot {range}, but this is version {version}',
+    'plugin.service_manager_unavailable': 'Service manager is not available to plugin {name}',
+    'plugin.command_description': 'Provided by plugin {name}',
+    'plugin.command_not_found': 'Plugin command not found: {command}',
+    'plugin.command_invalid': 'Plugin {name} declares command {command} without a handler',
+    'plugin.command_duplicate': 'Plugin {name} declares command {command}, already provided by {other}',
+    'plugin.command_conflict': 'Plugin {name} declares command {command}, which is a built-in command',
 
     // Validation
     'validation.config_invalid': 'Invalid configuration',
+    'validation.plugin_config_unknown': 'pluginConfig.{name} does not belong to a loaded plugin',
     'validation.project_name_invalid': 'Project name should contain only lowercase letters, numbers, hyphens, and underscores',
     'validation.project_name_long': 'Project name cannot exceed 63 characters',
     'validation.service_name_invalid': 'Invalid service name format',
@@ -309,6 +331,7 @@ export const messages: Messages = {
     'cli.help.usage_interactive': '  docker-pilot                        # Start interactive menu (default)',
     'cli.help.usage_interactive_flag': '  docker-pilot --interactive          # Start interactive menu',
     'cli.help.commands': 'COMMANDS:',
+    'cli.help.plugin_commands': 'PLUGIN COMMANDS:',
     'cli.help.cmd_up': '  up, start      Start all services or a specific service',
     'cli.help.cmd_down': '  down, stop     Stop all services or a specific service',
     'cli.help.cmd_status': '  status, ps     Show status of services',
@@ -393,6 +416,7 @@ export const messages: Messages = {
     'cmd.logs.following_all': '📜 Following logs for all services...',
     'cmd.logs.stop_tip': 'Press Ctrl+C to stop',
     'cmd.logs.failed': '❌ Failed to fetch logs: {error}',
+    'cmd.logs.invalid_tail': 'Invalid value for --tail: {value} (expected a number of lines or all)',
 
     // Restart Command
     'cmd.restart.loading': 'Restarting {service}...',
@@ -405,7 +429,8 @@ export const messages: Messages = {
     'cmd.clean.loading': 'Cleaning Docker resources...',
     'cmd.clean.success': '✅ Successfully cleaned Docker resources',
     'cmd.clean.failed': '❌ Clean failed: {error}',
-    'cmd.clean.confirm': 'This will remove unused Docker resources. Continue? (y/N): ',
+    'cmd.clean.confirm': 'This will remove unused Docker resources',
+    'cmd.clean.confirm_deep': 'This will remove unused Docker resources, including tagged images',
     'cmd.clean.cancelled': 'Clean operation cancelled',
     'cmd.clean.removing_containers': 'Removing stopped containers...',
     'cmd.clean.removing_images': 'Removing unused images...',
@@ -595,7 +620,274 @@ export const messages: Messages = {
     // Compose interface messages
     'compose.available_files': 'Available docker-compose files:',
     'compose.select_file_to_analyze': 'Select file to analyze (1-10): ',
-    'compose.select_file_to_validate': 'Select file to validate (1-10): '
+    'compose.select_file_to_validate': 'Select file to validate (1-10): ',
+
+    // Backup messages
+    'backup.disabled': 'Backups are disabled in configuration (backup.enabled = false)',
+    'backup.no_services': 'No services have a backup definition in backup.services',
+    'backup.service_not_configured': 'Service "{service}" has no backup definition in backup.services',
+    'backup.starting': 'Backing up {service}...',
+    'backup.completed': 'Backup of {service} written to {file}',
+    'backup.failed': 'Backup of {service} failed: {error}',
+    'backup.post_hook_failed': 'Post-backup hook of {service} failed, the archive was kept: {error}',
+    'backup.command_failed': 'Backup command exited with code {code}: {error}',
+    'backup.pruned': 'Removed {count} backup archive(s) past the retention period',
+    'cmd.backup.title': '💾 Backup Summary',
+    'cmd.backup.summary': '{succeeded} succeeded, {failed} failed',
+    'cmd.backup.prune_none': 'No backup archives past the retention period',
+    'cmd.backup.unknown_service': 'Service "{service}" has no backup definition',
+    'cli.help.cmd_backup': '  backup         Back up services defined in backup.services',
+    'cli.help.example_backup': '  docker-pilot backup postgres        # Back up the postgres service',
+
+    // Restore messages
+    'backup.no_archives': 'No backup archives found for {service}',
+    'backup.invalid_timestamp': 'Invalid timestamp "{timestamp}"',
+    'backup.archive_not_found': 'No backup archive of {service} taken at or before {timestamp}',
+    'backup.restore_not_configured': 'Service "{service}" has no restoreCommand in backup.services',
+    'backup.manifest_missing': 'Checksum manifest missing for {file}; the archive cannot be verified',
+    'backup.checksum_mismatch': 'Checksum mismatch for {file}; the archive is corrupted or was modified',
+    'backup.checksum_verified': 'Checksum verified for {file}',
+    'backup.safety_backup': 'Safety backup of the current data written to {file}',
+    'backup.safety_backup_failed': 'Safety backup failed, restore aborted: {error}',
+    'backup.restore_starting': 'Restoring {service} from {file}...',
+    'backup.restore_completed': 'Restore of {service} completed',
+    'backup.restore_failed': 'Restore of {service} failed: {error}',
+    'backup.restore_command_failed': 'Restore command exited with code {code}: {error}',
+    'cmd.restore.catalog_title': '📚 Backup Catalog',
+    'cmd.restore.catalog_empty': 'No backup archives found in {directory}',
+    'cmd.restore.column_service': 'SERVICE',
+    'cmd.restore.column_timestamp': 'TIMESTAMP',
+    'cmd.restore.column_size': 'SIZE',
+    'cmd.restore.column_checksum': 'CHECKSUM (SHA-256)',
+    'cmd.restore.no_manifest': '(no manifest)',
+    'cmd.restore.selected': 'Selected archive: {file} ({timestamp})',
+    'cmd.restore.confirm': 'Restore {service} from {timestamp}? Current data in {service} will be replaced (a safety backup is taken first)',
+    'base.confirm_prompt': 'Continue? (y/N): ',
+    'base.confirm_type_prompt': 'Type "{text}" to confirm: ',
+    'base.confirm_type_mismatch': 'Confirmation text did not match',
+    'base.confirmation_required_non_interactive': 'This action requires confirmation; run it in an interactive terminal or pass --yes',
+    'cmd.restore.success': '{service} restored from {file}',
+    'cmd.restore.undo_hint': 'To undo, restore the safety backup: docker-pilot restore {service} --at {timestamp}',
+    'cli.help.cmd_restore': '  restore        Restore a service from a backup archive',
+    'cli.help.example_restore': '  docker-pilot restore postgres       # Restore postgres from its latest backup',
+
+    // Backup encryption messages
+    'backup.encryption_key_missing': 'Backup encryption key not found; set the {env} environment variable or backup.encryptionKeyFile',
+    'backup.encryption_key_file_missing': 'Backup encryption key file not found: {file}',
+    'backup.archive_unreadable': 'Archive {file} failed verification: {error}',
+    'cmd.backup.verifying': 'Verifying {count} backup archive(s)...',
+    'cmd.backup.verify_none': 'No backup archives to verify',
+    'cmd.backup.verify_summary': '{valid} archive(s) valid, {invalid} invalid',
+    'cmd.backup.encrypted': '(encrypted)',
+
+    // Scheduler and daemon messages
+    'scheduler.no_schedule': 'No backup schedule configured (set backup.schedule and backup.enabled)',
+    'scheduler.catching_up': 'Backup scheduled for {time} was missed while the daemon was down, running it now',
+    'scheduler.tick_failed': 'Backup scheduler failed to run',
+    'scheduler.state_unreadable': 'Could not read scheduler state from {file}, starting fresh',
+    'scheduler.state_save_failed': 'Could not save scheduler state to {file}: {error}',
+    'cmd.daemon.nothing_to_schedule': 'Nothing to run: set backup.schedule (and backup.enabled) or enable monitoring in the configuration',
+    'cmd.daemon.starting': 'Starting daemon with backup schedule "{schedule}"...',
+    'cmd.daemon.started': 'Daemon running, press Ctrl+C to stop',
+    'cmd.daemon.next_run': 'Next backup: {time}',
+    'cmd.daemon.stopping': 'Received {signal}, stopping daemon...',
+    'cmd.daemon.stopped': 'Daemon stopped',
+    'cmd.daemon.failed': 'Daemon failed: {error}',
+    'cmd.daemon.backup_started': 'Scheduled backup started ({trigger})',
+    'cmd.daemon.backup_succeeded': 'Scheduled backup finished: {count} service(s) backed up',
+    'cmd.daemon.backup_failed': 'Scheduled backup failed: {error}',
+    'cli.help.cmd_daemon': '  daemon         Run scheduled backups and alerting in the foreground',
+    'cli.help.example_daemon': '  docker-pilot daemon                 # Run backups on backup.schedule',
+
+    // Remote backup storage messages
+    'backup.uploaded': 'Uploaded to {provider} storage: {key}',
+    'backup.upload_failed': 'Upload of {service} backup to remote storage failed: {error}',
+    'backup.downloading': 'Downloading {key} from {provider} storage...',
+    'backup.remote_not_configured': 'Archive is only available remotely but no remote storage is configured (backup.cloud)',
+    'backup.remote_list_failed': 'Could not list remote backups: {error}',
+    'backup.remote_prune_failed': 'Could not apply retention to remote backups: {error}',
+    'cmd.restore.column_location': 'LOCATION',
+    'cmd.restore.location_local': 'local',
+    'cmd.restore.location_remote': 'remote',
+    'cmd.restore.location_both': 'local+remote',
+    'cmd.restore.remote_checksum': '(checked on download)',
+
+    // Volume messages
+    'volume.not_found': 'Volume "{volume}" not found',
+    'volume.invalid_name': 'Invalid volume name "{volume}"',
+    'volume.already_exists': 'Volume "{volume}" already exists',
+    'volume.no_snapshots': 'No snapshots found for volume {volume}',
+    'volume.snapshot_not_found': 'No snapshot of {volume} taken at or before {timestamp}',
+    'volume.snapshot_starting': 'Snapshotting volume {volume}...',
+    'volume.snapshot_completed': 'Snapshot of {volume} written to {file}',
+    'volume.restore_starting': 'Restoring volume {volume} from {file}...',
+    'volume.restore_completed': 'Volume {volume} restored',
+    'volume.clone_starting': 'Cloning volume {source} into {destination}...',
+    'volume.clone_completed': 'Volume {source} cloned into {destination}',
+    'volume.create_failed': 'Failed to create volume {volume}: {error}',
+    'volume.helper_failed': 'Helper container failed: {error}',
+    'volume.in_use': 'Volume {volume} is in use by running containers ({containers}); stop them before restoring',
+    'volume.in_use_warning': 'Volume {volume} is in use by running containers ({containers}); stop them for a consistent copy',
+    'cmd.volume.title': '💽 Volumes',
+    'cmd.volume.none': 'No volumes configured or found for this project',
+    'cmd.volume.configured': 'configured',
+    'cmd.volume.external': 'external',
+    'cmd.volume.missing': 'not created',
+    'cmd.volume.snapshots_title': '📸 Volume Snapshots',
+    'cmd.volume.no_snapshots': 'No volume snapshots found',
+    'cmd.volume.name_required': 'Volume name is required',
+    'cmd.volume.clone_usage': 'Usage: docker-pilot volume clone <source> <destination>',
+    'cmd.volume.unknown_action': 'Unknown volume action: {action}',
+    'cmd.volume.confirm_restore': 'Restore volume {volume} from {timestamp}? Its current contents will be replaced (a safety snapshot is taken first)',
+    'cmd.volume.restored': 'Volume {volume} restored from snapshot {timestamp}',
+    'cmd.volume.undo_hint': 'To undo, restore the safety snapshot: docker-pilot volume restore {volume} --at {timestamp}',
+    'cli.help.cmd_volume': '  volume         Snapshot, restore and clone Docker volumes',
+    'cli.help.example_volume': '  docker-pilot volume clone db db_bak  # Clone a volume before a risky change',
+
+    // Service monitor messages
+    'monitor.disabled': 'Monitoring is disabled (set monitoring.enabled)',
+    'monitor.sample_failed': 'Failed to sample service resource usage: {error}',
+    'cmd.daemon.monitor_starting': 'Monitoring services every {interval}s...',
+    'cmd.daemon.history_enabled': 'Recording metrics history (kept for {retention} day(s))',
+    'cmd.daemon.alerts_enabled': 'Alerting when CPU > {cpu}% or memory > {memory}% for {duration}s',
+    'cmd.daemon.alert_firing': 'ALERT {service}: {metric} at {value}% (threshold {threshold}%)',
+    'cmd.daemon.alert_resolved': 'RESOLVED {service}: {metric} back to {value}%',
+
+    // Alert delivery messages
+    'alerts.summary_firing': '{service} {metric} at {value}% (threshold {threshold}%)',
+    'alerts.summary_resolved': '{service} {metric} back to {value}% (threshold {threshold}%)',
+    'alerts.delivery_failed': 'Failed to deliver alert {alert} via {channel}: {error}',
+    'cmd.daemon.no_alert_channels': 'No alert channel configured: alerts are only logged (set monitoring.alerts.webhook or monitoring.alerts.email)',
+
+    // Stats and metrics history messages
+    'metrics.write_failed': 'Failed to record metrics history: {error}',
+    'cmd.stats.title': '📈 Resource Usage',
+    'cmd.stats.no_running': 'No running services to show statistics for',
+    'cmd.stats.invalid_duration': 'Invalid duration "{duration}" (use e.g. 30m, 1h, 7d)',
+    'cmd.stats.history_title': '📈 Resource Usage History - last {duration} (since {since})',
+    'cmd.stats.no_history': 'No metrics recorded in the last {duration} ({directory})',
+    'cmd.stats.no_history_hint': '💡 Run "docker-pilot daemon" to record metrics history',
+    'cmd.stats.recreated': '↻ Container recreated at {time}',
+    'cli.help.cmd_stats': '  stats          Show resource usage, live or as history sparklines',
+    'cli.help.example_stats': '  docker-pilot stats --history 1h     # Sparklines and min/avg/max for the last hour',
+
+    // Prometheus exporter messages
+    'metrics.listen_failed': 'Could not serve metrics on {address}: {error}',
+    'metrics.scrape_failed': 'Failed to collect metrics: {error}',
+    'cmd.daemon.invalid_metrics_port': 'Invalid metrics port "{port}" (expected 1-65535)',
+    'cmd.daemon.metrics_serving': 'Serving Prometheus metrics on {url}',
+    'cmd.daemon.plugin_reload_failed': 'Failed to reload plugin {name}: {error}',
+
+    // Live dashboard
+    'dashboard.requires_tty': 'The live dashboard needs an interactive terminal; showing the current status instead.',
+    'dashboard.loading': 'Loading...',
+    'dashboard.updated': 'Updated {time}',
+    'dashboard.no_services': 'No services found',
+    'dashboard.logs_title': 'Logs: {service}',
+    'dashboard.logs_failed': 'Could not tail the logs of this service',
+    'dashboard.refresh_failed': 'Refresh failed: {error}',
+    'dashboard.action_running': 'Running {action} on {service}...',
+    'dashboard.action_success': '{service}: {action} done',
+    'dashboard.action_failed': '{service}: {action} failed: {error}',
+    'dashboard.shell_failed': 'Shell in {service} failed: {error}',
+    'dashboard.keys': '↑/↓ select   r restart   s stop   u start   h/Enter shell   q quit',
+
+    // Development watcher
+    'dev.hot_reload_disabled': 'Hot reload is disabled (set development.hotReload to true)',
+    'dev.nothing_to_watch': 'Nothing to watch: set development.watchFiles or a build.context for a service',
+    'dev.path_missing': 'Not watching {path}: it does not exist',
+    'dev.watch_failed': 'Watching {path} failed: {error}',
+    'cmd.dev.invalid_debounce': 'Invalid debounce "{value}": expected a number of milliseconds',
+    'cmd.dev.watching': '👀 Watching {path}',
+    'cmd.dev.watching_build_contexts': 'development.watchFiles is empty, watching the build context of every service',
+    'cmd.dev.started': 'Watching for changes, press Ctrl+C to stop',
+    'cmd.dev.change': '📝 {file} → {targets}',
+    'cmd.dev.change_ignored': '{file} changed but belongs to no service',
+    'cmd.dev.rebuild_start': 'Rebuilding and recreating {service} ({files})...',
+    'cmd.dev.restart_start': 'Restarting {service} ({files})...',
+    'cmd.dev.rebuild_done': '{service} rebuilt and recreated',
+    'cmd.dev.restart_done': '{service} restarted',
+    'cmd.dev.rebuild_failed': 'Rebuilding {service} failed: {error}',
+    'cmd.dev.restart_failed': 'Restarting {service} failed: {error}',
+    'cmd.dev.stopping': 'Received {signal}, stopping watcher...',
+    'cmd.dev.stopped': 'Watcher stopped',
+    'cli.help.cmd_dev': '  dev            Watch files and rebuild or restart the affected services',
+    'cli.help.example_dev': '  docker-pilot dev                    # Rebuild/restart services as their files change',
+
+    // Migrations and seeds
+    'task.migrate_running': 'Running migrations of {service}: {command}',
+    'task.seed_running': 'Seeding {service}: {command}',
+    'task.migrate_success': 'Migrations of {service} completed',
+    'task.seed_success': '{service} seeded',
+    'task.migrate_failed': 'Migrations of {service} failed',
+    'task.seed_failed': 'Seeding {service} failed',
+    'task.not_defined': 'Service {service} has no {task} command (set services.{service}.{task})',
+    'task.none_defined': 'No service defines a {task} command',
+    'task.completed': '{task} completed for {count} service(s)',
+    'task.not_ready': '{service} did not become healthy, skipping its migrations and seeds',
+    'task.seed_production': 'Refusing to seed: development.environment is production',
+    'task.seed_skipped_production': 'development.seedData is on but the environment is production, seeds are skipped',
+    'cli.help.cmd_migrate': '  migrate        Run database migrations of services',
+    'cli.help.cmd_seed': '  seed           Seed databases with development data',
+    'cli.help.example_migrate': '  docker-pilot migrate api            # Run the migrate command of the api service',
+
+    // Plugin command
+    'cmd.plugin.title': '🧩 Plugins',
+    'cmd.plugin.none': 'No plugins configured (add them with docker-pilot plugin enable <name>)',
+    'cmd.plugin.failed': 'not loaded: {error}',
+    'cmd.plugin.name_required': 'Plugin name is required',
+    'cmd.plugin.unknown_action': 'Unknown plugin action: {action}. Available actions: list, info, enable, disable, reload',
+    'cmd.plugin.enabled': 'Plugin {name} {version} enabled',
+    'cmd.plugin.disabled': 'Plugin {name} disabled',
+    'cmd.plugin.reloaded': 'Plugin {name} reloaded ({version})',
+    'cmd.plugin.daemon_notified': 'Asked the running daemon (pid {pid}) to reload it',
+    'cmd.plugin.daemon_unreachable': 'Could not notify the running daemon: {error}',
+    'cmd.plugin.version': 'Version',
+    'cmd.plugin.description': 'Description',
+    'cmd.plugin.author': 'Author',
+    'cmd.plugin.supports': 'Supports',
+    'cmd.plugin.source': 'Source',
+    'cmd.plugin.commands': 'Commands',
+    'cmd.plugin.hooks': 'Hooks',
+    'cmd.plugin.homepage': 'Homepage',
+    'cmd.plugin.none_value': '-',
+    'cli.help.cmd_plugin': '  plugin         List, inspect, enable, disable and reload plugins',
+    'cli.help.example_plugin': '  docker-pilot plugin enable docker-pilot-slack  # Load an npm plugin and add it to the config',
+
+    // Environment profiles
+    'config.profile_active': 'Using the {environment} profile ({overlay})',
+    'config.profile_no_overlay': 'no overlay file',
+    'config.profile_compose': 'Compose file for this environment: {file}',
+    'cli.invalid_environment': 'Unknown environment "{environment}", expected one of: {environments}',
+    'cli.help.opt_env': '  --env <name>         Environment profile (development, staging, production)',
+
+    // Structured output
+    'cli.invalid_output': 'Unknown output format "{format}", expected one of: {formats}',
+    'cli.output_requires_command': 'The interactive menu has no structured output; pass a command with --output',
+    'cli.help.opt_output': '  --output <format>    Print the result as a json or yaml document on stdout (logs go to stderr)',
+    'cli.help.example_output': '  docker-pilot status --output json                # Machine-readable service status',
+    'cli.help.exit_codes': 'EXIT CODES:',
+    'cli.help.exit_success': '  0  Success',
+    'cli.help.exit_failure': '  1  The command failed',
+    'cli.help.exit_usage': '  2  Unknown command or invalid option value',
+    'cli.help.exit_docker': '  3  Docker is not installed or not running',
+    'cli.help.exit_cancelled': '  4  A destructive action was not confirmed (pass --yes outside a terminal)',
+
+    // Shell completion
+    'cmd.completion.invalid_shell': 'Unknown shell: {shell}. Supported shells: {shells}',
+    'cli.help.cmd_completion': '  completion     Generate bash, zsh or fish completion scripts',
+    'cli.help.example_completion': '  source <(docker-pilot completion bash)        # Enable completion in the current shell',
+
+    // Command options
+    'base.subcommands': 'Subcommands',
+    'base.options': 'Options',
+    'base.option_default': 'default: {value}',
+    'base.option_repeatable': 'repeatable',
+    'base.unknown_option': 'Unknown option {option} for {command}',
+    'base.option_requires_value': 'Option {option} requires a value',
+    'base.invalid_boolean': 'Invalid value for {option}: {value} (expected true or false)',
+    'base.invalid_number': 'Invalid value for {option}: {value} is not a number',
+    'cli.use_command_help': 'Use docker-pilot {command} --help to see its options'
   },
 
   'pt-br': {// Docker & System
@@ -651,6 +943,9 @@ export const messages: Messages = {
     'command.restart_service': 'Reiniciar {service}',
     'command.logs_service': 'Ver logs do {service}',    // Comandos de Gerenciamento de Compose
     'command.compose_management': 'Gerenciamento de Arquivos Compose',
+    'command.plugins': 'Plugins',
+    'command.plugin_command_success': '✅ {command} concluído',
+    'command.plugin_command_failed': '❌ {command} falhou: {error}',
     'command.compose_list': 'Listar arquivos docker-compose',
     'command.compose_find': 'Buscar arquivos docker-compose',
     'command.compose_analyze': 'Analisar arquivo docker-compose',
@@ -666,9 +961,10 @@ export const messages: Messages = {
     'command.replace_services_question': 'Substituir serviços atuais pelos do arquivo compose? (s/N): ',
     'command.updating_images': 'Atualizando imagens...',
     'command.update_complete': 'Atualização concluída!',
-    'command.deep_clean_warning': '⚠️ Isso removerá imagens, volumes e redes não utilizados. Continuar? (s/N): ',
+    'command.deep_clean_warning': 'Isso irá parar os serviços e remover seus volumes, além de imagens e redes não utilizadas',
     'command.operation_cancelled': 'Operação cancelada.',
     'command.deep_clean_complete': 'Limpeza profunda concluída!',
+    'command.deep_clean_failed': 'Falha na limpeza profunda: {error}',
     'command.no_services_configured': 'Nenhum serviço configurado',
     'command.available_services': 'Serviços disponíveis:',
     'command.choose_service': 'Escolha o serviço (ou Enter para o primeiro): ',
@@ -679,8 +975,6 @@ export const messages: Messages = {
     'command.health_status': '🏥 Status dos serviços:',
     'command.health_check_complete': 'Verificação de saúde concluída!',
     'command.monitoring_start': '📊 Iniciando monitoramento em tempo real...',
-    'command.monitoring_tip': '💡 Pressione Ctrl+C para parar o monitoramento',
-    'command.docker_monitor': '🐳 Monitor Docker - {time}',
     'command.monitoring_stopped': '📊 Monitoramento interrompido.',
     'command.stop_logs_tip': '💡 Pressione Ctrl+C para parar de visualizar os logs',
     'command.showing_logs': '📜 Mostrando logs do {service}...',
@@ -785,12 +1079,32 @@ export const messages: Messages = {
     'plugin.config_updated': 'Configuração atualizada para plugin: {name}',
     'plugin.hook_registered': 'Hook registrado: {hook} para plugin: {name}',
     'plugin.hook_failed': 'Execução do hook falhou: {hook}',
+    'plugin.hook_timeout': 'O hook {hook} não terminou em {timeout}ms',
+    'plugin.timeout_vetoed': '{hook} excedeu o tempo limite; a operação foi bloqueada (vetoOnTimeout)',
+    'plugin.timeout_ignored': '{hook} excedeu o tempo limite; a operação continua (vetoOnTimeout desativado)',
+    'plugin.auto_disabled': 'O plugin {name} foi desabilitado após {count} falhas consecutivas',
+    'plugin.reloaded': 'Plugin recarregado: {name}',
     'plugin.manager_initialized': 'Gerenciador de Plugins inicializado',
     'plugin.cleanup_completed': 'Limpeza de plugins completa',
     'plugin.dir_not_found': 'Diretório de plugins não encontrado: {dir}',
+    'plugin.vetoed': 'Bloqueado pelo plugin {name}: {error}',
+    'plugin.config_not_loaded': 'A configuração ainda não foi carregada (plugin {name})',
+    'plugin.not_initialized': 'O plugin {name} não foi inicializado',
+    'plugin.not_installed': 'O plugin {name} não está instalado no projeto (npm install {name})',
+    'plugin.config_invalid': 'O plugin {name} tem configurações inválidas em pluginConfig: {errors}',
+    'plugin.no_version_range': 'O plugin {name} não declara as versões do Docker Pilot que suporta (metadata.dockerPilot)',
+    'plugin.invalid_version_range': 'O plugin {name} declara um intervalo de versões do Docker Pilot inválido: {range}',
+    'plugin.incompatible': 'O plugin {name} suporta o Docker Pilot {range}, mas esta é a versão {version}',
+    'plugin.service_manager_unavailable': 'O gerenciador de serviços não está disponível para o plugin {name}',
+    'plugin.command_description': 'Fornecido pelo plugin {name}',
+    'plugin.command_not_found': 'Comando de plugin não encontrado: {command}',
+    'plugin.command_invalid': 'Plugin {name} declara o comando {command} sem handler',
+    'plugin.command_duplicate': 'Plugin {name} declara o comando {command}, já fornecido por {other}',
+    'plugin.command_conflict': 'Plugin {name} declara o comando {command}, que é um comando nativo',
 
     // Validation
     'validation.config_invalid': 'Configuração inválida',
+    'validation.plugin_config_unknown': 'pluginConfig.{name} não pertence a um plugin carregado',
     'validation.project_name_invalid': 'Nome do projeto deve conter apenas letras minúsculas, números, hífens e sublinhados',
     'validation.project_name_long': 'Nome do projeto não pode exceder 63 caracteres',
     'validation.service_name_invalid': 'Formato de nome de serviço inválido',
@@ -833,6 +1147,7 @@ export const messages: Messages = {
     'cli.help.usage_interactive': '  docker-pilot                        # Iniciar menu interativo (padrão)',
     'cli.help.usage_interactive_flag': '  docker-pilot --interactive          # Iniciar menu interativo',
     'cli.help.commands': 'COMANDOS:',
+    'cli.help.plugin_commands': 'COMANDOS DE PLUGINS:',
     'cli.help.cmd_up': '  up, start      Iniciar todos os serviços ou um serviço específico',
     'cli.help.cmd_down': '  down, stop     Parar todos os serviços ou um serviço específico',
     'cli.help.cmd_status': '  status, ps     Mostrar status dos serviços',
@@ -949,6 +1264,7 @@ export const messages: Messages = {
     'cmd.logs.following_all': '📜 Seguindo logs para todos os serviços...',
     'cmd.logs.stop_tip': 'Pressione Ctrl+C para parar',
     'cmd.logs.failed': '❌ Falha ao buscar logs: {error}',
+    'cmd.logs.invalid_tail': 'Valor inválido para --tail: {value} (esperado um número de linhas ou all)',
 
     // Restart Command
     'cmd.restart.loading': 'Reiniciando {service}...',
@@ -961,7 +1277,8 @@ export const messages: Messages = {
     'cmd.clean.loading': 'Limpando recursos do Docker...',
     'cmd.clean.success': '✅ Recursos do Docker limpos com sucesso',
     'cmd.clean.failed': '❌ Falha na limpeza: {error}',
-    'cmd.clean.confirm': 'Isso removerá recursos não utilizados do Docker. Continuar? (s/N): ',
+    'cmd.clean.confirm': 'Isso removerá recursos não utilizados do Docker',
+    'cmd.clean.confirm_deep': 'Isso removerá recursos não utilizados do Docker, incluindo imagens com tag',
     'cmd.clean.cancelled': 'Operação de limpeza cancelada',
     'cmd.clean.removing_containers': 'Removendo containers parados...',
     'cmd.clean.removing_images': 'Removendo imagens não utilizadas...',
@@ -1120,7 +1437,274 @@ export const messages: Messages = {
     // Mensagens da interface de compose
     'compose.available_files': 'Arquivos docker-compose disponíveis:',
     'compose.select_file_to_analyze': 'Selecione o arquivo para analisar (1-10): ',
-    'compose.select_file_to_validate': 'Selecione o arquivo para validar (1-10): '
+    'compose.select_file_to_validate': 'Selecione o arquivo para validar (1-10): ',
+
+    // Mensagens de backup
+    'backup.disabled': 'Backups estão desativados na configuração (backup.enabled = false)',
+    'backup.no_services': 'Nenhum serviço possui definição de backup em backup.services',
+    'backup.service_not_configured': 'O serviço "{service}" não possui definição de backup em backup.services',
+    'backup.starting': 'Fazendo backup de {service}...',
+    'backup.completed': 'Backup de {service} gravado em {file}',
+    'backup.failed': 'Backup de {service} falhou: {error}',
+    'backup.post_hook_failed': 'O hook pós-backup de {service} falhou, o arquivo foi mantido: {error}',
+    'backup.command_failed': 'Comando de backup terminou com código {code}: {error}',
+    'backup.pruned': '{count} arquivo(s) de backup removido(s) após o período de retenção',
+    'cmd.backup.title': '💾 Resumo do Backup',
+    'cmd.backup.summary': '{succeeded} com sucesso, {failed} com falha',
+    'cmd.backup.prune_none': 'Nenhum arquivo de backup além do período de retenção',
+    'cmd.backup.unknown_service': 'O serviço "{service}" não possui definição de backup',
+    'cli.help.cmd_backup': '  backup         Fazer backup dos serviços definidos em backup.services',
+    'cli.help.example_backup': '  docker-pilot backup postgres        # Fazer backup do serviço postgres',
+
+    // Mensagens de restauração
+    'backup.no_archives': 'Nenhum arquivo de backup encontrado para {service}',
+    'backup.invalid_timestamp': 'Timestamp inválido "{timestamp}"',
+    'backup.archive_not_found': 'Nenhum arquivo de backup de {service} feito em ou antes de {timestamp}',
+    'backup.restore_not_configured': 'O serviço "{service}" não possui restoreCommand em backup.services',
+    'backup.manifest_missing': 'Manifesto de checksum ausente para {file}; o arquivo não pode ser verificado',
+    'backup.checksum_mismatch': 'Checksum divergente para {file}; o arquivo está corrompido ou foi modificado',
+    'backup.checksum_verified': 'Checksum verificado para {file}',
+    'backup.safety_backup': 'Backup de segurança dos dados atuais gravado em {file}',
+    'backup.safety_backup_failed': 'Backup de segurança falhou, restauração abortada: {error}',
+    'backup.restore_starting': 'Restaurando {service} a partir de {file}...',
+    'backup.restore_completed': 'Restauração de {service} concluída',
+    'backup.restore_failed': 'Restauração de {service} falhou: {error}',
+    'backup.restore_command_failed': 'Comando de restauração terminou com código {code}: {error}',
+    'cmd.restore.catalog_title': '📚 Catálogo de Backups',
+    'cmd.restore.catalog_empty': 'Nenhum arquivo de backup encontrado em {directory}',
+    'cmd.restore.column_service': 'SERVIÇO',
+    'cmd.restore.column_timestamp': 'DATA/HORA',
+    'cmd.restore.column_size': 'TAMANHO',
+    'cmd.restore.column_checksum': 'CHECKSUM (SHA-256)',
+    'cmd.restore.no_manifest': '(sem manifesto)',
+    'cmd.restore.selected': 'Arquivo selecionado: {file} ({timestamp})',
+    'cmd.restore.confirm': 'Restaurar {service} de {timestamp}? Os dados atuais de {service} serão substituídos (um backup de segurança é feito antes)',
+    'base.confirm_prompt': 'Continuar? (s/N): ',
+    'base.confirm_type_prompt': 'Digite "{text}" para confirmar: ',
+    'base.confirm_type_mismatch': 'O texto de confirmação não confere',
+    'base.confirmation_required_non_interactive': 'Esta ação requer confirmação; execute em um terminal interativo ou use --yes',
+    'cmd.restore.success': '{service} restaurado a partir de {file}',
+    'cmd.restore.undo_hint': 'Para desfazer, restaure o backup de segurança: docker-pilot restore {service} --at {timestamp}',
+    'cli.help.cmd_restore': '  restore        Restaurar um serviço a partir de um arquivo de backup',
+    'cli.help.example_restore': '  docker-pilot restore postgres       # Restaurar postgres do backup mais recente',
+
+    // Mensagens de criptografia de backup
+    'backup.encryption_key_missing': 'Chave de criptografia de backup não encontrada; defina a variável de ambiente {env} ou backup.encryptionKeyFile',
+    'backup.encryption_key_file_missing': 'Arquivo de chave de criptografia de backup não encontrado: {file}',
+    'backup.archive_unreadable': 'O arquivo {file} falhou na verificação: {error}',
+    'cmd.backup.verifying': 'Verificando {count} arquivo(s) de backup...',
+    'cmd.backup.verify_none': 'Nenhum arquivo de backup para verificar',
+    'cmd.backup.verify_summary': '{valid} arquivo(s) válido(s), {invalid} inválido(s)',
+    'cmd.backup.encrypted': '(criptografado)',
+
+    // Mensagens do agendador e daemon
+    'scheduler.no_schedule': 'Nenhum agendamento de backup configurado (defina backup.schedule e backup.enabled)',
+    'scheduler.catching_up': 'O backup agendado para {time} foi perdido enquanto o daemon estava parado, executando agora',
+    'scheduler.tick_failed': 'O agendador de backup falhou ao executar',
+    'scheduler.state_unreadable': 'Não foi possível ler o estado do agendador em {file}, iniciando do zero',
+    'scheduler.state_save_failed': 'Não foi possível salvar o estado do agendador em {file}: {error}',
+    'cmd.daemon.nothing_to_schedule': 'Nada para executar: defina backup.schedule (e backup.enabled) ou habilite monitoring na configuração',
+    'cmd.daemon.starting': 'Iniciando daemon com agendamento de backup "{schedule}"...',
+    'cmd.daemon.started': 'Daemon em execução, pressione Ctrl+C para parar',
+    'cmd.daemon.next_run': 'Próximo backup: {time}',
+    'cmd.daemon.stopping': '{signal} recebido, parando daemon...',
+    'cmd.daemon.stopped': 'Daemon parado',
+    'cmd.daemon.failed': 'Daemon falhou: {error}',
+    'cmd.daemon.backup_started': 'Backup agendado iniciado ({trigger})',
+    'cmd.daemon.backup_succeeded': 'Backup agendado concluído: {count} serviço(s) salvos',
+    'cmd.daemon.backup_failed': 'Backup agendado falhou: {error}',
+    'cli.help.cmd_daemon': '  daemon         Executar backups agendados e alertas em primeiro plano',
+    'cli.help.example_daemon': '  docker-pilot daemon                 # Executar backups conforme backup.schedule',
+
+    // Mensagens de armazenamento remoto de backup
+    'backup.uploaded': 'Enviado para o armazenamento {provider}: {key}',
+    'backup.upload_failed': 'Envio do backup de {service} para o armazenamento remoto falhou: {error}',
+    'backup.downloading': 'Baixando {key} do armazenamento {provider}...',
+    'backup.remote_not_configured': 'O arquivo só está disponível remotamente, mas nenhum armazenamento remoto está configurado (backup.cloud)',
+    'backup.remote_list_failed': 'Não foi possível listar os backups remotos: {error}',
+    'backup.remote_prune_failed': 'Não foi possível aplicar a retenção aos backups remotos: {error}',
+    'cmd.restore.column_location': 'LOCAL',
+    'cmd.restore.location_local': 'local',
+    'cmd.restore.location_remote': 'remoto',
+    'cmd.restore.location_both': 'local+remoto',
+    'cmd.restore.remote_checksum': '(verificado ao baixar)',
+
+    // Mensagens de volumes
+    'volume.not_found': 'Volume "{volume}" não encontrado',
+    'volume.invalid_name': 'Nome de volume inválido "{volume}"',
+    'volume.already_exists': 'O volume "{volume}" já existe',
+    'volume.no_snapshots': 'Nenhum snapshot encontrado para o volume {volume}',
+    'volume.snapshot_not_found': 'Nenhum snapshot de {volume} feito em ou antes de {timestamp}',
+    'volume.snapshot_starting': 'Criando snapshot do volume {volume}...',
+    'volume.snapshot_completed': 'Snapshot de {volume} gravado em {file}',
+    'volume.restore_starting': 'Restaurando volume {volume} a partir de {file}...',
+    'volume.restore_completed': 'Volume {volume} restaurado',
+    'volume.clone_starting': 'Clonando volume {source} para {destination}...',
+    'volume.clone_completed': 'Volume {source} clonado para {destination}',
+    'volume.create_failed': 'Falha ao criar o volume {volume}: {error}',
+    'volume.helper_failed': 'O contêiner auxiliar falhou: {error}',
+    'volume.in_use': 'O volume {volume} está em uso por contêineres em execução ({containers}); pare-os antes de restaurar',
+    'volume.in_use_warning': 'O volume {volume} está em uso por contêineres em execução ({containers}); pare-os para uma cópia consistente',
+    'cmd.volume.title': '💽 Volumes',
+    'cmd.volume.none': 'Nenhum volume configurado ou encontrado para este projeto',
+    'cmd.volume.configured': 'configurado',
+    'cmd.volume.external': 'externo',
+    'cmd.volume.missing': 'não criado',
+    'cmd.volume.snapshots_title': '📸 Snapshots de Volumes',
+    'cmd.volume.no_snapshots': 'Nenhum snapshot de volume encontrado',
+    'cmd.volume.name_required': 'O nome do volume é obrigatório',
+    'cmd.volume.clone_usage': 'Uso: docker-pilot volume clone <origem> <destino>',
+    'cmd.volume.unknown_action': 'Ação de volume desconhecida: {action}',
+    'cmd.volume.confirm_restore': 'Restaurar o volume {volume} de {timestamp}? O conteúdo atual será substituído (um snapshot de segurança é feito antes)',
+    'cmd.volume.restored': 'Volume {volume} restaurado do snapshot {timestamp}',
+    'cmd.volume.undo_hint': 'Para desfazer, restaure o snapshot de segurança: docker-pilot volume restore {volume} --at {timestamp}',
+    'cli.help.cmd_volume': '  volume         Snapshot, restauração e clonagem de volumes Docker',
+    'cli.help.example_volume': '  docker-pilot volume clone db db_bak  # Clonar um volume antes de uma mudança arriscada',
+
+    // Mensagens do monitor de serviços
+    'monitor.disabled': 'O monitoramento está desabilitado (defina monitoring.enabled)',
+    'monitor.sample_failed': 'Falha ao coletar o uso de recursos dos serviços: {error}',
+    'cmd.daemon.monitor_starting': 'Monitorando serviços a cada {interval}s...',
+    'cmd.daemon.history_enabled': 'Gravando histórico de métricas (mantido por {retention} dia(s))',
+    'cmd.daemon.alerts_enabled': 'Alertando quando CPU > {cpu}% ou memória > {memory}% por {duration}s',
+    'cmd.daemon.alert_firing': 'ALERTA {service}: {metric} em {value}% (limite {threshold}%)',
+    'cmd.daemon.alert_resolved': 'RESOLVIDO {service}: {metric} voltou para {value}%',
+
+    // Mensagens de entrega de alertas
+    'alerts.summary_firing': '{service} {metric} em {value}% (limite {threshold}%)',
+    'alerts.summary_resolved': '{service} {metric} voltou para {value}% (limite {threshold}%)',
+    'alerts.delivery_failed': 'Falha ao entregar o alerta {alert} via {channel}: {error}',
+    'cmd.daemon.no_alert_channels': 'Nenhum canal de alerta configurado: os alertas são apenas registrados no log (defina monitoring.alerts.webhook ou monitoring.alerts.email)',
+
+    // Mensagens de estatísticas e histórico de métricas
+    'metrics.write_failed': 'Falha ao gravar o histórico de métricas: {error}',
+    'cmd.stats.title': '📈 Uso de Recursos',
+    'cmd.stats.no_running': 'Nenhum serviço em execução para mostrar estatísticas',
+    'cmd.stats.invalid_duration': 'Duração inválida "{duration}" (use por exemplo 30m, 1h, 7d)',
+    'cmd.stats.history_title': '📈 Histórico de Uso de Recursos - últimos {duration} (desde {since})',
+    'cmd.stats.no_history': 'Nenhuma métrica gravada nos últimos {duration} ({directory})',
+    'cmd.stats.no_history_hint': '💡 Execute "docker-pilot daemon" para gravar o histórico de métricas',
+    'cmd.stats.recreated': '↻ Contêiner recriado em {time}',
+    'cli.help.cmd_stats': '  stats          Mostrar uso de recursos, ao vivo ou como histórico em sparklines',
+    'cli.help.example_stats': '  docker-pilot stats --history 1h     # Sparklines e mín/méd/máx da última hora',
+
+    // Mensagens do exportador Prometheus
+    'metrics.listen_failed': 'Não foi possível servir métricas em {address}: {error}',
+    'metrics.scrape_failed': 'Falha ao coletar métricas: {error}',
+    'cmd.daemon.invalid_metrics_port': 'Porta de métricas inválida "{port}" (esperado 1-65535)',
+    'cmd.daemon.metrics_serving': 'Servindo métricas Prometheus em {url}',
+    'cmd.daemon.plugin_reload_failed': 'Falha ao recarregar o plugin {name}: {error}',
+
+    // Painel ao vivo
+    'dashboard.requires_tty': 'O painel ao vivo precisa de um terminal interativo; mostrando o status atual.',
+    'dashboard.loading': 'Carregando...',
+    'dashboard.updated': 'Atualizado {time}',
+    'dashboard.no_services': 'Nenhum serviço encontrado',
+    'dashboard.logs_title': 'Logs: {service}',
+    'dashboard.logs_failed': 'Não foi possível acompanhar os logs deste serviço',
+    'dashboard.refresh_failed': 'Falha ao atualizar: {error}',
+    'dashboard.action_running': 'Executando {action} em {service}...',
+    'dashboard.action_success': '{service}: {action} concluído',
+    'dashboard.action_failed': '{service}: {action} falhou: {error}',
+    'dashboard.shell_failed': 'Shell em {service} falhou: {error}',
+    'dashboard.keys': '↑/↓ selecionar   r reiniciar   s parar   u iniciar   h/Enter shell   q sair',
+
+    // Observador de desenvolvimento
+    'dev.hot_reload_disabled': 'O hot reload está desabilitado (defina development.hotReload como true)',
+    'dev.nothing_to_watch': 'Nada para observar: defina development.watchFiles ou um build.context para algum serviço',
+    'dev.path_missing': '{path} não será observado: não existe',
+    'dev.watch_failed': 'Falha ao observar {path}: {error}',
+    'cmd.dev.invalid_debounce': 'Debounce inválido "{value}": informe um número de milissegundos',
+    'cmd.dev.watching': '👀 Observando {path}',
+    'cmd.dev.watching_build_contexts': 'development.watchFiles está vazio, observando o build context de cada serviço',
+    'cmd.dev.started': 'Observando alterações, pressione Ctrl+C para parar',
+    'cmd.dev.change': '📝 {file} → {targets}',
+    'cmd.dev.change_ignored': '{file} foi alterado mas não pertence a nenhum serviço',
+    'cmd.dev.rebuild_start': 'Reconstruindo e recriando {service} ({files})...',
+    'cmd.dev.restart_start': 'Reiniciando {service} ({files})...',
+    'cmd.dev.rebuild_done': '{service} reconstruído e recriado',
+    'cmd.dev.restart_done': '{service} reiniciado',
+    'cmd.dev.rebuild_failed': 'Falha ao reconstruir {service}: {error}',
+    'cmd.dev.restart_failed': 'Falha ao reiniciar {service}: {error}',
+    'cmd.dev.stopping': '{signal} recebido, parando o observador...',
+    'cmd.dev.stopped': 'Observador parado',
+    'cli.help.cmd_dev': '  dev            Observar arquivos e reconstruir ou reiniciar os serviços afetados',
+    'cli.help.example_dev': '  docker-pilot dev                    # Reconstruir/reiniciar serviços conforme seus arquivos mudam',
+
+    // Migrações e seeds
+    'task.migrate_running': 'Executando migrações de {service}: {command}',
+    'task.seed_running': 'Populando {service}: {command}',
+    'task.migrate_success': 'Migrações de {service} concluídas',
+    'task.seed_success': '{service} populado',
+    'task.migrate_failed': 'Falha nas migrações de {service}',
+    'task.seed_failed': 'Falha ao popular {service}',
+    'task.not_defined': 'O serviço {service} não tem comando {task} (defina services.{service}.{task})',
+    'task.none_defined': 'Nenhum serviço define um comando {task}',
+    'task.completed': '{task} concluído para {count} serviço(s)',
+    'task.not_ready': '{service} não ficou saudável, pulando suas migrações e seeds',
+    'task.seed_production': 'Seed recusado: development.environment é production',
+    'task.seed_skipped_production': 'development.seedData está ativo mas o ambiente é production, seeds ignorados',
+    'cli.help.cmd_migrate': '  migrate        Executar migrações de banco dos serviços',
+    'cli.help.cmd_seed': '  seed           Popular bancos com dados de desenvolvimento',
+    'cli.help.example_migrate': '  docker-pilot migrate api            # Executar o comando migrate do serviço api',
+
+    // Plugin command
+    'cmd.plugin.title': '🧩 Plugins',
+    'cmd.plugin.none': 'Nenhum plugin configurado (adicione com docker-pilot plugin enable <nome>)',
+    'cmd.plugin.failed': 'não carregado: {error}',
+    'cmd.plugin.name_required': 'O nome do plugin é obrigatório',
+    'cmd.plugin.unknown_action': 'Ação de plugin desconhecida: {action}. Ações disponíveis: list, info, enable, disable, reload',
+    'cmd.plugin.enabled': 'Plugin {name} {version} habilitado',
+    'cmd.plugin.disabled': 'Plugin {name} desabilitado',
+    'cmd.plugin.reloaded': 'Plugin {name} recarregado ({version})',
+    'cmd.plugin.daemon_notified': 'Pedido de recarga enviado ao daemon em execução (pid {pid})',
+    'cmd.plugin.daemon_unreachable': 'Não foi possível notificar o daemon em execução: {error}',
+    'cmd.plugin.version': 'Versão',
+    'cmd.plugin.description': 'Descrição',
+    'cmd.plugin.author': 'Autor',
+    'cmd.plugin.supports': 'Suporta',
+    'cmd.plugin.source': 'Origem',
+    'cmd.plugin.commands': 'Comandos',
+    'cmd.plugin.hooks': 'Hooks',
+    'cmd.plugin.homepage': 'Página',
+    'cmd.plugin.none_value': '-',
+    'cli.help.cmd_plugin': '  plugin         Listar, inspecionar, habilitar, desabilitar e recarregar plugins',
+    'cli.help.example_plugin': '  docker-pilot plugin enable docker-pilot-slack  # Carregar um plugin do npm e adicioná-lo à configuração',
+
+    // Perfis de ambiente
+    'config.profile_active': 'Usando o perfil {environment} ({overlay})',
+    'config.profile_no_overlay': 'sem arquivo de sobreposição',
+    'config.profile_compose': 'Arquivo compose deste ambiente: {file}',
+    'cli.invalid_environment': 'Ambiente desconhecido "{environment}", esperado um de: {environments}',
+    'cli.help.opt_env': '  --env <nome>         Perfil de ambiente (development, staging, production)',
+
+    // Structured output
+    'cli.invalid_output': 'Formato de saída desconhecido "{format}", esperado um de: {formats}',
+    'cli.output_requires_command': 'O menu interativo não tem saída estruturada; informe um comando com --output',
+    'cli.help.opt_output': '  --output <formato>   Imprimir o resultado como documento json ou yaml no stdout (logs vão para o stderr)',
+    'cli.help.example_output': '  docker-pilot status --output json                # Status dos serviços legível por máquina',
+    'cli.help.exit_codes': 'CÓDIGOS DE SAÍDA:',
+    'cli.help.exit_success': '  0  Sucesso',
+    'cli.help.exit_failure': '  1  O comando falhou',
+    'cli.help.exit_usage': '  2  Comando desconhecido ou valor de opção inválido',
+    'cli.help.exit_docker': '  3  Docker não está instalado ou não está rodando',
+    'cli.help.exit_cancelled': '  4  Uma ação destrutiva não foi confirmada (use --yes fora de um terminal)',
+
+    // Autocompletar do shell
+    'cmd.completion.invalid_shell': 'Shell desconhecido: {shell}. Shells suportados: {shells}',
+    'cli.help.cmd_completion': '  completion     Gerar scripts de autocompletar para bash, zsh ou fish',
+    'cli.help.example_completion': '  source <(docker-pilot completion bash)        # Habilitar o autocompletar no shell atual',
+
+    // Opções de comandos
+    'base.subcommands': 'Subcomandos',
+    'base.options': 'Opções',
+    'base.option_default': 'padrão: {value}',
+    'base.option_repeatable': 'pode ser repetida',
+    'base.unknown_option': 'Opção desconhecida {option} para {command}',
+    'base.option_requires_value': 'A opção {option} requer um valor',
+    'base.invalid_boolean': 'Valor inválido para {option}: {value} (esperado true ou false)',
+    'base.invalid_number': 'Valor inválido para {option}: {value} não é um número',
+    'cli.use_command_help': 'Use docker-pilot {command} --help para ver suas opções'
   }
 };
 